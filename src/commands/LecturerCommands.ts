@@ -4,6 +4,7 @@ import * as path from 'path';
 import { LecturerTreeDataProvider } from '../ui/tree/lecturer/LecturerTreeDataProvider';
 import { OrganizationTreeItem, CourseFamilyTreeItem, CourseTreeItem, CourseContentTreeItem, CourseFolderTreeItem, CourseContentTypeTreeItem, CourseGroupTreeItem, CourseMemberTreeItem } from '../ui/tree/lecturer/LecturerTreeItems';
 import { CourseGroupCommands } from './lecturer/courseGroupCommands';
+import { GradebookExportCommands } from './lecturer/gradebookExportCommands';
 import { ComputorApiService } from '../services/ComputorApiService';
 import { CourseWebviewProvider } from '../ui/webviews/CourseWebviewProvider';
 import { CourseContentWebviewFactory } from '../ui/webviews/content/CourseContentWebviewFactory';
@@ -21,6 +22,13 @@ import { ReleaseValidationWebviewProvider } from '../ui/webviews/ReleaseValidati
 import { CourseProgressOverviewWebviewProvider } from '../ui/webviews/CourseProgressOverviewWebviewProvider';
 import { CourseMemberProgressWebviewProvider } from '../ui/webviews/CourseMemberProgressWebviewProvider';
 import { ScopeMembershipWebviewProvider } from '../ui/webviews/ScopeMembershipWebviewProvider';
+import { SubmissionSimilarityWebviewProvider } from '../ui/webviews/SubmissionSimilarityWebviewProvider';
+import { TutorWorkloadWebviewProvider } from '../ui/webviews/TutorWorkloadWebviewProvider';
+import { VersionUpgradePreviewWebviewProvider } from '../ui/webviews/VersionUpgradePreviewWebviewProvider';
+import { ReleaseCalendarWebviewProvider } from '../ui/webviews/ReleaseCalendarWebviewProvider';
+import { ReleaseScheduleService } from '../services/ReleaseScheduleService';
+import { ScheduledRelease } from '../utils/releaseSchedule';
+import { formatLocalDateTime, parseLocalDateTime } from '../utils/localDateTime';
 import { hasExampleAssigned, getExampleVersionId, classifyReleaseContents } from '../utils/deploymentHelpers';
 import type { ReleaseCandidate } from '../utils/deploymentHelpers';
 import { HttpError } from '../http/errors/HttpError';
@@ -54,6 +62,7 @@ export class LecturerCommands {
   private courseMemberWebviewProvider: CourseMemberWebviewProvider;
   private courseMemberImportWebviewProvider: CourseMemberImportWebviewProvider;
   private courseGroupCommands: CourseGroupCommands;
+  private gradebookExportCommands: GradebookExportCommands;
   private messagesWebviewProvider: MessagesWebviewProvider;
   private commentsWebviewProvider: CourseMemberCommentsWebviewProvider;
   private deploymentInfoWebviewProvider: DeploymentInfoWebviewProvider;
@@ -61,6 +70,11 @@ export class LecturerCommands {
   private courseProgressOverviewWebviewProvider: CourseProgressOverviewWebviewProvider;
   private courseMemberProgressWebviewProvider: CourseMemberProgressWebviewProvider;
   private scopeMembershipWebviewProvider: ScopeMembershipWebviewProvider;
+  private similarityWebviewProvider: SubmissionSimilarityWebviewProvider;
+  private tutorWorkloadWebviewProvider: TutorWorkloadWebviewProvider;
+  private versionUpgradePreviewProvider: VersionUpgradePreviewWebviewProvider;
+  private releaseSchedule: ReleaseScheduleService;
+  private releaseCalendarWebviewProvider: ReleaseCalendarWebviewProvider;
 
   constructor(
     private context: vscode.ExtensionContext,
@@ -95,7 +109,16 @@ export class LecturerCommands {
     this.courseProgressOverviewWebviewProvider = new CourseProgressOverviewWebviewProvider(context, this.apiService);
     this.courseMemberProgressWebviewProvider = new CourseMemberProgressWebviewProvider(context, this.apiService);
     this.scopeMembershipWebviewProvider = new ScopeMembershipWebviewProvider(context, this.apiService);
+    this.similarityWebviewProvider = new SubmissionSimilarityWebviewProvider(context, this.apiService);
+    this.tutorWorkloadWebviewProvider = new TutorWorkloadWebviewProvider(context, this.apiService);
+    this.versionUpgradePreviewProvider = new VersionUpgradePreviewWebviewProvider(context, this.apiService);
+    this.releaseSchedule = ReleaseScheduleService.getInstance();
+    this.releaseCalendarWebviewProvider = new ReleaseCalendarWebviewProvider(context, this.releaseSchedule, {
+      releaseNow: entry => this.releaseScheduledContent(entry),
+      reschedule: entry => this.promptReleaseDate(entry)
+    });
     this.courseGroupCommands = new CourseGroupCommands(this.apiService, this.treeDataProvider);
+    this.gradebookExportCommands = new GradebookExportCommands(this.apiService);
   }
 
   registerCommands(): void {
@@ -232,6 +255,26 @@ export class LecturerCommands {
       await this.viewDeploymentInfo(item);
     });
 
+    register('computor.lecturer.similarityReport', async (item: CourseContentTreeItem) => {
+      await this.similarityWebviewProvider.open({
+        courseId: item.course.id,
+        courseContentId: item.courseContent.id,
+        contentTitle: item.courseContent.title || item.courseContent.path,
+        exampleVersionId: getExampleVersionId(item.courseContent)
+      });
+    });
+
+    // Per-tutor grading load and distribution of ungraded submissions
+    register('computor.lecturer.showTutorWorkload', async (item: CourseContentTreeItem) => {
+      if (!item?.courseContent) { return; }
+      await this.tutorWorkloadWebviewProvider.open({
+        courseId: item.course.id,
+        courseTitle: item.course.title || item.course.path,
+        courseContentId: item.courseContent.id,
+        contentTitle: item.courseContent.title || item.courseContent.path
+      });
+    });
+
     // GitLab repository opening
     register('computor.lecturer.openGitLabRepo', async (item: CourseTreeItem | CourseMemberTreeItem) => {
       await this.openGitLabRepository(item);
@@ -242,6 +285,33 @@ export class LecturerCommands {
       await this.releaseCourseContent(item);
     });
 
+    // Release planning
+    register('computor.lecturer.setReleaseDate', async (item: CourseContentTreeItem) => {
+      if (!item?.courseContent) { return; }
+      await this.promptReleaseDate({
+        courseId: item.course.id,
+        courseTitle: item.course.title || item.course.path,
+        contentId: item.courseContent.id,
+        contentPath: item.courseContent.path,
+        contentTitle: item.courseContent.title || item.courseContent.path,
+        releaseAt: item.scheduledRelease?.releaseAt ?? ''
+      });
+    });
+
+    register('computor.lecturer.clearReleaseDate', async (item: CourseContentTreeItem) => {
+      if (!item?.courseContent) { return; }
+      await this.releaseSchedule.remove(item.courseContent.id);
+    });
+
+    register('computor.lecturer.showReleaseCalendar', async (item?: CourseTreeItem) => {
+      const course = item instanceof CourseTreeItem ? item.course : undefined;
+      await this.releaseCalendarWebviewProvider.open(course?.id, course ? (course.title || course.path) : undefined);
+    });
+
+    this.context.subscriptions.push(
+      this.releaseSchedule.onDidBecomeDue(entries => void this.handleDueReleases(entries))
+    );
+
     // Release from webview (accepts course data directly)
     register('computor.lecturer.releaseCourseContentFromWebview', async (courseData: any) => {
       await this.releaseCourseContentFromWebview(courseData);
@@ -287,6 +357,16 @@ export class LecturerCommands {
       }
     });
 
+    // Export member × content grades (from the course node or the progress overview)
+    register('computor.lecturer.exportGradebook', async (itemOrId: CourseTreeItem | string) => {
+      const courseId = typeof itemOrId === 'string' ? itemOrId : itemOrId?.course?.id;
+      if (!courseId) {
+        vscode.window.showWarningMessage('Select a course to export.');
+        return;
+      }
+      await this.gradebookExportCommands.exportGradebook(courseId);
+    });
+
     // Course member progress - shows detailed progress for a single student
     register('computor.lecturer.showCourseMemberProgress', async (itemOrId: CourseMemberTreeItem | string, memberName?: string) => {
       if (typeof itemOrId === 'string') {
@@ -1630,45 +1710,14 @@ export class LecturerCommands {
         return;
       }
 
-      interface UpdateQuickPickItem extends vscode.QuickPickItem {
-        contentId: string;
-      }
-
-      const items: UpdateQuickPickItem[] = updatableItems.map(({ content, deployment }) => ({
-        label: `$(sync) ${content.title || content.path}`,
-        description: `v${deployment.version_tag || '?'} → v${deployment.latest_version_tag || 'latest'}`,
-        picked: true,
-        contentId: content.id
-      }));
-
-      const selected = await vscode.window.showQuickPick(items, {
-        canPickMany: true,
-        title: `Update example versions${scope?.label ? ` — ${scope.label}` : ''}`,
-        placeHolder: `${updatableItems.length} assignment(s) have newer versions available`
-      });
-
-      if (!selected || selected.length === 0) { return; }
-
-      const selectedIds = new Set(selected.map(s => s.contentId));
-
-      await vscode.window.withProgress({
-        location: vscode.ProgressLocation.Notification,
-        title: 'Updating example versions...',
-        cancellable: false
-      }, async () => {
-        const contentIds = [...selectedIds];
-        const result = await this.apiService.lecturerBatchUpgradeVersions(courseId, contentIds);
-
-        if (result.total_failed === 0) {
-          vscode.window.showInformationMessage(`Updated ${result.total_upgraded} assignment(s) to latest example versions.`);
-        } else {
-          vscode.window.showWarningMessage(`Updated ${result.total_upgraded} assignment(s), ${result.total_failed} failed.`);
+      // Students receive the new templates, so let the lecturer review the impact first
+      await this.versionUpgradePreviewProvider.open(
+        { courseId, scopeLabel: scope?.label, items: updatableItems },
+        async (upgradedCourseId) => {
+          this.apiService.clearCourseCache(upgradedCourseId);
+          await this.treeDataProvider.forceRefreshCourse(upgradedCourseId);
         }
-      });
-
-      this.apiService.clearCourseCache(courseId);
-      await this.treeDataProvider.forceRefreshCourse(courseId);
-
+      );
     } catch (error: any) {
       console.error('Failed to batch update example versions:', error);
       const errorMessage = error?.response?.data?.detail || error.message || 'Unknown error';
@@ -1887,6 +1936,68 @@ export class LecturerCommands {
     }
   }
 
+  private async promptReleaseDate(entry: ScheduledRelease): Promise<void> {
+    const input = await vscode.window.showInputBox({
+      title: `Release date for "${entry.contentTitle}"`,
+      prompt: 'Target release date (local time). The release workflow starts when the date passes while VS Code is open.',
+      placeHolder: 'YYYY-MM-DD or YYYY-MM-DD HH:mm',
+      value: entry.releaseAt ? formatLocalDateTime(entry.releaseAt) : '',
+      validateInput: (value) => {
+        const date = parseLocalDateTime(value);
+        if (!date) {
+          return 'Use YYYY-MM-DD or YYYY-MM-DD HH:mm';
+        }
+        return date.getTime() <= Date.now() ? 'Choose a date in the future' : null;
+      }
+    });
+    const date = input ? parseLocalDateTime(input) : undefined;
+    if (!date) {
+      return;
+    }
+    await this.releaseSchedule.schedule({ ...entry, releaseAt: date.toISOString() });
+    vscode.window.showInformationMessage(`"${entry.contentTitle}" is scheduled for release on ${formatLocalDateTime(date)}.`);
+  }
+
+  private async handleDueReleases(entries: ScheduledRelease[]): Promise<void> {
+    const action = vscode.workspace.getConfiguration('computor.lecturer').get<string>('scheduledReleaseAction', 'notify');
+    for (const entry of entries) {
+      if (action === 'release') {
+        await this.releaseScheduledContent(entry);
+        await this.releaseSchedule.markTriggered(entry.contentId);
+        continue;
+      }
+      const choice = await vscode.window.showWarningMessage(
+        `Scheduled release is due: "${entry.contentTitle}" (${entry.courseTitle}, planned for ${formatLocalDateTime(entry.releaseAt)}).`,
+        'Release Now',
+        'Remind Me in 1 Hour',
+        'Open Calendar'
+      );
+      if (choice === 'Release Now') {
+        await this.releaseScheduledContent(entry);
+        // Still scheduled if the lecturer cancelled the release; the calendar keeps it as triggered
+        await this.releaseSchedule.markTriggered(entry.contentId);
+      } else if (choice === 'Remind Me in 1 Hour') {
+        await this.releaseSchedule.snooze(entry.contentId, Date.now() + 60 * 60 * 1000);
+      } else if (choice === 'Open Calendar') {
+        await this.releaseSchedule.markTriggered(entry.contentId);
+        await this.releaseCalendarWebviewProvider.open(entry.courseId, entry.courseTitle);
+      }
+      // Dismissed: not marked, so the reminder shows again next session
+    }
+  }
+
+  private async releaseScheduledContent(entry: ScheduledRelease): Promise<void> {
+    try {
+      await this.startReleaseWorkflow(entry.courseId, {
+        parentId: entry.contentId,
+        path: entry.contentPath,
+        label: entry.contentTitle
+      });
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to release course content: ${error}`);
+    }
+  }
+
   private buildReleaseScopeFromTreeItem(item: CourseTreeItem | CourseFolderTreeItem | CourseContentTreeItem): { courseId: string; scope: ReleaseScope } | undefined {
     if (item instanceof CourseTreeItem) {
       return {
@@ -2116,6 +2227,9 @@ export class LecturerCommands {
         : `Release started${scopeSuffix}. This runs in background.`;
       vscode.window.showInformationMessage(msg);
 
+      // Released contents (and the unit the release was started from) no longer need a planned date
+      await this.releaseSchedule.removeMany(scope?.parentId ? [...selectedContentIds, scope.parentId] : selectedContentIds);
+
       this.apiService.clearCourseCache(courseId);
       await this.treeDataProvider.forceRefreshCourse(courseId);
     });
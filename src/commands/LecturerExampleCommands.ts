@@ -16,7 +16,26 @@ import type { CheckoutMetadata } from '../utils/checkedOutExampleManager';
 import { ComputorTestingInstaller } from '../services/ComputorTestingInstaller';
 import { shouldExcludeExampleEntry } from '../utils/exampleExcludePatterns';
 import { computeExampleDiff } from '../utils/exampleDiffHelper';
+import {
+  BumpSuggestion,
+  SemanticExampleDiff,
+  changelogFileName,
+  computeSemanticExampleDiff,
+  isSemanticDiffEmpty,
+  suggestVersionBump,
+  summarizeSemanticDiff,
+  writeChangelogEntry
+} from '../utils/exampleChangeReview';
 import { UploadAllExamplesWebviewProvider } from '../ui/webviews/UploadAllExamplesWebviewProvider';
+import { ExampleDependencyEdgeItem, ExampleDependencyTreeProvider } from '../ui/tree/lecturer/ExampleDependencyTreeProvider';
+import { readMetaYaml, readTestDependencies } from '../utils/metaYamlHelpers';
+import {
+  ExampleDependencyGraph,
+  describeDependencyEdge,
+  findBrokenDependants,
+  resolveTransitiveDependencies,
+  withDependencyNode
+} from '../utils/exampleDependencyGraph';
 import { commandRegistrar } from './commandHelpers';
 
 /**
@@ -31,7 +50,8 @@ export class LecturerExampleCommands {
   constructor(
     private context: vscode.ExtensionContext,
     private apiService: ComputorApiService,
-    private treeProvider: LecturerExampleTreeProvider
+    private treeProvider: LecturerExampleTreeProvider,
+    private dependencyProvider: ExampleDependencyTreeProvider
   ) {
     this.exampleDetailProvider = new ExampleDetailWebviewProvider(context, apiService, treeProvider);
     this.testYamlEditorProvider = new TestYamlEditorWebviewProvider(context);
@@ -269,6 +289,23 @@ export class LecturerExampleCommands {
         this.apiService.clearExamplesCache();
       } catch {}
       this.treeProvider.refresh();
+      this.dependencyProvider.refresh();
+    });
+
+    // Dependency view
+    register('computor.lecturer.showExampleDependencies', async (item: ExampleTreeItem | ExampleDependencyEdgeItem) => {
+      await this.showExampleDependencies(item);
+    });
+
+    register('computor.lecturer.refreshExampleDependencies', () => {
+      this.dependencyProvider.refresh();
+    });
+
+    register('computor.lecturer.revealDependencyInExamples', async (item: ExampleDependencyEdgeItem) => {
+      const found = await this.treeProvider.revealExample({ identifier: item.identifier, repositoryId: item.repositoryId });
+      if (!found) {
+        vscode.window.showWarningMessage(`'${item.identifier}' not found in the examples tree.`);
+      }
     });
 
     // Reveal downloaded example in explorer
@@ -445,6 +482,7 @@ export class LecturerExampleCommands {
         vscode.window.showInformationMessage(
           `Checked out '${item.example.title}' [${resolvedTag}]`
         );
+        await this.offerDependencyCheckout(item.example.identifier, item.repository.id);
       }
     } catch (error) {
       console.error('Failed to checkout example:', error);
@@ -514,6 +552,9 @@ export class LecturerExampleCommands {
       // Reveal the (now merged) example row in the examples tree so the
       // user can immediately see + interact with the local copy.
       void this.treeProvider.revealExample({ identifier });
+      if (item.exampleInfo.example_repository_id) {
+        await this.offerDependencyCheckout(identifier, item.exampleInfo.example_repository_id);
+      }
     } catch (error) {
       console.error('Failed to checkout assignment example:', error);
       vscode.window.showErrorMessage(`Failed to checkout: ${error}`);
@@ -628,6 +669,146 @@ export class LecturerExampleCommands {
     }
   }
 
+  private async showExampleDependencies(item: ExampleTreeItem | ExampleDependencyEdgeItem): Promise<void> {
+    const identifier = item instanceof ExampleDependencyEdgeItem ? item.identifier : item?.merged?.identifier;
+    const repositoryId = item instanceof ExampleDependencyEdgeItem ? item.repositoryId : item?.merged?.repositoryId;
+    if (!identifier) {
+      vscode.window.showErrorMessage('Invalid example item');
+      return;
+    }
+    if (!repositoryId) {
+      vscode.window.showWarningMessage(`'${identifier}' has not been uploaded to a repository yet.`);
+      return;
+    }
+    this.dependencyProvider.showExample(identifier, repositoryId);
+    await vscode.commands.executeCommand('computor.lecturer.exampleDependencies.focus');
+  }
+
+  /**
+   * Offers to check out the transitive test dependencies of a freshly checked
+   * out example that have no working copy yet, so its tests can run locally.
+   */
+  private async offerDependencyCheckout(identifier: string, repositoryId: string): Promise<void> {
+    let graph: ExampleDependencyGraph;
+    try {
+      graph = await this.dependencyProvider.getGraph(repositoryId);
+    } catch (error) {
+      console.warn('Failed to load example dependencies:', error);
+      return;
+    }
+    const resolved = resolveTransitiveDependencies(graph, identifier);
+    if (resolved.missing.length > 0) {
+      vscode.window.showWarningMessage(
+        `'${identifier}' depends on examples missing from the repository: ${resolved.missing.map(describeDependencyEdge).join(', ')}`
+      );
+    }
+
+    const examplesPath = this.getExamplesDir();
+    if (!examplesPath) { return; }
+    const versionsPath = this.getVersionsDir();
+    if (!versionsPath) { return; }
+    const pending = resolved.order
+      .map(dependency => graph.nodes.get(dependency)!)
+      .filter(node => node.exampleId && node.directory && !fs.existsSync(getWorkingPath(examplesPath, node.directory)));
+    if (pending.length === 0) { return; }
+
+    const choice = await vscode.window.showInformationMessage(
+      `'${identifier}' depends on ${pending.length} example(s) without a working copy: ${pending.map(node => node.identifier).join(', ')}`,
+      'Check Out Dependencies', 'Skip'
+    );
+    if (choice !== 'Check Out Dependencies') { return; }
+
+    await vscode.window.withProgress({
+      location: vscode.ProgressLocation.Notification,
+      title: 'Checking out dependencies',
+      cancellable: false
+    }, async (progress) => {
+      const errors: string[] = [];
+      for (const [index, node] of pending.entries()) {
+        progress.report({ increment: 100 / pending.length, message: `(${index + 1}/${pending.length}) ${node.identifier}` });
+        try {
+          const exampleData = await this.apiService.downloadExample(node.exampleId!, false);
+          if (!exampleData) {
+            errors.push(`${node.identifier}: Failed to download`);
+            continue;
+          }
+          const workingDir = getWorkingPath(examplesPath, node.directory!);
+          fs.mkdirSync(workingDir, { recursive: true });
+          writeExampleFiles(exampleData.files, workingDir);
+          writeCheckoutMetadata(workingDir, {
+            exampleId: node.exampleId!,
+            repositoryId,
+            directory: node.directory!,
+            versionId: exampleData.version_id || '',
+            versionTag: exampleData.version_tag,
+            versionNumber: 0,
+            checkedOutAt: new Date().toISOString()
+          });
+
+          const versionDir = getVersionPath(versionsPath, node.directory!, exampleData.version_tag);
+          if (fs.existsSync(versionDir)) {
+            fs.rmSync(versionDir, { recursive: true, force: true });
+          }
+          fs.mkdirSync(path.dirname(versionDir), { recursive: true });
+          fs.cpSync(workingDir, versionDir, { recursive: true });
+        } catch (error) {
+          errors.push(`${node.identifier}: ${error}`);
+        }
+      }
+
+      this.treeProvider.refresh();
+      if (errors.length === 0) {
+        vscode.window.showInformationMessage(`Checked out ${pending.length} dependency example(s)`);
+      } else {
+        vscode.window.showWarningMessage(`Some dependencies could not be checked out: ${errors.slice(0, 3).join('; ')}`);
+      }
+    });
+  }
+
+  /**
+   * Problems an upload would cause or carry along: (transitive) dependencies
+   * missing from the repository or outside their constraints, cycles, and
+   * dependants whose constraint excludes the uploaded version.
+   */
+  private async collectUploadDependencyWarnings(
+    dirPath: string, repositoryId: string, exampleId: string, title: string, uploadVersion: string
+  ): Promise<string[]> {
+    let graph: ExampleDependencyGraph;
+    try {
+      graph = await this.dependencyProvider.getGraph(repositoryId);
+    } catch (error) {
+      console.warn('Failed to load example dependencies:', error);
+      return [];
+    }
+
+    const meta = readMetaYaml(dirPath);
+    const existing = exampleId ? Array.from(graph.nodes.values()).find(node => node.exampleId === exampleId) : undefined;
+    const identifier = existing?.identifier || String(meta?.slug || meta?.identifier || path.basename(dirPath));
+    const local = withDependencyNode(graph, {
+      identifier,
+      title,
+      exampleId: exampleId || undefined,
+      version: uploadVersion,
+      dependencies: readTestDependencies(meta)
+    });
+
+    const warnings: string[] = [];
+    const resolved = resolveTransitiveDependencies(local, identifier);
+    for (const edge of resolved.missing) {
+      warnings.push(`'${edge.from}' depends on '${describeDependencyEdge(edge)}', which is not in the repository.`);
+    }
+    for (const edge of resolved.unsatisfied) {
+      warnings.push(`'${edge.from}' requires ${edge.to} ${edge.constraint}, but the latest version is ${local.nodes.get(edge.to)?.version}.`);
+    }
+    if (resolved.cycle) {
+      warnings.push(`Dependency cycle: ${resolved.cycle.join(' → ')}`);
+    }
+    for (const edge of findBrokenDependants(local, identifier, uploadVersion)) {
+      warnings.push(`'${edge.from}' requires ${identifier} ${edge.constraint}, which ${uploadVersion} does not satisfy.`);
+    }
+    return warnings;
+  }
+
   private getExamplesDir(): string | undefined {
     try {
       const wsManager = WorkspaceStructureManager.getInstance();
@@ -740,23 +921,29 @@ export class LecturerExampleCommands {
     const minorBump = bumpVersion(baseVersion, 'minor');
     const majorBump = bumpVersion(baseVersion, 'major');
 
+    // Review what changed since the last uploaded version to suggest the bump
+    const review = isFirstUpload
+      ? undefined
+      : await this.reviewExampleChanges(dirPath, directory, [latestRemoteVersion, readCheckoutMetadata(dirPath)?.versionTag]);
+    if (review === null) { return; }
+
     let picked;
     if (isFirstUpload || !latestRemoteVersion) {
-      picked = await vscode.window.showQuickPick([
+      picked = await vscode.window.showQuickPick(this.withBumpSuggestion([
         { label: `Use current: ${localVersion}`, description: 'First upload', version: localVersion },
-        { label: `Patch: ${patchBump}`, description: `From ${baseVersion}`, version: patchBump },
-        { label: `Minor: ${minorBump}`, description: `From ${baseVersion}`, version: minorBump },
-        { label: `Major: ${majorBump}`, description: `From ${baseVersion}`, version: majorBump },
+        { label: `Patch: ${patchBump}`, description: `From ${baseVersion}`, version: patchBump, part: 'patch' as const },
+        { label: `Minor: ${minorBump}`, description: `From ${baseVersion}`, version: minorBump, part: 'minor' as const },
+        { label: `Major: ${majorBump}`, description: `From ${baseVersion}`, version: majorBump, part: 'major' as const },
         { label: 'Custom version...', description: '', version: '' }
-      ], { placeHolder: `Select version for first upload of "${title}"` });
+      ], review?.suggestion), { placeHolder: `Select version for first upload of "${title}"` });
     } else {
       const remoteLabel = `Latest remote: ${latestRemoteVersion}`;
-      picked = await vscode.window.showQuickPick([
-        { label: `Patch: ${patchBump}`, description: remoteLabel, version: patchBump },
-        { label: `Minor: ${minorBump}`, description: remoteLabel, version: minorBump },
-        { label: `Major: ${majorBump}`, description: remoteLabel, version: majorBump },
+      picked = await vscode.window.showQuickPick(this.withBumpSuggestion([
+        { label: `Patch: ${patchBump}`, description: remoteLabel, version: patchBump, part: 'patch' as const },
+        { label: `Minor: ${minorBump}`, description: remoteLabel, version: minorBump, part: 'minor' as const },
+        { label: `Major: ${majorBump}`, description: remoteLabel, version: majorBump, part: 'major' as const },
         { label: 'Custom version...', description: remoteLabel, version: '' }
-      ], { placeHolder: `Select version for "${title}" upload` });
+      ], review?.suggestion), { placeHolder: `Select version for "${title}" upload` });
     }
 
     if (!picked) { return; }
@@ -772,9 +959,24 @@ export class LecturerExampleCommands {
       uploadVersion = normalizeSemVer(custom);
     }
 
-    const confirm = await vscode.window.showInformationMessage(
-      `Upload "${title}" as version ${uploadVersion}?`, 'Upload', 'Cancel'
-    );
+    const changelogEntry = await vscode.window.showInputBox({
+      title: `Changelog for ${uploadVersion}`,
+      prompt: `Describe this version for ${changelogFileName} (separate entries with ";"). Leave empty to skip.`,
+      value: review ? summarizeSemanticDiff(review.diff).join('; ') : '',
+      ignoreFocusOut: true
+    });
+    if (changelogEntry === undefined) { return; }
+
+    const dependencyWarnings = await this.collectUploadDependencyWarnings(dirPath, repositoryId, exampleId, title, uploadVersion);
+    const confirm = dependencyWarnings.length > 0
+      ? await vscode.window.showWarningMessage(
+        `Upload "${title}" as version ${uploadVersion}?`,
+        { modal: true, detail: dependencyWarnings.join('\n') },
+        'Upload'
+      )
+      : await vscode.window.showInformationMessage(
+        `Upload "${title}" as version ${uploadVersion}?`, 'Upload', 'Cancel'
+      );
     if (confirm !== 'Upload') { return; }
 
     // Update meta.yaml with the chosen version before uploading
@@ -785,6 +987,15 @@ export class LecturerExampleCommands {
       return;
     }
 
+    if (changelogEntry.trim()) {
+      try {
+        writeChangelogEntry(dirPath, uploadVersion, changelogEntry.split(';').join('\n'));
+      } catch (e) {
+        vscode.window.showErrorMessage(`Failed to update ${changelogFileName}: ${e}`);
+        return;
+      }
+    }
+
     try {
       await vscode.window.withProgress({
         location: vscode.ProgressLocation.Notification,
@@ -900,6 +1111,7 @@ export class LecturerExampleCommands {
         progress.report({ increment: 20, message: 'Complete!' });
         vscode.window.showInformationMessage(`Successfully uploaded: ${title} [${uploadVersion}]`);
         this.treeProvider.refresh();
+        this.dependencyProvider.refresh();
         vscode.commands.executeCommand('computor.lecturer.refresh');
       });
     } catch (error) {
@@ -908,6 +1120,101 @@ export class LecturerExampleCommands {
     }
   }
 
+  /**
+   * Review step before bumping or uploading: lists the meta.yaml fields, test
+   * cases and files that changed since the first existing snapshot of
+   * `baseTags` and suggests the version part to bump. Picking a change opens
+   * its diff. Resolves to undefined when there is no snapshot to compare with
+   * and to null when the review is cancelled.
+   */
+  private async reviewExampleChanges(
+    dirPath: string, directory: string, baseTags: Array<string | undefined>
+  ): Promise<{ baseTag: string; diff: SemanticExampleDiff; suggestion: BumpSuggestion } | undefined | null> {
+    const versionsPath = this.getVersionsDir();
+    if (!versionsPath) { return undefined; }
+
+    const { normalizeSemVer } = await import('../utils/versionHelpers');
+    let base: { tag: string; dir: string } | undefined;
+    for (const tag of baseTags) {
+      if (!tag) { continue; }
+      const dir = [tag, normalizeSemVer(tag)]
+        .map(candidate => getVersionPath(versionsPath, directory, candidate))
+        .find(candidate => fs.existsSync(candidate) && path.resolve(candidate) !== path.resolve(dirPath));
+      if (dir) {
+        base = { tag, dir };
+        break;
+      }
+    }
+    if (!base) { return undefined; }
+
+    const diff = computeSemanticExampleDiff(base.dir, dirPath);
+    const suggestion = suggestVersionBump(diff);
+    type ReviewItem = vscode.QuickPickItem & { file?: string };
+    const items: ReviewItem[] = [{
+      label: '$(check) Continue',
+      description: isSemanticDiffEmpty(diff) ? `No changes since ${base.tag}` : `Suggested: ${suggestion.reason}`
+    }];
+    const describe = (value: unknown) => value === undefined ? '—' : JSON.stringify(value);
+    if (diff.meta.length > 0) {
+      items.push({ label: 'meta.yaml', kind: vscode.QuickPickItemKind.Separator });
+      diff.meta.forEach(change => items.push({
+        label: `$(symbol-field) ${change.field}`,
+        description: change.kind,
+        detail: `${describe(change.before)} → ${describe(change.after)}`,
+        file: 'meta.yaml'
+      }));
+    }
+    if (diff.tests.length > 0) {
+      items.push({ label: 'test.yaml', kind: vscode.QuickPickItemKind.Separator });
+      diff.tests.forEach(change => items.push({
+        label: `$(beaker) ${change.test ?? change.collection}`,
+        description: change.test ? `${change.kind} · ${change.collection}` : `collection ${change.kind}`,
+        file: 'test.yaml'
+      }));
+    }
+    const fileIcons = { added: 'diff-added', modified: 'diff-modified', removed: 'diff-removed' } as const;
+    const fileItems = (['added', 'modified', 'removed'] as const).flatMap(kind =>
+      diff.files[kind].map(file => ({ label: `$(${fileIcons[kind]}) ${file}`, description: kind, file }))
+    );
+    if (fileItems.length > 0) {
+      items.push({ label: 'Files', kind: vscode.QuickPickItemKind.Separator }, ...fileItems);
+    }
+
+    // Keep reviewing until the lecturer continues or cancels
+    for (;;) {
+      const picked = await vscode.window.showQuickPick(items, {
+        title: `Review changes since ${base.tag}`,
+        placeHolder: 'Select a change to open its diff, or continue',
+        matchOnDescription: true,
+        ignoreFocusOut: true
+      });
+      if (!picked) { return null; }
+      if (!picked.file) { break; }
+      const left = path.join(base.dir, picked.file);
+      const right = path.join(dirPath, picked.file);
+      const emptyUri = vscode.Uri.file(path.join(base.dir, '__non_existent__'));
+      await vscode.commands.executeCommand(
+        'vscode.diff',
+        fs.existsSync(left) ? vscode.Uri.file(left) : emptyUri,
+        fs.existsSync(right) ? vscode.Uri.file(right) : emptyUri,
+        `${picked.file} (${base.tag} ↔ working)`,
+        { preview: true, preserveFocus: true }
+      );
+    }
+    return { baseTag: base.tag, diff, suggestion };
+  }
+
+  /** Moves the suggested bump to the top of a version quick pick and labels it. */
+  private withBumpSuggestion<T extends vscode.QuickPickItem & { part?: BumpSuggestion['part'] }>(
+    items: T[], suggestion: BumpSuggestion | undefined
+  ): T[] {
+    if (!suggestion) { return items; }
+    const suggested = items.find(entry => entry.part === suggestion.part);
+    if (!suggested) { return items; }
+    const marked = { ...suggested, description: [suggested.description, `suggested: ${suggestion.reason}`].filter(Boolean).join(' · ') };
+    return [marked, ...items.filter(entry => entry !== suggested)];
+  }
+
   private async createNewExample(): Promise<void> {
     const examplesPath = this.getExamplesDir();
     if (!examplesPath) { return; }
@@ -1223,17 +1530,7 @@ export class LecturerExampleCommands {
 
           // Determine slug/identifier and dependencies
           const slug = (metaData?.slug || metaData?.identifier || directoryName).toString();
-          let deps: string[] = [];
-          const td = metaData?.testDependencies ?? metaData?.properties?.testDependencies;
-          if (Array.isArray(td)) {
-            deps = td.map((d: any) => {
-              if (typeof d === 'string') return d.toString();
-              if (d && typeof d === 'object') {
-                return (d.slug || d.identifier || '').toString();
-              }
-              return '';
-            }).filter(Boolean);
-          }
+          const deps = readTestDependencies(metaData).map(dep => dep.slug);
 
           examples.push({
             directory: directoryName,
@@ -1654,11 +1951,16 @@ export class LecturerExampleCommands {
     const minorBump = bumpVersion(currentVersion, 'minor');
     const majorBump = bumpVersion(currentVersion, 'major');
 
-    const picked = await vscode.window.showQuickPick([
+    const review = await this.reviewExampleChanges(
+      item.version.fullPath, item.version.metadata.directory || item.groupDirectory, [item.version.metadata.versionTag]
+    );
+    if (review === null) { return; }
+
+    const picked = await vscode.window.showQuickPick(this.withBumpSuggestion([
       { label: `Patch: ${normalized} -> ${patchBump}`, part: 'patch' as const, newVersion: patchBump },
       { label: `Minor: ${normalized} -> ${minorBump}`, part: 'minor' as const, newVersion: minorBump },
       { label: `Major: ${normalized} -> ${majorBump}`, part: 'major' as const, newVersion: majorBump }
-    ], { placeHolder: 'Select version bump type' });
+    ], review?.suggestion), { placeHolder: 'Select version bump type' });
 
     if (!picked) { return; }
 
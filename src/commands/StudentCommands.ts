@@ -18,6 +18,12 @@ import JSZip from 'jszip';
 import { commandRegistrar } from './commandHelpers';
 import { buildCourseExportZip, sanitizeContentDirName, type CourseExportFormat } from '../utils/courseExportZip';
 import { runLockedWithProgress } from '../utils/progressLock';
+import { ComputorTestingInstaller } from '../services/ComputorTestingInstaller';
+import { WorkspaceStructureManager, resolveComputorWorkspaceRoot } from '../utils/workspaceStructure';
+import { StudentDeadlineService, DeadlineReminder } from '../services/StudentDeadlineService';
+import { DeadlineActivity, StudentDeadline, describeTimeRemaining } from '../utils/studentDeadlines';
+import { formatLocalDateTime, parseLocalDateTime } from '../utils/localDateTime';
+import { formatCodeSnippet } from '../utils/messageSnippets';
 
 // (Deprecated legacy types removed)
 
@@ -32,6 +38,7 @@ export class StudentCommands {
   private testResultService: TestResultService;
   private messagesWebviewProvider: MessagesWebviewProvider;
   private contentDetailsWebviewProvider: StudentCourseContentDetailsWebviewProvider;
+  private deadlines: StudentDeadlineService;
 
   constructor(
     context: vscode.ExtensionContext,
@@ -58,6 +65,7 @@ export class StudentCommands {
       this.messagesWebviewProvider.setWebSocketService(wsService);
     }
     this.contentDetailsWebviewProvider = new StudentCourseContentDetailsWebviewProvider(context);
+    this.deadlines = StudentDeadlineService.getInstance();
     void this.courseContentTreeProvider; // Unused for now
   }
 
@@ -230,6 +238,10 @@ export class StudentCommands {
       await this.showMessages(item);
     });
 
+    register('computor.student.askAboutSelection', async () => {
+      await this.askAboutSelection();
+    });
+
     register('computor.student.exportCourseExamples', async (item?: any) => {
       await this.exportCourseExamples(item);
     });
@@ -239,6 +251,7 @@ export class StudentCommands {
         let resultPayload: any | undefined;
         let resultId: string | undefined;
         let resultArtifacts: any[] | undefined;
+        let submissionGroupId: string | undefined;
 
         // Get course content ID from the item (student tree uses courseContent, tutor tree uses content)
         const courseContentId = item?.courseContent?.id || item?.content?.id;
@@ -254,6 +267,7 @@ export class StudentCommands {
             resultPayload = result.result_json ?? result;
             resultId = result.id;
             resultArtifacts = result.result_artifacts;
+            submissionGroupId = freshCourseContent?.submission_group?.id ?? undefined;
             console.log('[showTestResults] Result payload:', JSON.stringify(resultPayload, null, 2));
             console.log('[showTestResults] Has result_json?', !!result.result_json);
             console.log('[showTestResults] Result artifacts count:', resultArtifacts?.length ?? 0);
@@ -266,11 +280,14 @@ export class StudentCommands {
             resultPayload = result.result_json ?? result;
             resultId = result.id;
             resultArtifacts = result.result_artifacts;
+            submissionGroupId = courseContent?.submission_group?.id ?? undefined;
           }
         }
 
         if (resultPayload) {
-          await vscode.commands.executeCommand('computor.results.open', resultPayload, resultId, resultArtifacts);
+          await vscode.commands.executeCommand('computor.results.open', resultPayload, resultId, resultArtifacts, {
+            submissionGroupId
+          });
         }
 
         try {
@@ -1093,10 +1110,181 @@ export class StudentCommands {
       }
     });
 
+    // Run the assignment's tests on the working copy without committing or submitting
+    register('computor.student.runTestsLocally', async (item: any) => {
+      if (!item || !item.courseContent) {
+        vscode.window.showErrorMessage('No assignment selected');
+        return;
+      }
+
+      let directory = (item.courseContent as any).directory as string | undefined;
+      const assignmentTitle = item.courseContent.title || item.courseContent.path;
+
+      if (!directory || !fs.existsSync(directory)) {
+        const courseId = CourseSelectionService.getInstance().getCurrentCourseId();
+        if (courseId) {
+          const contents = await this.apiService.getStudentCourseContents(courseId) || [];
+          if (this.repositoryManager) {
+            this.repositoryManager.updateExistingRepositoryPaths(courseId, contents);
+          }
+          const match = contents.find(c => c.id === item.courseContent.id);
+          directory = (match as any)?.directory as string | undefined;
+        }
+      }
+
+      if (!directory || !fs.existsSync(directory)) {
+        vscode.window.showErrorMessage('Assignment directory not found. Please clone the repository first.');
+        return;
+      }
+
+      try {
+        await this.saveAllFilesInDirectory(directory);
+        const submissionGroupId = item.submissionGroup?.id ? String(item.submissionGroup.id) : undefined;
+        await ComputorTestingInstaller.getInstance().runLocalStudentTests(directory, assignmentTitle, submissionGroupId);
+      } catch (error: any) {
+        console.error('Failed to run local tests:', error);
+        vscode.window.showErrorMessage(`Failed to run tests locally: ${error?.message || error}`);
+      }
+    });
+
     // Help command
     register('computor.student.help', async (item?: any) => {
       await this.showHelp(item);
     });
+
+    // Deadlines
+    register('computor.student.setDeadline', async (item?: any) => {
+      const content = item?.courseContent as CourseContentStudentList | undefined;
+      if (!content?.course_id) { return; }
+      await this.promptDeadline({
+        courseId: content.course_id,
+        contentId: content.id,
+        contentTitle: content.title || content.path,
+        dueAt: this.deadlines.get(content.id)?.dueAt ?? ''
+      });
+    });
+
+    register('computor.student.clearDeadline', async (item?: any) => {
+      const contentId = item?.courseContent?.id;
+      if (typeof contentId !== 'string') { return; }
+      await this.deadlines.remove(contentId);
+    });
+
+    register('computor.student.showDeadlines', async () => {
+      await this.showDeadlines();
+    });
+
+    register('computor.student.sortByDeadline', async () => {
+      await this.deadlines.setSortByDeadline(true);
+    });
+
+    register('computor.student.sortByPosition', async () => {
+      await this.deadlines.setSortByDeadline(false);
+    });
+
+    this.deadlines.setActivityResolver(deadline => this.resolveDeadlineActivity(deadline));
+    this.context.subscriptions.push(
+      this.deadlines.onDidRequireReminder(reminder => void this.showDeadlineReminder(reminder))
+    );
+  }
+
+  private async promptDeadline(entry: StudentDeadline): Promise<void> {
+    const input = await vscode.window.showInputBox({
+      title: `Deadline for "${entry.contentTitle}"`,
+      prompt: 'Due date (local time). Shown in the course tree and the status bar.',
+      placeHolder: 'YYYY-MM-DD or YYYY-MM-DD HH:mm',
+      value: entry.dueAt ? formatLocalDateTime(entry.dueAt) : '',
+      validateInput: (value) => parseLocalDateTime(value) ? null : 'Use YYYY-MM-DD or YYYY-MM-DD HH:mm'
+    });
+    const date = input ? parseLocalDateTime(input) : undefined;
+    if (!date) {
+      return;
+    }
+    await this.deadlines.set({ ...entry, dueAt: date.toISOString() });
+  }
+
+  private async showDeadlines(): Promise<void> {
+    const entries = this.deadlines.getAll();
+    if (entries.length === 0) {
+      vscode.window.showInformationMessage('No deadlines set. Right-click an assignment → Set Deadline… to add one.');
+      return;
+    }
+    const now = new Date();
+    const picked = await vscode.window.showQuickPick(
+      entries.map(entry => ({
+        label: entry.contentTitle,
+        description: formatLocalDateTime(entry.dueAt),
+        detail: describeTimeRemaining(entry.dueAt, now),
+        entry
+      })),
+      { title: 'Deadlines', placeHolder: 'Select a deadline to change or remove it' }
+    );
+    if (!picked) {
+      return;
+    }
+    const action = await vscode.window.showQuickPick(['Change Deadline…', 'Remove Deadline'], { title: picked.entry.contentTitle });
+    if (action === 'Change Deadline…') {
+      await this.promptDeadline(picked.entry);
+    } else if (action === 'Remove Deadline') {
+      await this.deadlines.remove(picked.entry.contentId);
+    }
+  }
+
+  private async showDeadlineReminder(reminder: DeadlineReminder): Promise<void> {
+    const { deadline } = reminder;
+    const content = this.treeDataProvider.findCourseContent(deadline.courseId, deadline.contentId);
+    const actions = content ? ['Submit Now', 'Reminder Settings'] : ['Reminder Settings'];
+    const choice = await vscode.window.showWarningMessage(
+      `"${deadline.contentTitle}" is due in ${describeTimeRemaining(deadline.dueAt, new Date())} (${formatLocalDateTime(deadline.dueAt)}) and has local changes that were not submitted yet.`,
+      ...actions
+    );
+    if (choice === 'Submit Now' && content) {
+      await vscode.commands.executeCommand('computor.student.submitAssignment', { courseContent: content, submissionGroup: content.submission_group });
+    } else if (choice === 'Reminder Settings') {
+      await vscode.commands.executeCommand('workbench.action.openSettings', 'computor.student.deadlineReminders');
+    }
+  }
+
+  /** Latest submission from the backend and the newest file change in the local checkout. */
+  private async resolveDeadlineActivity(deadline: StudentDeadline): Promise<DeadlineActivity | undefined> {
+    const directory = this.treeDataProvider.getAssignmentDirectory(deadline.courseId, deadline.contentId);
+    if (!directory) {
+      // Without a checkout there is nothing local that could be unsubmitted
+      return {};
+    }
+    const submissions = await this.apiService.listStudentSubmissionArtifacts({
+      course_content_id: deadline.contentId,
+      submit: true
+    });
+    const submittedTimes = submissions
+      .map(submission => submission.created_at ? new Date(submission.created_at).getTime() : NaN)
+      .filter(time => !Number.isNaN(time));
+    const latestChange = await this.findLatestModification(directory);
+    return {
+      latestSubmissionAt: submittedTimes.length > 0 ? new Date(Math.max(...submittedTimes)) : undefined,
+      latestLocalChangeAt: latestChange
+    };
+  }
+
+  private async findLatestModification(directory: string): Promise<Date | undefined> {
+    let latest = 0;
+    const visit = async (dir: string): Promise<void> => {
+      const entries = await fs.promises.readdir(dir, { withFileTypes: true });
+      for (const entry of entries) {
+        if (entry.name.startsWith('.')) {
+          continue;
+        }
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          await visit(fullPath);
+        } else if (entry.isFile()) {
+          const stats = await fs.promises.stat(fullPath);
+          latest = Math.max(latest, stats.mtimeMs);
+        }
+      }
+    };
+    await visit(directory);
+    return latest > 0 ? new Date(latest) : undefined;
   }
 
   private async showHelp(item?: any): Promise<void> {
@@ -1156,11 +1344,12 @@ export class StudentCommands {
     );
     if (!formatPick) { return; }
 
-    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    const workspaceRoot = resolveComputorWorkspaceRoot();
     if (!workspaceRoot) {
       vscode.window.showWarningMessage('Open a workspace folder before exporting.');
       return;
     }
+    const studentRoot = WorkspaceStructureManager.getInstance().getDirectories(courseId).student;
 
     const defaultFile = `${sanitizeContentDirName(courseTitle)}.${formatPick.value}.zip`;
     const dest = await vscode.window.showSaveDialog({
@@ -1186,7 +1375,7 @@ export class StudentCommands {
 
         const result = await buildCourseExportZip({
           contents,
-          workspaceRoot,
+          studentRoot,
           format: formatPick.value
         });
 
@@ -1224,7 +1413,7 @@ export class StudentCommands {
     );
   }
 
-  private async showMessages(item?: any): Promise<void> {
+  private async showMessages(item?: any, draft?: string): Promise<void> {
     try {
       const courseSelection = CourseSelectionService.getInstance();
       const courseInfo = courseSelection.getCurrentCourseInfo();
@@ -1324,12 +1513,66 @@ export class StudentCommands {
         } satisfies MessageTargetContext;
       }
 
-      await this.messagesWebviewProvider.showMessages(target);
+      await this.messagesWebviewProvider.showMessages(target, { draft });
     } catch (error: any) {
       vscode.window.showErrorMessage(`Failed to open messages: ${error?.message || error}`);
     }
   }
 
+  /**
+   * Opens the messages of the assignment the active file belongs to, with the
+   * selected lines quoted as a fenced code block. The path is relative to the
+   * assignment directory so tutors can open it in their copy of the repository.
+   */
+  private async askAboutSelection(): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || editor.selection.isEmpty) {
+      vscode.window.showWarningMessage('Select the code you want to ask about first.');
+      return;
+    }
+    const courseId = CourseSelectionService.getInstance().getCurrentCourseId();
+    if (!courseId) {
+      vscode.window.showWarningMessage('No course selected.');
+      return;
+    }
+
+    const filePath = editor.document.uri.fsPath;
+    const contents = await this.apiService.getStudentCourseContents(courseId);
+    if (this.repositoryManager) {
+      this.repositoryManager.updateExistingRepositoryPaths(courseId, contents);
+    }
+    const content = contents
+      .filter(candidate => {
+        const directory = (candidate as any).directory as string | undefined;
+        if (!directory) { return false; }
+        const relative = path.relative(directory, filePath);
+        return !!relative && !relative.startsWith('..') && !path.isAbsolute(relative);
+      })
+      .sort((a, b) => ((b as any).directory as string).length - ((a as any).directory as string).length)[0];
+    if (!content) {
+      vscode.window.showWarningMessage('This file does not belong to a cloned assignment of the selected course.');
+      return;
+    }
+
+    // Quote whole lines so the line numbers match what the reader opens
+    const selection = editor.selection;
+    const endLine = selection.end.character === 0 && selection.end.line > selection.start.line
+      ? selection.end.line - 1
+      : selection.end.line;
+    const code = editor.document.getText(new vscode.Range(
+      selection.start.line, 0, endLine, editor.document.lineAt(endLine).text.length
+    ));
+    const draft = formatCodeSnippet({
+      path: path.relative((content as any).directory, filePath).split(path.sep).join('/'),
+      startLine: selection.start.line + 1,
+      endLine: endLine + 1,
+      code,
+      language: editor.document.languageId
+    });
+
+    await this.showMessages({ courseContent: content, submissionGroup: content.submission_group }, draft);
+  }
+
   // Utility method - currently unused but may be needed in the future
   /*
   private async fileExists(filePath: string): Promise<boolean> {
@@ -1708,7 +1951,7 @@ export class StudentCommands {
       return directory;
     }
 
-    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    const workspaceRoot = resolveComputorWorkspaceRoot();
     if (!workspaceRoot) {
       return undefined;
     }
@@ -8,19 +8,31 @@ import { createSimpleGit } from '../git/simpleGitFactory';
 import { GitLabTokenManager } from '../services/GitLabTokenManager';
 import { deriveRepositoryDirectoryName } from '../utils/repositoryNaming';
 import { WorkspaceStructureManager } from '../utils/workspaceStructure';
+import { readGradingRubric } from '../utils/gradingRubric';
+import { computeExampleDiff } from '../utils/exampleDiffHelper';
 // Import interfaces from generated types (interfaces removed to avoid duplication)
 import { CourseMemberCommentsWebviewProvider } from '../ui/webviews/CourseMemberCommentsWebviewProvider';
 import { CourseMemberCommentsInputPanelProvider } from '../ui/panels/CourseMemberCommentsInputPanel';
 import { MessagesWebviewProvider, MessageTargetContext } from '../ui/webviews/MessagesWebviewProvider';
-import { MessageCreate, CourseContentStudentList, SubmissionGroupStudentList } from '../types/generated';
-import { TutorGradeCreate, GradingStatus } from '../types/generated/common';
+import { TutorGradingWebviewProvider } from '../ui/webviews/TutorGradingWebviewProvider';
+import { SubmissionSimilarityWebviewProvider } from '../ui/webviews/SubmissionSimilarityWebviewProvider';
+import { MessageCreate, CourseContentStudentList, SubmissionGroupStudentList, TutorCourseMemberList } from '../types/generated';
+import { NO_GROUP_SENTINEL, myQueueSentinel, memberQueryGroupId, loadMyQueueMemberIds, formatMemberName, compareMembersByName } from '../ui/tree/tutor/tutor-filter-tree-items';
 interface TutorFilterRefreshable {
   refreshFilters(): void;
 }
+interface GradingQueueEntry {
+  member: TutorCourseMemberList;
+  content: CourseContentStudentList;
+}
+/** Upper bound for diff editors opened per submission in "Grade next" mode. */
+const maxQueueDiffEditors = 5;
 import type { MessagesInputPanelProvider } from '../ui/panels/MessagesInputPanel';
 import type { WebSocketService } from '../services/WebSocketService';
 import { TutorTestService } from '../services/TutorTestService';
 import { commandRegistrar } from './commandHelpers';
+import type { TemplateValues } from '../utils/responseTemplates';
+import { ResponseTemplateService } from '../services/ResponseTemplateService';
 
 export class TutorCommands {
   private context: vscode.ExtensionContext;
@@ -28,11 +40,16 @@ export class TutorCommands {
   private apiService: ComputorApiService;
   private commentsWebviewProvider: CourseMemberCommentsWebviewProvider;
   private messagesWebviewProvider: MessagesWebviewProvider;
+  private gradingWebviewProvider: TutorGradingWebviewProvider;
+  private similarityWebviewProvider: SubmissionSimilarityWebviewProvider;
   private workspaceStructure: WorkspaceStructureManager;
   private filterProvider?: TutorFilterRefreshable;
   private checkoutQueue: Array<{ item: unknown; confirmRedownload: boolean; resolve: () => void }> = [];
   private isCheckoutInProgress = false;
+  private isGradingQueueActive = false;
   private tutorTestService: TutorTestService;
+  private messagesInputPanel?: MessagesInputPanelProvider;
+  private commentsInputPanel?: CourseMemberCommentsInputPanelProvider;
 
   constructor(
     context: vscode.ExtensionContext,
@@ -48,6 +65,8 @@ export class TutorCommands {
     // Use provided apiService or create a new one
     this.apiService = apiService || new ComputorApiService(context);
     this.commentsWebviewProvider = new CourseMemberCommentsWebviewProvider(context, this.apiService);
+    this.messagesInputPanel = messagesInputPanel;
+    this.commentsInputPanel = commentsInputPanel;
     if (commentsInputPanel) {
       this.commentsWebviewProvider.setInputPanel(commentsInputPanel);
     }
@@ -61,6 +80,11 @@ export class TutorCommands {
     this.workspaceStructure = WorkspaceStructureManager.getInstance();
     this.filterProvider = filterProvider;
     this.tutorTestService = TutorTestService.getInstance(this.apiService);
+    this.gradingWebviewProvider = new TutorGradingWebviewProvider(context, this.apiService);
+    this.similarityWebviewProvider = new SubmissionSimilarityWebviewProvider(context, this.apiService);
+    this.context.subscriptions.push(this.gradingWebviewProvider.onDidSubmitGrade(({ memberId }) => {
+      this.refreshAfterGrading(memberId);
+    }));
 
     // When the tutor selects a different course member in the filter tree, and the
     // comments webview is currently open, switch it to the new member automatically.
@@ -90,7 +114,7 @@ export class TutorCommands {
         this.apiService.clearTutorCoursesCache();
         if (courseId) {
           this.apiService.clearTutorCourseGroupsCache(courseId);
-          this.apiService.clearTutorCourseMembersCache(courseId, groupId || undefined);
+          this.apiService.clearTutorCourseMembersCache(courseId, memberQueryGroupId(groupId));
         }
         if (memberId) {
           this.apiService.clearTutorMemberCourseContentsCache(memberId);
@@ -100,7 +124,7 @@ export class TutorCommands {
 
         // Proactively fetch fresh data to trigger API calls
         if (courseId) {
-          await this.apiService.getTutorCourseMembers(courseId, groupId || undefined);
+          await this.apiService.getTutorCourseMembers(courseId, memberQueryGroupId(groupId));
         }
         if (courseId && memberId) {
           await this.apiService.getTutorCourseContents(courseId, memberId);
@@ -148,6 +172,14 @@ export class TutorCommands {
       await this.showMessages(item);
     });
 
+    register('computor.tutor.insertResponseTemplate', async () => {
+      await this.insertResponseTemplate();
+    });
+
+    register('computor.tutor.editResponseTemplates', async () => {
+      await ResponseTemplateService.getInstance().editTemplates(TutorSelectionService.getInstance().getCurrentCourseId() ?? undefined);
+    });
+
     // Old tutor example/course commands removed in favor of TutorStudentTreeProvider actions
 
     // Tutor: Clone student repository (scaffold)
@@ -202,10 +234,10 @@ export class TutorCommands {
         });
 
         // Ensure workspace directories exist
-        await this.workspaceStructure.ensureDirectories();
+        await this.workspaceStructure.ensureDirectories(courseId);
 
         // Use review directory for tutor repositories
-        const dir = this.workspaceStructure.getReviewRepositoryPath(repoName);
+        const dir = this.workspaceStructure.getReviewRepositoryPath(repoName, courseId);
         await fs.promises.mkdir(dir, { recursive: true });
         // Git clone into the destination if empty
         const exists = await fs.promises.readdir(dir).then(list => list.length > 0).catch(() => false);
@@ -300,7 +332,7 @@ export class TutorCommands {
           memberId
         });
 
-        const dir = this.workspaceStructure.getReviewRepositoryPath(repoName);
+        const dir = this.workspaceStructure.getReviewRepositoryPath(repoName, courseId);
         const gitDir = path.join(dir, '.git');
 
         // Check if repository exists
@@ -336,79 +368,27 @@ export class TutorCommands {
       const memberId = sel.getCurrentMemberId();
       if (!memberId) { vscode.window.showErrorMessage('No course member selected.'); return; }
 
-      // Get the latest submitted artifact to ensure grade is applied correctly
-      const submissionGroup: SubmissionGroupStudentList | undefined | null = content.submission_group;
-      let latestSubmittedArtifactId: string | undefined;
-      if (submissionGroup?.id) {
-        const artifacts = await this.apiService.listSubmissionArtifacts(submissionGroup.id, { latest: true });
-        if (artifacts && artifacts.length > 0 && artifacts[0]) {
-          latestSubmittedArtifactId = artifacts[0].id;
-        }
-      }
-
-      // Previous grade (0.0–1.0) from submission_group, previous status from content
-      const prevGrade: number | undefined = typeof submissionGroup?.grading === 'number' ? submissionGroup.grading : undefined;
-      const prevStatus: string | undefined = content.status ?? undefined;
-
-      const gradingInput = await vscode.window.showInputBox({
-        title: 'Grading',
-        prompt: 'Enter grade between 0.00 and 1.00 (max 2 decimal places)',
-        placeHolder: 'e.g., 0.85',
-        value: prevGrade != null ? prevGrade.toFixed(2) : undefined,
-        ignoreFocusOut: true,
-        validateInput: (v) => {
-          if (!v || !v.trim()) return 'Enter a value between 0 and 1';
-          const trimmed = v.trim();
-          if (!/^(?:0(?:\.\d{1,2})?|1(?:\.0{1,2})?|\.\d{1,2})$/.test(trimmed)) {
-            return 'Value must be between 0 and 1 with at most 2 decimal places';
-          }
-          const n = Number(trimmed);
-          if (!isFinite(n) || n < 0 || n > 1) return 'Value must be between 0 and 1';
-          return undefined;
-        }
-      });
-      if (gradingInput == null) return; // cancelled
-      const grade = Math.max(0, Math.min(1, Number(gradingInput.trim())));
-
-      const statusOptions: Array<vscode.QuickPickItem & { value: GradingStatus }> = [
-        { label: 'corrected', description: 'Mark as corrected', value: 1 as GradingStatus },
-        { label: 'correction_necessary', description: 'Correction necessary', value: 2 as GradingStatus },
-        { label: 'improvement_possible', description: 'Improvement possible', value: 3 as GradingStatus },
-        { label: 'not_reviewed', description: 'Not reviewed', value: 0 as GradingStatus },
-      ];
-      const statusPick = await vscode.window.showQuickPick(statusOptions, {
-        title: 'Status',
-        placeHolder: prevStatus ? `Current: ${prevStatus}` : 'Choose status',
-        canPickMany: false,
-        ignoreFocusOut: true
-      });
-      if (!statusPick) return; // cancelled
-
-      try {
-        const tutorGrade: TutorGradeCreate = {
-          artifact_id: latestSubmittedArtifactId,
-          grade,
-          status: statusPick.value,
-        };
-        await this.apiService.submitTutorGrade(memberId, contentId, tutorGrade);
-
-        // Clear caches and refresh to get updated data
-        const courseId = sel.getCurrentCourseId();
-        const groupId = sel.getCurrentGroupId();
-
-        this.apiService.clearTutorMemberCourseContentsCache(memberId);
-        if (courseId) {
-          this.apiService.clearTutorCourseMembersCache(courseId, groupId || undefined);
-        }
+      await this.openGradingPanel(content, memberId, sel.getCurrentMemberLabel());
+    });
 
-        // Full tree refresh: status changes affect parent unit items (aggregated from API)
-        this.treeDataProvider.refresh();
-        this.filterProvider?.refreshFilters();
+    // Tutor: Walk through every member with an unreviewed submission for this assignment
+    register('computor.tutor.gradeNext', async (item: { content?: CourseContentStudentList; courseContent?: CourseContentStudentList }) => {
+      await this.startGradingQueue(item?.content || item?.courseContent);
+    });
 
-        vscode.window.showInformationMessage(`Updated: ${grade.toFixed(2)} • ${statusPick.label}`);
-      } catch (e: any) {
-        vscode.window.showErrorMessage(`Failed to update grading: ${e?.message || e}`);
+    // Tutor: Compare the latest submissions of all members for this assignment
+    register('computor.tutor.similarityReport', async (item: { content?: CourseContentStudentList; courseContent?: CourseContentStudentList }) => {
+      const content = item?.content || item?.courseContent;
+      if (!content) {
+        vscode.window.showErrorMessage('No assignment selected.');
+        return;
       }
+      await this.similarityWebviewProvider.open({
+        courseId: content.course_id,
+        courseContentId: content.id,
+        contentTitle: content.title || content.path,
+        exampleVersionId: content.deployment?.example_version_id
+      });
     });
 
     // Tutor: Download reference (example version)
@@ -492,12 +472,36 @@ export class TutorCommands {
         segments.push(courseLabel);
       }
       const title = segments.length > 0 ? segments.join(' — ') : memberId;
-      await this.commentsWebviewProvider.showComments(memberId, title, opts);
+      const member = await this.apiService.getCourseMember(memberId).catch(() => undefined);
+      await this.commentsWebviewProvider.showComments(memberId, title, {
+        ...opts,
+        templateContext: {
+          courseId: selection.getCurrentCourseId() ?? undefined,
+          values: { ...memberTemplateValues(member?.user), courseTitle: courseLabel ?? undefined }
+        }
+      });
     } catch (error: any) {
       vscode.window.showErrorMessage(`Failed to open comments: ${error?.message || error}`);
     }
   }
 
+  /** Inserts a template into the open message composer or comment box, asking when both are open. */
+  private async insertResponseTemplate(): Promise<void> {
+    const targets = [
+      this.messagesInputPanel?.hasTemplateTarget() ? { label: 'Message', panel: this.messagesInputPanel } : undefined,
+      this.commentsInputPanel?.hasTemplateTarget() ? { label: 'Course Member Comment', panel: this.commentsInputPanel } : undefined
+    ].filter((target): target is NonNullable<typeof target> => target !== undefined);
+
+    if (targets.length === 0) {
+      vscode.window.showInformationMessage('Open a student\'s messages or comments first, then insert a template.');
+      return;
+    }
+    const target = targets.length === 1
+      ? targets[0]
+      : await vscode.window.showQuickPick(targets, { title: 'Insert Response Template Into' });
+    await target?.panel.insertTemplate();
+  }
+
   private async showMessages(item?: any): Promise<void> {
     try {
       const selection = TutorSelectionService.getInstance();
@@ -577,7 +581,17 @@ export class TutorCommands {
           query,
           createPayload,
           sourceRole: 'tutor',
-          wsChannel
+          wsChannel,
+          templateContext: {
+            courseId,
+            contentPath: content.path,
+            values: {
+              ...memberTemplateValues(member?.user),
+              assignmentTitle: contentTitle,
+              grade: typeof submissionGroup?.grading === 'number' ? `${Math.round(submissionGroup.grading * 100)}%` : undefined,
+              courseTitle: courseLabel ?? undefined
+            }
+          }
         } satisfies MessageTargetContext;
       }
 
@@ -594,7 +608,11 @@ export class TutorCommands {
           query: { course_id: courseId, course_member_id: memberId, scope: 'course' },
           createPayload: { course_id: courseId },  // This will fail - lecturer+ only
           sourceRole: 'tutor',
-          wsChannel: `course:${courseId}`
+          wsChannel: `course:${courseId}`,
+          templateContext: {
+            courseId,
+            values: { ...memberTemplateValues(member?.user), courseTitle: courseLabel ?? undefined }
+          }
         } satisfies MessageTargetContext;
       }
 
@@ -604,6 +622,219 @@ export class TutorCommands {
     }
   }
 
+  /**
+   * "Grade next" mode: collects every member whose latest submission for the given
+   * assignment is unreviewed, then walks through them one by one (checkout, diff
+   * against the reference, grade/skip/stop).
+   */
+  private async startGradingQueue(content: CourseContentStudentList | undefined): Promise<void> {
+    if (!content?.id) {
+      vscode.window.showErrorMessage('No course content selected.');
+      return;
+    }
+    if (this.isGradingQueueActive) {
+      vscode.window.showInformationMessage('A grading queue is already running. Finish or stop it first.');
+      return;
+    }
+
+    const sel = TutorSelectionService.getInstance();
+    const courseId = sel.getCurrentCourseId() || content.course_id;
+    const contentTitle = content.title || content.path;
+
+    let entries: GradingQueueEntry[];
+    try {
+      entries = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: `Collecting ungraded submissions for "${contentTitle}"...`,
+          cancellable: false
+        },
+        (progress) => this.collectGradingQueue(courseId, sel.getCurrentGroupId(), content.id, progress)
+      );
+    } catch (error: any) {
+      vscode.window.showErrorMessage(`Failed to collect ungraded submissions: ${error?.message || error}`);
+      return;
+    }
+
+    if (entries.length === 0) {
+      vscode.window.showInformationMessage(`No ungraded submissions for "${contentTitle}".`);
+      return;
+    }
+
+    this.isGradingQueueActive = true;
+    let graded = 0;
+    let skipped = 0;
+    try {
+      for (const [index, entry] of entries.entries()) {
+        const outcome = await this.processGradingQueueEntry(entry, index + 1, entries.length);
+        if (outcome === 'stop') {
+          const remaining = entries.length - index;
+          vscode.window.showInformationMessage(`Grading queue stopped: ${graded} graded, ${skipped} skipped, ${remaining} remaining.`);
+          return;
+        }
+        if (outcome === 'graded') { graded++; } else { skipped++; }
+      }
+      vscode.window.showInformationMessage(`Grading queue finished: ${graded} graded, ${skipped} skipped.`);
+    } finally {
+      this.isGradingQueueActive = false;
+    }
+  }
+
+  private async collectGradingQueue(
+    courseId: string,
+    groupId: string | null,
+    courseContentId: string,
+    progress: vscode.Progress<{ message?: string; increment?: number }>
+  ): Promise<GradingQueueEntry[]> {
+    let members: TutorCourseMemberList[] = await this.apiService.getTutorCourseMembers(courseId, memberQueryGroupId(groupId));
+    if (groupId === NO_GROUP_SENTINEL) {
+      members = members.filter(m => !m.course_group_id);
+    } else if (groupId === myQueueSentinel) {
+      // Only what a lecturer assigned to me for this content
+      const myQueue = await loadMyQueueMemberIds(this.apiService, courseId, courseContentId, { force: true });
+      members = members.filter(m => myQueue.has(m.id));
+    }
+    // Members without any ungraded submission can be skipped without a per-member request
+    members = members
+      .filter(m => m.ungraded_submissions_count !== 0)
+      .sort(compareMembersByName);
+
+    const entries: GradingQueueEntry[] = [];
+    for (const [index, member] of members.entries()) {
+      progress.report({ message: `${index + 1}/${members.length}: ${formatMemberName(member)}` });
+      const memberContent: CourseContentStudentList | undefined = await this.apiService.getTutorMemberCourseContent(member.id, courseContentId);
+      if (memberContent && (memberContent.unreviewed_count ?? 0) > 0) {
+        entries.push({ member, content: memberContent });
+      }
+    }
+    return entries;
+  }
+
+  private async processGradingQueueEntry(
+    entry: GradingQueueEntry,
+    position: number,
+    total: number
+  ): Promise<'graded' | 'skipped' | 'stop'> {
+    const { member } = entry;
+    const memberLabel = formatMemberName(member);
+
+    // Re-fetch: another tutor may have graded this submission since the queue was built
+    const content: CourseContentStudentList = await this.apiService.getTutorMemberCourseContent(member.id, entry.content.id) ?? entry.content;
+    if ((content.unreviewed_count ?? 0) === 0) {
+      return 'skipped';
+    }
+
+    const sel = TutorSelectionService.getInstance();
+    await sel.selectMember(member.id, memberLabel, member.course_group_id ?? null, null, member.user?.email, member.user?.username);
+
+    await this.queueCheckout({ content }, false);
+    await this.openSubmissionDiff(content);
+
+    const prompt = `Grading ${position}/${total}: ${memberLabel} — ${content.title || content.path}`;
+    for (;;) {
+      const choice = await vscode.window.showInformationMessage(prompt, 'Grade', 'Skip', 'Stop');
+      if (choice === 'Skip') { return 'skipped'; }
+      if (choice !== 'Grade') { return 'stop'; }
+
+      await this.openGradingPanel(content, member.id, memberLabel);
+      const outcome = await new Promise<'graded' | 'closed'>((resolve) => {
+        const disposables: vscode.Disposable[] = [];
+        const finish = (result: 'graded' | 'closed') => {
+          disposables.forEach(d => d.dispose());
+          resolve(result);
+        };
+        disposables.push(this.gradingWebviewProvider.onDidSubmitGrade(e => {
+          if (e.memberId === member.id && e.courseContentId === content.id) { finish('graded'); }
+        }));
+        disposables.push(this.gradingWebviewProvider.onDidClose(() => finish('closed')));
+      });
+      if (outcome === 'graded') { return 'graded'; }
+      // Panel closed without submitting: ask again for the same submission
+    }
+  }
+
+  /** Opens a diff (reference ↔ submission) for every file the student changed or added. */
+  private async openSubmissionDiff(content: CourseContentStudentList): Promise<void> {
+    const exampleVersionId = content.deployment?.example_version_id;
+    const submissionGroupId = content.submission_group?.id;
+    if (!exampleVersionId || !submissionGroupId) { return; }
+
+    const artifacts = await this.apiService.listSubmissionArtifacts(submissionGroupId, { latest: true });
+    const latestArtifact = artifacts?.[0];
+    if (!latestArtifact) { return; }
+
+    const referencePath = this.workspaceStructure.getReviewReferencePath(exampleVersionId, this.getReviewCourseId());
+    const submissionPath = this.workspaceStructure.getReviewSubmissionPath(submissionGroupId, latestArtifact.id, this.getReviewCourseId());
+    if (!fs.existsSync(referencePath) || !fs.existsSync(submissionPath)) { return; }
+
+    const diff = computeExampleDiff(referencePath, submissionPath);
+    if (diff.modified.length === 0 && diff.added.length === 0) {
+      vscode.window.showInformationMessage('The submission does not differ from the reference.');
+      return;
+    }
+    // Files only the submission has are compared against an empty left side
+    const emptyUri = vscode.Uri.file(path.join(referencePath, '__non_existent__'));
+    for (const rel of [...diff.modified, ...diff.added].slice(0, maxQueueDiffEditors)) {
+      const reference = path.join(referencePath, rel);
+      await vscode.commands.executeCommand(
+        'vscode.diff',
+        fs.existsSync(reference) ? vscode.Uri.file(reference) : emptyUri,
+        vscode.Uri.file(path.join(submissionPath, rel)),
+        `${path.basename(rel)} (Reference ↔ Submission)`,
+        { preview: false }
+      );
+    }
+  }
+
+  private async openGradingPanel(content: CourseContentStudentList, memberId: string, memberLabel: string | null): Promise<void> {
+    // Get the latest submitted artifact to ensure grade is applied correctly
+    const submissionGroup: SubmissionGroupStudentList | undefined | null = content.submission_group;
+    let latestSubmittedArtifactId: string | undefined;
+    if (submissionGroup?.id) {
+      const artifacts = await this.apiService.listSubmissionArtifacts(submissionGroup.id, { latest: true });
+      if (artifacts && artifacts.length > 0 && artifacts[0]) {
+        latestSubmittedArtifactId = artifacts[0].id;
+      }
+    }
+
+    // Previous grade (0.0–1.0) from submission_group, previous status from content
+    const prevGrade: number | undefined = typeof submissionGroup?.grading === 'number' ? submissionGroup.grading : undefined;
+    const prevStatus: string | undefined = content.status ?? undefined;
+
+    // The rubric lives in the example's meta.yaml; use the downloaded reference if present.
+    const exampleVersionId = content.deployment?.example_version_id;
+    const rubric = exampleVersionId
+      ? readGradingRubric(this.workspaceStructure.getReviewReferencePath(exampleVersionId, this.getReviewCourseId()))
+      : undefined;
+
+    await this.gradingWebviewProvider.open({
+      memberId,
+      memberLabel,
+      courseContentId: content.id,
+      contentTitle: content.title || content.path,
+      contentPath: content.path,
+      artifactId: latestSubmittedArtifactId,
+      rubric,
+      previousGrade: prevGrade,
+      previousStatus: prevStatus
+    });
+  }
+
+  private refreshAfterGrading(memberId: string): void {
+    const sel = TutorSelectionService.getInstance();
+    const courseId = sel.getCurrentCourseId();
+    const groupId = sel.getCurrentGroupId();
+
+    this.apiService.clearTutorMemberCourseContentsCache(memberId);
+    if (courseId) {
+      this.apiService.clearTutorCourseMembersCache(courseId, memberQueryGroupId(groupId));
+    }
+
+    // Full tree refresh: status changes affect parent unit items (aggregated from API)
+    this.treeDataProvider.refresh();
+    this.filterProvider?.refreshFilters();
+  }
+
   private async downloadReference(item: any): Promise<void> {
     try {
       const content: CourseContentStudentList = item?.content || item?.courseContent || item?.course_content;
@@ -620,7 +851,7 @@ export class TutorCommands {
       }
 
       const exampleVersionId = deployment.example_version_id;
-      const referencePath = this.workspaceStructure.getReviewReferencePath(exampleVersionId);
+      const referencePath = this.workspaceStructure.getReviewReferencePath(exampleVersionId, this.getReviewCourseId());
 
       // Check if reference already exists
       const exists = await this.workspaceStructure.directoryExists(referencePath);
@@ -700,7 +931,7 @@ export class TutorCommands {
         return;
       }
 
-      const submissionPath = this.workspaceStructure.getReviewSubmissionPath(submissionGroupId, artifactId);
+      const submissionPath = this.workspaceStructure.getReviewSubmissionPath(submissionGroupId, artifactId, this.getReviewCourseId());
 
       // Check if submission already exists
       const exists = await this.workspaceStructure.directoryExists(submissionPath);
@@ -765,8 +996,9 @@ export class TutorCommands {
 
       // Extract information from the path
       // Expected path: review/submissions/<submission_group_id>/<artifact_id>/<file_path>
-      const dirs = this.workspaceStructure.getDirectories();
-      const relativePath = path.relative(dirs.reviewSubmissions, submissionFilePath);
+      const submissionsRoot = this.workspaceStructure.getDirectoryCandidates('reviewSubmissions')
+        .find(dir => !path.relative(dir, submissionFilePath).startsWith('..'));
+      const relativePath = submissionsRoot ? path.relative(submissionsRoot, submissionFilePath) : '';
       const parts = relativePath.split(path.sep);
 
       if (parts.length < 3) {
@@ -784,7 +1016,7 @@ export class TutorCommands {
       }
 
       const exampleVersionId = content.deployment.example_version_id;
-      const referencePath = this.workspaceStructure.getReviewReferencePath(exampleVersionId);
+      const referencePath = this.workspaceStructure.getReviewReferencePath(exampleVersionId, this.getReviewCourseId());
       const referenceFilePath = path.join(referencePath, fileInSubmission);
 
       // Check if reference exists
@@ -857,7 +1089,9 @@ export class TutorCommands {
       console.log('[TutorCommands] Opening results with resultJson');
       console.log('[TutorCommands] Result artifacts count:', resultArtifacts?.length ?? 0);
 
-      await vscode.commands.executeCommand('computor.results.open', resultJson, resultId, resultArtifacts);
+      await vscode.commands.executeCommand('computor.results.open', resultJson, resultId, resultArtifacts, {
+        submissionGroupId: latestResult?.submission_group_id ?? item?.submissionGroupId
+      });
       await vscode.commands.executeCommand('computor.testResultsPanel.focus');
 
     } catch (error: any) {
@@ -866,6 +1100,11 @@ export class TutorCommands {
     }
   }
 
+  /** Course whose `computor.workspace.layout` entries apply to review checkouts. */
+  private getReviewCourseId(): string | undefined {
+    return TutorSelectionService.getInstance().getCurrentCourseId() || undefined;
+  }
+
   private async checkout(item: unknown, confirmRedownload = true): Promise<void> {
     try {
       const itemAny = item as any;
@@ -900,9 +1139,9 @@ export class TutorCommands {
         }
       }
 
-      const referencePath = this.workspaceStructure.getReviewReferencePath(exampleVersionId);
+      const referencePath = this.workspaceStructure.getReviewReferencePath(exampleVersionId, this.getReviewCourseId());
       const submissionPath = latestArtifact && submissionGroupId
-        ? this.workspaceStructure.getReviewSubmissionPath(submissionGroupId, latestArtifact.id)
+        ? this.workspaceStructure.getReviewSubmissionPath(submissionGroupId, latestArtifact.id, this.getReviewCourseId())
         : undefined;
 
       // Check what already exists
@@ -1029,7 +1268,7 @@ export class TutorCommands {
       }
 
       const courseContentId = content.id;
-      const descriptionPath = this.workspaceStructure.getReviewDescriptionPath(courseContentId);
+      const descriptionPath = this.workspaceStructure.getReviewDescriptionPath(courseContentId, this.getReviewCourseId());
 
       // Check if description is already cached
       const descriptionExists = await this.workspaceStructure.directoryExists(descriptionPath);
@@ -1171,14 +1410,14 @@ export class TutorCommands {
       // First, check if we have a specific submission artifact in the item
       if (item?.artifactId && submissionGroupId) {
         // Testing a specific submission artifact
-        submissionPath = this.workspaceStructure.getReviewSubmissionPath(submissionGroupId, item.artifactId);
+        submissionPath = this.workspaceStructure.getReviewSubmissionPath(submissionGroupId, item.artifactId, this.getReviewCourseId());
       } else if (submissionGroupId) {
         // Try to find the latest downloaded submission artifact
-        const artifacts = await this.workspaceStructure.getSubmissionArtifacts(submissionGroupId);
+        const artifacts = await this.workspaceStructure.getSubmissionArtifacts(submissionGroupId, this.getReviewCourseId());
         if (artifacts.length > 0) {
           // Use the most recent artifact (they're typically sorted by name/date)
           const latestArtifact = artifacts[artifacts.length - 1]!;
-          submissionPath = this.workspaceStructure.getReviewSubmissionPath(submissionGroupId, latestArtifact);
+          submissionPath = this.workspaceStructure.getReviewSubmissionPath(submissionGroupId, latestArtifact, this.getReviewCourseId());
         }
       }
 
@@ -1201,7 +1440,7 @@ export class TutorCommands {
           return;
         }
 
-        submissionPath = this.workspaceStructure.getReviewReferencePath(deployment.example_version_id);
+        submissionPath = this.workspaceStructure.getReviewReferencePath(deployment.example_version_id, this.getReviewCourseId());
 
         if (!await this.workspaceStructure.directoryExists(submissionPath)) {
           vscode.window.showErrorMessage('Reference not downloaded. Please checkout the assignment first.');
@@ -1238,3 +1477,17 @@ export class TutorCommands {
   }
 
 }
+
+/** Student name placeholders for response templates. */
+function memberTemplateValues(
+  user: { given_name?: string | null; family_name?: string | null; username?: string | null } | null | undefined
+): TemplateValues {
+  if (!user) {
+    return {};
+  }
+  const fullName = [user.given_name, user.family_name].filter(Boolean).join(' ');
+  return {
+    studentName: fullName || user.username || undefined,
+    studentFirstName: user.given_name || fullName || user.username || undefined
+  };
+}
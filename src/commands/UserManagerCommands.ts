@@ -1,13 +1,17 @@
 import * as vscode from 'vscode';
 import { ComputorApiService } from '../services/ComputorApiService';
-import { UserManagerTreeProvider } from '../ui/tree/user-manager/UserManagerTreeProvider';
+import { UserManagerTreeProvider, UserTreeItem } from '../ui/tree/user-manager/UserManagerTreeProvider';
 import { UserManagementWebviewProvider } from '../ui/webviews/UserManagementWebviewProvider';
+import { UserBulkCreateWebviewProvider } from '../ui/webviews/UserBulkCreateWebviewProvider';
+import { UserList } from '../types/generated/users';
+import { BulkFailure, summarizeBulkOutcome } from '../utils/userBulk';
 import { commandRegistrar } from './commandHelpers';
 
 const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 
 export class UserManagerCommands {
   private userManagementWebviewProvider: UserManagementWebviewProvider;
+  private userBulkCreateWebviewProvider: UserBulkCreateWebviewProvider;
 
   constructor(
     private readonly context: vscode.ExtensionContext,
@@ -19,6 +23,11 @@ export class UserManagerCommands {
       apiService,
       treeProvider
     );
+    this.userBulkCreateWebviewProvider = new UserBulkCreateWebviewProvider(
+      context,
+      apiService,
+      treeProvider
+    );
   }
 
   registerCommands(): void {
@@ -59,6 +68,192 @@ export class UserManagerCommands {
     register('computor.userManager.createUser', async () => {
       await this.handleCreateUser();
     });
+
+    register('computor.userManager.bulkCreateUsers', async () => {
+      await this.userBulkCreateWebviewProvider.open();
+    });
+
+    // Tree commands receive the clicked item and, with multi-select, every selected item.
+    register('computor.userManager.archiveUsers', async (item?: UserTreeItem, items?: UserTreeItem[]) => {
+      await this.handleArchiveUsers(this.selectedUsers(item, items), true);
+    });
+
+    register('computor.userManager.unarchiveUsers', async (item?: UserTreeItem, items?: UserTreeItem[]) => {
+      await this.handleArchiveUsers(this.selectedUsers(item, items), false);
+    });
+
+    register('computor.userManager.resetPasswords', async (item?: UserTreeItem, items?: UserTreeItem[]) => {
+      await this.handleResetPasswords(this.selectedUsers(item, items));
+    });
+
+    register('computor.userManager.assignRole', async (item?: UserTreeItem, items?: UserTreeItem[]) => {
+      await this.handleChangeRole(this.selectedUsers(item, items), true);
+    });
+
+    register('computor.userManager.revokeRole', async (item?: UserTreeItem, items?: UserTreeItem[]) => {
+      await this.handleChangeRole(this.selectedUsers(item, items), false);
+    });
+  }
+
+  private selectedUsers(item?: UserTreeItem, items?: UserTreeItem[]): UserList[] {
+    const selection = items && items.length > 0 ? items : item ? [item] : [];
+    return selection.filter(entry => entry instanceof UserTreeItem).map(entry => entry.user);
+  }
+
+  private describeUser(user: UserList): string {
+    return user.username || user.email || user.id;
+  }
+
+  private async handleArchiveUsers(users: UserList[], archive: boolean): Promise<void> {
+    const targets = users.filter(user => Boolean(user.archived_at) !== archive);
+    if (targets.length === 0) {
+      vscode.window.showInformationMessage(archive ? 'The selected users are already archived.' : 'None of the selected users are archived.');
+      return;
+    }
+
+    const noun = `${targets.length} user${targets.length === 1 ? '' : 's'}`;
+    const skipped = users.length - targets.length;
+    const confirmation = await vscode.window.showWarningMessage(
+      archive
+        ? `Archive ${noun}? They will be hidden from default lists and unable to authenticate.`
+        : `Unarchive ${noun}? They will reappear in lists and regain access.`,
+      {
+        modal: true,
+        detail: skipped > 0 ? `${skipped} selected user${skipped === 1 ? ' is' : 's are'} already ${archive ? 'archived' : 'active'} and will be skipped.` : undefined
+      },
+      archive ? 'Archive' : 'Unarchive'
+    );
+    if (!confirmation) {
+      return;
+    }
+
+    await this.runBulk(
+      archive ? 'Archiving users' : 'Unarchiving users',
+      archive ? 'Archived' : 'Unarchived',
+      targets,
+      user => archive ? this.apiService.archiveUser(user.id) : this.apiService.unarchiveUser(user.id)
+    );
+  }
+
+  private async handleResetPasswords(users: UserList[]): Promise<void> {
+    if (users.length === 0) {
+      return;
+    }
+    const managerPassword = await vscode.window.showInputBox({
+      title: `Reset passwords of ${users.length} user${users.length === 1 ? '' : 's'}`,
+      prompt: 'Your password is required to perform this action.',
+      password: true,
+      ignoreFocusOut: true
+    });
+    if (!managerPassword?.trim()) {
+      return;
+    }
+
+    const confirmation = await vscode.window.showWarningMessage(
+      `Reset the passwords of ${users.length} user${users.length === 1 ? '' : 's'}? Their passwords will be set to NULL and they will need to set a new password.`,
+      { modal: true },
+      'Reset Passwords'
+    );
+    if (confirmation !== 'Reset Passwords') {
+      return;
+    }
+
+    // A wrong manager password fails every request, so stop after the first failure.
+    await this.runBulk(
+      'Resetting passwords',
+      'Reset passwords of',
+      users,
+      user => this.apiService.resetUserPassword(user.id, managerPassword.trim()),
+      { stopOnFirstFailure: true }
+    );
+  }
+
+  private async handleChangeRole(users: UserList[], assign: boolean): Promise<void> {
+    if (users.length === 0) {
+      return;
+    }
+    let roles: Awaited<ReturnType<ComputorApiService['listRoles']>>;
+    try {
+      roles = await this.apiService.listRoles();
+    } catch (error: any) {
+      vscode.window.showErrorMessage(`Failed to load roles: ${error?.message || error}`);
+      return;
+    }
+    if (roles.length === 0) {
+      vscode.window.showInformationMessage('No roles are available.');
+      return;
+    }
+
+    const picked = await vscode.window.showQuickPick(
+      roles.map(role => ({ label: role.title || role.id, description: role.id, roleId: role.id })),
+      {
+        title: `${assign ? 'Assign a role to' : 'Remove a role from'} ${users.length} user${users.length === 1 ? '' : 's'}`,
+        placeHolder: 'Select a role'
+      }
+    );
+    if (!picked) {
+      return;
+    }
+
+    if (!assign) {
+      const confirmation = await vscode.window.showWarningMessage(
+        `Remove role "${picked.roleId}" from ${users.length} user${users.length === 1 ? '' : 's'}?`,
+        { modal: true },
+        'Remove'
+      );
+      if (confirmation !== 'Remove') {
+        return;
+      }
+    }
+
+    await this.runBulk(
+      assign ? `Assigning role ${picked.roleId}` : `Removing role ${picked.roleId}`,
+      assign ? `Assigned role "${picked.roleId}" to` : `Removed role "${picked.roleId}" from`,
+      users,
+      user => assign ? this.apiService.assignUserRole(user.id, picked.roleId) : this.apiService.revokeUserRole(user.id, picked.roleId)
+    );
+  }
+
+  /** Runs `action` for each user one after another and reports the failures in one dialog. */
+  private async runBulk(
+    progressTitle: string,
+    pastTense: string,
+    users: UserList[],
+    action: (user: UserList) => Promise<void>,
+    options?: { stopOnFirstFailure?: boolean }
+  ): Promise<void> {
+    const failures: BulkFailure[] = [];
+    let attempted = 0;
+    await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: progressTitle, cancellable: true },
+      async (progress, token) => {
+        for (const user of users) {
+          if (token.isCancellationRequested) {
+            break;
+          }
+          progress.report({ message: this.describeUser(user), increment: 100 / users.length });
+          attempted++;
+          try {
+            await action(user);
+          } catch (error: any) {
+            failures.push({ label: this.describeUser(user), error: error?.response?.data?.detail || error?.message || String(error) });
+            if (options?.stopOnFirstFailure) {
+              break;
+            }
+          }
+        }
+      }
+    );
+
+    this.treeProvider.refresh();
+    const { message, detail } = summarizeBulkOutcome(pastTense, attempted, failures);
+    const notAttempted = users.length - attempted;
+    const suffix = notAttempted > 0 ? ` ${notAttempted} not processed.` : '';
+    if (failures.length > 0 || notAttempted > 0) {
+      vscode.window.showWarningMessage(message + suffix, { modal: failures.length > 0, detail });
+    } else {
+      vscode.window.showInformationMessage(message);
+    }
   }
 
   private async handleCreateUser(): Promise<void> {
@@ -0,0 +1,146 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ComputorApiService } from '../../services/ComputorApiService';
+import { resolveComputorWorkspaceRoot } from '../../utils/workspaceStructure';
+import {
+  GradebookFormat,
+  GradebookMember,
+  buildGradebook,
+  gradebookToCsv,
+  gradebookToXlsx
+} from '../../utils/gradebookExport';
+
+export class GradebookExportCommands {
+  constructor(private apiService: ComputorApiService) {}
+
+  /**
+   * Exports grade, status and submission count of every member for every
+   * assignment of the course, optionally limited to course groups and
+   * content types.
+   */
+  async exportGradebook(courseId: string): Promise<void> {
+    try {
+      const course = await this.apiService.getCourse(courseId);
+      const courseLabel = course?.title || course?.path || courseId;
+
+      const format = await vscode.window.showQuickPick(
+        [
+          { label: 'Excel (XLSX)', value: 'xlsx' as GradebookFormat },
+          { label: 'CSV', value: 'csv' as GradebookFormat }
+        ],
+        { title: `Export Gradebook: ${courseLabel}`, placeHolder: 'Choose the file format' }
+      );
+      if (!format) {
+        return;
+      }
+
+      const groups = await this.apiService.getCourseGroups(courseId);
+      let groupIds: Set<string> | undefined;
+      if (groups.length > 0) {
+        const picked = await vscode.window.showQuickPick(
+          groups.map(group => ({ label: group.title || group.id, id: group.id })),
+          { title: 'Course groups', placeHolder: 'Select groups to export (none selected = all members)', canPickMany: true }
+        );
+        if (!picked) {
+          return;
+        }
+        groupIds = picked.length > 0 ? new Set(picked.map(item => item.id)) : undefined;
+      }
+
+      const contentTypes = await this.apiService.getCourseContentTypes(courseId);
+      let contentTypeIds: Set<string> | undefined;
+      if (contentTypes.length > 0) {
+        const picked = await vscode.window.showQuickPick(
+          contentTypes.map(type => ({ label: type.title || type.slug, description: type.slug, id: type.id })),
+          { title: 'Content types', placeHolder: 'Select content types to export (none selected = all)', canPickMany: true }
+        );
+        if (!picked) {
+          return;
+        }
+        contentTypeIds = picked.length > 0 ? new Set(picked.map(item => item.id)) : undefined;
+      }
+
+      const fileName = `${(course?.path || 'course').replace(/[^\w.-]+/g, '_')}-gradebook.${format.value}`;
+      const root = resolveComputorWorkspaceRoot();
+      const target = await vscode.window.showSaveDialog({
+        defaultUri: root ? vscode.Uri.file(path.join(root, fileName)) : undefined,
+        filters: format.value === 'xlsx' ? { 'Excel Workbook': ['xlsx'] } : { 'CSV': ['csv'] },
+        saveLabel: 'Export'
+      });
+      if (!target) {
+        return;
+      }
+
+      const members = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: `Exporting gradebook: ${courseLabel}`,
+          cancellable: true
+        },
+        (progress, token) => this.collectMembers(courseId, groupIds, progress, token)
+      );
+      if (!members) {
+        return;
+      }
+
+      const gradebook = buildGradebook(members, { contentTypeIds });
+      const content = format.value === 'xlsx'
+        ? gradebookToXlsx(gradebook, courseLabel)
+        : gradebookToCsv(gradebook);
+      await fs.promises.writeFile(target.fsPath, content);
+
+      const action = await vscode.window.showInformationMessage(
+        `Exported ${gradebook.rows.length} members × ${gradebook.columns.length} assignments to ${path.basename(target.fsPath)}.`,
+        'Reveal File'
+      );
+      if (action === 'Reveal File') {
+        await vscode.commands.executeCommand('revealFileInOS', target);
+      }
+    } catch (error: any) {
+      console.error('Failed to export gradebook:', error);
+      vscode.window.showErrorMessage(`Failed to export gradebook: ${error?.message || error}`);
+    }
+  }
+
+  private async collectMembers(
+    courseId: string,
+    groupIds: Set<string> | undefined,
+    progress: vscode.Progress<{ message?: string; increment?: number }>,
+    token: vscode.CancellationToken
+  ): Promise<GradebookMember[] | undefined> {
+    progress.report({ message: 'Loading members…' });
+    const [gradings, courseMembers, groups] = await Promise.all([
+      this.apiService.getCourseMemberGradings(courseId),
+      this.apiService.getCourseMembers(courseId),
+      this.apiService.getCourseGroups(courseId)
+    ]);
+    const groupTitles = new Map(groups.map(group => [group.id, group.title || group.id]));
+    const groupByMember = new Map(courseMembers.map(member => [member.id, member.course_group_id ?? undefined]));
+
+    const selected = gradings.filter(entry => {
+      if (!groupIds) {
+        return true;
+      }
+      const groupId = groupByMember.get(entry.course_member_id);
+      return groupId !== undefined && groupIds.has(groupId);
+    });
+
+    const members: GradebookMember[] = [];
+    const step = selected.length > 0 ? 100 / selected.length : 100;
+    for (const entry of selected) {
+      if (token.isCancellationRequested) {
+        return undefined;
+      }
+      const name = [entry.given_name, entry.family_name].filter(Boolean).join(' ') || entry.username || entry.course_member_id;
+      progress.report({ message: name, increment: step });
+      const detail = await this.apiService.getCourseMemberGradingsDetail(entry.course_member_id);
+      if (!detail) {
+        throw new Error(`Could not load gradings for ${name}`);
+      }
+      const groupId = groupByMember.get(entry.course_member_id);
+      members.push({ gradings: detail, groupTitle: groupId ? groupTitles.get(groupId) : undefined });
+    }
+    return members;
+  }
+}
@@ -20,6 +20,12 @@ import { GitEnvironmentService } from './services/GitEnvironmentService';
 import { ExtensionUpdateService } from './services/ExtensionUpdateService';
 
 import { LecturerTreeDataProvider } from './ui/tree/lecturer/LecturerTreeDataProvider';
+import { ReleaseScheduleService } from './services/ReleaseScheduleService';
+import { StudentDeadlineService } from './services/StudentDeadlineService';
+import { ResponseTemplateService } from './services/ResponseTemplateService';
+import { NotificationCenterService } from './services/NotificationCenterService';
+import { OutboxService } from './services/OutboxService';
+import { nextUpcomingDeadline } from './utils/studentDeadlines';
 import {
   OrganizationTreeItem as LecturerOrganizationTreeItem,
   CourseFamilyTreeItem as LecturerCourseFamilyTreeItem,
@@ -33,6 +39,7 @@ import {
 } from './ui/tree/lecturer/LecturerTreeItems';
 import { LecturerBreadcrumbStatusBar } from './ui/LecturerBreadcrumbStatusBar';
 import { LecturerExampleTreeProvider } from './ui/tree/lecturer/LecturerExampleTreeProvider';
+import { ExampleDependencyTreeProvider } from './ui/tree/lecturer/ExampleDependencyTreeProvider';
 import { LecturerCommands } from './commands/LecturerCommands';
 import { LecturerExampleCommands } from './commands/LecturerExampleCommands';
 import { LecturerFsCommands } from './commands/LecturerFsCommands';
@@ -41,6 +48,7 @@ import { SignUpCommands } from './commands/SignUpCommands';
 import { SettingsCommands } from './commands/SettingsCommands';
 import { LogoutCommands } from './commands/LogoutCommands';
 import { UserProfileWebviewProvider } from './ui/webviews/UserProfileWebviewProvider';
+import { PermissionInspectorWebviewProvider } from './ui/webviews/PermissionInspectorWebviewProvider';
 
 import { StudentCourseContentTreeProvider } from './ui/tree/student/StudentCourseContentTreeProvider';
 import { StudentRepositoryManager } from './services/StudentRepositoryManager';
@@ -50,8 +58,13 @@ import { StudentCommands } from './commands/StudentCommands';
 import { TutorCommands } from './commands/TutorCommands';
 
 import { TestResultsPanelProvider, TestResultsTreeDataProvider } from './ui/panels/TestResultsPanel';
-import { TestResultService } from './services/TestResultService';
+import { TestResultService, type TestResultRunInfo } from './services/TestResultService';
+import { WorkspaceStructureManager, resolveComputorWorkspaceRoot } from './utils/workspaceStructure';
+import { diffTestResults } from './utils/testResultDiff';
 import { MessagesInputPanelProvider } from './ui/panels/MessagesInputPanel';
+import { ReviewCommentController } from './providers/ReviewCommentController';
+import { MetaYamlLanguageProvider } from './providers/MetaYamlLanguageProvider';
+import { TestYamlLanguageProvider } from './providers/TestYamlLanguageProvider';
 import { CourseMemberCommentsInputPanelProvider } from './ui/panels/CourseMemberCommentsInputPanel';
 import { manageGitLabTokens } from './commands/manageGitLabTokens';
 import { configureGit } from './commands/configureGit';
@@ -70,9 +83,7 @@ interface StoredAuth {
 const computorMarker = '.computor';
 
 function getWorkspaceRoot(): string | undefined {
-  const ws = vscode.workspace.workspaceFolders;
-  if (!ws || ws.length === 0) return undefined;
-  return ws[0]?.uri.fsPath;
+  return resolveComputorWorkspaceRoot();
 }
 
 async function ensureBaseUrl(settings: ComputorSettingsManager): Promise<string | undefined> {
@@ -577,12 +588,42 @@ class UnifiedController {
       vscode.window.registerWebviewViewProvider(CourseMemberCommentsInputPanelProvider.viewType, this.commentsInputPanel)
     );
 
+    // Inline review comments on submission files (tutor review dirs + student checkouts)
+    this.disposables.push(ReviewCommentController.initialize(api));
+
+    // Canned responses for both input panels
+    this.disposables.push(ResponseTemplateService.initialize(this.context, api));
+
     // Initialize WebSocket service for real-time messaging
     const settingsManager = new ComputorSettingsManager(this.context);
     this.wsService = WebSocketService.getInstance(settingsManager);
     this.wsService.setHttpClient(client);
     this.messagesInputPanel.setWebSocketService(this.wsService);
 
+    // Log and announce server events according to the user's preferences
+    this.disposables.push(NotificationCenterService.initialize(this.context, this.wsService));
+
+    // Queue messages and comments written while offline
+    const outbox = OutboxService.initialize(this.context, api, this.wsService);
+    this.disposables.push(
+      outbox,
+      vscode.commands.registerCommand('computor.outbox.show', () => outbox.showOutbox()),
+      vscode.commands.registerCommand('computor.outbox.flush', () => outbox.flush())
+    );
+
+    // Roles and derived capabilities of a user, opened from the user manager and scope member lists
+    const permissionInspector = new PermissionInspectorWebviewProvider(this.context, api);
+    this.disposables.push(
+      vscode.commands.registerCommand('computor.permissions.inspect', async (target?: string | { user?: { id?: string } }) => {
+        const userId = typeof target === 'string' ? target : target?.user?.id;
+        if (!userId) {
+          vscode.window.showWarningMessage('No user selected');
+          return;
+        }
+        await permissionInspector.open(userId);
+      })
+    );
+
     // Connect WebSocket (fire-and-forget, will reconnect automatically on failure)
     void this.wsService.connect();
 
@@ -757,6 +798,15 @@ class UnifiedController {
     // Initialize tree view
     const tree = new StudentCourseContentTreeProvider(api, courseSelectionService, repositoryManager, this.context);
     if (this.wsService) tree.setWebSocketService(this.wsService);
+    const deadlines = StudentDeadlineService.initialize(this.context);
+    const updateDeadlineStatus = () => statusBar.updateDeadline(nextUpcomingDeadline(deadlines.getAll(), new Date()));
+    this.disposables.push(
+      deadlines,
+      tree.setDeadlines(deadlines),
+      deadlines.onDidChange(updateDeadlineStatus),
+      deadlines.onDidTick(updateDeadlineStatus)
+    );
+    deadlines.applyContextKeys();
     registerTreeView('computor.student.courses', {
       provider: tree,
       options: { showCollapseAll: true },
@@ -835,6 +885,7 @@ class UnifiedController {
     // Student commands
     const commands = new StudentCommands(this.context, tree, api, repositoryManager, this.messagesInputPanel, this.wsService);
     commands.registerCommands();
+    deadlines.start();
 
     // Results panel + tree
     const panelProvider = new TestResultsPanelProvider(this.context.extensionUri);
@@ -843,8 +894,13 @@ class UnifiedController {
     resultsTree.setPanelProvider(panelProvider);
     this.disposables.push(vscode.window.registerTreeDataProvider('computor.testResultsView', resultsTree));
     TestResultService.getInstance().setApiService(api);
-    this.disposables.push(vscode.commands.registerCommand('computor.results.open', async (results: any, resultId?: string, artifacts?: any[]) => {
+    this.disposables.push(vscode.commands.registerCommand('computor.results.open', async (results: any, resultId?: string, artifacts?: any[], runInfo?: TestResultRunInfo) => {
       try {
+        resultsTree.setRunInfo(runInfo);
+        resultsTree.setComparison(undefined);
+        if (runInfo?.local) {
+          TestResultService.getInstance().recordLocalRun(runInfo, results);
+        }
         if (resultId && artifacts && artifacts.length > 0) {
           resultsTree.setResultArtifacts(resultId, artifacts);
         } else {
@@ -860,9 +916,17 @@ class UnifiedController {
     }));
     this.disposables.push(vscode.commands.registerCommand('computor.results.clear', () => {
       resultsTree.clearResultArtifacts();
+      resultsTree.setRunInfo(undefined);
+      resultsTree.setComparison(undefined);
       resultsTree.refresh({});
       panelProvider.clearResults();
     }));
+    this.disposables.push(vscode.commands.registerCommand('computor.results.compareRuns', async () => {
+      await this.compareTestResultRuns(resultsTree);
+    }));
+    this.disposables.push(vscode.commands.registerCommand('computor.results.clearComparison', () => {
+      resultsTree.setComparison(undefined);
+    }));
     this.disposables.push(vscode.commands.registerCommand('computor.results.artifact.open', async (resultId: string, artifactInfo: any) => {
       try {
         await this.openResultArtifact(api, resultId, artifactInfo);
@@ -873,6 +937,55 @@ class UnifiedController {
     }));
   }
 
+  private async compareTestResultRuns(resultsTree: TestResultsTreeDataProvider): Promise<void> {
+    const runInfo = resultsTree.getRunInfo();
+    if (!runInfo?.submissionGroupId && !runInfo?.local) {
+      vscode.window.showInformationMessage('Open the test results of an assignment first to compare its runs.');
+      return;
+    }
+
+    const service = TestResultService.getInstance();
+    const history = await vscode.window.withProgress({
+      location: vscode.ProgressLocation.Window,
+      title: 'Loading test result history...'
+    }, () => service.getResultHistory(runInfo));
+
+    if (history.length < 2) {
+      vscode.window.showInformationMessage('At least two test runs are needed for a comparison.');
+      return;
+    }
+
+    const picked = await vscode.window.showQuickPick(
+      history.map(entry => ({ label: entry.label, description: entry.description, entry })),
+      { canPickMany: true, title: 'Compare Test Runs', placeHolder: 'Select exactly two runs to compare' }
+    );
+    if (!picked) {
+      return;
+    }
+    if (picked.length !== 2) {
+      vscode.window.showWarningMessage('Please select exactly two test runs.');
+      return;
+    }
+
+    const [before, after] = picked.map(p => p.entry).sort((a, b) => a.timestamp - b.timestamp);
+    const [beforeResults, afterResults] = await vscode.window.withProgress({
+      location: vscode.ProgressLocation.Window,
+      title: 'Loading test results...'
+    }, () => Promise.all([service.loadHistoryResults(before!), service.loadHistoryResults(after!)]));
+
+    if (!beforeResults || !afterResults) {
+      vscode.window.showWarningMessage('No detailed test results are available for one of the selected runs.');
+      return;
+    }
+
+    resultsTree.setComparison({
+      beforeLabel: before!.label,
+      afterLabel: after!.label,
+      diff: diffTestResults(beforeResults, afterResults)
+    });
+    await vscode.commands.executeCommand('computor.testResultsView.focus');
+  }
+
   private async openResultArtifact(api: ComputorApiService, resultId: string, artifactInfo: any): Promise<void> {
     const fs = await import('fs');
     const path = await import('path');
@@ -889,7 +1002,6 @@ class UnifiedController {
       return;
     }
 
-    const { WorkspaceStructureManager } = await import('./utils/workspaceStructure');
     const JSZip = (await import('jszip')).default;
 
     const wsManager = WorkspaceStructureManager.getInstance();
@@ -961,7 +1073,7 @@ class UnifiedController {
 
   private async initializeTutorView(api: ComputorApiService): Promise<void> {
     const { TutorFilterTreeProvider } = await import('./ui/tree/tutor/tutor-filter-tree-provider');
-    const { TutorCourseFilterItem, TutorGroupOptionItem, TutorMemberFilterItem, NO_GROUP_SENTINEL, formatMemberName } = await import('./ui/tree/tutor/tutor-filter-tree-items');
+    const { TutorCourseFilterItem, TutorGroupOptionItem, TutorMemberFilterItem, NO_GROUP_SENTINEL, myQueueSentinel, formatMemberName } = await import('./ui/tree/tutor/tutor-filter-tree-items');
     const { TutorSelectionService } = await import('./services/TutorSelectionService');
     const { TutorStatusBarService } = await import('./ui/TutorStatusBarService');
     const { TutorEditorDecorationService } = await import('./providers/TutorEditorDecorationService');
@@ -1002,6 +1114,8 @@ class UnifiedController {
     this.disposables.push(vscode.commands.registerCommand('computor.tutor.selectGroup', async (item: InstanceType<typeof TutorGroupOptionItem>) => {
       if (item.isNoGroup) {
         await selection.selectGroup(NO_GROUP_SENTINEL, 'No Group');
+      } else if (item.isMyQueue) {
+        await selection.selectGroup(myQueueSentinel, 'My Queue');
       } else {
         await selection.selectGroup(item.groupId, item.groupLabel);
       }
@@ -1075,11 +1189,15 @@ class UnifiedController {
   private async initializeLecturerView(api: ComputorApiService): Promise<void> {
     const tree = new LecturerTreeDataProvider(this.context, api);
     if (this.wsService) tree.setWebSocketService(this.wsService);
+    const releaseSchedule = ReleaseScheduleService.initialize(this.context);
+    this.disposables.push(releaseSchedule, tree.setReleaseSchedule(releaseSchedule));
+    this.disposables.push(MetaYamlLanguageProvider.initialize(this.context, api));
+    this.disposables.push(TestYamlLanguageProvider.initialize());
 
     const breadcrumb = new LecturerBreadcrumbStatusBar();
     this.disposables.push(breadcrumb);
 
-    registerTreeView('computor.lecturer.courses', {
+    const coursesTreeView = registerTreeView('computor.lecturer.courses', {
       provider: tree,
       options: {
         showCollapseAll: true,
@@ -1111,6 +1229,12 @@ class UnifiedController {
       }
     }, this.disposables);
 
+    tree.setTreeView(coursesTreeView);
+    this.disposables.push(NotificationCenterService.getInstance().registerLinkHandler(async (link) => {
+      if (link.kind === 'message') { return false; }
+      return tree.revealCourseNode(link.courseId, link.kind === 'courseContent' ? link.courseContentId : undefined);
+    }));
+
     const exampleTree = new LecturerExampleTreeProvider(this.context, api);
     const exampleTreeView = registerTreeView('computor.lecturer.examples', {
       provider: exampleTree,
@@ -1122,6 +1246,12 @@ class UnifiedController {
     }, this.disposables);
     exampleTree.setTreeView(exampleTreeView);
 
+    const dependencyTree = new ExampleDependencyTreeProvider(api);
+    registerTreeView('computor.lecturer.exampleDependencies', {
+      provider: dependencyTree,
+      options: { showCollapseAll: true }
+    }, this.disposables);
+
     this.context.subscriptions.push(
       vscode.commands.registerCommand('computor.lecturer.revealInExamples', async (item: any) => {
         const identifier = item?.exampleInfo?.identifier;
@@ -1143,9 +1273,10 @@ class UnifiedController {
 
     const commands = new LecturerCommands(this.context, tree, api, this.messagesInputPanel, this.wsService, this.commentsInputPanel);
     commands.registerCommands();
+    releaseSchedule.start();
 
     // Register example-related commands (search, upload from ZIP, etc.)
-    new LecturerExampleCommands(this.context, api, exampleTree);
+    new LecturerExampleCommands(this.context, api, exampleTree, dependencyTree);
     new LecturerFsCommands(this.context, api).register();
     new UserPasswordCommands(this.context, api).register();
     new LogoutCommands(this.context).registerCommands();
@@ -1170,7 +1301,7 @@ class UnifiedController {
     const tree = new UserManagerTreeProvider(api, this.context);
     registerTreeView('computor.usermanager.users', {
       provider: tree,
-      options: { showCollapseAll: false },
+      options: { showCollapseAll: false, canSelectMany: true },
       onVisibility: (event) => {
         if (event.visible) void vscode.commands.executeCommand('computor.results.clear');
       }
@@ -1182,7 +1313,10 @@ class UnifiedController {
 
   private async initializeChatView(api: ComputorApiService): Promise<void> {
     const { ChatInboxTreeProvider } = await import('./ui/tree/chat/ChatInboxTreeProvider');
-    const { ChatScopeItem, ChatThreadItem, ChatCourseGroupItem } = await import('./ui/tree/chat/ChatInboxTreeItems');
+    const { MessageSearchTreeProvider } = await import('./ui/tree/chat/MessageSearchTreeProvider');
+    const { NotificationCenterTreeProvider } = await import('./ui/tree/notifications/NotificationCenterTreeProvider');
+    const { NotificationEntryItem } = await import('./ui/tree/notifications/NotificationTreeItems');
+    const { ChatScopeItem, ChatThreadItem, ChatCourseGroupItem, ChatSearchResultItem } = await import('./ui/tree/chat/ChatInboxTreeItems');
 
     // The chat view drives the existing MessagesWebviewProvider + bottom Compose
     // panel, so reuse the input panel + WebSocket service we already instantiated.
@@ -1194,7 +1328,9 @@ class UnifiedController {
       messagesWebview.setWebSocketService(this.wsService);
     }
 
+    const notifications = NotificationCenterService.getInstance();
     const tree = new ChatInboxTreeProvider(this.context, api, messagesWebview);
+    this.disposables.push(tree.setNotificationCenter(notifications));
     if (this.wsService) {
       tree.setWebSocketService(this.wsService);
     }
@@ -1222,6 +1358,27 @@ class UnifiedController {
       }
     }, this.disposables);
 
+    const searchTree = new MessageSearchTreeProvider(api, tree);
+    registerTreeView('computor.chat.search', {
+      provider: searchTree,
+      options: { showCollapseAll: false }
+    }, this.disposables);
+
+    const notificationTree = new NotificationCenterTreeProvider(notifications);
+    this.disposables.push(notificationTree);
+    const notificationTreeView = registerTreeView('computor.notifications', {
+      provider: notificationTree,
+      options: { showCollapseAll: false }
+    }, this.disposables);
+    const updateNotificationBadge = () => {
+      const count = notifications.getUnreadCount();
+      notificationTreeView.badge = count > 0
+        ? { value: count, tooltip: `${count} unread notification${count === 1 ? '' : 's'}` }
+        : undefined;
+    };
+    updateNotificationBadge();
+    this.disposables.push(notifications.onDidChange(updateNotificationBadge));
+
     this.disposables.push(
       tree.onDidChangeUnread((count) => {
         chatTreeView.badge = count > 0
@@ -1249,6 +1406,17 @@ class UnifiedController {
           void tree.markThreadRead(item);
         }
       }),
+      vscode.commands.registerCommand('computor.chat.search', async (refine?: unknown) => {
+        if (await searchTree.promptAndSearch(refine === true)) {
+          void vscode.commands.executeCommand('computor.chat.search.focus');
+        }
+      }),
+      vscode.commands.registerCommand('computor.chat.search.clear', () => searchTree.clear()),
+      vscode.commands.registerCommand('computor.chat.openSearchResult', (item: any) => {
+        if (item instanceof ChatSearchResultItem) {
+          void searchTree.openResult(item);
+        }
+      }),
       vscode.commands.registerCommand('computor.chat.loadMore', (scope: unknown, courseId?: unknown) => {
         if (typeof scope !== 'string' || scope.length === 0) { return; }
         if (typeof courseId === 'string' && courseId.length > 0) {
@@ -1272,7 +1440,20 @@ class UnifiedController {
         if (item instanceof ChatScopeItem) {
           tree.toggleScopeMuted(item.scope);
         }
-      })
+      }),
+      vscode.commands.registerCommand('computor.notifications.open', (item: any) => {
+        if (item instanceof NotificationEntryItem) {
+          void notifications.open(item.entry.id);
+        }
+      }),
+      vscode.commands.registerCommand('computor.notifications.dismiss', (item: any) => {
+        if (item instanceof NotificationEntryItem) {
+          void notifications.remove(item.entry.id);
+        }
+      }),
+      vscode.commands.registerCommand('computor.notifications.markAllRead', () => notifications.markRead()),
+      vscode.commands.registerCommand('computor.notifications.clear', () => notifications.clear()),
+      vscode.commands.registerCommand('computor.notifications.configure', () => notificationTree.configurePreferences())
     );
 
     // Initial load.
@@ -1379,7 +1560,7 @@ async function initializeOfflineMode(context: vscode.ExtensionContext): Promise<
   }
 
   // Ensure student/ directory exists - create it automatically if not present
-  const studentPath = path.join(workspaceRoot, 'student');
+  const studentPath = WorkspaceStructureManager.getInstance().getDirectories().student;
   if (!fs.existsSync(studentPath)) {
     try {
       fs.mkdirSync(studentPath, { recursive: true });
@@ -0,0 +1,260 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ComputorApiService } from '../services/ComputorApiService';
+import { readCheckoutMetadata } from '../utils/checkedOutExampleManager';
+import { findMissingMetaYamlFiles, listExampleFiles, metaYamlFileListProperties } from '../utils/metaYamlHelpers';
+import {
+  JsonSchema,
+  schemaDescription,
+  schemaProperties,
+  schemaTypeLabel,
+  schemaValueSuggestions,
+  schemasAtPath,
+  validateAgainstSchema
+} from '../utils/jsonSchema';
+import {
+  YamlPath,
+  YamlRange,
+  existingYamlKeys,
+  findYamlNodeAt,
+  indexYamlLocations,
+  locateYamlPath,
+  resolveYamlCursor
+} from '../utils/yamlLocator';
+
+const metaYamlSelector: vscode.DocumentSelector = { scheme: 'file', pattern: '**/meta.yaml' };
+const validationDelayMs = 300;
+
+/**
+ * Schema-backed editing support for meta.yaml as text: diagnostics against
+ * schemas/meta-yaml-schema.json plus checks that listed files exist in the
+ * example directory, completion for keys, enum values, example files and
+ * test dependencies, and hover documentation for keys.
+ */
+export class MetaYamlLanguageProvider implements vscode.CompletionItemProvider, vscode.HoverProvider, vscode.Disposable {
+  private static instance: MetaYamlLanguageProvider | null = null;
+
+  private readonly diagnostics = vscode.languages.createDiagnosticCollection('computor-meta-yaml');
+  private readonly disposables: vscode.Disposable[] = [];
+  private readonly pendingValidations = new Map<string, NodeJS.Timeout>();
+
+  private constructor(private readonly schema: JsonSchema, private readonly apiService: ComputorApiService) {
+    this.disposables.push(
+      this.diagnostics,
+      vscode.languages.registerCompletionItemProvider(metaYamlSelector, this, ':', ' ', '-', '/'),
+      vscode.languages.registerHoverProvider(metaYamlSelector, this),
+      vscode.workspace.onDidOpenTextDocument(doc => this.validate(doc)),
+      vscode.workspace.onDidChangeTextDocument(event => this.scheduleValidation(event.document)),
+      vscode.workspace.onDidCloseTextDocument(doc => this.diagnostics.delete(doc.uri))
+    );
+    vscode.workspace.textDocuments.forEach(doc => this.validate(doc));
+  }
+
+  static initialize(context: vscode.ExtensionContext, apiService: ComputorApiService): vscode.Disposable {
+    if (!this.instance) {
+      const schemaPath = path.join(context.extensionPath, 'schemas', 'meta-yaml-schema.json');
+      try {
+        const schema = JSON.parse(fs.readFileSync(schemaPath, 'utf8')) as JsonSchema;
+        this.instance = new MetaYamlLanguageProvider(schema, apiService);
+      } catch (error) {
+        console.warn('[MetaYamlLanguageProvider] meta.yaml schema not available:', error);
+        return new vscode.Disposable(() => undefined);
+      }
+    }
+    return this.instance;
+  }
+
+  dispose(): void {
+    this.pendingValidations.forEach(timer => clearTimeout(timer));
+    this.pendingValidations.clear();
+    this.disposables.forEach(disposable => disposable.dispose());
+    MetaYamlLanguageProvider.instance = null;
+  }
+
+  async provideCompletionItems(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.CompletionItem[]> {
+    const text = document.getText();
+    const cursor = resolveYamlCursor(text, position.line, position.character);
+    const replaceRange = new vscode.Range(position.translate(0, -Math.min(cursor.prefix.length, position.character)), position);
+    const exampleDir = path.dirname(document.uri.fsPath);
+
+    if (cursor.kind === 'key') {
+      return this.keyCompletions(cursor.path, existingYamlKeys(indexYamlLocations(text), cursor.path), replaceRange);
+    }
+
+    if (cursor.kind === 'item') {
+      const items: vscode.CompletionItem[] = [];
+      if (isFileListPath(cursor.path)) {
+        items.push(...this.fileCompletions(exampleDir, text, replaceRange));
+      } else if (isTestDependencyPath(cursor.path)) {
+        items.push(...await this.dependencyCompletions(exampleDir, document, replaceRange));
+      }
+      // Sequences of mappings (authors, links, ...) start with their keys
+      items.push(...this.keyCompletions([...cursor.path, 0], new Set(), replaceRange));
+      return items;
+    }
+
+    const last = cursor.path[cursor.path.length - 1];
+    if (last === 'slug' && isTestDependencyPath(cursor.path.slice(0, -2))) {
+      return this.dependencyCompletions(exampleDir, document, replaceRange);
+    }
+    return schemaValueSuggestions(schemasAtPath(this.schema, cursor.path)).map(value => {
+      const item = new vscode.CompletionItem(String(value), vscode.CompletionItemKind.EnumMember);
+      item.range = replaceRange;
+      return item;
+    });
+  }
+
+  provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+    const node = findYamlNodeAt(indexYamlLocations(document.getText()), position.line, position.character);
+    if (!node?.onKey || typeof node.location.path[node.location.path.length - 1] !== 'string') {
+      return undefined;
+    }
+    const nodePath = node.location.path;
+    const schemas = schemasAtPath(this.schema, nodePath);
+    if (schemas.length === 0) {
+      return undefined;
+    }
+    const parentProperties = schemaProperties(schemasAtPath(this.schema, nodePath.slice(0, -1)));
+    const markdown = new vscode.MarkdownString();
+    markdown.appendMarkdown(`**${String(nodePath[nodePath.length - 1])}**`);
+    const typeLabel = schemaTypeLabel(schemas);
+    if (typeLabel) {
+      markdown.appendMarkdown(` \`${typeLabel}\``);
+    }
+    const description = schemaDescription(parentProperties.get(String(nodePath[nodePath.length - 1])), this.schema);
+    if (description) {
+      markdown.appendMarkdown(`\n\n${description}`);
+    }
+    const defaultValue = schemas.find(schema => schema.default !== undefined && schema.default !== null)?.default;
+    if (defaultValue !== undefined) {
+      markdown.appendMarkdown(`\n\nDefault: \`${JSON.stringify(defaultValue)}\``);
+    }
+    const range = node.location.key;
+    return new vscode.Hover(markdown, range ? toRange(range) : undefined);
+  }
+
+  private scheduleValidation(document: vscode.TextDocument): void {
+    if (!vscode.languages.match(metaYamlSelector, document)) {
+      return;
+    }
+    const key = document.uri.toString();
+    const pending = this.pendingValidations.get(key);
+    if (pending) {
+      clearTimeout(pending);
+    }
+    this.pendingValidations.set(key, setTimeout(() => {
+      this.pendingValidations.delete(key);
+      this.validate(document);
+    }, validationDelayMs));
+  }
+
+  private validate(document: vscode.TextDocument): void {
+    if (!vscode.languages.match(metaYamlSelector, document) || document.isClosed) {
+      return;
+    }
+    const text = document.getText();
+    let data: unknown;
+    try {
+      const yaml = require('js-yaml');
+      data = yaml.load(text);
+    } catch (error: any) {
+      const line = error?.mark?.line ?? 0;
+      const column = error?.mark?.column ?? 0;
+      const diagnostic = new vscode.Diagnostic(
+        new vscode.Range(line, column, line, column + 1),
+        `YAML syntax error: ${error?.reason || error?.message || error}`,
+        vscode.DiagnosticSeverity.Error
+      );
+      diagnostic.source = 'meta.yaml';
+      this.diagnostics.set(document.uri, [diagnostic]);
+      return;
+    }
+
+    const locations = indexYamlLocations(text);
+    const rangeFor = (issuePath: YamlPath): vscode.Range => {
+      const located = locateYamlPath(locations, issuePath);
+      return located ? toRange(located) : new vscode.Range(0, 0, 0, 0);
+    };
+    const diagnostics: vscode.Diagnostic[] = [];
+    for (const issue of validateAgainstSchema(data ?? {}, this.schema, { reportUnknownProperties: true })) {
+      const diagnostic = new vscode.Diagnostic(
+        rangeFor(issue.path),
+        issue.message,
+        issue.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning
+      );
+      diagnostic.source = 'meta.yaml';
+      diagnostics.push(diagnostic);
+    }
+    for (const missing of findMissingMetaYamlFiles(data, path.dirname(document.uri.fsPath))) {
+      const diagnostic = new vscode.Diagnostic(
+        rangeFor(missing.path),
+        `"${missing.file}" does not exist in the example directory.`,
+        vscode.DiagnosticSeverity.Warning
+      );
+      diagnostic.source = 'meta.yaml';
+      diagnostics.push(diagnostic);
+    }
+    this.diagnostics.set(document.uri, diagnostics);
+  }
+
+  private keyCompletions(containerPath: YamlPath, existing: Set<string>, range: vscode.Range): vscode.CompletionItem[] {
+    const properties = schemaProperties(schemasAtPath(this.schema, containerPath));
+    return Array.from(properties.entries())
+      .filter(([name]) => !existing.has(name))
+      .map(([name, property]) => {
+        const item = new vscode.CompletionItem(name, vscode.CompletionItemKind.Property);
+        item.insertText = `${name}: `;
+        item.range = range;
+        item.detail = schemaTypeLabel(schemasAtPath(this.schema, [...containerPath, name]));
+        const description = schemaDescription(property, this.schema);
+        if (description) {
+          item.documentation = new vscode.MarkdownString(description);
+        }
+        return item;
+      });
+  }
+
+  private fileCompletions(exampleDir: string, text: string, range: vscode.Range): vscode.CompletionItem[] {
+    const listed = new Set(Array.from(indexYamlLocations(text).values()).map(location => location.text).filter(Boolean));
+    return listExampleFiles(exampleDir)
+      .filter(file => !listed.has(file))
+      .map(file => {
+        const item = new vscode.CompletionItem(file, vscode.CompletionItemKind.File);
+        item.range = range;
+        return item;
+      });
+  }
+
+  private async dependencyCompletions(
+    exampleDir: string,
+    document: vscode.TextDocument,
+    range: vscode.Range
+  ): Promise<vscode.CompletionItem[]> {
+    const ownSlug = /^slug:\s*["']?([^"'\s#]+)/m.exec(document.getText())?.[1];
+    const repositoryId = readCheckoutMetadata(exampleDir)?.repositoryId || undefined;
+    const examples = await this.apiService.getExamples(repositoryId);
+    return examples
+      .filter(example => example.identifier !== ownSlug)
+      .map(example => {
+        const item = new vscode.CompletionItem(example.identifier, vscode.CompletionItemKind.Module);
+        item.detail = example.title;
+        item.documentation = example.directory;
+        item.range = range;
+        return item;
+      });
+  }
+}
+
+function isFileListPath(yamlPath: YamlPath): boolean {
+  return yamlPath.length === 2 && yamlPath[0] === 'properties'
+    && (metaYamlFileListProperties as readonly unknown[]).includes(yamlPath[1]);
+}
+
+function isTestDependencyPath(yamlPath: YamlPath): boolean {
+  return yamlPath.length === 2 && yamlPath[0] === 'properties' && yamlPath[1] === 'testDependencies';
+}
+
+function toRange(range: YamlRange): vscode.Range {
+  return new vscode.Range(range.line, range.start, range.line, range.end);
+}
@@ -0,0 +1,258 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ComputorApiService } from '../services/ComputorApiService';
+import { WorkspaceStructureManager } from '../utils/workspaceStructure';
+import type { MessageCreate, MessageList } from '../types/generated';
+import {
+  formatReviewCommentTitle,
+  groupReviewThreads,
+  normalizeReviewPath,
+  resolveReviewSubmissionFile
+} from '../utils/reviewCommentAnchor';
+
+interface ReviewLocation {
+  submissionGroupId: string;
+  relativePath: string;
+}
+
+class ReviewComment implements vscode.Comment {
+  body: string | vscode.MarkdownString;
+  mode = vscode.CommentMode.Preview;
+  author: vscode.CommentAuthorInformation;
+  label?: string;
+  contextValue?: string;
+  timestamp?: Date;
+
+  constructor(public readonly message: MessageList) {
+    this.body = new vscode.MarkdownString(message.content);
+    const author = message.author;
+    const name = [author?.given_name, author?.family_name].filter(Boolean).join(' ');
+    this.author = { name: name || 'Unknown' };
+    this.contextValue = message.is_author ? 'reviewComment.own' : 'reviewComment';
+    if (message.created_at) {
+      this.timestamp = new Date(message.created_at);
+    }
+  }
+}
+
+/**
+ * VS Code comment threads for student code. Threads are anchored to a file and
+ * line and persisted as submission-group messages (see reviewCommentAnchor), so
+ * tutors commenting on `review/submissions/...` and students looking at their own
+ * checkout see the same conversation.
+ */
+export class ReviewCommentController implements vscode.Disposable {
+  private static instance: ReviewCommentController | null = null;
+
+  private readonly controller: vscode.CommentController;
+  private readonly disposables: vscode.Disposable[] = [];
+  /** Student checkouts registered by the student tree: assignment directory → submission group. */
+  private readonly checkoutRoots = new Map<string, string>();
+  private readonly messagesCache = new Map<string, Promise<MessageList[]>>();
+  private readonly threadsByDocument = new Map<string, vscode.CommentThread[]>();
+  private readonly threadRoots = new WeakMap<vscode.CommentThread, MessageList>();
+
+  private constructor(private readonly api: ComputorApiService) {
+    this.controller = vscode.comments.createCommentController('computor.reviewComments', 'Computor Review');
+    this.controller.options = {
+      prompt: 'Add a review comment',
+      placeHolder: 'Visible to the student and the tutors of this submission'
+    };
+    this.controller.commentingRangeProvider = {
+      provideCommentingRanges: (document) => {
+        if (!this.resolveLocation(document.uri) || document.lineCount === 0) {
+          return [];
+        }
+        return [new vscode.Range(0, 0, document.lineCount - 1, 0)];
+      }
+    };
+
+    this.disposables.push(
+      this.controller,
+      vscode.workspace.onDidOpenTextDocument(doc => void this.loadThreads(doc)),
+      vscode.workspace.onDidCloseTextDocument(doc => this.disposeThreads(doc.uri)),
+      vscode.commands.registerCommand('computor.reviewComments.submit', (reply: vscode.CommentReply) => this.submit(reply)),
+      vscode.commands.registerCommand('computor.reviewComments.delete', (comment: ReviewComment) => this.deleteComment(comment)),
+      vscode.commands.registerCommand('computor.reviewComments.refresh', () => this.refresh())
+    );
+
+    vscode.workspace.textDocuments.forEach(doc => void this.loadThreads(doc));
+  }
+
+  static initialize(api: ComputorApiService): ReviewCommentController {
+    if (!this.instance) {
+      this.instance = new ReviewCommentController(api);
+    }
+    return this.instance;
+  }
+
+  static getInstance(): ReviewCommentController | null {
+    return this.instance;
+  }
+
+  /**
+   * Makes review threads available in a student's own checkout. Paths inside
+   * `assignmentDir` map 1:1 to paths inside the submitted artifact.
+   */
+  registerCheckout(assignmentDir: string, submissionGroupId: string): void {
+    const root = path.resolve(assignmentDir);
+    if (this.checkoutRoots.get(root) === submissionGroupId) { return; }
+    this.checkoutRoots.set(root, submissionGroupId);
+    vscode.workspace.textDocuments
+      .filter(doc => doc.uri.scheme === 'file' && doc.uri.fsPath.startsWith(root + path.sep))
+      .forEach(doc => void this.loadThreads(doc));
+  }
+
+  /** Number of review threads on the given file (fetches the submission's messages once). */
+  async getThreadCount(filePath: string): Promise<number> {
+    const location = this.resolveLocation(vscode.Uri.file(filePath));
+    if (!location) { return 0; }
+    const messages = await this.fetchMessages(location.submissionGroupId);
+    return groupReviewThreads(messages, location.relativePath).length;
+  }
+
+  async refresh(): Promise<void> {
+    this.messagesCache.clear();
+    await Promise.all(vscode.workspace.textDocuments.map(doc => this.loadThreads(doc)));
+  }
+
+  private resolveLocation(uri: vscode.Uri): ReviewLocation | undefined {
+    if (uri.scheme !== 'file') { return undefined; }
+    const filePath = path.resolve(uri.fsPath);
+
+    let bestRoot: string | undefined;
+    for (const root of this.checkoutRoots.keys()) {
+      if (filePath.startsWith(root + path.sep) && (!bestRoot || root.length > bestRoot.length)) {
+        bestRoot = root;
+      }
+    }
+    if (bestRoot) {
+      return {
+        submissionGroupId: this.checkoutRoots.get(bestRoot)!,
+        relativePath: normalizeReviewPath(path.relative(bestRoot, filePath))
+      };
+    }
+
+    let reviewSubmissionDirs: string[];
+    try {
+      reviewSubmissionDirs = WorkspaceStructureManager.getInstance().getDirectoryCandidates('reviewSubmissions');
+    } catch {
+      return undefined;
+    }
+    for (const reviewSubmissions of reviewSubmissionDirs) {
+      const submission = resolveReviewSubmissionFile(reviewSubmissions, filePath);
+      if (submission) {
+        return { submissionGroupId: submission.submissionGroupId, relativePath: submission.relativePath };
+      }
+    }
+    return undefined;
+  }
+
+  private fetchMessages(submissionGroupId: string): Promise<MessageList[]> {
+    let pending = this.messagesCache.get(submissionGroupId);
+    if (!pending) {
+      pending = this.api.listMessages({ submission_group_id: submissionGroupId }).catch((error) => {
+        console.warn('[ReviewComments] Failed to load review comments:', error);
+        this.messagesCache.delete(submissionGroupId);
+        return [];
+      });
+      this.messagesCache.set(submissionGroupId, pending);
+    }
+    return pending;
+  }
+
+  private async loadThreads(document: vscode.TextDocument): Promise<void> {
+    const location = this.resolveLocation(document.uri);
+    if (!location) { return; }
+
+    const messages = await this.fetchMessages(location.submissionGroupId);
+    this.disposeThreads(document.uri);
+
+    const threads = groupReviewThreads(messages, location.relativePath).map(data => {
+      const line = Math.min(data.anchor.line, Math.max(document.lineCount, 1)) - 1;
+      const thread = this.controller.createCommentThread(
+        document.uri,
+        new vscode.Range(line, 0, line, 0),
+        [data.root, ...data.replies].map(m => new ReviewComment(m))
+      );
+      thread.label = `Line ${data.anchor.line}`;
+      thread.canReply = true;
+      this.threadRoots.set(thread, data.root);
+      return thread;
+    });
+    this.threadsByDocument.set(document.uri.toString(), threads);
+  }
+
+  private disposeThreads(uri: vscode.Uri): void {
+    const key = uri.toString();
+    this.threadsByDocument.get(key)?.forEach(t => t.dispose());
+    this.threadsByDocument.delete(key);
+  }
+
+  private async submit(reply: vscode.CommentReply): Promise<void> {
+    const thread = reply.thread;
+    const text = reply.text.trim();
+    if (!text) { return; }
+
+    const location = this.resolveLocation(thread.uri);
+    if (!location) {
+      vscode.window.showWarningMessage('Review comments are only available for submission files.');
+      return;
+    }
+
+    const root = this.threadRoots.get(thread);
+    const line = (thread.range?.start.line ?? 0) + 1;
+    const payload: MessageCreate = root
+      ? { parent_id: root.id, level: (root.level ?? 0) + 1, content: text, submission_group_id: location.submissionGroupId }
+      : {
+        title: formatReviewCommentTitle({ filePath: location.relativePath, line }),
+        level: 0,
+        content: text,
+        submission_group_id: location.submissionGroupId
+      };
+
+    try {
+      const created = await this.api.createMessage(payload);
+      const message: MessageList = { ...created, is_author: true };
+      thread.comments = [...thread.comments, new ReviewComment(message)];
+      if (!root) {
+        this.threadRoots.set(thread, message);
+        thread.label = `Line ${line}`;
+        const threads = this.threadsByDocument.get(thread.uri.toString()) ?? [];
+        this.threadsByDocument.set(thread.uri.toString(), [...threads, thread]);
+      }
+      const cached = await this.messagesCache.get(location.submissionGroupId);
+      if (cached) {
+        this.messagesCache.set(location.submissionGroupId, Promise.resolve([...cached, message]));
+      }
+    } catch (error: any) {
+      vscode.window.showErrorMessage(`Failed to post review comment: ${error?.message || error}`);
+    }
+  }
+
+  private async deleteComment(comment: ReviewComment): Promise<void> {
+    const confirmation = await vscode.window.showWarningMessage(
+      'Delete this review comment?',
+      { modal: true },
+      'Delete'
+    );
+    if (confirmation !== 'Delete') { return; }
+
+    try {
+      await this.api.deleteMessage(comment.message.id);
+      await this.refresh();
+    } catch (error: any) {
+      vscode.window.showErrorMessage(`Failed to delete review comment: ${error?.message || error}`);
+    }
+  }
+
+  dispose(): void {
+    this.disposables.forEach(d => d.dispose());
+    this.threadsByDocument.clear();
+    this.checkoutRoots.clear();
+    this.messagesCache.clear();
+    if (ReviewCommentController.instance === this) {
+      ReviewCommentController.instance = null;
+    }
+  }
+}
@@ -0,0 +1,312 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { listExampleFiles } from '../utils/metaYamlHelpers';
+import {
+  TestYamlContainer,
+  describeField,
+  detectBlockLanguage,
+  fieldTypeLabel,
+  findLanguageBlocks,
+  findQualification,
+  findTestType,
+  getBlockRegistry,
+  testYamlContainerAt,
+  testYamlFields,
+  validateTestYaml
+} from '../utils/testYamlBlocks';
+import type { FieldDefinition, LanguageBlocks } from '../types/testing/blocks';
+import {
+  YamlNodeLocation,
+  YamlPath,
+  YamlRange,
+  existingYamlKeys,
+  findYamlNodeAt,
+  indexYamlLocations,
+  locateYamlPath,
+  resolveYamlCursor,
+  yamlPathKey
+} from '../utils/yamlLocator';
+
+const testYamlSelector: vscode.DocumentSelector = { scheme: 'file', pattern: '**/test.yaml' };
+const validationDelayMs = 300;
+
+/**
+ * Block-registry-backed editing support for test.yaml as text: diagnostics for
+ * unknown test types, qualifications a test type does not allow, missing
+ * required fields and out-of-range values, plus completion and hover
+ * documentation from the registry descriptions and examples.
+ */
+export class TestYamlLanguageProvider implements vscode.CompletionItemProvider, vscode.HoverProvider, vscode.Disposable {
+  private static instance: TestYamlLanguageProvider | null = null;
+
+  private readonly diagnostics = vscode.languages.createDiagnosticCollection('computor-test-yaml');
+  private readonly disposables: vscode.Disposable[] = [];
+  private readonly pendingValidations = new Map<string, NodeJS.Timeout>();
+
+  private constructor() {
+    this.disposables.push(
+      this.diagnostics,
+      vscode.languages.registerCompletionItemProvider(testYamlSelector, this, ':', ' ', '-'),
+      vscode.languages.registerHoverProvider(testYamlSelector, this),
+      vscode.workspace.onDidOpenTextDocument(doc => this.validate(doc)),
+      vscode.workspace.onDidChangeTextDocument(event => this.scheduleValidation(event.document)),
+      vscode.workspace.onDidCloseTextDocument(doc => this.diagnostics.delete(doc.uri))
+    );
+    vscode.workspace.textDocuments.forEach(doc => this.validate(doc));
+  }
+
+  static initialize(): vscode.Disposable {
+    if (!this.instance) {
+      this.instance = new TestYamlLanguageProvider();
+    }
+    return this.instance;
+  }
+
+  dispose(): void {
+    this.pendingValidations.forEach(timer => clearTimeout(timer));
+    this.pendingValidations.clear();
+    this.disposables.forEach(disposable => disposable.dispose());
+    TestYamlLanguageProvider.instance = null;
+  }
+
+  provideCompletionItems(document: vscode.TextDocument, position: vscode.Position): vscode.CompletionItem[] {
+    const text = document.getText();
+    const cursor = resolveYamlCursor(text, position.line, position.character);
+    const replaceRange = new vscode.Range(position.translate(0, -Math.min(cursor.prefix.length, position.character)), position);
+    const locations = indexYamlLocations(text);
+    const language = this.resolveLanguage(document, locations);
+
+    if (cursor.kind === 'key') {
+      return this.keyCompletions(language, locations, cursor.path, replaceRange);
+    }
+    if (cursor.kind === 'item') {
+      // Collections and test cases start with their keys
+      const itemPath = [...cursor.path, 0];
+      return testYamlContainerAt(itemPath) ? this.keyCompletions(language, locations, itemPath, replaceRange) : [];
+    }
+
+    const fieldName = cursor.path[cursor.path.length - 1];
+    const container = testYamlContainerAt(cursor.path.slice(0, -1));
+    if (typeof fieldName !== 'string' || !container) {
+      return [];
+    }
+    if (container.kind === 'suite' && fieldName === 'type') {
+      return getBlockRegistry().languages.map(candidate =>
+        this.valueItem(candidate.id, candidate.name, candidate.description, replaceRange)
+      );
+    }
+    if (!language) {
+      return [];
+    }
+    if (container.kind === 'collection' && fieldName === 'type') {
+      return language.testTypes.map(testType =>
+        this.valueItem(testType.id, testType.name, withExample(testType.description, testType.example), replaceRange)
+      );
+    }
+    const testTypeId = this.collectionType(locations, container);
+    if (container.kind === 'test' && fieldName === 'qualification') {
+      const testType = findTestType(language, testTypeId);
+      return (testType?.qualifications ?? []).flatMap(id => {
+        const qualification = findQualification(language, id);
+        if (!qualification) {
+          return [];
+        }
+        const item = this.valueItem(id, qualification.name, withExample(qualification.description, qualification.example), replaceRange);
+        if (id === testType?.defaultQualification) {
+          item.detail = `${qualification.name} (default)`;
+          item.sortText = `0${id}`;
+        }
+        return [item];
+      });
+    }
+    const field = this.fieldsAt(language, locations, container, testTypeId).find(candidate => candidate.name === fieldName);
+    const values = field?.type === 'boolean' ? ['true', 'false'] : field?.enumValues ?? [];
+    return values.map(value => {
+      const item = new vscode.CompletionItem(value, vscode.CompletionItemKind.EnumMember);
+      item.range = replaceRange;
+      return item;
+    });
+  }
+
+  provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+    const locations = indexYamlLocations(document.getText());
+    const node = findYamlNodeAt(locations, position.line, position.character);
+    const nodePath = node?.location.path ?? [];
+    const fieldName = nodePath[nodePath.length - 1];
+    const container = testYamlContainerAt(nodePath.slice(0, -1));
+    if (!node || typeof fieldName !== 'string' || !container) {
+      return undefined;
+    }
+    const language = this.resolveLanguage(document, locations);
+    const range = node.onKey ? node.location.key : node.location.value;
+    const hoverRange = range ? toRange(range) : undefined;
+    const testTypeId = this.collectionType(locations, container);
+
+    if (!node.onKey) {
+      // Values of the registry-backed fields document the chosen block
+      if (container.kind === 'suite' && fieldName === 'type') {
+        const target = findLanguageBlocks(node.location.text);
+        return target ? new vscode.Hover(new vscode.MarkdownString(`**${target.name}**\n\n${target.description}`), hoverRange) : undefined;
+      }
+      if (language && container.kind === 'collection' && fieldName === 'type') {
+        const testType = findTestType(language, node.location.text);
+        return testType
+          ? new vscode.Hover(new vscode.MarkdownString(`**${testType.name}**\n\n${withExample(testType.description, testType.example)}`), hoverRange)
+          : undefined;
+      }
+      if (language && container.kind === 'test' && fieldName === 'qualification') {
+        const qualification = findQualification(language, node.location.text);
+        return qualification
+          ? new vscode.Hover(new vscode.MarkdownString(`**${qualification.name}**\n\n${withExample(qualification.description, qualification.example)}`), hoverRange)
+          : undefined;
+      }
+      return undefined;
+    }
+
+    const field = this.fieldsAt(language, locations, container, testTypeId).find(candidate => candidate.name === fieldName);
+    return field ? new vscode.Hover(new vscode.MarkdownString(describeField(field)), hoverRange) : undefined;
+  }
+
+  private scheduleValidation(document: vscode.TextDocument): void {
+    if (!vscode.languages.match(testYamlSelector, document)) {
+      return;
+    }
+    const key = document.uri.toString();
+    const pending = this.pendingValidations.get(key);
+    if (pending) {
+      clearTimeout(pending);
+    }
+    this.pendingValidations.set(key, setTimeout(() => {
+      this.pendingValidations.delete(key);
+      this.validate(document);
+    }, validationDelayMs));
+  }
+
+  private validate(document: vscode.TextDocument): void {
+    if (!vscode.languages.match(testYamlSelector, document) || document.isClosed) {
+      return;
+    }
+    const text = document.getText();
+    let data: unknown;
+    try {
+      const yaml = require('js-yaml');
+      data = yaml.load(text);
+    } catch (error: any) {
+      const line = error?.mark?.line ?? 0;
+      const column = error?.mark?.column ?? 0;
+      const diagnostic = new vscode.Diagnostic(
+        new vscode.Range(line, column, line, column + 1),
+        `YAML syntax error: ${error?.reason || error?.message || error}`,
+        vscode.DiagnosticSeverity.Error
+      );
+      diagnostic.source = 'test.yaml';
+      this.diagnostics.set(document.uri, [diagnostic]);
+      return;
+    }
+
+    const locations = indexYamlLocations(text);
+    const rangeFor = (issuePath: YamlPath): vscode.Range => {
+      const located = locateYamlPath(locations, issuePath);
+      return located ? toRange(located) : new vscode.Range(0, 0, 0, 0);
+    };
+    const language = this.resolveLanguage(document, locations);
+    if (!language) {
+      const declared = locations.get('type')?.text;
+      const diagnostic = new vscode.Diagnostic(
+        rangeFor(['type']),
+        declared
+          ? `Unknown language "${declared}". Expected one of: ${getBlockRegistry().languages.map(candidate => candidate.id).join(', ')}.`
+          : 'Could not determine the language of the tests. Set "type" to enable test type checks.',
+        vscode.DiagnosticSeverity.Warning
+      );
+      diagnostic.source = 'test.yaml';
+      this.diagnostics.set(document.uri, [diagnostic]);
+      return;
+    }
+
+    const diagnostics = validateTestYaml(data ?? {}, language).map(issue => {
+      const diagnostic = new vscode.Diagnostic(
+        rangeFor(issue.path),
+        issue.message,
+        issue.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning
+      );
+      diagnostic.source = 'test.yaml';
+      return diagnostic;
+    });
+    this.diagnostics.set(document.uri, diagnostics);
+  }
+
+  /** The declared `type`, falling back to the example's file extensions like the form editor does. */
+  private resolveLanguage(document: vscode.TextDocument, locations: Map<string, YamlNodeLocation>): LanguageBlocks | undefined {
+    const declared = locations.get('type')?.text;
+    if (declared) {
+      return findLanguageBlocks(declared);
+    }
+    return findLanguageBlocks(detectBlockLanguage(listExampleFiles(path.dirname(document.uri.fsPath))));
+  }
+
+  private collectionType(locations: Map<string, YamlNodeLocation>, container: TestYamlContainer): string | undefined {
+    if (container.kind !== 'collection' && container.kind !== 'test') {
+      return undefined;
+    }
+    return locations.get(yamlPathKey(['properties', 'tests', container.collection, 'type']))?.text;
+  }
+
+  private fieldsAt(
+    language: LanguageBlocks | undefined,
+    locations: Map<string, YamlNodeLocation>,
+    container: TestYamlContainer,
+    testTypeId: string | undefined
+  ): FieldDefinition[] {
+    const qualificationId = container.kind === 'test'
+      ? locations.get(yamlPathKey(['properties', 'tests', container.collection, 'tests', container.test, 'qualification']))?.text
+      : undefined;
+    return testYamlFields(language, container, testTypeId, qualificationId);
+  }
+
+  private keyCompletions(
+    language: LanguageBlocks | undefined,
+    locations: Map<string, YamlNodeLocation>,
+    containerPath: YamlPath,
+    range: vscode.Range
+  ): vscode.CompletionItem[] {
+    const container = testYamlContainerAt(containerPath);
+    if (!container) {
+      return [];
+    }
+    const existing = existingYamlKeys(locations, containerPath);
+    return this.fieldsAt(language, locations, container, this.collectionType(locations, container))
+      .filter(field => !existing.has(field.name))
+      .map(field => {
+        const item = new vscode.CompletionItem(field.name, vscode.CompletionItemKind.Property);
+        item.insertText = `${field.name}: `;
+        item.range = range;
+        item.detail = fieldTypeLabel(field) + (field.required ? ' (required)' : '');
+        item.documentation = new vscode.MarkdownString(describeField(field));
+        if (field.required) {
+          item.sortText = `0${field.name}`;
+        }
+        return item;
+      });
+  }
+
+  private valueItem(value: string, detail: string, documentation: string, range: vscode.Range): vscode.CompletionItem {
+    const item = new vscode.CompletionItem(value, vscode.CompletionItemKind.EnumMember);
+    item.detail = detail;
+    item.documentation = new vscode.MarkdownString(documentation);
+    item.range = range;
+    return item;
+  }
+}
+
+function withExample(description: string, example: Record<string, unknown> | undefined): string {
+  if (!example) {
+    return description;
+  }
+  const yaml = require('js-yaml');
+  return `${description}\n\nExample:\n\n\`\`\`yaml\n${yaml.dump(example, { indent: 2, lineWidth: 120 })}\`\`\``;
+}
+
+function toRange(range: YamlRange): vscode.Range {
+  return new vscode.Range(range.line, range.start, range.line, range.end);
+}
@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import { TutorSelectionService } from '../services/TutorSelectionService';
+import { WorkspaceStructureManager } from '../utils/workspaceStructure';
 
 /**
  * Service that manages text editor decorations for tutor review files.
@@ -191,21 +192,22 @@ export class TutorEditorDecorationService implements vscode.Disposable {
       return 'none';
     }
 
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-    if (!workspaceFolder) {
+    let workspaceStructure: WorkspaceStructureManager;
+    try {
+      workspaceStructure = WorkspaceStructureManager.getInstance();
+    } catch {
       return 'none';
     }
 
     const filePath = uri.fsPath;
-    const submissionsPath = path.join(workspaceFolder, 'review', 'submissions');
-    const repositoriesPath = path.join(workspaceFolder, 'review', 'repositories');
-    const referencePath = path.join(workspaceFolder, 'review', 'reference');
+    const isBelow = (dirs: string[]) => dirs.some(dir => filePath.startsWith(dir + path.sep));
 
-    if (filePath.startsWith(submissionsPath) || filePath.startsWith(repositoriesPath)) {
+    if (isBelow(workspaceStructure.getDirectoryCandidates('reviewSubmissions'))
+      || isBelow(workspaceStructure.getDirectoryCandidates('reviewRepositories'))) {
       return 'student';
     }
 
-    if (filePath.startsWith(referencePath)) {
+    if (isBelow(workspaceStructure.getDirectoryCandidates('reviewReference'))) {
       return 'reference';
     }
 
@@ -16,6 +16,9 @@ export class BackendConnectionService {
   private statusBarItem: vscode.StatusBarItem;
   private checkInterval: NodeJS.Timeout | null = null;
   private currentBaseUrl: string = 'http://localhost:8000';
+  private reachabilityEmitter = new vscode.EventEmitter<boolean>();
+  /** Fires when a check finds the backend reachable after it was not, or the other way round. */
+  readonly onDidChangeReachability = this.reachabilityEmitter.event;
   
   private constructor() {
     this.statusBarItem = vscode.window.createStatusBarItem(
@@ -59,7 +62,7 @@ export class BackendConnectionService {
         isReachable: true,
         lastCheckTime: new Date()
       };
-      this.lastStatus = status;
+      this.setLastStatus(status);
       this.updateStatusBar('connected');
       return status;
       
@@ -99,7 +102,7 @@ export class BackendConnectionService {
         lastCheckTime: new Date()
       };
       
-      this.lastStatus = status;
+      this.setLastStatus(status);
       this.updateStatusBar('disconnected', this.errorHintFor(errorType));
       return status;
     }
@@ -183,6 +186,14 @@ export class BackendConnectionService {
     }
   }
 
+  private setLastStatus(status: BackendStatus): void {
+    const changed = this.lastStatus !== null && this.lastStatus.isReachable !== status.isReachable;
+    this.lastStatus = status;
+    if (changed) {
+      this.reachabilityEmitter.fire(status.isReachable);
+    }
+  }
+
   /**
    * Get the last known backend status
    */
@@ -1226,7 +1226,7 @@ export class ComputorApiService {
     return response.data;
   }
 
-  async getCourseGroup(groupId: string): Promise<CourseGroupGet | undefined> {
+  async getCourseGroup(groupId: string, options?: { force?: boolean }): Promise<CourseGroupGet | undefined> {
     try {
       return await this.cachedRequest({
         cacheKey: `courseGroup-${groupId}`,
@@ -1235,7 +1235,8 @@ export class ComputorApiService {
           const client = await this.getHttpClient();
           return (await client.get<CourseGroupGet>(`/course-groups/${groupId}`)).data;
         },
-        retry: { maxRetries: 2 }
+        retry: { maxRetries: 2 },
+        force: options?.force
       });
     } catch (error) {
       console.error('Failed to get course group:', error);
@@ -2057,7 +2058,7 @@ export class ComputorApiService {
     }
   }
 
-  async getTutorSubmissionGroups(query?: TutorSubmissionGroupQuery): Promise<TutorSubmissionGroupList[]> {
+  async getTutorSubmissionGroups(query?: TutorSubmissionGroupQuery, options?: { throwOnError?: boolean }): Promise<TutorSubmissionGroupList[]> {
     try {
       const result = await this.cachedRequest({
         cacheKey: `tutorSubmissionGroups-${JSON.stringify(query || {})}`,
@@ -2084,6 +2085,9 @@ export class ComputorApiService {
       return result || [];
     } catch (e) {
       console.error('Failed to get tutor submission groups:', e);
+      if (options?.throwOnError) {
+        throw e;
+      }
       return [];
     }
   }
@@ -2333,6 +2337,31 @@ export class ComputorApiService {
     }
   }
 
+  /** Organization, course family and course memberships of one user, e.g. for the permissions inspector. */
+  async listUserMemberships(userId: string): Promise<{
+    organizations: import('../types/generated/organizations').OrganizationMemberList[];
+    courseFamilies: import('../types/generated/courses').CourseFamilyMemberList[];
+    courses: CourseMemberList[];
+  }> {
+    try {
+      const client = await this.getHttpClient();
+      const query = { user_id: userId, limit: 10000 };
+      const [organizations, courseFamilies, courses] = await Promise.all([
+        client.get<import('../types/generated/organizations').OrganizationMemberList[]>('/organization-members', query),
+        client.get<import('../types/generated/courses').CourseFamilyMemberList[]>('/course-family-members', query),
+        client.get<CourseMemberList[]>('/course-members', query)
+      ]);
+      return {
+        organizations: organizations.data || [],
+        courseFamilies: courseFamilies.data || [],
+        courses: courses.data || []
+      };
+    } catch (error) {
+      console.error(`[listUserMemberships] Failed for ${userId}:`, error);
+      throw error;
+    }
+  }
+
   async createCourseFamilyMember(
     payload: import('../types/generated/courses').CourseFamilyMemberCreate
   ): Promise<import('../types/generated/courses').CourseFamilyMemberGet> {
@@ -4,6 +4,7 @@ import * as vscode from 'vscode';
 import { execAsync } from '../utils/exec';
 import { WorkspaceStructureManager } from '../utils/workspaceStructure';
 import { ResultArtifactInfo } from '../types/generated/common';
+import type { TestResultRunInfo } from './TestResultService';
 
 const REPO_URL = 'https://github.com/computor-org/computor-backend.git';
 const SPARSE_DIRS = ['computor-types', 'computor-testing'];
@@ -217,15 +218,7 @@ export class ComputorTestingInstaller {
   }
 
   async runTests(exampleDir: string): Promise<void> {
-    if (!this.isInstalled()) {
-      const action = await vscode.window.showWarningMessage(
-        'Computor Testing is not installed. Install it now?',
-        'Install', 'Cancel'
-      );
-      if (action !== 'Install') { return; }
-      const success = await this.install();
-      if (!success) { return; }
-    }
+    if (!await this.ensureInstalled()) { return; }
 
     const language = this.readTestYamlLanguage(exampleDir);
     if (!language) {
@@ -236,13 +229,7 @@ export class ComputorTestingInstaller {
     const target = await this.pickTestTarget(exampleDir);
     if (!target) { return; }
 
-    // Dispose previous test terminal so its cwd is released (fixes Windows EBUSY)
-    if (this.activeTestTerminal) {
-      this.activeTestTerminal.dispose();
-      this.activeTestTerminal = undefined;
-      // Give Windows a moment to release the directory lock
-      if (IS_WINDOWS) { await new Promise(r => setTimeout(r, 500)); }
-    }
+    await this.releaseTestTerminal();
 
     const tmpDir = this.createTestRunDir(exampleDir, target);
 
@@ -253,7 +240,59 @@ export class ComputorTestingInstaller {
     this.pollForTestResults(tmpDir);
   }
 
-  private pollForTestResults(tmpDir: string): void {
+  /**
+   * Student-side local run: executes the assignment's test.yaml against the
+   * working copy without committing or uploading anything. The results are
+   * shown in the test results view marked as a local, non-submitted run.
+   */
+  async runLocalStudentTests(assignmentDir: string, assignmentTitle: string, submissionGroupId?: string): Promise<void> {
+    if (!fs.existsSync(path.join(assignmentDir, 'test.yaml'))) {
+      vscode.window.showErrorMessage(
+        `"${assignmentTitle}" does not ship a test.yaml, so it cannot be tested locally. Use "Test Assignment" to run the tests on the server.`
+      );
+      return;
+    }
+
+    const language = this.readTestYamlLanguage(assignmentDir);
+    if (!language) {
+      vscode.window.showErrorMessage('Could not determine language from test.yaml. Make sure test.yaml has a "type" field.');
+      return;
+    }
+
+    if (!await this.ensureInstalled()) { return; }
+
+    await this.releaseTestTerminal();
+
+    const tmpDir = this.createStudentTestRunDir(assignmentDir);
+
+    const terminalOptions = this.buildTerminalOptions(tmpDir, language);
+    this.activeTestTerminal = vscode.window.createTerminal(terminalOptions);
+    this.activeTestTerminal.show();
+
+    this.pollForTestResults(tmpDir, { local: true, label: assignmentTitle, submissionGroupId });
+  }
+
+  private async ensureInstalled(): Promise<boolean> {
+    if (this.isInstalled()) { return true; }
+    const action = await vscode.window.showWarningMessage(
+      'Computor Testing is not installed. Install it now?',
+      'Install', 'Cancel'
+    );
+    if (action !== 'Install') { return false; }
+    return this.install();
+  }
+
+  private async releaseTestTerminal(): Promise<void> {
+    // Dispose previous test terminal so its cwd is released (fixes Windows EBUSY)
+    if (this.activeTestTerminal) {
+      this.activeTestTerminal.dispose();
+      this.activeTestTerminal = undefined;
+      // Give Windows a moment to release the directory lock
+      if (IS_WINDOWS) { await new Promise(r => setTimeout(r, 500)); }
+    }
+  }
+
+  private pollForTestResults(tmpDir: string, runInfo?: TestResultRunInfo): void {
     const resultPath = path.join(tmpDir, 'output', 'testSummary.json');
     const POLL_INTERVAL_MS = 2000;
     const TIMEOUT_MS = 300_000;
@@ -272,7 +311,7 @@ export class ComputorTestingInstaller {
         const results = JSON.parse(fs.readFileSync(resultPath, 'utf8'));
         const artifacts = this.collectLocalArtifacts(tmpDir);
         const localResultId = artifacts.length > 0 ? `local:${path.join(tmpDir, 'output')}` : undefined;
-        await vscode.commands.executeCommand('computor.results.open', results, localResultId, artifacts);
+        await vscode.commands.executeCommand('computor.results.open', results, localResultId, artifacts, runInfo);
         await vscode.commands.executeCommand('workbench.view.extension.computor-test-results');
         await vscode.commands.executeCommand('computor.testResultsPanel.focus');
       } catch (e) {
@@ -282,22 +321,32 @@ export class ComputorTestingInstaller {
   }
 
   private createTestRunDir(exampleDir: string, target: string): string {
+    const runDir = this.prepareTestRunDir(`test-run-${path.basename(exampleDir)}`);
+    return this.populateTestRunDir(runDir, exampleDir, target);
+  }
+
+  private createStudentTestRunDir(assignmentDir: string): string {
+    const runDir = this.prepareTestRunDir(`test-run-local-${path.basename(assignmentDir)}`);
+    return this.populateStudentTestRunDir(runDir, assignmentDir);
+  }
+
+  /** Creates an empty run directory below tmp/, replacing a previous run with the same name. */
+  private prepareTestRunDir(name: string): string {
     const dirs = WorkspaceStructureManager.getInstance().getDirectories();
-    const exampleName = path.basename(exampleDir);
-    const tmpDir = path.join(dirs.tmp, `test-run-${exampleName}`);
+    const tmpDir = path.join(dirs.tmp, name);
 
     if (fs.existsSync(tmpDir)) {
       try {
         fs.rmSync(tmpDir, { recursive: true, force: true });
       } catch {
         // Fallback: use a timestamped directory if removal fails (e.g. Windows EBUSY)
-        const fallback = path.join(dirs.tmp, `test-run-${exampleName}-${Date.now()}`);
+        const fallback = path.join(dirs.tmp, `${name}-${Date.now()}`);
         fs.mkdirSync(fallback, { recursive: true });
-        return this.populateTestRunDir(fallback, exampleDir, target);
+        return fallback;
       }
     }
     fs.mkdirSync(tmpDir, { recursive: true });
-    return this.populateTestRunDir(tmpDir, exampleDir, target);
+    return tmpDir;
   }
 
   private populateTestRunDir(tmpDir: string, exampleDir: string, target: string): string {
@@ -344,6 +393,27 @@ export class ComputorTestingInstaller {
     return tmpDir;
   }
 
+  /**
+   * Students have no reference solution locally: `student/` receives the working
+   * copy and `reference/` stays empty, so tests that compare against the
+   * reference cannot pass in a local run.
+   */
+  private populateStudentTestRunDir(tmpDir: string, assignmentDir: string): string {
+    const excludeNames = new Set(['.git', 'test.yaml', 'meta.yaml', '.computor-example.json', 'output', 'artifacts']);
+
+    fs.cpSync(path.join(assignmentDir, 'test.yaml'), path.join(tmpDir, 'test.yaml'));
+    fs.mkdirSync(path.join(tmpDir, 'reference'), { recursive: true });
+
+    const studentDir = path.join(tmpDir, 'student');
+    fs.mkdirSync(studentDir, { recursive: true });
+    for (const entry of fs.readdirSync(assignmentDir, { withFileTypes: true })) {
+      if (excludeNames.has(entry.name)) { continue; }
+      fs.cpSync(path.join(assignmentDir, entry.name), path.join(studentDir, entry.name), { recursive: true });
+    }
+
+    return tmpDir;
+  }
+
   private cleanupStaleTestRuns(): void {
     try {
       const dirs = WorkspaceStructureManager.getInstance().getDirectories();
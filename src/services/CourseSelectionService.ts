@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import { ComputorApiService } from './ComputorApiService';
 import { StatusBarService } from '../ui/StatusBarService';
+import { resolveComputorWorkspaceRoot } from '../utils/workspaceStructure';
 
 export interface CourseInfo {
     id: string;
@@ -27,11 +28,11 @@ export class CourseSelectionService {
         this.context = context;
         this.apiService = apiService;
         this.statusBarService = statusBarService;
-        const firstWorkspace = vscode.workspace.workspaceFolders?.[0];
-        if (!firstWorkspace) {
+        const workspaceRoot = resolveComputorWorkspaceRoot();
+        if (!workspaceRoot) {
             throw new Error('CourseSelectionService requires an open workspace folder.');
         }
-        this.workspaceRoot = firstWorkspace.uri.fsPath;
+        this.workspaceRoot = workspaceRoot;
         
         // Don't auto-load last selected course - let the student extension handle it
         // This prevents loading stale/invalid course IDs from previous sessions
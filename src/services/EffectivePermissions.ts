@@ -0,0 +1,142 @@
+import type { UserScopes } from '../types/generated/users';
+import {
+  PermissionDecision,
+  ScopePermissionContext,
+  explainManageAnyCourseFamilyMembers,
+  explainManageAnyOrganizationMembers,
+  explainScopeMembership
+} from './ScopePermissions';
+import { explainPostGlobal, explainPostToCourseFamily, explainPostToOrganization } from './MessagePermissions';
+
+const adminRole = '_admin';
+const userManagerRole = '_user_manager';
+
+/** Course roles from lowest to highest; each role includes the rights of the ones before it. */
+const courseRoleOrder = ['_student', '_tutor', '_lecturer', '_maintainer', '_owner'];
+
+export type InspectedScopeKind = 'organization' | 'course_family' | 'course';
+
+/** One membership of the inspected user. */
+export interface InspectedMembership {
+  kind: InspectedScopeKind;
+  scopeId: string;
+  title: string;
+  roleId: string;
+}
+
+export interface InspectedUser {
+  archived: boolean;
+  /** Role IDs from `user.user_roles[]`. */
+  globalRoles: ReadonlySet<string>;
+  memberships: readonly InspectedMembership[];
+}
+
+export interface CapabilityCheck extends PermissionDecision {
+  action: string;
+}
+
+export interface PermissionSection {
+  kind: 'system' | InspectedScopeKind;
+  scopeId?: string;
+  title: string;
+  roles: string[];
+  checks: CapabilityCheck[];
+}
+
+export interface EffectivePermissions {
+  isAdmin: boolean;
+  /** Why nothing below applies, e.g. an archived account. */
+  blockedReason?: string;
+  sections: PermissionSection[];
+}
+
+/**
+ * Rebuilds what `/user/scopes` would return for the inspected user from their
+ * memberships, so the same rules the extension applies to the signed-in user
+ * can be evaluated for anyone. Admin status follows the `_admin` system role.
+ */
+export function scopesFromMemberships(globalRoles: ReadonlySet<string>, memberships: readonly InspectedMembership[]): UserScopes {
+  const scopes: UserScopes = { is_admin: globalRoles.has(adminRole), organization: {}, course_family: {}, course: {} };
+  for (const membership of memberships) {
+    const map = scopes[membership.kind]!;
+    map[membership.scopeId] = [...(map[membership.scopeId] ?? []), membership.roleId];
+  }
+  return scopes;
+}
+
+/** Whether `roleId` reaches `minimum` in the course role hierarchy. */
+export function explainCourseRole(roleId: string, minimum: string, isAdmin: boolean): PermissionDecision {
+  if (isAdmin) {
+    return { allowed: true, reason: 'Administrators bypass all scope checks.' };
+  }
+  const held = courseRoleOrder.indexOf(roleId);
+  const needed = courseRoleOrder.indexOf(minimum);
+  if (held >= 0 && held >= needed) {
+    return { allowed: true, reason: roleId === minimum ? `Holds ${roleId}.` : `Holds ${roleId}, which includes ${minimum}.` };
+  }
+  return { allowed: false, reason: `Needs ${minimum} or higher; holds ${roleId}.` };
+}
+
+function check(action: string, decision: PermissionDecision): CapabilityCheck {
+  return { action, ...decision };
+}
+
+/** One section for system roles and one per scope the user is a member of. */
+export function buildEffectivePermissions(user: InspectedUser): EffectivePermissions {
+  const scopes = scopesFromMemberships(user.globalRoles, user.memberships);
+  const ctx: ScopePermissionContext = { scopes, globalRoles: user.globalRoles };
+  const sections: PermissionSection[] = [{
+    kind: 'system',
+    title: 'System',
+    roles: [...user.globalRoles].sort(),
+    checks: [
+      check('Post global announcements', explainPostGlobal(scopes, user.globalRoles.has(userManagerRole))),
+      check('Manage organization members', explainManageAnyOrganizationMembers(ctx)),
+      check('Manage course family members', explainManageAnyCourseFamilyMembers(ctx))
+    ]
+  }];
+
+  const byScope = new Map<string, PermissionSection>();
+  for (const membership of user.memberships) {
+    const key = `${membership.kind}:${membership.scopeId}`;
+    let section = byScope.get(key);
+    if (!section) {
+      section = { kind: membership.kind, scopeId: membership.scopeId, title: membership.title, roles: [], checks: [] };
+      byScope.set(key, section);
+    }
+    section.roles.push(membership.roleId);
+  }
+
+  for (const section of byScope.values()) {
+    const scopeId = section.scopeId!;
+    if (section.kind === 'organization') {
+      section.checks = [
+        check('Manage members', explainScopeMembership('organization', scopeId, ctx)),
+        check('Post announcements', explainPostToOrganization(scopes, scopeId))
+      ];
+    } else if (section.kind === 'course_family') {
+      section.checks = [
+        check('Manage members', explainScopeMembership('course_family', scopeId, ctx)),
+        check('Post announcements', explainPostToCourseFamily(scopes, scopeId))
+      ];
+    } else {
+      const roleId = section.roles[0]!;
+      section.checks = [
+        check('See the course and submit', explainCourseRole(roleId, '_student', scopes.is_admin)),
+        check('Grade and comment as tutor', explainCourseRole(roleId, '_tutor', scopes.is_admin)),
+        check('Manage content and members as lecturer', explainCourseRole(roleId, '_lecturer', scopes.is_admin))
+      ];
+    }
+    sections.push(section);
+  }
+
+  let blockedReason: string | undefined;
+  if (user.archived) {
+    blockedReason = 'The account is archived and cannot sign in, so none of these permissions apply.';
+    for (const section of sections) {
+      section.checks = section.checks.map(item => ({ ...item, allowed: false, reason: `Archived account. Otherwise: ${item.reason}` }));
+    }
+  }
+
+  return { isAdmin: scopes.is_admin, blockedReason, sections };
+}
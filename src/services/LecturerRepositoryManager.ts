@@ -6,7 +6,7 @@ import { execGitClone } from '../git/gitCloneHelpers';
 import { GitLabTokenManager } from './GitLabTokenManager';
 import { ComputorApiService } from './ComputorApiService';
 import { createRepositoryBackup, isHistoryRewriteError } from '../utils/repositoryBackup';
-import { WorkspaceStructureManager } from '../utils/workspaceStructure';
+import { WorkspaceStructureManager, resolveComputorWorkspaceRoot } from '../utils/workspaceStructure';
 
 export class LecturerRepositoryManager {
   private workspaceStructure: WorkspaceStructureManager;
@@ -148,12 +148,12 @@ export class LecturerRepositoryManager {
   }
 
   public async resolveAssignmentsRoot(): Promise<string | undefined> {
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-    if (!workspaceFolder) {
+    const workspaceRoot = resolveComputorWorkspaceRoot();
+    if (!workspaceRoot) {
       return undefined;
     }
 
-    const markerPath = path.join(workspaceFolder.uri.fsPath, '.computor');
+    const markerPath = path.join(workspaceRoot, '.computor');
     let courseId: string | undefined;
     try {
       const raw = await fs.promises.readFile(markerPath, 'utf8');
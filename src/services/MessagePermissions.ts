@@ -1,4 +1,5 @@
 import type { UserScopes } from '../types/generated';
+import type { PermissionDecision } from './ScopePermissions';
 
 const POSTING_ROLES = new Set(['_owner', '_manager']);
 
@@ -40,36 +41,50 @@ export function canReplyInScope(scope: ScopeName): boolean {
   return REPLY_ALLOWED_SCOPES.has(scope);
 }
 
-function hasPostingRole(roles: string[] | undefined): boolean {
-  if (!roles) {
-    return false;
-  }
-  for (const role of roles) {
-    if (POSTING_ROLES.has(role)) {
-      return true;
-    }
-  }
-  return false;
+function findPostingRole(roles: string[] | undefined): string | undefined {
+  return roles?.find(role => POSTING_ROLES.has(role));
 }
 
-export function canPostToOrganization(scopes: UserScopes | undefined, organizationId: string): boolean {
+function explainPostToScope(
+  scopes: UserScopes | undefined,
+  roles: string[] | undefined,
+  scopeLabel: string
+): PermissionDecision {
   if (!scopes) {
-    return false;
+    return { allowed: false, reason: 'Scopes are not loaded.' };
   }
   if (scopes.is_admin) {
-    return true;
+    return { allowed: true, reason: 'Administrators can post everywhere.' };
   }
-  return hasPostingRole(scopes.organization?.[organizationId]);
+  const role = findPostingRole(roles);
+  return role
+    ? { allowed: true, reason: `Holds ${role} on this ${scopeLabel}.` }
+    : { allowed: false, reason: `Posting to this ${scopeLabel} requires manager or owner role.` };
 }
 
-export function canPostToCourseFamily(scopes: UserScopes | undefined, courseFamilyId: string): boolean {
-  if (!scopes) {
-    return false;
-  }
-  if (scopes.is_admin) {
-    return true;
+export function explainPostToOrganization(scopes: UserScopes | undefined, organizationId: string): PermissionDecision {
+  return explainPostToScope(scopes, scopes?.organization?.[organizationId], 'organization');
+}
+
+export function explainPostToCourseFamily(scopes: UserScopes | undefined, courseFamilyId: string): PermissionDecision {
+  return explainPostToScope(scopes, scopes?.course_family?.[courseFamilyId], 'course family');
+}
+
+export function explainPostGlobal(scopes: UserScopes | undefined, isUserManager = false): PermissionDecision {
+  if (scopes?.is_admin === true) {
+    return { allowed: true, reason: 'Administrators can post global announcements.' };
   }
-  return hasPostingRole(scopes.course_family?.[courseFamilyId]);
+  return isUserManager
+    ? { allowed: true, reason: 'User managers can post global announcements.' }
+    : { allowed: false, reason: 'Only administrators or user managers can post global announcements.' };
+}
+
+export function canPostToOrganization(scopes: UserScopes | undefined, organizationId: string): boolean {
+  return explainPostToOrganization(scopes, organizationId).allowed;
+}
+
+export function canPostToCourseFamily(scopes: UserScopes | undefined, courseFamilyId: string): boolean {
+  return explainPostToCourseFamily(scopes, courseFamilyId).allowed;
 }
 
 export function canPostGlobal(
@@ -78,5 +93,5 @@ export function canPostGlobal(
    *  are allowed to post global announcements alongside admins. */
   isUserManager = false
 ): boolean {
-  return scopes?.is_admin === true || isUserManager;
+  return explainPostGlobal(scopes, isUserManager).allowed;
 }
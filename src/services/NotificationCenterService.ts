@@ -0,0 +1,221 @@
+import * as vscode from 'vscode';
+import { WebSocketService } from './WebSocketService';
+import {
+  NotificationDelivery,
+  NotificationEntry,
+  NotificationInput,
+  NotificationLink,
+  NotificationPreferences,
+  appendNotification,
+  deliveryFor,
+  describeCourseContentUpdated,
+  describeDeploymentAssigned,
+  describeDeploymentStatusChanged,
+  describeDeploymentUnassigned,
+  describeMaintenanceEvent,
+  markNotificationsRead,
+  unreadNotificationCount
+} from '../utils/notificationCenter';
+
+const stateKey = 'computor.notifications.state';
+const wsHandlerId = 'notification-center';
+
+interface PersistedState {
+  entries: NotificationEntry[];
+  preferences: NotificationPreferences;
+}
+
+/** Opens a link; resolves true when it knew where the link leads. */
+export type NotificationLinkHandler = (link: NotificationLink) => Promise<boolean>;
+
+/**
+ * Keeps a log of server events (deployments, course content, maintenance and
+ * chat messages) in globalState and announces each one according to the
+ * per-type delivery preference.
+ */
+export class NotificationCenterService implements vscode.Disposable {
+  private static instance: NotificationCenterService | null = null;
+
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  /** Fires when entries are added, read or removed. */
+  public readonly onDidChange = this.changeEmitter.event;
+  private readonly preferencesEmitter = new vscode.EventEmitter<void>();
+  public readonly onDidChangePreferences = this.preferencesEmitter.event;
+  private readonly linkHandlers: NotificationLinkHandler[] = [];
+  private state: PersistedState;
+  private wsService?: WebSocketService;
+
+  private constructor(private readonly context: vscode.ExtensionContext) {
+    const stored = context.globalState.get<PersistedState>(stateKey);
+    this.state = {
+      entries: Array.isArray(stored?.entries) ? stored!.entries : [],
+      preferences: stored?.preferences ?? {}
+    };
+  }
+
+  static initialize(context: vscode.ExtensionContext, wsService?: WebSocketService): NotificationCenterService {
+    if (!this.instance) {
+      this.instance = new NotificationCenterService(context);
+    }
+    if (wsService) {
+      this.instance.listen(wsService);
+    }
+    return this.instance;
+  }
+
+  static getInstance(): NotificationCenterService {
+    if (!this.instance) throw new Error('NotificationCenterService not initialized');
+    return this.instance;
+  }
+
+  getEntries(): NotificationEntry[] {
+    return [...this.state.entries];
+  }
+
+  getUnreadCount(): number {
+    return unreadNotificationCount(this.state.entries);
+  }
+
+  getPreferences(): NotificationPreferences {
+    return { ...this.state.preferences };
+  }
+
+  getDelivery(type: string): NotificationDelivery {
+    return deliveryFor(this.state.preferences, type);
+  }
+
+  async setDelivery(types: string | readonly string[], delivery: NotificationDelivery): Promise<void> {
+    const preferences = { ...this.state.preferences };
+    for (const type of typeof types === 'string' ? [types] : types) {
+      preferences[type] = delivery;
+    }
+    this.state = { ...this.state, preferences };
+    await this.save();
+    this.preferencesEmitter.fire();
+  }
+
+  /** Replaces all preferences at once, e.g. after migrating older settings. */
+  async setPreferences(preferences: NotificationPreferences): Promise<void> {
+    this.state = { ...this.state, preferences: { ...preferences } };
+    await this.save();
+    this.preferencesEmitter.fire();
+  }
+
+  /** Link handlers are asked in registration order until one opens the link. */
+  registerLinkHandler(handler: NotificationLinkHandler): vscode.Disposable {
+    this.linkHandlers.push(handler);
+    return new vscode.Disposable(() => {
+      const index = this.linkHandlers.indexOf(handler);
+      if (index >= 0) {
+        this.linkHandlers.splice(index, 1);
+      }
+    });
+  }
+
+  /** Records an event and shows a toast when its type is set to `toast`. */
+  async notify(input: NotificationInput): Promise<NotificationEntry> {
+    const delivery = this.getDelivery(input.type);
+    const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+    this.state = { ...this.state, entries: appendNotification(this.state.entries, input, delivery, id) };
+    await this.save();
+    this.changeEmitter.fire();
+
+    const entry = this.state.entries[0]!;
+    if (delivery === 'toast') {
+      void this.showToast(entry);
+    }
+    return entry;
+  }
+
+  /** Marks the entry read and follows its link. */
+  async open(id: string): Promise<void> {
+    const entry = this.state.entries.find(candidate => candidate.id === id);
+    if (!entry) {
+      return;
+    }
+    await this.markRead([id]);
+    if (!entry.link) {
+      return;
+    }
+    for (const handler of [...this.linkHandlers]) {
+      try {
+        if (await handler(entry.link)) {
+          return;
+        }
+      } catch (error) {
+        console.warn('[NotificationCenter] Link handler failed:', error);
+      }
+    }
+    vscode.window.showInformationMessage('The item of this notification is not shown in any open view.');
+  }
+
+  async markRead(ids?: readonly string[]): Promise<void> {
+    if (this.getUnreadCount() === 0) {
+      return;
+    }
+    this.state = { ...this.state, entries: markNotificationsRead(this.state.entries, ids) };
+    await this.save();
+    this.changeEmitter.fire();
+  }
+
+  async remove(id: string): Promise<void> {
+    this.state = { ...this.state, entries: this.state.entries.filter(entry => entry.id !== id) };
+    await this.save();
+    this.changeEmitter.fire();
+  }
+
+  async clear(): Promise<void> {
+    this.state = { ...this.state, entries: [] };
+    await this.save();
+    this.changeEmitter.fire();
+  }
+
+  dispose(): void {
+    this.wsService?.unsubscribe([], wsHandlerId);
+    this.changeEmitter.dispose();
+    this.preferencesEmitter.dispose();
+    NotificationCenterService.instance = null;
+  }
+
+  private listen(wsService: WebSocketService): void {
+    if (this.wsService === wsService) {
+      return;
+    }
+    this.wsService = wsService;
+    // Course channels are subscribed by the trees; events are dispatched to
+    // every handler, so no channels of our own are needed.
+    wsService.subscribe([], wsHandlerId, {
+      onDeploymentStatusChanged: event => void this.notify(describeDeploymentStatusChanged(event)),
+      onDeploymentAssigned: event => void this.notify(describeDeploymentAssigned(event)),
+      onDeploymentUnassigned: event => void this.notify(describeDeploymentUnassigned(event)),
+      onCourseContentUpdated: event => void this.notify(describeCourseContentUpdated(event)),
+      onMaintenanceActivated: message => void this.notify(describeMaintenanceEvent({ kind: 'activated', message })),
+      onMaintenanceDeactivated: message => void this.notify(describeMaintenanceEvent({ kind: 'deactivated', message })),
+      onMaintenanceScheduled: (scheduledAt, message) => void this.notify(describeMaintenanceEvent({ kind: 'scheduled', message, scheduledAt })),
+      onMaintenanceCancelled: message => void this.notify(describeMaintenanceEvent({ kind: 'cancelled', message })),
+      onMaintenanceReminder: (minutesRemaining, scheduledAt, message) => void this.notify(describeMaintenanceEvent({ kind: 'reminder', message, minutesRemaining }))
+    });
+  }
+
+  private async showToast(entry: NotificationEntry): Promise<void> {
+    const text = entry.detail ? `${entry.title}: ${entry.detail}` : entry.title;
+    const actions = entry.link ? ['Open'] : [];
+    const show = entry.severity === 'error'
+      ? vscode.window.showErrorMessage
+      : entry.severity === 'warning'
+        ? vscode.window.showWarningMessage
+        : vscode.window.showInformationMessage;
+    const choice = await show(text, ...actions);
+    if (choice === 'Open') {
+      await this.open(entry.id);
+    }
+  }
+
+  private async save(): Promise<void> {
+    try {
+      await this.context.globalState.update(stateKey, this.state);
+    } catch (error) {
+      console.warn('[NotificationCenter] Failed to persist state:', error);
+    }
+  }
+}
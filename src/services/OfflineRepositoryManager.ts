@@ -4,6 +4,7 @@ import * as fs from 'fs';
 import { execAsync } from '../utils/exec';
 import { execGitClone } from '../git/gitCloneHelpers';
 import { addTokenToGitUrl, extractOriginFromGitUrl } from '../utils/gitUrlHelpers';
+import { WorkspaceStructureManager, resolveComputorWorkspaceRoot } from '../utils/workspaceStructure';
 
 /**
  * Repository configuration for offline mode
@@ -227,7 +228,7 @@ export class OfflineRepositoryManager {
     }
 
     // Ensure student/ directory exists
-    const studentDir = path.join(workspaceRoot, 'student');
+    const studentDir = WorkspaceStructureManager.getInstance().getDirectories().student;
     await fs.promises.mkdir(studentDir, { recursive: true });
 
     // Extract repository name from URL
@@ -330,10 +331,6 @@ export class OfflineRepositoryManager {
    * Get workspace root directory
    */
   private getWorkspaceRoot(): string | undefined {
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (!workspaceFolders || workspaceFolders.length === 0) {
-      return undefined;
-    }
-    return workspaceFolders[0]!.uri.fsPath;
+    return resolveComputorWorkspaceRoot();
   }
 }
@@ -0,0 +1,424 @@
+import * as vscode from 'vscode';
+import { ComputorApiService } from './ComputorApiService';
+import { BackendConnectionService } from './BackendConnectionService';
+import { WebSocketService } from './WebSocketService';
+import type { MessageCreate } from '../types/generated';
+import {
+  OutboxCommentItem,
+  OutboxItem,
+  OutboxMessageItem,
+  classifySendError,
+  commentThreadKey,
+  detachFromParent,
+  isNetworkError,
+  itemsForThread,
+  pendingInOrder,
+  updateDrafts
+} from '../utils/outbox';
+
+const stateKeyPrefix = 'computor.outbox.state';
+const wsHandlerId = 'outbox';
+const retryIntervalMs = 60 * 1000;
+const draftSaveDelayMs = 500;
+/** Server errors are retried this often before the item needs the user's attention. */
+const maxAttempts = 5;
+
+interface PersistedState {
+  items: OutboxItem[];
+  drafts: Record<string, string>;
+}
+
+export type SendResult = 'sent' | 'queued';
+
+type QueuedFields =
+  | Omit<OutboxMessageItem, 'id' | 'createdAt' | 'status' | 'attempts'>
+  | Omit<OutboxCommentItem, 'id' | 'createdAt' | 'status' | 'attempts'>;
+
+/**
+ * Local outbox for the messages and comments input panels. Sends made while
+ * the backend is unreachable (or the WebSocket is reconnecting) are stored
+ * in globalState together with unsent drafts, shown as pending in their
+ * thread and sent in order once the connection is back.
+ *
+ * The stored state is kept per user and backend URL, so logging in as
+ * someone else never shows or sends the previous account's queue.
+ */
+export class OutboxService implements vscode.Disposable {
+  private static instance: OutboxService | null = null;
+
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  public readonly onDidChange = this.changeEmitter.event;
+  private readonly sentEmitter = new vscode.EventEmitter<OutboxItem>();
+  /** Fires for every queued item the server accepted. */
+  public readonly onDidSend = this.sentEmitter.event;
+  private readonly statusBarItem: vscode.StatusBarItem;
+  private readonly disposables: vscode.Disposable[] = [];
+  private state: PersistedState = { items: [], drafts: {} };
+  /** Unset until the current user is known; nothing is persisted before that. */
+  private stateKey: string | undefined;
+  private loading?: Promise<boolean>;
+  private flushing?: Promise<void>;
+  private timer: NodeJS.Timeout | undefined;
+  private draftTimer: NodeJS.Timeout | undefined;
+
+  private constructor(
+    private readonly context: vscode.ExtensionContext,
+    private readonly api: ComputorApiService,
+    private readonly wsService?: WebSocketService
+  ) {
+    this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 98);
+    this.statusBarItem.command = 'computor.outbox.show';
+    this.updateStatusBar();
+
+    wsService?.subscribe([], wsHandlerId, { onConnected: () => void this.flush() });
+    this.disposables.push(
+      BackendConnectionService.getInstance().onDidChangeReachability(reachable => {
+        if (reachable) {
+          void this.flush();
+        }
+      })
+    );
+    this.timer = setInterval(() => {
+      if (pendingInOrder(this.state.items).length > 0) {
+        void this.flush();
+      }
+    }, retryIntervalMs);
+  }
+
+  static initialize(context: vscode.ExtensionContext, api: ComputorApiService, wsService?: WebSocketService): OutboxService {
+    if (!this.instance) {
+      this.instance = new OutboxService(context, api, wsService);
+      void this.instance.flush();
+    }
+    return this.instance;
+  }
+
+  static getInstance(): OutboxService {
+    if (!this.instance) throw new Error('OutboxService not initialized');
+    return this.instance;
+  }
+
+  /** True while sends should go to the outbox instead of the server. */
+  isOffline(): boolean {
+    return BackendConnectionService.getInstance().getLastStatus()?.isReachable === false
+      || this.wsService?.getConnectionState() === 'reconnecting';
+  }
+
+  getItems(threadKey?: string): OutboxItem[] {
+    return threadKey ? itemsForThread(this.state.items, threadKey) : [...this.state.items];
+  }
+
+  getDraft(threadKey: string): string | undefined {
+    return this.state.drafts[threadKey];
+  }
+
+  /** Remembers unsent text of a thread; writes are batched while typing. */
+  saveDraft(threadKey: string, text: string | undefined): void {
+    this.state = { ...this.state, drafts: updateDrafts(this.state.drafts, threadKey, text) };
+    if (this.draftTimer) {
+      clearTimeout(this.draftTimer);
+    }
+    this.draftTimer = setTimeout(() => {
+      this.draftTimer = undefined;
+      void this.save();
+    }, draftSaveDelayMs);
+  }
+
+  /** Posts a message, or queues it when offline. Other errors are thrown as before. */
+  async sendMessage(payload: MessageCreate, threadKey: string, threadTitle: string): Promise<SendResult> {
+    return this.send(
+      () => this.api.createMessage(payload),
+      { kind: 'message', payload, threadKey, threadTitle }
+    );
+  }
+
+  async sendComment(courseMemberId: string, text: string, threadTitle: string): Promise<SendResult> {
+    return this.send(
+      () => this.api.createCourseMemberComment(courseMemberId, text),
+      { kind: 'comment', courseMemberId, text, threadKey: commentThreadKey(courseMemberId), threadTitle }
+    );
+  }
+
+  /** Sends queued items oldest first; stops at the first connection error to keep the order. */
+  flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.flushQueued().finally(() => {
+        this.flushing = undefined;
+      });
+    }
+    return this.flushing;
+  }
+
+  async discard(id: string): Promise<void> {
+    await this.update(items => items.filter(item => item.id !== id));
+  }
+
+  /** Turns a reply whose parent is gone into a new message of the same thread and retries. */
+  async sendAsNewMessage(id: string): Promise<void> {
+    await this.update(items => items.map(item => (item.id === id && item.kind === 'message' ? detachFromParent(item) : item)));
+    await this.flush();
+  }
+
+  /** Lists queued items with actions to send now, copy the text or discard. */
+  async showOutbox(): Promise<void> {
+    type OutboxPick = vscode.QuickPickItem & { item?: OutboxItem; sendNow?: boolean };
+    const items = this.state.items;
+    if (items.length === 0) {
+      vscode.window.showInformationMessage('The outbox is empty.');
+      return;
+    }
+    const picked = await vscode.window.showQuickPick<OutboxPick>(
+      [
+        { label: '$(sync) Send Now', sendNow: true },
+        { label: '', kind: vscode.QuickPickItemKind.Separator },
+        ...items.map(item => ({
+          label: `${item.status === 'conflict' ? '$(warning)' : '$(clock)'} ${item.threadTitle}`,
+          description: new Date(item.createdAt).toLocaleString(),
+          detail: item.conflict ?? textOf(item).replace(/\s+/g, ' ').slice(0, 120),
+          item
+        }))
+      ],
+      { title: 'Outbox', placeHolder: 'Queued messages and comments' }
+    );
+    if (picked?.sendNow) {
+      await this.flush();
+      return;
+    }
+    if (!picked?.item) {
+      return;
+    }
+
+    const item = picked.item;
+    const canDetach = item.status === 'conflict' && item.kind === 'message' && Boolean(item.payload.parent_id);
+    const action = await vscode.window.showQuickPick(
+      [
+        ...(canDetach ? ['Send as New Message'] : []),
+        'Copy Text',
+        'Discard'
+      ],
+      { title: item.threadTitle, placeHolder: item.conflict }
+    );
+    if (action === 'Send as New Message') {
+      await this.sendAsNewMessage(item.id);
+    } else if (action === 'Copy Text') {
+      await vscode.env.clipboard.writeText(textOf(item));
+    } else if (action === 'Discard') {
+      await this.discard(item.id);
+    }
+  }
+
+  dispose(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+    if (this.draftTimer) {
+      clearTimeout(this.draftTimer);
+      void this.save();
+    }
+    this.wsService?.unsubscribe([], wsHandlerId);
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.statusBarItem.dispose();
+    this.changeEmitter.dispose();
+    this.sentEmitter.dispose();
+    OutboxService.instance = null;
+  }
+
+  private async send(
+    post: () => Promise<unknown>,
+    fields: QueuedFields
+  ): Promise<SendResult> {
+    const queue = async (notice: string): Promise<SendResult> => {
+      const item = {
+        ...fields,
+        id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        createdAt: new Date().toISOString(),
+        status: 'pending',
+        attempts: 0
+      } as OutboxItem;
+      await this.update(items => [...items, item]);
+      vscode.window.showInformationMessage(notice);
+      return 'queued';
+    };
+
+    if (this.isOffline()) {
+      return queue('You are offline. The text was saved to the outbox and will be sent when the connection is back.');
+    }
+    // Keep the order of a thread: while older items wait, new ones queue behind them.
+    if (itemsForThread(pendingInOrder(this.state.items), fields.threadKey).length > 0) {
+      const result = await queue('Queued behind earlier messages of this thread that are still waiting in the outbox.');
+      void this.flush();
+      return result;
+    }
+    try {
+      await post();
+      return 'sent';
+    } catch (error) {
+      if (isNetworkError(error)) {
+        return queue('The server could not be reached. The text was saved to the outbox and will be sent when the connection is back.');
+      }
+      throw error;
+    }
+  }
+
+  private async flushQueued(): Promise<void> {
+    if (!(await this.load())) {
+      return;
+    }
+    if (pendingInOrder(this.state.items).length === 0) {
+      return;
+    }
+    const backend = BackendConnectionService.getInstance();
+    const status = await backend.checkBackendConnection(backend.getBaseUrl());
+    if (!status.isReachable) {
+      return;
+    }
+
+    let sent = 0;
+    let conflicts = 0;
+    for (const queued of pendingInOrder(this.state.items)) {
+      // Re-read: the user may have discarded the item meanwhile.
+      const item = this.state.items.find(candidate => candidate.id === queued.id);
+      if (!item || item.status !== 'pending') {
+        continue;
+      }
+      try {
+        // Lookup failures are handled like send failures below
+        const conflict = await this.findConflict(item);
+        if (conflict) {
+          conflicts++;
+          await this.replace({ ...item, status: 'conflict', conflict });
+          continue;
+        }
+        if (item.kind === 'message') {
+          await this.api.createMessage(item.payload);
+        } else {
+          await this.api.createCourseMemberComment(item.courseMemberId, item.text);
+        }
+        sent++;
+        await this.update(items => items.filter(candidate => candidate.id !== item.id));
+        this.sentEmitter.fire(item);
+      } catch (error) {
+        if (isNetworkError(error)) {
+          break;
+        }
+        const attempts = item.attempts + 1;
+        const giveUp = classifySendError(error) === 'conflict' || attempts >= maxAttempts;
+        if (giveUp) {
+          conflicts++;
+        }
+        await this.replace({
+          ...item,
+          attempts,
+          status: giveUp ? 'conflict' : 'pending',
+          conflict: giveUp ? `Not sent: ${error instanceof Error ? error.message : String(error)}` : undefined
+        });
+        if (!giveUp) {
+          break;
+        }
+      }
+    }
+
+    if (sent > 0) {
+      vscode.window.showInformationMessage(`Sent ${sent} queued item${sent === 1 ? '' : 's'} from the outbox.`);
+    }
+    if (conflicts > 0) {
+      const choice = await vscode.window.showWarningMessage(
+        `${conflicts} queued item${conflicts === 1 ? '' : 's'} could not be sent.`,
+        'Show Outbox'
+      );
+      if (choice === 'Show Outbox') {
+        await this.showOutbox();
+      }
+    }
+  }
+
+  /** Reads the stored state of the current user; retried on the next flush while offline. */
+  private load(): Promise<boolean> {
+    if (this.stateKey) {
+      return Promise.resolve(true);
+    }
+    if (!this.loading) {
+      this.loading = this.readState().finally(() => {
+        this.loading = undefined;
+      });
+    }
+    return this.loading;
+  }
+
+  private async readState(): Promise<boolean> {
+    // Bearer logins know the user offline; API tokens need the server.
+    const userId = this.api.getCurrentUserId() ?? (await this.api.getCurrentUser())?.id;
+    if (!userId) {
+      return false;
+    }
+    const key = `${stateKeyPrefix}:${userId}@${BackendConnectionService.getInstance().getBaseUrl()}`;
+    const stored = this.context.globalState.get<PersistedState>(key);
+    // Keep what was queued or typed while the user was still being looked up
+    this.state = {
+      items: [...(Array.isArray(stored?.items) ? stored!.items : []), ...this.state.items],
+      drafts: { ...(stored?.drafts ?? {}), ...this.state.drafts }
+    };
+    this.stateKey = key;
+    await this.save();
+    this.updateStatusBar();
+    this.changeEmitter.fire();
+    return true;
+  }
+
+  /** Checks that a queued reply still has its parent message. */
+  private async findConflict(item: OutboxItem): Promise<string | undefined> {
+    if (item.kind !== 'message' || !item.payload.parent_id) {
+      return undefined;
+    }
+    const parent = await this.api.getMessage(item.payload.parent_id).catch(error => {
+      if (classifySendError(error) === 'conflict') {
+        return undefined;
+      }
+      throw error;
+    });
+    if (!parent || parent.is_deleted) {
+      return 'The message you replied to was deleted.';
+    }
+    return undefined;
+  }
+
+  private async replace(item: OutboxItem): Promise<void> {
+    await this.update(items => items.map(candidate => (candidate.id === item.id ? item : candidate)));
+  }
+
+  private async update(change: (items: OutboxItem[]) => OutboxItem[]): Promise<void> {
+    this.state = { ...this.state, items: change(this.state.items) };
+    await this.save();
+    this.updateStatusBar();
+    this.changeEmitter.fire();
+  }
+
+  private updateStatusBar(): void {
+    const count = this.state.items.length;
+    if (count === 0) {
+      this.statusBarItem.hide();
+      return;
+    }
+    const conflicts = this.state.items.filter(item => item.status === 'conflict').length;
+    this.statusBarItem.text = `$(${conflicts > 0 ? 'warning' : 'cloud-upload'}) ${count} queued`;
+    this.statusBarItem.tooltip = conflicts > 0
+      ? `${count} item(s) in the outbox, ${conflicts} need your attention`
+      : `${count} message(s) or comment(s) waiting to be sent`;
+    this.statusBarItem.show();
+  }
+
+  private async save(): Promise<void> {
+    if (!this.stateKey) {
+      return;
+    }
+    try {
+      await this.context.globalState.update(this.stateKey, this.state);
+    } catch (error) {
+      console.warn('[Outbox] Failed to persist state:', error);
+    }
+  }
+}
+
+function textOf(item: OutboxItem): string {
+  return item.kind === 'message' ? item.payload.content : item.text;
+}
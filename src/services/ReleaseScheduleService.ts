@@ -0,0 +1,135 @@
+import * as vscode from 'vscode';
+import { ScheduledRelease, isReleaseDue, sortScheduledReleases } from '../utils/releaseSchedule';
+
+const stateKey = 'computor.lecturer.releaseSchedule';
+const checkIntervalMs = 60 * 1000;
+
+/**
+ * Keeps the planned release dates (in globalState) and announces entries whose
+ * date has passed while VS Code is open.
+ */
+export class ReleaseScheduleService implements vscode.Disposable {
+  private static instance: ReleaseScheduleService | null = null;
+
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  public readonly onDidChange = this.changeEmitter.event;
+  private readonly dueEmitter = new vscode.EventEmitter<ScheduledRelease[]>();
+  /**
+   * Fires with the entries that just became due. They are only marked as
+   * triggered once the lecturer acts on them (`markTriggered`), so a dismissed
+   * reminder comes back in the next session.
+   */
+  public readonly onDidBecomeDue = this.dueEmitter.event;
+  private timer: NodeJS.Timeout | undefined;
+  /** Announced in this session and not acted on yet. */
+  private readonly announced = new Set<string>();
+
+  private constructor(private readonly context: vscode.ExtensionContext) {}
+
+  static initialize(context: vscode.ExtensionContext): ReleaseScheduleService {
+    if (!this.instance) {
+      this.instance = new ReleaseScheduleService(context);
+    }
+    return this.instance;
+  }
+
+  static getInstance(): ReleaseScheduleService {
+    if (!this.instance) throw new Error('ReleaseScheduleService not initialized');
+    return this.instance;
+  }
+
+  /** Starts the periodic due check; the first check runs right away. */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => void this.checkDue(), checkIntervalMs);
+    void this.checkDue();
+  }
+
+  getAll(courseId?: string): ScheduledRelease[] {
+    const entries = Object.values(this.load());
+    return sortScheduledReleases(courseId ? entries.filter(entry => entry.courseId === courseId) : entries);
+  }
+
+  get(contentId: string): ScheduledRelease | undefined {
+    return this.load()[contentId];
+  }
+
+  async schedule(entry: Omit<ScheduledRelease, 'triggeredAt' | 'snoozedUntil'>): Promise<void> {
+    const entries = this.load();
+    entries[entry.contentId] = { ...entry };
+    await this.save(entries);
+  }
+
+  async remove(contentId: string): Promise<void> {
+    await this.removeMany([contentId]);
+  }
+
+  /** Drops the entries of released contents. */
+  async removeMany(contentIds: readonly string[]): Promise<void> {
+    const entries = this.load();
+    const present = contentIds.filter(contentId => entries[contentId]);
+    if (present.length === 0) {
+      return;
+    }
+    for (const contentId of present) {
+      delete entries[contentId];
+      this.announced.delete(contentId);
+    }
+    await this.save(entries);
+  }
+
+  async markTriggered(contentId: string, now = new Date()): Promise<void> {
+    this.announced.delete(contentId);
+    const entries = this.load();
+    const entry = entries[contentId];
+    if (!entry) {
+      return;
+    }
+    entries[contentId] = { ...entry, triggeredAt: now.toISOString(), snoozedUntil: undefined };
+    await this.save(entries);
+  }
+
+  async snooze(contentId: string, untilMs: number): Promise<void> {
+    const entries = this.load();
+    const entry = entries[contentId];
+    if (!entry) {
+      return;
+    }
+    this.announced.delete(contentId);
+    entries[contentId] = { ...entry, snoozedUntil: new Date(untilMs).toISOString() };
+    await this.save(entries);
+  }
+
+  async checkDue(now = new Date()): Promise<void> {
+    const due = Object.values(this.load())
+      .filter(entry => isReleaseDue(entry, now) && !this.announced.has(entry.contentId));
+    if (due.length === 0) {
+      return;
+    }
+    for (const entry of due) {
+      this.announced.add(entry.contentId);
+    }
+    this.dueEmitter.fire(sortScheduledReleases(due));
+  }
+
+  dispose(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    this.changeEmitter.dispose();
+    this.dueEmitter.dispose();
+    ReleaseScheduleService.instance = null;
+  }
+
+  private load(): Record<string, ScheduledRelease> {
+    return { ...(this.context.globalState.get<Record<string, ScheduledRelease>>(stateKey) ?? {}) };
+  }
+
+  private async save(entries: Record<string, ScheduledRelease>): Promise<void> {
+    await this.context.globalState.update(stateKey, entries);
+    this.changeEmitter.fire();
+  }
+}
@@ -0,0 +1,227 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ComputorApiService } from './ComputorApiService';
+import { WorkspaceStructureManager } from '../utils/workspaceStructure';
+import {
+  ResponseTemplate,
+  ResponseTemplateFile,
+  TemplateValues,
+  courseTemplatesFileName,
+  deadlineFor,
+  parseResponseTemplateFile,
+  renderTemplate,
+  serializeResponseTemplateFile,
+  templatePlaceholders
+} from '../utils/responseTemplates';
+import { formatLocalDateTime, parseLocalDateTime } from '../utils/localDateTime';
+
+/** What an input panel knows about its target, used to fill placeholders. */
+export interface ResponseTemplateContext {
+  courseId?: string;
+  /** Course content path, for the deadline lookup. */
+  contentPath?: string;
+  values: TemplateValues;
+}
+
+type TemplateSource = 'personal' | 'course';
+
+interface LoadedTemplates {
+  templates: Array<ResponseTemplate & { source: TemplateSource }>;
+  deadlines?: Record<string, string>;
+}
+
+const starterFile: ResponseTemplateFile = {
+  templates: [
+    {
+      title: 'Submission received',
+      description: 'Short acknowledgement',
+      body: 'Hi {{studentFirstName}},\n\nthanks for your submission of **{{assignmentTitle}}**. Your current grade is {{grade}}.\n\nBest,\n{{tutorName}}'
+    }
+  ]
+};
+
+/**
+ * Canned responses for the messages and comments input panels. Personal
+ * templates are kept in the extension's global storage; course templates in
+ * `response-templates.json` at the root of the course's assignments
+ * repository, so they are shared by committing the file. Only lecturers
+ * have that repository cloned; tutors see their personal templates only.
+ */
+export class ResponseTemplateService implements vscode.Disposable {
+  private static instance: ResponseTemplateService | null = null;
+
+  private constructor(
+    private readonly context: vscode.ExtensionContext,
+    private readonly api: ComputorApiService
+  ) {}
+
+  static initialize(context: vscode.ExtensionContext, api: ComputorApiService): ResponseTemplateService {
+    if (!this.instance) {
+      this.instance = new ResponseTemplateService(context, api);
+    }
+    return this.instance;
+  }
+
+  static getInstance(): ResponseTemplateService {
+    if (!this.instance) throw new Error('ResponseTemplateService not initialized');
+    return this.instance;
+  }
+
+  /**
+   * Lets the user pick a template and returns it with placeholders filled in.
+   * `currentText` (the panel's draft) enables "Save as Template" in the list.
+   */
+  async pickTemplate(target?: ResponseTemplateContext, currentText?: string): Promise<string | undefined> {
+    const loaded = this.load(target?.courseId);
+
+    type TemplatePick = vscode.QuickPickItem & { template?: ResponseTemplate; action?: 'save' | 'edit' };
+    const items: TemplatePick[] = [];
+    for (const source of ['course', 'personal'] as const) {
+      const templates = loaded.templates.filter(template => template.source === source);
+      if (templates.length === 0) {
+        continue;
+      }
+      items.push({ label: source === 'course' ? 'Course Templates' : 'My Templates', kind: vscode.QuickPickItemKind.Separator });
+      items.push(...templates.map(template => ({
+        label: template.title,
+        description: template.description,
+        detail: template.body.replace(/\s+/g, ' ').trim().slice(0, 120),
+        template
+      })));
+    }
+    items.push({ label: '', kind: vscode.QuickPickItemKind.Separator });
+    if (currentText?.trim()) {
+      items.push({ label: '$(add) Save Current Text as Template…', action: 'save' });
+    }
+    items.push({ label: '$(edit) Edit Templates…', action: 'edit' });
+
+    const picked = await vscode.window.showQuickPick(items, {
+      title: 'Insert Response Template',
+      placeHolder: loaded.templates.length > 0 ? 'Pick a template' : 'No templates yet',
+      matchOnDescription: true,
+      matchOnDetail: true
+    });
+    if (picked?.action === 'save') {
+      await this.saveAsTemplate(currentText ?? '');
+      return undefined;
+    }
+    if (picked?.action === 'edit') {
+      await this.editTemplates(target?.courseId);
+      return undefined;
+    }
+    if (!picked?.template) {
+      return undefined;
+    }
+
+    const values: TemplateValues = { ...target?.values };
+    if (!values.tutorName) {
+      const user = await this.api.getCurrentUser().catch(() => undefined);
+      values.tutorName = user?.full_name || user?.username;
+    }
+    if (!values.deadline) {
+      const deadline = deadlineFor(loaded.deadlines, target?.contentPath);
+      values.deadline = deadline ? formatDeadline(deadline) : undefined;
+    }
+    const { text, unresolved } = renderTemplate(picked.template.body, values);
+    if (unresolved.length > 0) {
+      void vscode.window.showInformationMessage(`Fill in before sending: ${unresolved.map(name => `{{${name}}}`).join(', ')}`);
+    }
+    return text;
+  }
+
+  /** Opens the personal or, where the assignments repository is cloned, the course template file, creating it when missing. */
+  async editTemplates(courseId?: string): Promise<void> {
+    let filePath = this.personalFilePath();
+    const repoRoot = courseId ? WorkspaceStructureManager.getInstance().getReferenceRepositoryPath(courseId) : undefined;
+    if (repoRoot && fs.existsSync(repoRoot)) {
+      const picked = await vscode.window.showQuickPick(
+        [
+          { label: 'My Templates', description: 'Only for you', source: 'personal' as TemplateSource },
+          { label: 'Course Templates', description: `${courseTemplatesFileName} in the assignments repository`, source: 'course' as TemplateSource }
+        ],
+        { title: 'Edit Response Templates' }
+      );
+      if (!picked) {
+        return;
+      }
+      if (picked.source === 'course') {
+        filePath = path.join(repoRoot, courseTemplatesFileName);
+      }
+    }
+
+    if (!fs.existsSync(filePath)) {
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.promises.writeFile(filePath, serializeResponseTemplateFile(starterFile), 'utf8');
+    }
+    const document = await vscode.workspace.openTextDocument(filePath);
+    await vscode.window.showTextDocument(document);
+    const placeholders = Object.keys(templatePlaceholders).map(name => `{{${name}}}`).join(', ');
+    void vscode.window.showInformationMessage(`Placeholders: ${placeholders}`);
+  }
+
+  /** Stores text from an input panel as a new personal template. */
+  async saveAsTemplate(body: string): Promise<void> {
+    if (!body.trim()) {
+      vscode.window.showWarningMessage('Write the response first, then save it as a template.');
+      return;
+    }
+    const title = await vscode.window.showInputBox({
+      title: 'Save as Response Template',
+      prompt: 'Template title',
+      validateInput: value => (value.trim() ? undefined : 'Title is required')
+    });
+    if (!title) {
+      return;
+    }
+    const filePath = this.personalFilePath();
+    const existing = this.readFile(filePath) ?? { templates: [] };
+    const templates = existing.templates.filter(template => template.title !== title.trim());
+    templates.push({ title: title.trim(), body });
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, serializeResponseTemplateFile({ ...existing, templates }), 'utf8');
+    vscode.window.showInformationMessage(`Saved template "${title.trim()}".`);
+  }
+
+  dispose(): void {
+    ResponseTemplateService.instance = null;
+  }
+
+  private load(courseId?: string): LoadedTemplates {
+    const personal = this.readFile(this.personalFilePath());
+    const course = courseId
+      ? this.readFile(path.join(WorkspaceStructureManager.getInstance().getReferenceRepositoryPath(courseId), courseTemplatesFileName))
+      : undefined;
+    return {
+      templates: [
+        ...(course?.templates ?? []).map(template => ({ ...template, source: 'course' as const })),
+        ...(personal?.templates ?? []).map(template => ({ ...template, source: 'personal' as const }))
+      ],
+      deadlines: { ...personal?.deadlines, ...course?.deadlines }
+    };
+  }
+
+  private readFile(filePath: string): ResponseTemplateFile | undefined {
+    if (!fs.existsSync(filePath)) {
+      return undefined;
+    }
+    const { file, errors } = parseResponseTemplateFile(fs.readFileSync(filePath, 'utf8'));
+    if (errors.length > 0) {
+      void vscode.window.showWarningMessage(`${path.basename(filePath)}: ${errors.join(' ')}`);
+    }
+    return file;
+  }
+
+  private personalFilePath(): string {
+    return path.join(this.context.globalStorageUri.fsPath, courseTemplatesFileName);
+  }
+}
+
+/** Deadlines are written in local `YYYY-MM-DD [HH:mm]` (kept as is) or as ISO timestamps. */
+function formatDeadline(value: string): string {
+  if (parseLocalDateTime(value)) {
+    return value.trim();
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : formatLocalDateTime(date);
+}
@@ -12,6 +12,12 @@ export interface ScopePermissionContext {
   globalRoles?: ReadonlySet<string>;
 }
 
+/** Outcome of a permission check with the rule that decided it, for the permissions inspector. */
+export interface PermissionDecision {
+  allowed: boolean;
+  reason: string;
+}
+
 function isAdmin(ctx: ScopePermissionContext): boolean {
   return ctx.scopes?.is_admin === true;
 }
@@ -20,40 +26,93 @@ function hasGlobalRole(ctx: ScopePermissionContext, roleId: string): boolean {
   return ctx.globalRoles?.has(roleId) === true;
 }
 
-function hasScopeManagerClaim(
+/** The posting role held on `scopeId`, or on any scope of the map when no id is given. */
+function findScopeManagerClaim(
   map: Record<string, string[]> | undefined,
   scopeId?: string
-): boolean {
+): string | undefined {
   if (!map) {
-    return false;
+    return undefined;
+  }
+  const roleLists = scopeId !== undefined ? [map[scopeId]] : Object.values(map);
+  for (const roles of roleLists) {
+    const claim = Array.isArray(roles) ? roles.find(r => POSTING_ROLES.has(r)) : undefined;
+    if (claim) {
+      return claim;
+    }
   }
-  if (scopeId !== undefined) {
-    const roles = map[scopeId];
-    return Array.isArray(roles) && roles.some(r => POSTING_ROLES.has(r));
+  return undefined;
+}
+
+const adminDecision: PermissionDecision = { allowed: true, reason: 'Administrators bypass all scope checks.' };
+
+function globalRoleDecision(roleId: string): PermissionDecision {
+  return { allowed: true, reason: `Granted by the system role ${roleId}.` };
+}
+
+export function explainManageAnyOrganizationMembers(ctx: ScopePermissionContext): PermissionDecision {
+  if (isAdmin(ctx)) {
+    return adminDecision;
+  }
+  if (hasGlobalRole(ctx, GLOBAL_ORG_MANAGER_ROLE)) {
+    return globalRoleDecision(GLOBAL_ORG_MANAGER_ROLE);
+  }
+  const claim = findScopeManagerClaim(ctx.scopes?.organization);
+  return claim
+    ? { allowed: true, reason: `Holds ${claim} on at least one organization.` }
+    : { allowed: false, reason: `Needs ${GLOBAL_ORG_MANAGER_ROLE} or _manager/_owner on an organization.` };
+}
+
+export function explainManageAnyCourseFamilyMembers(ctx: ScopePermissionContext): PermissionDecision {
+  if (isAdmin(ctx)) {
+    return adminDecision;
   }
-  for (const roles of Object.values(map)) {
-    if (Array.isArray(roles) && roles.some(r => POSTING_ROLES.has(r))) {
-      return true;
+  for (const roleId of [GLOBAL_ORG_MANAGER_ROLE, GLOBAL_FAMILY_MANAGER_ROLE]) {
+    if (hasGlobalRole(ctx, roleId)) {
+      return globalRoleDecision(roleId);
     }
   }
-  return false;
+  const claim = findScopeManagerClaim(ctx.scopes?.course_family);
+  return claim
+    ? { allowed: true, reason: `Holds ${claim} on at least one course family.` }
+    : { allowed: false, reason: `Needs ${GLOBAL_ORG_MANAGER_ROLE}, ${GLOBAL_FAMILY_MANAGER_ROLE} or _manager/_owner on a course family.` };
+}
+
+export function explainScopeMembership(
+  scopeKind: ScopeKind,
+  scopeId: string,
+  ctx: ScopePermissionContext
+): PermissionDecision {
+  if (isAdmin(ctx)) {
+    return adminDecision;
+  }
+  // Course families nest under organizations, so org-manager grants transitive access.
+  const globalRoles = scopeKind === 'organization'
+    ? [GLOBAL_ORG_MANAGER_ROLE]
+    : [GLOBAL_ORG_MANAGER_ROLE, GLOBAL_FAMILY_MANAGER_ROLE];
+  for (const roleId of globalRoles) {
+    if (hasGlobalRole(ctx, roleId)) {
+      return globalRoleDecision(roleId);
+    }
+  }
+  const map = scopeKind === 'organization' ? ctx.scopes?.organization : ctx.scopes?.course_family;
+  const claim = findScopeManagerClaim(map, scopeId);
+  const scopeLabel = scopeKind === 'organization' ? 'organization' : 'course family';
+  return claim
+    ? { allowed: true, reason: `Holds ${claim} on this ${scopeLabel}.` }
+    : { allowed: false, reason: `Needs _manager or _owner on this ${scopeLabel}, or one of ${globalRoles.join(', ')}.` };
 }
 
 /** True when the user can manage members on at least one organization. */
 export function canManageAnyOrganizationMembers(ctx: ScopePermissionContext): boolean {
-  return isAdmin(ctx)
-    || hasGlobalRole(ctx, GLOBAL_ORG_MANAGER_ROLE)
-    || hasScopeManagerClaim(ctx.scopes?.organization);
+  return explainManageAnyOrganizationMembers(ctx).allowed;
 }
 
 /** True when the user can manage members on at least one course family.
  *  Organization-manager grants this transitively (course families nest under
  *  organizations). */
 export function canManageAnyCourseFamilyMembers(ctx: ScopePermissionContext): boolean {
-  return isAdmin(ctx)
-    || hasGlobalRole(ctx, GLOBAL_ORG_MANAGER_ROLE)
-    || hasGlobalRole(ctx, GLOBAL_FAMILY_MANAGER_ROLE)
-    || hasScopeManagerClaim(ctx.scopes?.course_family);
+  return explainManageAnyCourseFamilyMembers(ctx).allowed;
 }
 
 /** True when the user can manage members on this specific scope. */
@@ -62,21 +121,5 @@ export function canManageScopeMembership(
   scopeId: string,
   ctx: ScopePermissionContext
 ): boolean {
-  if (isAdmin(ctx)) {
-    return true;
-  }
-  if (scopeKind === 'organization') {
-    if (hasGlobalRole(ctx, GLOBAL_ORG_MANAGER_ROLE)) {
-      return true;
-    }
-    return hasScopeManagerClaim(ctx.scopes?.organization, scopeId);
-  }
-  // course_family — org-manager grants transitive access.
-  if (hasGlobalRole(ctx, GLOBAL_ORG_MANAGER_ROLE)) {
-    return true;
-  }
-  if (hasGlobalRole(ctx, GLOBAL_FAMILY_MANAGER_ROLE)) {
-    return true;
-  }
-  return hasScopeManagerClaim(ctx.scopes?.course_family, scopeId);
+  return explainScopeMembership(scopeKind, scopeId, ctx).allowed;
 }
@@ -0,0 +1,175 @@
+import * as vscode from 'vscode';
+import {
+  DeadlineActivity,
+  StudentDeadline,
+  hasUnsubmittedChanges,
+  normalizeReminderHours,
+  pendingReminders,
+  sortDeadlines
+} from '../utils/studentDeadlines';
+
+const stateKey = 'computor.student.deadlines';
+const sortStateKey = 'computor.student.sortByDeadline';
+const checkIntervalMs = 60 * 1000;
+
+export interface DeadlineReminder {
+  deadline: StudentDeadline;
+  /** The closest reminder offset that was reached, in hours. */
+  hoursBefore: number;
+}
+
+export type DeadlineActivityResolver = (deadline: StudentDeadline) => Promise<DeadlineActivity | undefined>;
+
+/**
+ * Keeps the deadlines students noted for their assignments (in globalState)
+ * and raises reminders before they pass while VS Code is open.
+ */
+export class StudentDeadlineService implements vscode.Disposable {
+  private static instance: StudentDeadlineService | null = null;
+
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  public readonly onDidChange = this.changeEmitter.event;
+  private readonly tickEmitter = new vscode.EventEmitter<void>();
+  /** Fires on every periodic check so countdowns can be redrawn. */
+  public readonly onDidTick = this.tickEmitter.event;
+  private readonly reminderEmitter = new vscode.EventEmitter<DeadlineReminder>();
+  /** Fires for reached reminders whose assignment has local changes that were not submitted. */
+  public readonly onDidRequireReminder = this.reminderEmitter.event;
+  private activityResolver: DeadlineActivityResolver | undefined;
+  private timer: NodeJS.Timeout | undefined;
+  private checking = false;
+
+  private constructor(private readonly context: vscode.ExtensionContext) {}
+
+  static initialize(context: vscode.ExtensionContext): StudentDeadlineService {
+    if (!this.instance) {
+      this.instance = new StudentDeadlineService(context);
+    }
+    return this.instance;
+  }
+
+  static getInstance(): StudentDeadlineService {
+    if (!this.instance) throw new Error('StudentDeadlineService not initialized');
+    return this.instance;
+  }
+
+  /** Reminders are only raised once a resolver tells whether there is unsubmitted work. */
+  setActivityResolver(resolver: DeadlineActivityResolver): void {
+    this.activityResolver = resolver;
+  }
+
+  /** Starts the periodic reminder check; the first check runs right away. */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => void this.checkReminders(), checkIntervalMs);
+    void this.checkReminders();
+  }
+
+  getAll(courseId?: string): StudentDeadline[] {
+    const entries = Object.values(this.load());
+    return sortDeadlines(courseId ? entries.filter(entry => entry.courseId === courseId) : entries);
+  }
+
+  get(contentId: string): StudentDeadline | undefined {
+    return this.load()[contentId];
+  }
+
+  async set(entry: Omit<StudentDeadline, 'handledReminders'>): Promise<void> {
+    const entries = this.load();
+    entries[entry.contentId] = { ...entry };
+    await this.save(entries);
+  }
+
+  async remove(contentId: string): Promise<void> {
+    const entries = this.load();
+    if (!entries[contentId]) {
+      return;
+    }
+    delete entries[contentId];
+    await this.save(entries);
+  }
+
+  isSortedByDeadline(): boolean {
+    return this.context.globalState.get<boolean>(sortStateKey) ?? false;
+  }
+
+  async setSortByDeadline(value: boolean): Promise<void> {
+    await this.context.globalState.update(sortStateKey, value);
+    void vscode.commands.executeCommand('setContext', sortStateKey, value);
+    this.changeEmitter.fire();
+  }
+
+  /** Publishes the sort context key for the view title toggle. */
+  applyContextKeys(): void {
+    void vscode.commands.executeCommand('setContext', sortStateKey, this.isSortedByDeadline());
+  }
+
+  async checkReminders(now = new Date()): Promise<void> {
+    this.tickEmitter.fire();
+    if (this.checking || !this.activityResolver) {
+      return;
+    }
+    this.checking = true;
+    try {
+      const reminderHours = normalizeReminderHours(
+        vscode.workspace.getConfiguration('computor.student').get('deadlineReminders')
+      );
+      for (const deadline of this.getAll()) {
+        const pending = pendingReminders(deadline, reminderHours, now);
+        if (pending.length === 0) {
+          continue;
+        }
+        let activity: DeadlineActivity | undefined;
+        try {
+          activity = await this.activityResolver(deadline);
+        } catch (error) {
+          console.warn(`[StudentDeadlines] Could not resolve activity for ${deadline.contentId}:`, error);
+          continue;
+        }
+        if (!activity) {
+          continue;
+        }
+        // All reached offsets are handled at once; an up-to-date submission silences them
+        await this.markHandled(deadline.contentId, pending);
+        if (hasUnsubmittedChanges(activity)) {
+          this.reminderEmitter.fire({ deadline, hoursBefore: Math.min(...pending) });
+        }
+      }
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  dispose(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    this.changeEmitter.dispose();
+    this.tickEmitter.dispose();
+    this.reminderEmitter.dispose();
+    StudentDeadlineService.instance = null;
+  }
+
+  private async markHandled(contentId: string, hours: number[]): Promise<void> {
+    const entries = this.load();
+    const entry = entries[contentId];
+    if (!entry) {
+      return;
+    }
+    const handled = new Set([...(entry.handledReminders ?? []), ...hours]);
+    entries[contentId] = { ...entry, handledReminders: Array.from(handled) };
+    await this.context.globalState.update(stateKey, entries);
+  }
+
+  private load(): Record<string, StudentDeadline> {
+    return { ...(this.context.globalState.get<Record<string, StudentDeadline>>(stateKey) ?? {}) };
+  }
+
+  private async save(entries: Record<string, StudentDeadline>): Promise<void> {
+    await this.context.globalState.update(stateKey, entries);
+    this.changeEmitter.fire();
+  }
+}
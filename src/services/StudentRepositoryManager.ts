@@ -69,7 +69,7 @@ export class StudentRepositoryManager {
     
     try {
       // Ensure workspace directories exist
-      await this.workspaceStructure.ensureDirectories();
+      await this.workspaceStructure.ensureDirectories(courseId);
       
       // Get course contents
       const courseContents = await this.apiService.getStudentCourseContents(courseId, { force: true });
@@ -268,7 +268,7 @@ export class StudentRepositoryManager {
    * Set up or update a unique repository and link assignments to it
    */
   private async setupUniqueRepository(
-    courseId: string, // Used for logging and upstream URL
+    courseId: string, // Selects the course's workspace layout
     fullPath: string, // Repository full_path (e.g., "course/student-123")
     cloneUrl: string,
     repoInfos: RepositoryInfo[],
@@ -278,12 +278,11 @@ export class StudentRepositoryManager {
     onProgress?: (message: string) => void,
     cancellationToken?: vscode.CancellationToken
   ): Promise<string> {
-    void courseId; // Only used for logging
     const report = onProgress || (() => {});
     let effectiveToken = token;
     // Use full_path with dots instead of slashes as the directory name
     const dirName = fullPath.replace(/\//g, '.');
-    const repoPath = this.workspaceStructure.getStudentRepositoryPath(dirName);
+    const repoPath = this.workspaceStructure.getStudentRepositoryPath(dirName, courseId);
     const repoName = repoInfos[0]?.assignmentTitle || fullPath;
 
     const repoExists = await this.directoryExists(repoPath);
@@ -369,11 +368,9 @@ export class StudentRepositoryManager {
    * Update directory paths for existing repositories
    */
   public updateExistingRepositoryPaths(courseId: string, courseContents: any[]): void {
-    void courseId; // Not used in new structure
-
     // List all directories in the student directory that are git repositories
     try {
-      const studentDir = this.workspaceStructure.getDirectories().student;
+      const studentDir = this.workspaceStructure.getDirectories(courseId).student;
       const dirs = fs.existsSync(studentDir)
         ? fs.readdirSync(studentDir).filter(file => {
             const filePath = path.join(studentDir, file);
@@ -402,7 +399,6 @@ export class StudentRepositoryManager {
 
           // Check if this directory exists
           if (dirs.includes(expectedDirName)) {
-            const studentDir = this.workspaceStructure.getDirectories().student;
             const repoPath = path.join(studentDir, expectedDirName);
 
             // Determine expected subdirectory from backend data first
@@ -3,6 +3,24 @@ import { ComputorApiService } from './ComputorApiService';
 import { showErrorWithSeverity } from '../utils/errorDisplay';
 //import { TestResultsPanelProvider, TestResultsTreeDataProvider } from '../ui/panels/TestResultsPanel';
 
+/** Origin of a set of displayed results; used to mark local runs and to look up earlier runs. */
+export interface TestResultRunInfo {
+  submissionGroupId?: string;
+  local?: boolean;
+  label?: string;
+}
+
+export interface TestResultHistoryEntry {
+  id: string;
+  label: string;
+  description?: string;
+  timestamp: number;
+  local: boolean;
+  /** Present for local runs; server runs are loaded on demand via their artifact. */
+  results?: unknown;
+  artifactId?: string;
+}
+
 /**
  * Service for managing test results polling and display
  */
@@ -12,6 +30,9 @@ export class TestResultService {
   //private testResultsPanelProvider?: TestResultsPanelProvider;
 
   private pollingIntervals: Map<string, NodeJS.Timer> = new Map();
+  /** Local runs are never uploaded, so they are only remembered for the current session. */
+  private localRunHistory: Map<string, TestResultHistoryEntry[]> = new Map();
+  private readonly maxLocalRunsPerAssignment = 20;
   private readonly POLL_INTERVAL = 2000; // 2 seconds
   private readonly MAX_POLL_DURATION = 300000; // 5 minutes
 
@@ -267,6 +288,76 @@ export class TestResultService {
     console.log('[TestResultService] Stopped all polling');
   }
 
+  /**
+   * Remember a local test run so it can be compared with later runs.
+   */
+  recordLocalRun(context: TestResultRunInfo, results: unknown): void {
+    const key = this.getHistoryKey(context);
+    if (!key || !results) {
+      return;
+    }
+    const timestamp = Date.now();
+    const runs = this.localRunHistory.get(key) ?? [];
+    runs.unshift({
+      id: `local-${timestamp}`,
+      label: new Date(timestamp).toLocaleString(),
+      description: 'local run',
+      timestamp,
+      local: true,
+      results
+    });
+    this.localRunHistory.set(key, runs.slice(0, this.maxLocalRunsPerAssignment));
+  }
+
+  /**
+   * All known runs for an assignment, newest first: tested submission artifacts
+   * of the submission group plus the local runs of this session.
+   */
+  async getResultHistory(context: TestResultRunInfo): Promise<TestResultHistoryEntry[]> {
+    const key = this.getHistoryKey(context);
+    const entries: TestResultHistoryEntry[] = key ? [...(this.localRunHistory.get(key) ?? [])] : [];
+
+    if (context.submissionGroupId && this.apiService) {
+      const artifacts = await this.apiService.listStudentSubmissionArtifacts({
+        submission_group_id: context.submissionGroupId
+      });
+      for (const artifact of artifacts) {
+        const created = artifact.created_at ? new Date(artifact.created_at).getTime() : 0;
+        const version = artifact.version_identifier ? artifact.version_identifier.substring(0, 8) : undefined;
+        entries.push({
+          id: artifact.id,
+          label: created ? new Date(created).toLocaleString() : artifact.id,
+          description: [artifact.submit ? 'submission' : 'test run', version].filter(Boolean).join(' · '),
+          timestamp: created,
+          local: false,
+          results: artifact.result_json ?? undefined,
+          artifactId: artifact.id
+        });
+      }
+    }
+
+    return entries.sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  /**
+   * Result payload of a history entry, fetching the latest result of its artifact if needed.
+   */
+  async loadHistoryResults(entry: TestResultHistoryEntry): Promise<unknown | undefined> {
+    if (entry.results || !entry.artifactId || !this.apiService) {
+      return entry.results;
+    }
+    const results = await this.apiService.getSubmissionArtifactTestResults(entry.artifactId);
+    entry.results = results[0]?.result_json ?? undefined;
+    return entry.results;
+  }
+
+  private getHistoryKey(context: TestResultRunInfo): string | undefined {
+    if (context.submissionGroupId) {
+      return context.submissionGroupId;
+    }
+    return context.local && context.label ? `local:${context.label}` : undefined;
+  }
+
   /**
    * Display test results in the panel view
    */
@@ -277,7 +368,9 @@ export class TestResultService {
       const resultId = result.id;
       const artifacts = result.result_artifacts || [];
 
-      await vscode.commands.executeCommand('computor.results.open', resultJson, resultId, artifacts);
+      await vscode.commands.executeCommand('computor.results.open', resultJson, resultId, artifacts, {
+        submissionGroupId: result.submission_group_id ?? undefined
+      });
       await vscode.commands.executeCommand('computor.testResultsPanel.focus');
     } catch (error) {
       console.error('[TestResultService] Error displaying test results:', error);
@@ -529,7 +529,6 @@ export class WebSocketService {
           console.log('[WebSocket] Maintenance activated:', activatedData.message);
           this.httpClient?.setMaintenanceMode(true, activatedData.message);
           this.updateMaintenanceStatusBar('active', activatedData.message);
-          vscode.window.showWarningMessage(`Maintenance Mode Active: ${activatedData.message}`);
           this.eventHandlers.forEach((handlers) => {
             handlers.onMaintenanceActivated?.(activatedData.message, activatedData.activated_at);
           });
@@ -541,7 +540,6 @@ export class WebSocketService {
           console.log('[WebSocket] Maintenance deactivated');
           this.httpClient?.setMaintenanceMode(false);
           this.updateMaintenanceStatusBar('inactive');
-          vscode.window.showInformationMessage(`Maintenance Complete: ${deactivatedData.message}`);
           this.eventHandlers.forEach((handlers) => {
             handlers.onMaintenanceDeactivated?.(deactivatedData.message);
           });
@@ -552,7 +550,6 @@ export class WebSocketService {
           const scheduledData = (message as any).data || message;
           console.log('[WebSocket] Maintenance scheduled:', scheduledData.scheduled_at);
           this.updateMaintenanceStatusBar('scheduled', scheduledData.message, scheduledData.scheduled_at);
-          vscode.window.showInformationMessage(`Maintenance Scheduled for ${new Date(scheduledData.scheduled_at).toLocaleString()}: ${scheduledData.message}`);
           this.eventHandlers.forEach((handlers) => {
             handlers.onMaintenanceScheduled?.(scheduledData.scheduled_at, scheduledData.message);
           });
@@ -563,7 +560,6 @@ export class WebSocketService {
           const cancelledData = (message as any).data || message;
           console.log('[WebSocket] Maintenance cancelled');
           this.updateMaintenanceStatusBar('inactive');
-          vscode.window.showInformationMessage('Scheduled maintenance has been cancelled.');
           this.eventHandlers.forEach((handlers) => {
             handlers.onMaintenanceCancelled?.(cancelledData.message);
           });
@@ -581,16 +577,13 @@ export class WebSocketService {
           this.maintenanceStatusBarItem.text = `$(clock) Maint. ${minutesRemaining}m`;
           this.maintenanceStatusBarItem.tooltip = `Maintenance in ${minutesRemaining} minute(s): ${reminderMessage}`;
 
-          // Escalate notification urgency based on time remaining
+          // Escalate the status bar colour; the notification center announces the reminder
           if (minutesRemaining <= 5) {
             this.maintenanceStatusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.errorBackground');
-            vscode.window.showErrorMessage(`Maintenance in ${minutesRemaining} minute(s): ${reminderMessage}`);
           } else if (minutesRemaining <= 10) {
             this.maintenanceStatusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
-            vscode.window.showWarningMessage(`Maintenance in ${minutesRemaining} minutes: ${reminderMessage}`);
           } else {
             this.maintenanceStatusBarItem.backgroundColor = undefined;
-            vscode.window.showInformationMessage(`Maintenance in ${minutesRemaining} minutes: ${reminderMessage}`);
           }
 
           this.maintenanceStatusBarItem.show();
@@ -1,9 +1,12 @@
 import * as vscode from 'vscode';
+import { StudentDeadline, describeTimeRemaining } from '../utils/studentDeadlines';
+import { formatLocalDateTime } from '../utils/localDateTime';
 
 export class StatusBarService implements vscode.Disposable {
     private static instance: StatusBarService;
     private courseItem: vscode.StatusBarItem;
     private syncItem: vscode.StatusBarItem;
+    private deadlineItem: vscode.StatusBarItem;
     
     private constructor(context: vscode.ExtensionContext) {
         void context; // Mark as intentionally unused
@@ -25,6 +28,13 @@ export class StatusBarService implements vscode.Disposable {
         // Command removed - student features being reimplemented
         // this.syncItem.command = 'computor.student.syncCourseRepositories';
         this.syncItem.tooltip = 'Click to sync all repositories';
+
+        // Next assignment deadline
+        this.deadlineItem = vscode.window.createStatusBarItem(
+            vscode.StatusBarAlignment.Left,
+            98
+        );
+        this.deadlineItem.command = 'computor.student.showDeadlines';
     }
     
     static initialize(context: vscode.ExtensionContext): StatusBarService {
@@ -62,8 +72,24 @@ export class StatusBarService implements vscode.Disposable {
         }
     }
     
+    /** Shows a countdown to the given deadline, or hides the item without one. */
+    updateDeadline(deadline: StudentDeadline | undefined, now: Date = new Date()): void {
+        if (!deadline) {
+            this.deadlineItem.hide();
+            return;
+        }
+        const remainingMs = new Date(deadline.dueAt).getTime() - now.getTime();
+        this.deadlineItem.text = `$(clock) ${deadline.contentTitle}: ${describeTimeRemaining(deadline.dueAt, now)}`;
+        this.deadlineItem.tooltip = `Next deadline: ${deadline.contentTitle}, due ${formatLocalDateTime(deadline.dueAt)}\nClick to show all deadlines`;
+        this.deadlineItem.backgroundColor = remainingMs < 24 * 3600 * 1000
+            ? new vscode.ThemeColor('statusBarItem.warningBackground')
+            : undefined;
+        this.deadlineItem.show();
+    }
+    
     dispose(): void {
         this.courseItem.dispose();
         this.syncItem.dispose();
+        this.deadlineItem.dispose();
     }
 }
\ No newline at end of file
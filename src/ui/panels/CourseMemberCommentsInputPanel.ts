@@ -1,12 +1,19 @@
 import * as vscode from 'vscode';
 import { ComputorApiService } from '../../services/ComputorApiService';
 import { CourseMemberCommentList } from '../../types/generated';
+import { ResponseTemplateContext, ResponseTemplateService } from '../../services/ResponseTemplateService';
+import { OutboxService } from '../../services/OutboxService';
+import { commentThreadKey } from '../../utils/outbox';
 
 interface InputPanelState {
   courseMemberId?: string;
   title?: string;
   editingComment?: CourseMemberCommentList;
   loading: boolean;
+  /** Placeholder values for response templates; the panel offers templates when set. */
+  templateContext?: ResponseTemplateContext;
+  /** Text typed so far, for "Save as Template". */
+  draft?: string;
 }
 
 export class CourseMemberCommentsInputPanelProvider implements vscode.WebviewViewProvider {
@@ -46,8 +53,15 @@ export class CourseMemberCommentsInputPanelProvider implements vscode.WebviewVie
           await this.handleUpdateComment(message.data);
           break;
         case 'cancel':
+          this.setDraft(undefined);
           this.clearEditing();
           break;
+        case 'draftChanged':
+          this.setDraft(typeof message.data === 'string' ? message.data : undefined);
+          break;
+        case 'insertTemplate':
+          await this.insertTemplate();
+          break;
         case 'showWarning':
           if (message.data) {
             vscode.window.showWarningMessage(String(message.data));
@@ -66,13 +80,30 @@ export class CourseMemberCommentsInputPanelProvider implements vscode.WebviewVie
     this.onCommentChangedCallback = callback;
   }
 
-  public setTarget(courseMemberId: string, title: string): void {
+  public setTarget(courseMemberId: string, title: string, templateContext?: ResponseTemplateContext): void {
     this.state.courseMemberId = courseMemberId;
     this.state.title = title;
+    this.state.templateContext = templateContext;
     this.state.editingComment = undefined;
+    this.state.draft = OutboxService.getInstance().getDraft(commentThreadKey(courseMemberId));
     this.postState();
   }
 
+  /** True when a course member is selected and templates are offered. */
+  public hasTemplateTarget(): boolean {
+    return Boolean(this.state.courseMemberId && this.state.templateContext);
+  }
+
+  /** Picks a response template and inserts it, filled in, at the cursor. */
+  public async insertTemplate(): Promise<void> {
+    const text = await ResponseTemplateService.getInstance().pickTemplate(this.state.templateContext, this.state.draft);
+    if (!text) {
+      return;
+    }
+    await this.reveal();
+    this.view?.webview.postMessage({ command: 'insertText', data: { text } });
+  }
+
   public setEditingComment(comment: CourseMemberCommentList): void {
     this.state.editingComment = comment;
     this.postState();
@@ -111,7 +142,9 @@ export class CourseMemberCommentsInputPanelProvider implements vscode.WebviewVie
         courseMemberId: this.state.courseMemberId,
         title: this.state.title,
         editingComment: this.state.editingComment,
-        loading: this.state.loading
+        loading: this.state.loading,
+        templatesEnabled: Boolean(this.state.templateContext),
+        draft: this.state.draft
       }
     });
   }
@@ -135,9 +168,11 @@ export class CourseMemberCommentsInputPanelProvider implements vscode.WebviewVie
     }
     try {
       this.postLoading(true);
-      await this.api.createCourseMemberComment(this.state.courseMemberId, data.message);
+      // Queued instead of sent while offline; see OutboxService.
+      const result = await OutboxService.getInstance().sendComment(this.state.courseMemberId, data.message, this.state.title ?? 'Comments');
+      this.setDraft(undefined);
       this.clearEditing();
-      if (this.onCommentChangedCallback) {
+      if (result === 'sent' && this.onCommentChangedCallback) {
         await this.onCommentChangedCallback();
       }
     } catch (error: any) {
@@ -169,6 +204,14 @@ export class CourseMemberCommentsInputPanelProvider implements vscode.WebviewVie
     }
   }
 
+  /** Keeps the unsent comment of the selected member across reloads. */
+  private setDraft(draft: string | undefined): void {
+    this.state.draft = draft;
+    if (this.state.courseMemberId && !this.state.editingComment) {
+      OutboxService.getInstance().saveDraft(commentThreadKey(this.state.courseMemberId), draft);
+    }
+  }
+
   private updateHtml(): void {
     if (!this.view) {
       return;
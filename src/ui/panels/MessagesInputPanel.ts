@@ -1,8 +1,14 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs';
 import { ComputorApiService } from '../../services/ComputorApiService';
 import { MessageCreate, MessageUpdate, MessageList } from '../../types/generated';
 import { MessageTargetContext } from '../webviews/MessagesWebviewProvider';
 import { WebSocketService } from '../../services/WebSocketService';
+import { formatCodeSnippet } from '../../utils/messageSnippets';
+import { resolveComputorWorkspaceRoot } from '../../utils/workspaceStructure';
+import { ResponseTemplateService } from '../../services/ResponseTemplateService';
+import { OutboxService } from '../../services/OutboxService';
+import { messageThreadKey } from '../../utils/outbox';
 
 interface TypingUser {
   userId: string;
@@ -17,8 +23,13 @@ interface InputPanelState {
   messages?: MessageList[];
   wsChannel?: string;
   typingUsers: TypingUser[];
+  /** Unsent message body, kept so re-renders (reply, reveal) do not lose it. */
+  draft?: string;
 }
 
+/** Larger files are not attached; students should quote the relevant part instead. */
+const maxAttachmentBytes = 64 * 1024;
+
 export class MessagesInputPanelProvider implements vscode.WebviewViewProvider {
   public static readonly viewType = 'computor.messagesInputPanel';
   private view?: vscode.WebviewView;
@@ -63,6 +74,8 @@ export class MessagesInputPanelProvider implements vscode.WebviewViewProvider {
           break;
         case 'cancel':
           this.stopTyping();
+          this.state.draft = undefined;
+          this.saveDraft();
           this.clearReplyAndEdit();
           break;
         case 'showWarning':
@@ -76,6 +89,16 @@ export class MessagesInputPanelProvider implements vscode.WebviewViewProvider {
         case 'typing':
           this.notifyTyping();
           break;
+        case 'draftChanged':
+          this.state.draft = typeof message.data === 'string' ? message.data : undefined;
+          this.saveDraft();
+          break;
+        case 'attachFile':
+          await this.handleAttachFile();
+          break;
+        case 'insertTemplate':
+          await this.insertTemplate();
+          break;
       }
     });
 
@@ -86,11 +109,13 @@ export class MessagesInputPanelProvider implements vscode.WebviewViewProvider {
     this.onMessageCreatedCallback = callback;
   }
 
-  public setTarget(target: MessageTargetContext, messages?: MessageList[]): void {
+  /** Without an explicit `draft`, the unsent text saved for the thread is restored. */
+  public setTarget(target: MessageTargetContext, messages?: MessageList[], draft?: string): void {
     this.state.target = target;
     this.state.messages = messages;
     this.state.replyTo = undefined;
     this.state.editingMessage = undefined;
+    this.state.draft = draft ?? OutboxService.getInstance().getDraft(messageThreadKeyFor(target));
     this.postState();
   }
 
@@ -227,7 +252,8 @@ export class MessagesInputPanelProvider implements vscode.WebviewViewProvider {
         replyTo: this.state.replyTo,
         editingMessage: this.state.editingMessage,
         loading: this.state.loading,
-        typingUsers: this.state.typingUsers
+        typingUsers: this.state.typingUsers,
+        draft: this.state.draft
       }
     });
   }
@@ -270,10 +296,13 @@ export class MessagesInputPanelProvider implements vscode.WebviewViewProvider {
 
     try {
       this.postLoading(true);
-      await this.api.createMessage(payload);
+      // Queued instead of sent while offline; see OutboxService.
+      const result = await OutboxService.getInstance().sendMessage(payload, messageThreadKey(filteredPayload), target.title);
+      this.state.draft = undefined;
+      this.saveDraft();
       this.clearReplyAndEdit();
       // Only refresh via callback if no WebSocket — WS handles the update in real-time
-      if (this.onMessageCreatedCallback && !this.state.wsChannel) {
+      if (result === 'sent' && this.onMessageCreatedCallback && !this.state.wsChannel) {
         await this.onMessageCreatedCallback();
       }
     } catch (error: unknown) {
@@ -310,6 +339,75 @@ export class MessagesInputPanelProvider implements vscode.WebviewViewProvider {
     }
   }
 
+  /** Quotes a whole text file as a snippet at the end of the message body. */
+  private async handleAttachFile(): Promise<void> {
+    const defaultRoot = resolveComputorWorkspaceRoot();
+    const picked = await vscode.window.showOpenDialog({
+      canSelectMany: false,
+      openLabel: 'Attach',
+      defaultUri: defaultRoot ? vscode.Uri.file(defaultRoot) : undefined
+    });
+    const uri = picked?.[0];
+    if (!uri) {
+      return;
+    }
+    try {
+      const stat = await fs.promises.stat(uri.fsPath);
+      if (stat.size > maxAttachmentBytes) {
+        vscode.window.showWarningMessage(`"${vscode.workspace.asRelativePath(uri, false)}" is larger than 64 KB. Select the relevant part and use "Ask About This Selection" instead.`);
+        return;
+      }
+      const buffer = await fs.promises.readFile(uri.fsPath);
+      if (buffer.includes(0)) {
+        vscode.window.showWarningMessage('Only text files can be attached to messages.');
+        return;
+      }
+      const document = await vscode.workspace.openTextDocument(uri);
+      const code = buffer.toString('utf8');
+      this.appendDraft(formatCodeSnippet({
+        path: vscode.workspace.asRelativePath(uri, false),
+        startLine: 1,
+        endLine: Math.max(1, code.replace(/\n+$/, '').split('\n').length),
+        code,
+        language: document.languageId
+      }));
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      vscode.window.showErrorMessage(`Failed to attach file: ${errorMessage}`);
+    }
+  }
+
+  /** True when the composer has a target that offers response templates. */
+  public hasTemplateTarget(): boolean {
+    return Boolean(this.state.target?.templateContext && !this.state.target.readOnly);
+  }
+
+  /** Picks a response template and appends it, filled in, to the draft. */
+  public async insertTemplate(): Promise<void> {
+    const text = await ResponseTemplateService.getInstance().pickTemplate(this.state.target?.templateContext, this.state.draft);
+    if (text) {
+      this.appendDraft(text);
+      await this.reveal();
+    }
+  }
+
+  /** Appends Markdown to the unsent message body. */
+  public appendDraft(text: string): void {
+    const current = this.state.draft?.trimEnd();
+    this.state.draft = current ? `${current}\n\n${text}` : text;
+    this.saveDraft();
+    if (this.view) {
+      this.view.webview.postMessage({ command: 'setDraft', data: { draft: this.state.draft } });
+    }
+  }
+
+  /** Keeps the unsent text of the current thread across reloads. */
+  private saveDraft(): void {
+    if (this.state.target && !this.state.editingMessage) {
+      OutboxService.getInstance().saveDraft(messageThreadKeyFor(this.state.target), this.state.draft);
+    }
+  }
+
   private resolveMessageLevel(parentId?: string): number {
     if (!parentId) {
       return 0;
@@ -373,6 +471,11 @@ const TARGET_FIELDS_BY_SPECIFICITY = [
   'organization_id'
 ] as const;
 
+/** Outbox and draft key of the thread a target posts to. */
+export function messageThreadKeyFor(target: MessageTargetContext): string {
+  return messageThreadKey(pickMostSpecificTarget(target.createPayload) as Record<string, unknown>);
+}
+
 function pickMostSpecificTarget(createPayload: Record<string, unknown>): Partial<MessageCreate> {
   for (const field of TARGET_FIELDS_BY_SPECIFICITY) {
     const value = createPayload[field];
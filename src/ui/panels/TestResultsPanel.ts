@@ -1,5 +1,7 @@
 import * as vscode from 'vscode';
 import { ResultArtifactInfo } from '../../types/generated/common';
+import type { TestResultRunInfo } from '../../services/TestResultService';
+import type { TestResultDiff, TestOutcomeChange } from '../../utils/testResultDiff';
 
 interface ResultsTreeNode {
     id: string;
@@ -17,6 +19,12 @@ interface ResultsTreeNode {
     resultId?: string;
 }
 
+export interface TestResultsComparison {
+    beforeLabel: string;
+    afterLabel: string;
+    diff: TestResultDiff;
+}
+
 export interface ResultWithArtifacts {
     resultId?: string;
     result_artifacts?: ResultArtifactInfo[];
@@ -30,6 +38,8 @@ export class TestResultsTreeDataProvider implements vscode.TreeDataProvider<Resu
     private panelProvider: TestResultsPanelProvider | undefined;
     private resultArtifacts: ResultArtifactInfo[] = [];
     private currentResultId: string | undefined;
+    private runInfo: TestResultRunInfo | undefined;
+    private comparison: TestResultsComparison | undefined;
 
     constructor(private testResults: any) {
     }
@@ -44,6 +54,20 @@ export class TestResultsTreeDataProvider implements vscode.TreeDataProvider<Resu
         this.resultArtifacts = [];
     }
 
+    setRunInfo(runInfo: TestResultRunInfo | undefined): void {
+        this.runInfo = runInfo;
+    }
+
+    getRunInfo(): TestResultRunInfo | undefined {
+        return this.runInfo;
+    }
+
+    setComparison(comparison: TestResultsComparison | undefined): void {
+        this.comparison = comparison;
+        void vscode.commands.executeCommand('setContext', 'computor.results.comparing', !!comparison);
+        this._onDidChangeTreeData.fire();
+    }
+
     setPanelProvider(panelProvider: TestResultsPanelProvider): void {
         this.panelProvider = panelProvider;
     }
@@ -131,6 +155,14 @@ export class TestResultsTreeDataProvider implements vscode.TreeDataProvider<Resu
         if (!element) {
             const nodes: ResultsTreeNode[] = [];
 
+            if (this.comparison) {
+                nodes.push(this.createComparisonNode(this.comparison));
+            }
+
+            if (this.runInfo?.local) {
+                nodes.push(this.createLocalRunNode());
+            }
+
             if (this.resultArtifacts.length > 0 && this.currentResultId) {
                 const artifactsNode = this.createArtifactsNode();
                 nodes.push(artifactsNode);
@@ -142,6 +174,81 @@ export class TestResultsTreeDataProvider implements vscode.TreeDataProvider<Resu
         return element.children || [];
     }
 
+    private createComparisonNode(comparison: TestResultsComparison): ResultsTreeNode {
+        const { diff } = comparison;
+        const groups: Array<{ id: string; label: string; changes: TestOutcomeChange[]; icon: vscode.ThemeIcon }> = [
+            { id: 'regressed', label: 'Regressed', changes: diff.regressed, icon: new vscode.ThemeIcon('arrow-down', new vscode.ThemeColor('errorForeground')) },
+            { id: 'newly-passed', label: 'Newly passed', changes: diff.newlyPassed, icon: new vscode.ThemeIcon('arrow-up', new vscode.ThemeColor('terminal.ansiGreen')) },
+            { id: 'message-changed', label: 'Changed messages', changes: diff.messageChanged, icon: new vscode.ThemeIcon('diff') },
+            { id: 'added', label: 'New tests', changes: diff.added, icon: new vscode.ThemeIcon('add') },
+            { id: 'removed', label: 'Removed tests', changes: diff.removed, icon: new vscode.ThemeIcon('remove') }
+        ];
+
+        const children: ResultsTreeNode[] = groups
+            .filter(group => group.changes.length > 0)
+            .map(group => ({
+                id: `comparison/${group.id}`,
+                label: group.label,
+                description: `(${group.changes.length})`,
+                themeIcon: group.icon,
+                collapsibleState: vscode.TreeItemCollapsibleState.Expanded,
+                children: group.changes.map(change => this.createChangeNode(`comparison/${group.id}`, change))
+            }));
+
+        if (children.length === 0) {
+            children.push({
+                id: 'comparison/none',
+                label: 'No differences',
+                themeIcon: new vscode.ThemeIcon('pass')
+            });
+        }
+
+        return {
+            id: 'comparison',
+            label: 'Comparison',
+            description: `${comparison.beforeLabel} → ${comparison.afterLabel}`,
+            toolTip: `${diff.unchangedCount} unchanged test(s)`,
+            themeIcon: new vscode.ThemeIcon('git-compare'),
+            collapsibleState: vscode.TreeItemCollapsibleState.Expanded,
+            children
+        };
+    }
+
+    private createChangeNode(parentId: string, change: TestOutcomeChange): ResultsTreeNode {
+        const describe = (outcome: TestOutcomeChange['before']): string => {
+            if (!outcome) {
+                return '(not present)';
+            }
+            const status = outcome.passed ? 'PASSED' : 'FAILED';
+            return outcome.message ? `${status} — ${outcome.message}` : status;
+        };
+        const message = `Before: ${describe(change.before)}\n\nAfter: ${describe(change.after)}`;
+        return {
+            id: `${parentId}/${change.key}`,
+            label: change.key,
+            passed: change.after?.passed,
+            themeIcon: change.after ? undefined : new vscode.ThemeIcon('circle-slash'),
+            toolTip: message,
+            message
+        };
+    }
+
+    private createLocalRunNode(): ResultsTreeNode {
+        const toolTip = new vscode.MarkdownString(
+            '**Local test run — not submitted.**\n\n' +
+            'These results were produced on this machine from your working copy. ' +
+            'They are not stored on the server and do not count as a submission.\n\n' +
+            'The reference solution is not available locally, so tests that compare against it may fail here.'
+        );
+        return {
+            id: 'local-run',
+            label: 'Local run (not submitted)',
+            description: this.runInfo?.label,
+            toolTip,
+            themeIcon: new vscode.ThemeIcon('device-desktop', new vscode.ThemeColor('charts.yellow'))
+        };
+    }
+
     private createArtifactsNode(): ResultsTreeNode {
         const artifactChildren: ResultsTreeNode[] = this.resultArtifacts.map(artifact => ({
             id: `artifact/${artifact.id}`,
@@ -54,6 +54,9 @@ const SCOPE_ICONS: Record<MessageScope, string> = {
   global: 'globe'
 };
 
+/** Every scope, in the order the inbox lists them. */
+export const messageScopes = Object.keys(SCOPE_LABELS) as MessageScope[];
+
 export function scopeLabel(scope: MessageScope): string {
   return SCOPE_LABELS[scope];
 }
@@ -232,6 +235,69 @@ export class ChatLoadMoreItem extends vscode.TreeItem {
   }
 }
 
+export class ChatSearchSummaryItem extends vscode.TreeItem {
+  constructor(summary: string, resultCount: number, note?: string) {
+    super(summary, vscode.TreeItemCollapsibleState.None);
+    this.id = 'chat-search-summary';
+    this.iconPath = new vscode.ThemeIcon('search');
+    this.contextValue = 'chatSearchSummary';
+    this.description = `${resultCount} result${resultCount === 1 ? '' : 's'}`;
+    this.tooltip = note ? `${summary}\n${note}\nClick to refine the search.` : `${summary}\nClick to refine the search.`;
+    this.command = {
+      command: 'computor.chat.search',
+      title: 'Refine Search',
+      arguments: [true]
+    };
+  }
+}
+
+export class ChatSearchResultItem extends vscode.TreeItem {
+  constructor(
+    public readonly message: MessageList,
+    /** "Course / Thread" the message belongs to. */
+    targetLabel: string,
+    highlights: Array<[number, number]>,
+    labelText: string
+  ) {
+    super({ label: labelText, highlights }, vscode.TreeItemCollapsibleState.None);
+    this.id = `chat-search-result-${message.id}`;
+    this.contextValue = 'chatSearchResult';
+    this.iconPath = new vscode.ThemeIcon(SCOPE_ICONS[(message.scope || 'global') as MessageScope] ?? 'comment');
+
+    const author = formatAuthor(message);
+    const created = message.created_at ? formatDate(message.created_at) : '';
+    this.description = [author, created, targetLabel].filter(Boolean).join(' · ');
+
+    const tooltip = new vscode.MarkdownString();
+    tooltip.appendMarkdown(`**${escapeMarkdown(message.title || targetLabel)}**\n\n`);
+    tooltip.appendMarkdown(`${escapeMarkdown([scopeLabel((message.scope || 'global') as MessageScope), targetLabel, author, created].filter(Boolean).join(' · '))}\n\n`);
+    tooltip.appendText(truncate((message.content || '').trim(), 600));
+    this.tooltip = tooltip;
+
+    this.command = {
+      command: 'computor.chat.openSearchResult',
+      title: 'Open Conversation',
+      arguments: [this]
+    };
+  }
+}
+
+function formatDate(value: string): string {
+  try {
+    return new Date(value).toLocaleString();
+  } catch {
+    return value;
+  }
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/[\\`*_{}[\]()#+\-.!|<>]/g, '\\$&');
+}
+
 function formatPreview(message: MessageList): string {
   const author = formatAuthor(message);
   const text = (message.content || '').replace(/\s+/g, ' ').trim();
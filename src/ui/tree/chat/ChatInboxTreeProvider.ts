@@ -2,6 +2,8 @@ import * as vscode from 'vscode';
 import { ComputorApiService } from '../../../services/ComputorApiService';
 import { canPostGlobal, canPostToCourseFamily, canPostToOrganization } from '../../../services/MessagePermissions';
 import { WebSocketService } from '../../../services/WebSocketService';
+import { NotificationCenterService } from '../../../services/NotificationCenterService';
+import { chatEventType, migrateMutedScopes } from '../../../utils/notificationCenter';
 import { MessagesWebviewProvider, MessageTargetContext } from '../../webviews/MessagesWebviewProvider';
 import type { MessageList } from '../../../types/generated';
 
@@ -49,6 +51,8 @@ const STATE_KEY = 'computor.chat.inbox.state';
 interface PersistedState {
   expandedScopes: MessageScope[];
   unreadOnly: boolean;
+  /** Superseded by the notification center's `chat:<scope>` preferences;
+   *  read once to migrate and then dropped. */
   mutedScopes?: MessageScope[];
 }
 
@@ -123,10 +127,10 @@ export class ChatInboxTreeProvider implements vscode.TreeDataProvider<AnyTreeIte
   // Persisted UI state
   private expandedScopes: Set<MessageScope> = new Set();
   private unreadOnly = false;
-  /** Scopes whose new-message toasts are suppressed. Per-scope only — there
-   *  is no separate global flag; the global title-bar toggle simply flips
-   *  this set between empty (all on) and full (all muted). */
-  private mutedScopes: Set<MessageScope> = new Set();
+  /** Mute list persisted by older versions, migrated once the notification
+   *  center is attached. */
+  private legacyMutedScopes: MessageScope[] = [];
+  private notifications?: NotificationCenterService;
 
   // Label caches keyed by id
   private readonly orgLabels = new Map<string, string>();
@@ -149,6 +153,38 @@ export class ChatInboxTreeProvider implements vscode.TreeDataProvider<AnyTreeIte
 
   // ----- Public API -----
 
+  /** New messages are announced through the notification center, whose
+   *  `chat:<scope>` preferences decide between toast, badge and silent. The
+   *  scope mute toggles write those preferences. */
+  setNotificationCenter(notifications: NotificationCenterService): vscode.Disposable {
+    this.notifications = notifications;
+    if (this.legacyMutedScopes.length > 0) {
+      const mutedScopes = this.legacyMutedScopes;
+      this.legacyMutedScopes = [];
+      void notifications
+        .setPreferences(migrateMutedScopes(notifications.getPreferences(), mutedScopes))
+        .then(() => this.persistState());
+    }
+    void this.applyNotificationContextKeys();
+    this.rebuildScopeItemsFromCache();
+    return vscode.Disposable.from(
+      notifications.onDidChangePreferences(() => {
+        void this.applyNotificationContextKeys();
+        this.rebuildScopeItemsFromCache();
+      }),
+      notifications.registerLinkHandler(async (link) => {
+        if (link.kind !== 'message') { return false; }
+        const message = await this.api.getMessage(link.messageId);
+        if (!message) {
+          vscode.window.showWarningMessage('This message is no longer available.');
+          return true;
+        }
+        await this.openMessageInPanel(message as unknown as Record<string, unknown>, link.scope as MessageScope);
+        return true;
+      })
+    );
+  }
+
   setWebSocketService(wsService: WebSocketService): void {
     this.wsService = wsService;
     // If we already know who we are, subscribe immediately. Otherwise the
@@ -196,39 +232,28 @@ export class ChatInboxTreeProvider implements vscode.TreeDataProvider<AnyTreeIte
     this.rebuildScopeItemsFromCache();
   }
 
-  /** True when at least one scope is currently un-muted. The title-bar action
-   *  uses this to pick between "mute all" (bell) and "unmute all" (bell-slash). */
+  /** True when at least one scope still toasts. The title-bar action uses
+   *  this to pick between "mute all" (bell) and "unmute all" (bell-slash). */
   isAnyScopeUnmuted(): boolean {
-    return SCOPE_ORDER.some(scope => !this.mutedScopes.has(scope));
+    return SCOPE_ORDER.some(scope => !this.isScopeMuted(scope));
   }
 
+  /** A scope is muted when its new messages do not toast (badge or silent
+   *  in the notification center preferences). */
   isScopeMuted(scope: MessageScope): boolean {
-    return this.mutedScopes.has(scope);
+    return this.notifications !== undefined && this.notifications.getDelivery(chatEventType(scope)) !== 'toast';
   }
 
   /** Flip every scope at once. If any scope is currently un-muted, mute all;
-   *  otherwise unmute all. */
+   *  otherwise unmute all. Muting records messages silently. */
   toggleAllNotifications(): void {
-    const allMuted = !this.isAnyScopeUnmuted();
-    if (allMuted) {
-      this.mutedScopes.clear();
-    } else {
-      this.mutedScopes = new Set(SCOPE_ORDER);
-    }
-    void this.persistState();
-    void this.applyNotificationContextKeys();
-    this.rebuildScopeItemsFromCache();
+    const delivery = this.isAnyScopeUnmuted() ? 'silent' : 'toast';
+    void this.notifications?.setDelivery(SCOPE_ORDER.map(chatEventType), delivery);
   }
 
   toggleScopeMuted(scope: MessageScope): void {
-    if (this.mutedScopes.has(scope)) {
-      this.mutedScopes.delete(scope);
-    } else {
-      this.mutedScopes.add(scope);
-    }
-    void this.persistState();
-    void this.applyNotificationContextKeys();
-    this.rebuildScopeItemsFromCache();
+    const delivery = this.isScopeMuted(scope) ? 'toast' : 'silent';
+    void this.notifications?.setDelivery(chatEventType(scope), delivery);
   }
 
   recordExpanded(scope: MessageScope, expanded: boolean): void {
@@ -240,6 +265,42 @@ export class ChatInboxTreeProvider implements vscode.TreeDataProvider<AnyTreeIte
     void this.persistState();
   }
 
+  /** Every message the inbox has pulled so far (all scopes and courses). The
+   *  search view uses this as its local index. */
+  getLoadedMessages(): MessageList[] {
+    return this.cachedMessages;
+  }
+
+  getCurrentUserId(): string | undefined {
+    return this.currentUserId;
+  }
+
+  /** Accessible courses with their resolved titles, for search filters. */
+  getCourseChoices(): Array<{ id: string; label: string }> {
+    const courseIds = this.userScopes?.course ? Object.keys(this.userScopes.course) : [];
+    return courseIds
+      .map(id => ({ id, label: this.courseLabels.get(id) || shortId(id) }))
+      .sort((a, b) => a.label.localeCompare(b.label));
+  }
+
+  /** Resolves the thread labels for messages that were not loaded through the
+   *  inbox (e.g. server-side search results). */
+  async resolveMessageLabels(messages: MessageList[]): Promise<void> {
+    await this.resolveLabels(this.groupMessages(messages));
+  }
+
+  /** "Course / Thread" label of the conversation a message belongs to. */
+  describeMessageTarget(message: MessageList): string {
+    const scope = (message.scope || 'global') as MessageScope;
+    const labels = this.threadLabels(scope, this.targetIdFor(scope, message), [message]);
+    return labels.subtitle ? `${labels.subtitle} / ${labels.title}` : labels.title;
+  }
+
+  /** Opens the conversation a single message belongs to. */
+  async openMessage(message: MessageList): Promise<void> {
+    await this.openMessageInPanel(message as unknown as Record<string, unknown>, (message.scope || 'global') as MessageScope);
+  }
+
   async openThread(threadItem: ChatThreadItem): Promise<void> {
     const ctx = await this.buildTargetContext(threadItem.thread);
     if (!ctx) {
@@ -897,7 +958,7 @@ export class ChatInboxTreeProvider implements vscode.TreeDataProvider<AnyTreeIte
         const expanded = this.expandedScopes.has(scope) || totalUnread > 0;
         result.push(new ChatScopeItem(scope, [], totalUnread, expanded, {
           courseChildCount: inner.size,
-          muted: this.mutedScopes.has(scope)
+          muted: this.isScopeMuted(scope)
         }));
         continue;
       }
@@ -959,7 +1020,7 @@ export class ChatInboxTreeProvider implements vscode.TreeDataProvider<AnyTreeIte
       const totalUnread = threads.reduce((acc, t) => acc + t.unreadCount, 0);
       const expanded = this.expandedScopes.has(scope) || totalUnread > 0;
       result.push(new ChatScopeItem(scope, threads, totalUnread, expanded, {
-        muted: this.mutedScopes.has(scope)
+        muted: this.isScopeMuted(scope)
       }));
     }
 
@@ -1177,11 +1238,8 @@ export class ChatInboxTreeProvider implements vscode.TreeDataProvider<AnyTreeIte
       // new message, so the toast would be redundant.
       return;
     }
-    const scope = (typeof inner.scope === 'string' ? inner.scope : 'global') as MessageScope;
-    if (this.mutedScopes.has(scope)) {
-      return;
-    }
-    void this.showNewMessageToast(inner);
+    if (!this.notifications) { return; }
+    void this.recordNewMessage(this.notifications, inner);
   }
 
   private scheduleWsReload(): void {
@@ -1205,18 +1263,20 @@ export class ChatInboxTreeProvider implements vscode.TreeDataProvider<AnyTreeIte
     }, ChatInboxTreeProvider.WS_RELOAD_DEBOUNCE_MS);
   }
 
-  private async showNewMessageToast(message: Record<string, unknown>): Promise<void> {
+  /** Hands the message to the notification center, which toasts, badges or
+   *  just records it depending on the scope's preference. */
+  private async recordNewMessage(notifications: NotificationCenterService, message: Record<string, unknown>): Promise<void> {
     const scope = (typeof message.scope === 'string' ? message.scope : 'global') as MessageScope;
     const author = formatToastAuthor(message);
-    const preview = formatToastPreview(message);
     const scopeText = scopeLabel(scope);
-    const text = author
-      ? `${author} (${scopeText}): ${preview}`
-      : `${scopeText}: ${preview}`;
-
-    const choice = await vscode.window.showInformationMessage(text, 'Open');
-    if (choice !== 'Open') { return; }
-    await this.openMessageInPanel(message, scope);
+    await notifications.notify({
+      type: chatEventType(scope),
+      title: author ? `${author} (${scopeText})` : scopeText,
+      detail: formatToastPreview(message),
+      severity: 'info',
+      timestamp: typeof message.created_at === 'string' ? message.created_at : new Date().toISOString(),
+      link: typeof message.id === 'string' ? { kind: 'message', messageId: message.id, scope } : undefined
+    });
   }
 
   private async openMessageInPanel(message: Record<string, unknown>, scope: MessageScope): Promise<void> {
@@ -1251,7 +1311,7 @@ export class ChatInboxTreeProvider implements vscode.TreeDataProvider<AnyTreeIte
           this.unreadOnly = stored.unreadOnly;
         }
         if (Array.isArray(stored.mutedScopes)) {
-          this.mutedScopes = new Set(stored.mutedScopes);
+          this.legacyMutedScopes = stored.mutedScopes;
         }
       }
     } catch (err) {
@@ -1265,7 +1325,7 @@ export class ChatInboxTreeProvider implements vscode.TreeDataProvider<AnyTreeIte
     const state: PersistedState = {
       expandedScopes: Array.from(this.expandedScopes),
       unreadOnly: this.unreadOnly,
-      mutedScopes: Array.from(this.mutedScopes)
+      mutedScopes: this.legacyMutedScopes.length > 0 ? this.legacyMutedScopes : undefined
     };
     try {
       await this.context.globalState.update(STATE_KEY, state);
@@ -1274,8 +1334,8 @@ export class ChatInboxTreeProvider implements vscode.TreeDataProvider<AnyTreeIte
     }
   }
 
-  /** Mirrors the mute set into VS Code context keys so menu `when` clauses
-   *  can pick the right icon variant.
+  /** Mirrors the chat preferences into VS Code context keys so menu `when`
+   *  clauses can pick the right icon variant.
    *    - `computor.chat.anyScopeUnmuted` — true if at least one scope's
    *      notifications are still on. The title-bar action shows the bell
    *      (mute-all) variant when this is true and the bell-slash
@@ -1285,7 +1345,7 @@ export class ChatInboxTreeProvider implements vscode.TreeDataProvider<AnyTreeIte
    *      (`.muted`) instead, but this stays available for future use. */
   private async applyNotificationContextKeys(): Promise<void> {
     await vscode.commands.executeCommand('setContext', 'computor.chat.anyScopeUnmuted', this.isAnyScopeUnmuted());
-    await vscode.commands.executeCommand('setContext', 'computor.chat.mutedScopes', Array.from(this.mutedScopes).join(' '));
+    await vscode.commands.executeCommand('setContext', 'computor.chat.mutedScopes', SCOPE_ORDER.filter(scope => this.isScopeMuted(scope)).join(' '));
   }
 }
 
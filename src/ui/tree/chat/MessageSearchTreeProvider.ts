@@ -0,0 +1,358 @@
+import * as vscode from 'vscode';
+import { ComputorApiService } from '../../../services/ComputorApiService';
+import type { MessageList } from '../../../types/generated';
+import { formatLocalDateTime, parseLocalDateTime } from '../../../utils/localDateTime';
+import {
+  MessageSearchFilters,
+  hasSearchCriteria,
+  highlightRanges,
+  matchesMessageSearch,
+  mergeSearchResults,
+  searchTerms,
+  toMessageQuery
+} from '../../../utils/messageSearch';
+import { ChatInboxTreeProvider } from './ChatInboxTreeProvider';
+import {
+  ChatEmptyItem,
+  ChatErrorItem,
+  ChatLoadingItem,
+  ChatSearchResultItem,
+  ChatSearchSummaryItem,
+  MessageScope,
+  messageScopes,
+  scopeLabel
+} from './ChatInboxTreeItems';
+
+type SearchTreeItem = ChatSearchSummaryItem | ChatSearchResultItem | ChatEmptyItem | ChatLoadingItem | ChatErrorItem;
+
+type FilterAction = 'search' | 'text' | 'scope' | 'course' | 'author' | 'after' | 'before' | 'reset';
+
+/**
+ * Results of a message search across every scope. Matches come from two
+ * sources: the messages the inbox has already pulled (its local index) and
+ * pages of `GET /messages` narrowed by scope, course, author and date. The
+ * endpoint cannot match text, so server pages are filtered locally as well.
+ */
+export class MessageSearchTreeProvider implements vscode.TreeDataProvider<SearchTreeItem> {
+  private readonly _onDidChangeTreeData = new vscode.EventEmitter<SearchTreeItem | undefined | void>();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  /** Server pages fetched per search; beyond that the summary asks to narrow the filters. */
+  private static readonly MAX_SERVER_PAGES = 5;
+  private static readonly SERVER_PAGE_SIZE = 200;
+
+  private filters?: MessageSearchFilters;
+  private results: MessageList[] = [];
+  private searching = false;
+  private searchError?: string;
+  /** Set when the server reported more candidates than were scanned. */
+  private truncatedNote?: string;
+  /** Author names seen in results and the inbox, keyed by user id. */
+  private readonly authorNames = new Map<string, string>();
+
+  constructor(
+    private readonly api: ComputorApiService,
+    private readonly inbox: ChatInboxTreeProvider
+  ) {}
+
+  getTreeItem(element: SearchTreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  async getChildren(element?: SearchTreeItem): Promise<SearchTreeItem[]> {
+    if (element) {
+      return [];
+    }
+    if (this.searching) {
+      return [new ChatLoadingItem()];
+    }
+    if (this.searchError) {
+      return [new ChatErrorItem(this.searchError)];
+    }
+    if (!this.filters) {
+      const hint = new ChatEmptyItem('Search messages…');
+      hint.iconPath = new vscode.ThemeIcon('search');
+      hint.command = { command: 'computor.chat.search', title: 'Search Messages' };
+      return [hint];
+    }
+
+    const terms = searchTerms(this.filters.text);
+    const items: SearchTreeItem[] = [
+      new ChatSearchSummaryItem(this.describeFilters(this.filters), this.results.length, this.truncatedNote)
+    ];
+    if (this.results.length === 0) {
+      items.push(new ChatEmptyItem('No messages match.'));
+      return items;
+    }
+    for (const message of this.results) {
+      const labelText = resultLabel(message, terms);
+      items.push(new ChatSearchResultItem(
+        message,
+        this.inbox.describeMessageTarget(message),
+        highlightRanges(labelText, terms),
+        labelText
+      ));
+    }
+    return items;
+  }
+
+  clear(): void {
+    this.filters = undefined;
+    this.results = [];
+    this.searchError = undefined;
+    this.truncatedNote = undefined;
+    void vscode.commands.executeCommand('setContext', 'computor.chat.searchActive', false);
+    this._onDidChangeTreeData.fire(undefined);
+  }
+
+  async openResult(item: ChatSearchResultItem): Promise<void> {
+    await this.inbox.openMessage(item.message);
+  }
+
+  /** Asks for the search text and filters (starting from the last search when
+   *  refining) and runs the search. Resolves to false when cancelled. */
+  async promptAndSearch(refine = false): Promise<boolean> {
+    const start: MessageSearchFilters = refine && this.filters ? { ...this.filters } : { text: '' };
+    if (!refine || !this.filters) {
+      const text = await this.promptText(start.text);
+      if (text === undefined) {
+        return false;
+      }
+      start.text = text;
+    }
+    const filters = await this.editFilters(start);
+    if (!filters) {
+      return false;
+    }
+    await this.search(filters);
+    return true;
+  }
+
+  async search(filters: MessageSearchFilters): Promise<void> {
+    this.filters = filters;
+    this.results = [];
+    this.searchError = undefined;
+    this.truncatedNote = undefined;
+    this.searching = true;
+    void vscode.commands.executeCommand('setContext', 'computor.chat.searchActive', true);
+    this._onDidChangeTreeData.fire(undefined);
+
+    try {
+      const local = this.inbox.getLoadedMessages().filter(message => matchesMessageSearch(message, filters));
+      const remote = await this.searchServer(filters);
+      this.results = mergeSearchResults(local, remote);
+      this.rememberAuthors(this.results);
+      await this.inbox.resolveMessageLabels(this.results);
+    } catch (error: any) {
+      this.searchError = `Search failed: ${error?.message || error}`;
+    } finally {
+      this.searching = false;
+      this._onDidChangeTreeData.fire(undefined);
+    }
+  }
+
+  private async searchServer(filters: MessageSearchFilters): Promise<MessageList[]> {
+    const query = toMessageQuery(filters);
+    const pageSize = MessageSearchTreeProvider.SERVER_PAGE_SIZE;
+    const matches: MessageList[] = [];
+    let fetched = 0;
+    let total = 0;
+    for (let page = 0; page < MessageSearchTreeProvider.MAX_SERVER_PAGES; page += 1) {
+      const next = await this.api.listMessagesPage({ ...query, skip: fetched, limit: pageSize });
+      fetched += next.items.length;
+      total = next.total;
+      matches.push(...next.items.filter(message => matchesMessageSearch(message, filters)));
+      if (next.items.length < pageSize || fetched >= total) {
+        break;
+      }
+    }
+    if (total > fetched) {
+      this.truncatedNote = `Scanned the ${fetched} most recent of ${total} messages on the server. Narrow the scope, course, author or dates to search older messages.`;
+    }
+    return matches;
+  }
+
+  private async promptText(value: string): Promise<string | undefined> {
+    return vscode.window.showInputBox({
+      title: 'Search Messages',
+      prompt: 'Words or "quoted phrases" that must appear in the title or content. Leave empty to search by filters only.',
+      placeHolder: 'e.g. recursion "index out of range"',
+      value
+    });
+  }
+
+  /** Filter menu shown before a search runs; picking "Search" accepts it. */
+  private async editFilters(initial: MessageSearchFilters): Promise<MessageSearchFilters | undefined> {
+    const filters = { ...initial };
+    this.rememberAuthors(this.inbox.getLoadedMessages());
+
+    for (;;) {
+      const items: Array<vscode.QuickPickItem & { action?: FilterAction }> = [
+        {
+          label: '$(search) Search',
+          description: this.describeFilters(filters),
+          action: 'search'
+        },
+        { label: 'Filters', kind: vscode.QuickPickItemKind.Separator },
+        { label: '$(text-size) Text', description: filters.text || 'any', action: 'text' },
+        { label: '$(list-tree) Scope', description: filters.scope ? scopeLabel(filters.scope) : 'all scopes', action: 'scope' },
+        { label: '$(mortar-board) Course', description: filters.courseId ? this.courseLabel(filters.courseId) : 'all courses', action: 'course' },
+        { label: '$(person) Author', description: filters.authorId ? this.authorLabel(filters.authorId) : 'anyone', action: 'author' },
+        { label: '$(calendar) From', description: filters.createdAfter ? formatLocalDateTime(filters.createdAfter) : 'any date', action: 'after' },
+        { label: '$(calendar) To', description: filters.createdBefore ? formatLocalDateTime(filters.createdBefore) : 'any date', action: 'before' },
+        { label: '$(clear-all) Reset Filters', action: 'reset' }
+      ];
+      const choice = await vscode.window.showQuickPick(items, {
+        title: 'Search Messages',
+        placeHolder: 'Adjust the filters, then pick Search'
+      });
+      if (!choice?.action) {
+        return undefined;
+      }
+
+      switch (choice.action) {
+        case 'search':
+          if (!hasSearchCriteria(filters)) {
+            vscode.window.showWarningMessage('Enter search text or set at least one filter.');
+            break;
+          }
+          return filters;
+        case 'text': {
+          const text = await this.promptText(filters.text);
+          if (text !== undefined) {
+            filters.text = text;
+          }
+          break;
+        }
+        case 'scope': {
+          const picked = await vscode.window.showQuickPick(
+            [
+              { label: 'All scopes', scope: undefined as MessageScope | undefined },
+              ...messageScopes.map(scope => ({ label: scopeLabel(scope), scope: scope as MessageScope | undefined }))
+            ],
+            { title: 'Search Messages: Scope' }
+          );
+          if (picked) {
+            filters.scope = picked.scope;
+          }
+          break;
+        }
+        case 'course': {
+          const picked = await vscode.window.showQuickPick(
+            [
+              { label: 'All courses', id: undefined as string | undefined },
+              ...this.inbox.getCourseChoices().map(course => ({ label: course.label, id: course.id as string | undefined }))
+            ],
+            { title: 'Search Messages: Course' }
+          );
+          if (picked) {
+            filters.courseId = picked.id;
+          }
+          break;
+        }
+        case 'author': {
+          const me = this.inbox.getCurrentUserId();
+          const authors = [...this.authorNames.entries()]
+            .filter(([id]) => id !== me)
+            .sort((a, b) => a[1].localeCompare(b[1]));
+          const picked = await vscode.window.showQuickPick(
+            [
+              { label: 'Anyone', id: undefined as string | undefined },
+              ...(me ? [{ label: 'Me', id: me as string | undefined }] : []),
+              ...authors.map(([id, name]) => ({ label: name, id: id as string | undefined }))
+            ],
+            { title: 'Search Messages: Author', placeHolder: 'Authors of messages loaded so far' }
+          );
+          if (picked) {
+            filters.authorId = picked.id;
+          }
+          break;
+        }
+        case 'after':
+        case 'before': {
+          const isAfter = choice.action === 'after';
+          const current = isAfter ? filters.createdAfter : filters.createdBefore;
+          const value = await vscode.window.showInputBox({
+            title: `Search Messages: ${isAfter ? 'From' : 'To'}`,
+            prompt: 'YYYY-MM-DD or YYYY-MM-DD HH:mm in local time. Leave empty for any date.',
+            value: current ? formatLocalDateTime(current) : '',
+            validateInput: input => (!input.trim() || parseLocalDateTime(input) ? undefined : 'Use YYYY-MM-DD or YYYY-MM-DD HH:mm')
+          });
+          if (value === undefined) {
+            break;
+          }
+          const date = value.trim() ? parseLocalDateTime(value) : undefined;
+          // A bare date as upper bound means the whole day.
+          if (date && !isAfter && !/\d:\d/.test(value)) {
+            date.setHours(23, 59, 59, 999);
+          }
+          if (isAfter) {
+            filters.createdAfter = date?.toISOString();
+          } else {
+            filters.createdBefore = date?.toISOString();
+          }
+          break;
+        }
+        case 'reset':
+          filters.scope = undefined;
+          filters.courseId = undefined;
+          filters.authorId = undefined;
+          filters.createdAfter = undefined;
+          filters.createdBefore = undefined;
+          break;
+      }
+    }
+  }
+
+  private describeFilters(filters: MessageSearchFilters): string {
+    const parts: string[] = [];
+    if (filters.text.trim()) { parts.push(`"${filters.text.trim()}"`); }
+    if (filters.scope) { parts.push(scopeLabel(filters.scope)); }
+    if (filters.courseId) { parts.push(this.courseLabel(filters.courseId)); }
+    if (filters.authorId) { parts.push(`by ${this.authorLabel(filters.authorId)}`); }
+    if (filters.createdAfter) { parts.push(`from ${formatLocalDateTime(filters.createdAfter)}`); }
+    if (filters.createdBefore) { parts.push(`to ${formatLocalDateTime(filters.createdBefore)}`); }
+    return parts.length > 0 ? parts.join(' · ') : 'All messages';
+  }
+
+  private courseLabel(courseId: string): string {
+    return this.inbox.getCourseChoices().find(course => course.id === courseId)?.label || courseId.slice(0, 8);
+  }
+
+  private authorLabel(authorId: string): string {
+    if (authorId === this.inbox.getCurrentUserId()) {
+      return 'Me';
+    }
+    return this.authorNames.get(authorId) || authorId.slice(0, 8);
+  }
+
+  private rememberAuthors(messages: MessageList[]): void {
+    for (const message of messages) {
+      const name = `${message.author?.given_name || ''} ${message.author?.family_name || ''}`.trim();
+      if (message.author_id && name) {
+        this.authorNames.set(message.author_id, name);
+      }
+    }
+  }
+}
+
+/** The title when it matches (or there is no content match), otherwise the
+ *  content around the first matching term. */
+function resultLabel(message: MessageList, terms: string[]): string {
+  const title = (message.title || '').trim();
+  const content = (message.content || '').replace(/\s+/g, ' ').trim();
+  const lowerTitle = title.toLowerCase();
+  if (title && (terms.length === 0 || terms.some(term => lowerTitle.includes(term)))) {
+    return title;
+  }
+  const lowerContent = content.toLowerCase();
+  const first = terms
+    .map(term => lowerContent.indexOf(term))
+    .filter(index => index >= 0)
+    .sort((a, b) => a - b)[0];
+  if (first === undefined || first < 30) {
+    return content.length > 80 ? `${content.slice(0, 79)}…` : content || title || '(no content)';
+  }
+  const excerpt = content.slice(first - 20, first + 60);
+  return `…${excerpt}${first + 60 < content.length ? '…' : ''}`;
+}
@@ -0,0 +1,239 @@
+import * as vscode from 'vscode';
+import { ComputorApiService } from '../../../services/ComputorApiService';
+import type { ExampleGet, ExampleList } from '../../../types/generated';
+import {
+  DependencyEdge,
+  DependencyEdgeStatus,
+  DependencyNode,
+  ExampleDependencyGraph,
+  buildDependencyGraph,
+  dependantsOf,
+  dependenciesOf,
+  dependencyEdgeStatus
+} from '../../../utils/exampleDependencyGraph';
+
+export { ExampleDependencyRootItem, ExampleDependencyEdgeItem };
+
+type DependencyDirection = 'dependencies' | 'dependants';
+
+/** Number of example detail requests issued at once while building a graph. */
+const loadChunkSize = 10;
+
+class ExampleDependencyRootItem extends vscode.TreeItem {
+  constructor(
+    public readonly node: DependencyNode,
+    public readonly repositoryId: string
+  ) {
+    super(node.identifier, vscode.TreeItemCollapsibleState.None);
+    this.id = `dependency-root-${repositoryId}-${node.identifier}`;
+    this.contextValue = 'exampleDependencyRoot';
+    this.iconPath = new vscode.ThemeIcon('type-hierarchy');
+    this.description = node.version;
+    this.tooltip = `${node.title}\nIdentifier: ${node.identifier}${node.version ? `\nLatest version: ${node.version}` : ''}`;
+  }
+}
+
+class ExampleDependencySectionItem extends vscode.TreeItem {
+  constructor(
+    public readonly root: ExampleDependencyRootItem,
+    public readonly direction: DependencyDirection,
+    count: number,
+    problems: number
+  ) {
+    super(direction === 'dependencies' ? 'Depends on' : 'Used by',
+      count > 0 ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.None);
+    this.id = `${root.id}-${direction}`;
+    this.contextValue = 'exampleDependencySection';
+    this.iconPath = new vscode.ThemeIcon(direction === 'dependencies' ? 'arrow-right' : 'arrow-left');
+    this.description = problems > 0 ? `${count} · ${problems} problem${problems === 1 ? '' : 's'}` : String(count);
+  }
+}
+
+class ExampleDependencyEdgeItem extends vscode.TreeItem {
+  constructor(
+    public readonly edge: DependencyEdge,
+    public readonly direction: DependencyDirection,
+    public readonly status: DependencyEdgeStatus,
+    public readonly repositoryId: string,
+    /** Identifiers from the root down to this item, used to stop at cycles. */
+    public readonly chain: string[],
+    target: DependencyNode | undefined,
+    hasChildren: boolean
+  ) {
+    const identifier = direction === 'dependencies' ? edge.to : edge.from;
+    const isCycle = chain.includes(identifier);
+    super(identifier, hasChildren && !isCycle
+      ? vscode.TreeItemCollapsibleState.Collapsed
+      : vscode.TreeItemCollapsibleState.None);
+    this.id = `dependency-${direction}-${[...chain, identifier].join('>')}`;
+    this.contextValue = status === 'missing' ? 'exampleDependencyMissing' : 'exampleDependency';
+
+    const constraint = edge.constraint || 'latest';
+    const parts: string[] = [];
+    if (direction === 'dependencies') {
+      parts.push(target?.version ? `${constraint} → ${target.version}` : constraint);
+    } else {
+      parts.push(`requires ${constraint}`);
+    }
+    if (status === 'missing') parts.push('missing from repository');
+    if (status === 'unsatisfied') parts.push('constraint not met');
+    if (isCycle) parts.push('(cycle)');
+    this.description = parts.join(' · ');
+
+    this.iconPath = status === 'ok'
+      ? new vscode.ThemeIcon(isCycle ? 'sync' : 'file-code')
+      : new vscode.ThemeIcon('warning', new vscode.ThemeColor('problemsWarningIcon.foreground'));
+    const tooltip = [target ? `${target.title}\nIdentifier: ${identifier}` : `Identifier: ${identifier}`];
+    tooltip.push(`Constraint: ${constraint}`);
+    if (target?.version) tooltip.push(`Latest version: ${target.version}`);
+    if (status === 'missing') tooltip.push(`"${edge.to}" does not exist in the repository.`);
+    if (status === 'unsatisfied') tooltip.push(`The latest version of "${edge.to}" does not satisfy ${constraint}.`);
+    this.tooltip = tooltip.join('\n');
+  }
+
+  /** The example this row stands for. */
+  get identifier(): string {
+    return this.direction === 'dependencies' ? this.edge.to : this.edge.from;
+  }
+}
+
+/**
+ * Shows which examples an example depends on (meta.yaml `testDependencies`)
+ * and which examples depend on it, transitively, with version constraints.
+ * Graphs are built per example repository from the example details.
+ */
+export class ExampleDependencyTreeProvider implements vscode.TreeDataProvider<vscode.TreeItem> {
+  private _onDidChangeTreeData = new vscode.EventEmitter<vscode.TreeItem | undefined | null | void>();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  private graphs = new Map<string, Promise<ExampleDependencyGraph>>();
+  private focus: { identifier: string; repositoryId: string } | undefined;
+
+  constructor(private readonly apiService: ComputorApiService) {}
+
+  /** Roots the view at an example. */
+  showExample(identifier: string, repositoryId: string): void {
+    this.focus = { identifier, repositoryId };
+    this._onDidChangeTreeData.fire(undefined);
+  }
+
+  refresh(): void {
+    this.graphs.clear();
+    this._onDidChangeTreeData.fire(undefined);
+  }
+
+  /** Dependency graph of a repository; cached until the next refresh. */
+  getGraph(repositoryId: string): Promise<ExampleDependencyGraph> {
+    let graph = this.graphs.get(repositoryId);
+    if (!graph) {
+      graph = this.loadGraph(repositoryId);
+      graph.catch(() => this.graphs.delete(repositoryId));
+      this.graphs.set(repositoryId, graph);
+    }
+    return graph;
+  }
+
+  getTreeItem(element: vscode.TreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  async getChildren(element?: vscode.TreeItem): Promise<vscode.TreeItem[]> {
+    try {
+      if (!element) {
+        return await this.getRootItems();
+      }
+      const graph = await this.getGraph(
+        element instanceof ExampleDependencySectionItem ? element.root.repositoryId : (element as ExampleDependencyEdgeItem).repositoryId
+      );
+      if (element instanceof ExampleDependencySectionItem) {
+        return this.edgeItems(graph, element.root.node.identifier, element.direction, element.root.repositoryId, [element.root.node.identifier]);
+      }
+      if (element instanceof ExampleDependencyEdgeItem) {
+        return this.edgeItems(graph, element.identifier, element.direction, element.repositoryId, [...element.chain, element.identifier]);
+      }
+      return [];
+    } catch (error) {
+      console.error('Failed to load example dependencies:', error);
+      const failed = new vscode.TreeItem('Failed to load dependencies', vscode.TreeItemCollapsibleState.None);
+      failed.iconPath = new vscode.ThemeIcon('error');
+      failed.tooltip = String(error);
+      return [failed];
+    }
+  }
+
+  private async getRootItems(): Promise<vscode.TreeItem[]> {
+    if (!this.focus) {
+      const hint = new vscode.TreeItem('Use "Show Dependencies" on an example', vscode.TreeItemCollapsibleState.None);
+      hint.iconPath = new vscode.ThemeIcon('info');
+      return [hint];
+    }
+    const graph = await this.getGraph(this.focus.repositoryId);
+    const node = graph.nodes.get(this.focus.identifier);
+    if (!node) {
+      const notFound = new vscode.TreeItem(`${this.focus.identifier} is not in the repository`, vscode.TreeItemCollapsibleState.None);
+      notFound.iconPath = new vscode.ThemeIcon('info');
+      return [notFound];
+    }
+    const root = new ExampleDependencyRootItem(node, this.focus.repositoryId);
+    const dependencies = dependenciesOf(graph, node.identifier);
+    const dependants = dependantsOf(graph, node.identifier);
+    return [
+      root,
+      new ExampleDependencySectionItem(root, 'dependencies', dependencies.length,
+        dependencies.filter(edge => dependencyEdgeStatus(graph, edge) !== 'ok').length),
+      new ExampleDependencySectionItem(root, 'dependants', dependants.length,
+        dependants.filter(edge => dependencyEdgeStatus(graph, edge) !== 'ok').length)
+    ];
+  }
+
+  private edgeItems(
+    graph: ExampleDependencyGraph,
+    identifier: string,
+    direction: DependencyDirection,
+    repositoryId: string,
+    chain: string[]
+  ): vscode.TreeItem[] {
+    const edges = direction === 'dependencies' ? dependenciesOf(graph, identifier) : dependantsOf(graph, identifier);
+    return edges
+      .slice()
+      .sort((a, b) => (direction === 'dependencies' ? a.to.localeCompare(b.to) : a.from.localeCompare(b.from)))
+      .map(edge => {
+        const next = direction === 'dependencies' ? edge.to : edge.from;
+        const nextEdges = direction === 'dependencies' ? dependenciesOf(graph, next) : dependantsOf(graph, next);
+        return new ExampleDependencyEdgeItem(
+          edge, direction, dependencyEdgeStatus(graph, edge), repositoryId, chain,
+          graph.nodes.get(next), nextEdges.length > 0
+        );
+      });
+  }
+
+  private async loadGraph(repositoryId: string): Promise<ExampleDependencyGraph> {
+    const examples = await this.apiService.getExamples(repositoryId);
+    const byId = new Map(examples.map(example => [example.id, example]));
+    const nodes: DependencyNode[] = [];
+    for (let start = 0; start < examples.length; start += loadChunkSize) {
+      const chunk = examples.slice(start, start + loadChunkSize);
+      const details = await Promise.all(chunk.map(example => this.apiService.getExample(example.id)));
+      chunk.forEach((example, index) => nodes.push(toDependencyNode(example, details[index], byId)));
+    }
+    return buildDependencyGraph(nodes);
+  }
+}
+
+function toDependencyNode(example: ExampleList, details: ExampleGet | undefined, byId: Map<string, ExampleList>): DependencyNode {
+  const latest = (details?.versions ?? []).reduce<{ version_number: number; version_tag: string } | undefined>(
+    (best, version) => (!best || version.version_number > best.version_number ? version : best),
+    undefined
+  );
+  return {
+    identifier: example.identifier,
+    title: example.title,
+    exampleId: example.id,
+    directory: example.directory,
+    version: latest?.version_tag,
+    dependencies: (details?.dependencies ?? []).flatMap(dependency => {
+      const slug = dependency.dependency?.identifier ?? byId.get(dependency.depends_id)?.identifier;
+      return slug ? [{ slug, version: dependency.version_constraint ?? undefined }] : [];
+    })
+  };
+}
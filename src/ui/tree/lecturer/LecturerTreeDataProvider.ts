@@ -6,6 +6,7 @@ import * as path from 'path';
 import { GitLabTokenManager } from '../../../services/GitLabTokenManager';
 import { ComputorSettingsManager } from '../../../settings/ComputorSettingsManager';
 import type { WebSocketService } from '../../../services/WebSocketService';
+import type { ReleaseScheduleService } from '../../../services/ReleaseScheduleService';
 import { CourseChannelSubscription } from '../courseChannelSubscription';
 import { errorRecoveryService } from '../../../services/ErrorRecoveryService';
 import { performanceMonitor } from '../../../services/PerformanceMonitoringService';
@@ -107,6 +108,8 @@ export class LecturerTreeDataProvider implements vscode.TreeDataProvider<TreeIte
   private fullCourseCache: Map<string, Promise<any>> = new Map();
   private rolesTitleCache: Map<string, string> = new Map();
   private wsSubscription = new CourseChannelSubscription('lecturer-tree');
+  private releaseSchedule?: ReleaseScheduleService;
+  private treeView?: vscode.TreeView<TreeItem>;
 
   constructor(context: vscode.ExtensionContext, apiService?: ComputorApiService) {
     // Use provided apiService or create a new one
@@ -123,6 +126,46 @@ export class LecturerTreeDataProvider implements vscode.TreeDataProvider<TreeIte
     this.wsSubscription.setService(wsService);
   }
 
+  /** Shows planned release dates on content nodes and re-renders when they change. */
+  setReleaseSchedule(schedule: ReleaseScheduleService): vscode.Disposable {
+    this.releaseSchedule = schedule;
+    return schedule.onDidChange(() => this._onDidChangeTreeData.fire(undefined));
+  }
+
+  setTreeView(view: vscode.TreeView<TreeItem>): void {
+    this.treeView = view;
+  }
+
+  /**
+   * Reveals a course node, or one of its content nodes, in the courses tree.
+   * Resolves false when the course is not part of this tree.
+   */
+  async revealCourseNode(courseId: string, courseContentId?: string): Promise<boolean> {
+    if (!this.treeView) { return false; }
+    try {
+      const course = await this.apiService.getCourse(courseId);
+      if (!course) { return false; }
+      const [courseFamily, organization] = await Promise.all([
+        this.apiService.getCourseFamily(course.course_family_id),
+        this.apiService.getOrganization(course.organization_id)
+      ]);
+      if (!courseFamily || !organization) { return false; }
+
+      let item: TreeItem = new CourseTreeItem(course, courseFamily, organization);
+      if (courseContentId) {
+        const contents = await this.getCourseContents(courseId);
+        const content = contents.find(c => c.id === courseContentId);
+        if (!content) { return false; }
+        item = await this.buildContentTreeItem(content, contents, course, courseFamily, organization);
+      }
+      await this.treeView.reveal(item, { select: true, focus: true, expand: false });
+      return true;
+    } catch (error) {
+      console.warn('[LecturerTree] Could not reveal course node:', error);
+      return false;
+    }
+  }
+
   private subscribeToCourseChannels(courseIds: string[]): void {
     this.wsSubscription.subscribeCourses(courseIds, {
       onDeploymentStatusChanged: (event) => {
@@ -758,7 +801,8 @@ export class LecturerTreeDataProvider implements vscode.TreeDataProvider<TreeIte
       exampleVersionInfo,
       collapsibleState: expandedState,
       assignmentInfo,
-      assignmentDirectory
+      assignmentDirectory,
+      scheduledRelease: this.releaseSchedule?.get(content.id)
     });
   }
 
@@ -1169,7 +1213,8 @@ export class LecturerTreeDataProvider implements vscode.TreeDataProvider<TreeIte
             contentType,
             isSubmittable,
             exampleVersionInfo,
-            collapsibleState: expandedState
+            collapsibleState: expandedState,
+            scheduledRelease: this.releaseSchedule?.get(parentContent.id)
           });
         }
       }
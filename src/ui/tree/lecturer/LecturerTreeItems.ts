@@ -14,6 +14,9 @@ import {
 } from '../../../types/generated';
 import { IconGenerator } from '../../../utils/IconGenerator';
 import { hasExampleAssigned, getExampleVersionId, getDeploymentStatus } from '../../../utils/deploymentHelpers';
+import { describeReleaseCountdown } from '../../../utils/releaseSchedule';
+import { formatLocalDateTime } from '../../../utils/localDateTime';
+import type { ScheduledRelease } from '../../../utils/releaseSchedule';
 
 const ASSIGNMENT_KIND_ID = 'assignment';
 
@@ -97,6 +100,7 @@ export interface CourseContentTreeItemOptions {
   collapsibleState?: vscode.TreeItemCollapsibleState;
   assignmentInfo?: CourseContentAssignmentInfo;
   assignmentDirectory?: string;
+  scheduledRelease?: ScheduledRelease;
 }
 
 export class CourseContentTreeItem extends vscode.TreeItem {
@@ -111,6 +115,7 @@ export class CourseContentTreeItem extends vscode.TreeItem {
   public readonly exampleVersionInfo?: ExampleVersionGet | null;
   public assignmentInfo?: CourseContentAssignmentInfo;
   public assignmentDirectory?: string;
+  public readonly scheduledRelease?: ScheduledRelease;
 
   constructor(options: CourseContentTreeItemOptions) {
     super(
@@ -130,6 +135,7 @@ export class CourseContentTreeItem extends vscode.TreeItem {
     this.exampleVersionInfo = options.exampleVersionInfo;
     this.assignmentInfo = options.assignmentInfo;
     this.assignmentDirectory = options.assignmentDirectory;
+    this.scheduledRelease = options.scheduledRelease;
 
     this.id = `content-${options.courseContent.id}`;
     if (!this.assignmentDirectory && this.assignmentInfo?.directoryName) {
@@ -184,6 +190,10 @@ export class CourseContentTreeItem extends vscode.TreeItem {
       parts.push('archived');
     }
 
+    if (this.scheduledRelease) {
+      parts.push('releaseScheduled');
+    }
+
     return parts.join('.');
   }
 
@@ -252,6 +262,11 @@ export class CourseContentTreeItem extends vscode.TreeItem {
     } else if (hasExampleAssigned(this.courseContent)) {
       parts.push('Status: not deployed yet');
     }
+
+    if (this.scheduledRelease) {
+      const releaseAt = this.scheduledRelease.releaseAt;
+      parts.push(`Scheduled release: ${formatLocalDateTime(releaseAt)} (${describeReleaseCountdown(releaseAt, new Date())})`);
+    }
     
     return parts.join('\n') || this.courseContent.path;
   }
@@ -311,6 +326,10 @@ export class CourseContentTreeItem extends vscode.TreeItem {
       parts.push('📦 Archived');
     }
 
+    if (this.scheduledRelease) {
+      parts.push(`🗓 ${formatLocalDateTime(this.scheduledRelease.releaseAt)}`);
+    }
+
     return parts.length > 0 ? parts.join(' • ') : undefined;
   }
 }
@@ -0,0 +1,84 @@
+import * as vscode from 'vscode';
+import { NotificationCenterService } from '../../../services/NotificationCenterService';
+import { NotificationDelivery, chatEventType, serverEventTypes } from '../../../utils/notificationCenter';
+import { messageScopes, scopeLabel } from '../chat/ChatInboxTreeItems';
+import { NotificationEmptyItem, NotificationEntryItem } from './NotificationTreeItems';
+
+type NotificationTreeItem = NotificationEntryItem | NotificationEmptyItem;
+
+const deliveryLabels: Record<NotificationDelivery, { label: string; description: string }> = {
+  toast: { label: '$(bell) Toast', description: 'Show a notification and count on the badge' },
+  badge: { label: '$(circle-filled) Badge', description: 'Only count on the Notifications badge' },
+  silent: { label: '$(bell-slash) Silent', description: 'Only record in the list' }
+};
+
+/** Lists the notification center's entries, newest first. */
+export class NotificationCenterTreeProvider implements vscode.TreeDataProvider<NotificationTreeItem>, vscode.Disposable {
+  private readonly _onDidChangeTreeData = new vscode.EventEmitter<NotificationTreeItem | undefined | void>();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+  private readonly subscription: vscode.Disposable;
+
+  constructor(private readonly notifications: NotificationCenterService) {
+    this.subscription = notifications.onDidChange(() => this._onDidChangeTreeData.fire());
+  }
+
+  getTreeItem(element: NotificationTreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: NotificationTreeItem): NotificationTreeItem[] {
+    if (element) {
+      return [];
+    }
+    const entries = this.notifications.getEntries();
+    return entries.length > 0 ? entries.map(entry => new NotificationEntryItem(entry)) : [new NotificationEmptyItem()];
+  }
+
+  /** Quick pick over every event type; picking one asks for its delivery. */
+  async configurePreferences(): Promise<void> {
+    type TypePick = vscode.QuickPickItem & { types?: string[] };
+    const chatTypes = messageScopes.map(chatEventType);
+    for (;;) {
+      const items: TypePick[] = [
+        { label: 'Server Events', kind: vscode.QuickPickItemKind.Separator },
+        ...Object.entries(serverEventTypes).map(([type, info]) => ({
+          label: info.label,
+          description: deliveryLabels[this.notifications.getDelivery(type)].label,
+          types: [type]
+        })),
+        { label: 'Chat Messages', kind: vscode.QuickPickItemKind.Separator },
+        { label: 'All Chat Scopes', description: 'Set every scope at once', types: chatTypes },
+        ...messageScopes.map(scope => ({
+          label: scopeLabel(scope),
+          description: deliveryLabels[this.notifications.getDelivery(chatEventType(scope))].label,
+          types: [chatEventType(scope)]
+        }))
+      ];
+      const picked = await vscode.window.showQuickPick(items, {
+        title: 'Notification Preferences',
+        placeHolder: 'Choose how each kind of event is announced'
+      });
+      if (!picked?.types) {
+        return;
+      }
+
+      const current = picked.types.length === 1 ? this.notifications.getDelivery(picked.types[0]!) : undefined;
+      const delivery = await vscode.window.showQuickPick(
+        (Object.keys(deliveryLabels) as NotificationDelivery[]).map(value => ({
+          ...deliveryLabels[value],
+          picked: value === current,
+          value
+        })),
+        { title: `Notification Preferences: ${picked.label}` }
+      );
+      if (delivery) {
+        await this.notifications.setDelivery(picked.types, delivery.value);
+      }
+    }
+  }
+
+  dispose(): void {
+    this.subscription.dispose();
+    this._onDidChangeTreeData.dispose();
+  }
+}
@@ -0,0 +1,64 @@
+import * as vscode from 'vscode';
+import { NotificationEntry, isChatEventType } from '../../../utils/notificationCenter';
+
+const typeIcons: Record<string, string> = {
+  'deployment:status_changed': 'rocket',
+  'deployment:assigned': 'package',
+  'deployment:unassigned': 'package',
+  'course:content_updated': 'list-tree',
+  maintenance: 'tools'
+};
+
+export class NotificationEntryItem extends vscode.TreeItem {
+  constructor(public readonly entry: NotificationEntry) {
+    // Unread entries are highlighted over their full label, the closest a
+    // tree item gets to bold text.
+    super(
+      entry.read ? entry.title : { label: entry.title, highlights: [[0, entry.title.length]] },
+      vscode.TreeItemCollapsibleState.None
+    );
+    this.id = `notification-${entry.id}`;
+    this.contextValue = entry.read ? 'notification' : 'notification.unread';
+    this.description = [formatTimestamp(entry.timestamp), entry.detail].filter(Boolean).join(' · ');
+
+    const icon = isChatEventType(entry.type) ? 'comment' : typeIcons[entry.type] ?? 'bell';
+    const color = entry.severity === 'error'
+      ? new vscode.ThemeColor('errorForeground')
+      : entry.severity === 'warning'
+        ? new vscode.ThemeColor('editorWarning.foreground')
+        : undefined;
+    this.iconPath = new vscode.ThemeIcon(icon, color);
+
+    const tooltip = new vscode.MarkdownString();
+    tooltip.appendMarkdown(`**${escapeMarkdown(entry.title)}**\n\n`);
+    tooltip.appendMarkdown(`${escapeMarkdown(formatTimestamp(entry.timestamp))}\n\n`);
+    if (entry.detail) {
+      tooltip.appendText(entry.detail);
+    }
+    this.tooltip = tooltip;
+
+    this.command = {
+      command: 'computor.notifications.open',
+      title: 'Open',
+      arguments: [this]
+    };
+  }
+}
+
+export class NotificationEmptyItem extends vscode.TreeItem {
+  constructor() {
+    super('No notifications', vscode.TreeItemCollapsibleState.None);
+    this.id = 'notification-empty';
+    this.contextValue = 'notificationEmpty';
+    this.iconPath = new vscode.ThemeIcon('bell');
+  }
+}
+
+function formatTimestamp(value: string): string {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleString();
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/[\\`*_{}[\]()#+\-.!|<>]/g, '\\$&');
+}
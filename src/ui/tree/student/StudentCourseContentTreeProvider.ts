@@ -12,8 +12,12 @@ import { SubmissionGroupStudentList, CourseContentStudentList, CourseContentType
 import { IconGenerator } from '../../../utils/IconGenerator';
 import { hasExampleAssigned } from '../../../utils/deploymentHelpers';
 import { extractGraderName } from '../../../utils/gradingHelpers';
-import { buildStudentRepoRoot } from '../../../utils/repositoryNaming';
 import { GitCancelledError } from '../../../utils/exec';
+import { ReviewCommentController } from '../../../providers/ReviewCommentController';
+import { WorkspaceStructureManager, resolveComputorWorkspaceRoot } from '../../../utils/workspaceStructure';
+import type { StudentDeadlineService } from '../../../services/StudentDeadlineService';
+import { StudentDeadline, describeTimeRemaining, isDeadlineOverdue } from '../../../utils/studentDeadlines';
+import { formatLocalDateTime } from '../../../utils/localDateTime';
 
 interface ContentNode {
     name?: string;
@@ -55,6 +59,7 @@ export class StudentCourseContentTreeProvider implements vscode.TreeDataProvider
     // Track individual assignments where setup has already been attempted (to avoid repeated popups)
     private assignmentsSetupAttempted: Set<string> = new Set();
     private wsSubscription = new CourseChannelSubscription('student-tree');
+    private deadlines?: StudentDeadlineService;
     
     constructor(
         apiService: ComputorApiService, 
@@ -75,6 +80,34 @@ export class StudentCourseContentTreeProvider implements vscode.TreeDataProvider
         this.wsSubscription.setService(wsService);
     }
 
+    /** Shows the noted deadlines on assignments and redraws when they, the sort order or the remaining time change. */
+    setDeadlines(deadlines: StudentDeadlineService): vscode.Disposable {
+        this.deadlines = deadlines;
+        return vscode.Disposable.from(
+            deadlines.onDidChange(() => this._onDidChangeTreeData.fire(undefined)),
+            deadlines.onDidTick(() => this._onDidChangeTreeData.fire(undefined))
+        );
+    }
+
+    /** Course content from the loaded tree data, without fetching. */
+    findCourseContent(courseId: string, contentId: string): CourseContentStudentList | undefined {
+        return this.courseContentsCache.get(courseId)?.find(c => c.id === contentId);
+    }
+
+    /** Absolute checkout directory of an assignment, if its repository is known and cloned. */
+    getAssignmentDirectory(courseId: string, contentId: string): string | undefined {
+        const content = this.findCourseContent(courseId, contentId);
+        const directory = (content as any)?.directory as string | undefined;
+        if (!content || !directory) return undefined;
+        const resolved = path.isAbsolute(directory)
+            ? directory
+            : (() => {
+                const repoRoot = this.getStudentRepoRoot(courseId, content.submission_group || undefined);
+                return repoRoot ? path.join(repoRoot, directory) : undefined;
+            })();
+        return resolved && fs.existsSync(resolved) ? resolved : undefined;
+    }
+
     private subscribeToCourseChannels(courseIds: string[]): void {
         this.wsSubscription.subscribeCourses(courseIds, {
             onDeploymentStatusChanged: (event) => {
@@ -256,6 +289,20 @@ export class StudentCourseContentTreeProvider implements vscode.TreeDataProvider
         }
     }
     
+    /** Shows the number of review comment threads next to files that have any. */
+    private async annotateReviewComments(items: TreeItem[]): Promise<void> {
+        const controller = ReviewCommentController.getInstance();
+        if (!controller) return;
+        for (const item of items) {
+            if (!(item instanceof FileSystemItem) || item.type !== vscode.FileType.File) continue;
+            const count = await controller.getThreadCount(item.uri.fsPath);
+            if (count > 0) {
+                item.description = `💬 ${count}`;
+                item.tooltip = `${item.uri.fsPath}\n${count} review comment thread${count === 1 ? '' : 's'}`;
+            }
+        }
+    }
+
     getTreeItem(element: TreeItem): vscode.TreeItem {
         return element;
     }
@@ -273,9 +320,8 @@ export class StudentCourseContentTreeProvider implements vscode.TreeDataProvider
                 
                 // First, check if we need to setup the repository
                 // Resolve directory to absolute path if necessary
-                const wsRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
                 const courseId = await this.findCourseIdForContent(element.courseContent);
-                let repoRoot = wsRoot && courseId ? this.getStudentRepoRoot(wsRoot, courseId, element.submissionGroup) : undefined;
+                let repoRoot = courseId ? this.getStudentRepoRoot(courseId, element.submissionGroup) : undefined;
                 const resolvePath = (base: string | undefined, p?: string) => {
                     if (!p) return undefined;
                     if (path.isAbsolute(p)) return p;
@@ -332,7 +378,7 @@ export class StudentCourseContentTreeProvider implements vscode.TreeDataProvider
                         
                         // Now that directory is updated, continue to show files
                         // Re-check the directory after setup
-                        const updatedRepoRoot = wsRoot && courseId ? this.getStudentRepoRoot(wsRoot, courseId, element.submissionGroup) : undefined;
+                        const updatedRepoRoot = courseId ? this.getStudentRepoRoot(courseId, element.submissionGroup) : undefined;
                         repoRoot = updatedRepoRoot;
                         const updatedDirectory = resolvePath(updatedRepoRoot, (element.courseContent as any).directory);
 
@@ -362,6 +408,12 @@ export class StudentCourseContentTreeProvider implements vscode.TreeDataProvider
                 }
                 
                 if (assignmentPath && fs.existsSync(assignmentPath)) {
+                    // Make tutor review comments visible in the student's own checkout
+                    const submissionGroupId = element.submissionGroup?.id;
+                    if (submissionGroupId) {
+                        ReviewCommentController.getInstance()?.registerCheckout(assignmentPath, submissionGroupId);
+                    }
+
                     // Repository is cloned - show actual files
                     try {
                         const readdir = promisify(fs.readdir);
@@ -462,6 +514,7 @@ export class StudentCourseContentTreeProvider implements vscode.TreeDataProvider
                             return a.label!.toString().localeCompare(b.label!.toString());
                         });
                         
+                        await this.annotateReviewComments(items);
                         return items;
                     } catch (error) {
                         console.error('Error reading assignment directory:', error);
@@ -510,6 +563,7 @@ export class StudentCourseContentTreeProvider implements vscode.TreeDataProvider
                     return a.label!.toString().localeCompare(b.label!.toString());
                 });
                 
+                await this.annotateReviewComments(items);
                 return items;
             } catch (error) {
                 console.error('Error reading directory:', error);
@@ -866,9 +920,21 @@ export class StudentCourseContentTreeProvider implements vscode.TreeDataProvider
         const items: TreeItem[] = [];
         
         // Sort children by position if available, then alphabetically
+        const sortByDeadline = this.deadlines?.isSortedByDeadline() ?? false;
         const sortedChildren = Array.from(node.children.entries()).sort((a, b) => {
             const contentA = a[1].courseContent;
             const contentB = b[1].courseContent;
+
+            // Optionally bring the earliest deadlines to the top (units by their earliest assignment)
+            if (sortByDeadline) {
+                const dueA = this.earliestDeadline(a[1]);
+                const dueB = this.earliestDeadline(b[1]);
+                if (dueA !== dueB) {
+                    if (dueA === undefined) return 1;
+                    if (dueB === undefined) return -1;
+                    return dueA.localeCompare(dueB);
+                }
+            }
             
             // If both have course content, sort by position
             if (contentA && contentB) {
@@ -897,7 +963,8 @@ export class StudentCourseContentTreeProvider implements vscode.TreeDataProvider
                     child.submissionGroup,
                     child.contentType,
                     this.courseSelection,
-                    this.getExpandedState(child.courseContent.id)
+                    this.getExpandedState(child.courseContent.id),
+                    this.deadlines?.get(child.courseContent.id)
                 );
                 if (contentItem.id) this.itemIndex.set(contentItem.id, contentItem);
                 items.push(contentItem);
@@ -907,13 +974,21 @@ export class StudentCourseContentTreeProvider implements vscode.TreeDataProvider
         return items;
     }
 
+    private earliestDeadline(node: ContentNode): string | undefined {
+        let earliest = node.courseContent ? this.deadlines?.get(node.courseContent.id)?.dueAt : undefined;
+        node.children.forEach((child) => {
+            const childDue = this.earliestDeadline(child);
+            if (childDue && (!earliest || childDue < earliest)) {
+                earliest = childDue;
+            }
+        });
+        return earliest;
+    }
+
     private getStudentRepoRoot(
-        workspaceRoot: string,
         courseId: string,
         submissionGroup?: SubmissionGroupStudentList
     ): string | undefined {
-        void courseId; // courseId - only used for logging/context
-
         if (!submissionGroup) {
             console.log('[StudentTree] No submission group available');
             return undefined;
@@ -937,7 +1012,7 @@ export class StudentCourseContentTreeProvider implements vscode.TreeDataProvider
         // Convert repository full_path (e.g., "course/student-123") to directory name (e.g., "course.student-123")
         const dirName = submissionGroup.repository.full_path.replace(/\//g, '.');
         console.log('[StudentTree] Derived repository directory name:', dirName);
-        return buildStudentRepoRoot(workspaceRoot, dirName);
+        return WorkspaceStructureManager.getInstance().getStudentRepositoryPath(dirName, courseId);
     }
 
     getExpandedCourseIds(): Set<string> {
@@ -1215,7 +1290,8 @@ class CourseContentItem extends TreeItem implements Partial<CloneRepositoryItem>
         public readonly submissionGroup: SubmissionGroupStudentList | undefined,
         public readonly contentType: CourseContentTypeList | undefined,
         courseSelection: CourseSelectionService,
-        expanded: boolean = false
+        expanded: boolean = false,
+        public readonly deadline?: StudentDeadline
     ) {
         void courseSelection; // Not used but required for type consistency
         const label = courseContent.title || courseContent.path;
@@ -1223,11 +1299,11 @@ class CourseContentItem extends TreeItem implements Partial<CloneRepositoryItem>
         // Make assignments with repositories always expandable
         const isAssignment = contentType?.course_content_kind_id === 'assignment';
         const directory = (courseContent as any).directory;
-        const workspaceFolders = vscode.workspace.workspaceFolders || [];
+        const workspaceRoot = resolveComputorWorkspaceRoot();
         const resolvedDirectory = typeof directory === 'string'
             ? (path.isAbsolute(directory)
                 ? directory
-                : (workspaceFolders[0] ? path.join(workspaceFolders[0].uri.fsPath, directory) : undefined))
+                : (workspaceRoot ? path.join(workspaceRoot, directory) : undefined))
             : undefined;
         const hasClonedRepo = Boolean(resolvedDirectory && fs.existsSync(resolvedDirectory));
         void hasClonedRepo; // Suppress unused variable warning
@@ -1241,6 +1317,7 @@ class CourseContentItem extends TreeItem implements Partial<CloneRepositoryItem>
         super(label, collapsibleState);
         
         this.id = courseContent.id;
+        this.setupLabel();
         this.setupIcon();
         this.setupDescription();
         this.setupTooltip();
@@ -1287,6 +1364,7 @@ class CourseContentItem extends TreeItem implements Partial<CloneRepositoryItem>
         }
 
         // Recompute visual aspects
+        this.setupLabel();
         this.setupIcon();
         this.setupDescription();
         this.setupTooltip();
@@ -1294,6 +1372,16 @@ class CourseContentItem extends TreeItem implements Partial<CloneRepositoryItem>
         this.setupCommand();
     }
     
+    private isOverdueUnsubmitted(): boolean {
+        return !!this.deadline && isDeadlineOverdue(this.deadline, new Date()) && this.courseContent?.submitted !== true;
+    }
+
+    private setupLabel(): void {
+        // Highlight the whole label for work that is past its deadline and was never submitted
+        const text = this.courseContent.title || this.courseContent.path;
+        this.label = this.isOverdueUnsubmitted() ? { label: text, highlights: [[0, text.length]] } : text;
+    }
+
     private setupIcon(): void {
         // Use the color from contentType, or grey as default
         // Handle both course_content_type (singular) and course_content_types (plural)
@@ -1386,6 +1474,14 @@ class CourseContentItem extends TreeItem implements Partial<CloneRepositoryItem>
         // New compact metrics in brackets: Tests, Submissions, Points
         const entries: string[] = [];
 
+        if (this.deadline) {
+            if (this.isOverdueUnsubmitted()) {
+                entries.push('⚠ overdue ');
+            } else if (!isDeadlineOverdue(this.deadline, new Date())) {
+                entries.push(`⏰ ${describeTimeRemaining(this.deadline.dueAt, new Date())} `);
+            }
+        }
+
         const unreadCount = (this.courseContent?.unread_message_count ?? 0) + (this.submissionGroup?.unread_message_count ?? 0);
         if (unreadCount > 0) {
             entries.push(`🔔 ${unreadCount}`);
@@ -1436,6 +1532,12 @@ class CourseContentItem extends TreeItem implements Partial<CloneRepositoryItem>
             lines.push(`Type: ${tooltipContentType.title || tooltipContentType.slug}`);
         }
 
+        if (this.deadline) {
+            const remaining = describeTimeRemaining(this.deadline.dueAt, new Date());
+            const suffix = this.isOverdueUnsubmitted() ? ' (overdue, not submitted)' : remaining === 'overdue' ? ' (passed)' : ` (${remaining} left)`;
+            lines.push(`Deadline: ${formatLocalDateTime(this.deadline.dueAt)}${suffix}`);
+        }
+
         if (unreadCount > 0) {
             lines.push(`Unread messages: ${unreadCount}`);
         }
@@ -1528,6 +1630,10 @@ class CourseContentItem extends TreeItem implements Partial<CloneRepositoryItem>
         if (this.submissionGroup && typeof (this.submissionGroup as any).grading === "number") {
             contexts.push('graded');
         }
+
+        if (this.deadline) {
+            contexts.push('deadline');
+        }
         
         this.contextValue = contexts.join('.');
     }
@@ -1545,7 +1651,7 @@ class CourseContentItem extends TreeItem implements Partial<CloneRepositoryItem>
         if (directory) {
             // Resolve relative directory against repository root when possible
             if (path.isAbsolute(directory)) return directory;
-            const ws = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+            const ws = resolveComputorWorkspaceRoot();
             let repoName: string | undefined;
             const repo = this.submissionGroup?.repository as any;
             if (repo) {
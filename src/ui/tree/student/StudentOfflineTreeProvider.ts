@@ -3,6 +3,7 @@ import * as path from 'path';
 import * as fs from 'fs';
 import { promisify } from 'util';
 import { GitWrapper } from '../../../git/GitWrapper';
+import { WorkspaceStructureManager } from '../../../utils/workspaceStructure';
 
 const readdir = promisify(fs.readdir);
 const stat = promisify(fs.stat);
@@ -26,10 +27,8 @@ export class StudentOfflineTreeProvider implements vscode.TreeDataProvider<TreeI
     }
 
     private initializeBasePath(): void {
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (workspaceFolders && workspaceFolders.length > 0 && workspaceFolders[0]) {
-            const workspaceRoot = workspaceFolders[0].uri.fsPath;
-            this.studentBasePath = path.join(workspaceRoot, 'student');
+        if (vscode.workspace.workspaceFolders?.length) {
+            this.studentBasePath = WorkspaceStructureManager.getInstance().getDirectories().student;
         }
     }
 
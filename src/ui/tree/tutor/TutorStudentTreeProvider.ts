@@ -7,7 +7,7 @@ import type { WebSocketService } from '../../../services/WebSocketService';
 import { CourseChannelSubscription } from '../courseChannelSubscription';
 import { IconGenerator } from '../../../utils/IconGenerator';
 import { CourseContentStudentList, CourseContentKindList, SubmissionGroupStudentList } from '../../../types/generated';
-import { deriveRepositoryDirectoryName, buildReviewRepoRoot } from '../../../utils/repositoryNaming';
+import { deriveRepositoryDirectoryName } from '../../../utils/repositoryNaming';
 import { extractGraderName } from '../../../utils/gradingHelpers';
 import { CTGit } from '../../../git/CTGit';
 import { WorkspaceStructureManager } from '../../../utils/workspaceStructure';
@@ -325,13 +325,10 @@ export class TutorStudentTreeProvider implements vscode.TreeDataProvider<vscode.
 
   private hasLocalRepository(content: CourseContentStudentList, memberId: string): boolean {
     try {
-      const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-      if (!workspaceFolder) return false;
-
       const courseId = this.selection.getCurrentCourseId();
       if (!courseId) return false;
 
-      const repoRoot = this.getTutorRepoRoot(workspaceFolder, courseId, memberId, content);
+      const repoRoot = this.getTutorRepoRoot(courseId, memberId, content);
       const gitDir = path.join(repoRoot, '.git');
       return fs.existsSync(gitDir);
     } catch {
@@ -400,7 +397,7 @@ export class TutorStudentTreeProvider implements vscode.TreeDataProvider<vscode.
     if (element.content.deployment && element.content.deployment.example_version_id) {
       const workspaceStructure = WorkspaceStructureManager.getInstance();
       const exampleVersionId = element.content.deployment.example_version_id;
-      const referenceExists = await workspaceStructure.referenceExists(exampleVersionId);
+      const referenceExists = await workspaceStructure.referenceExists(exampleVersionId, courseId);
 
       const versionTag = element.content.deployment.version_tag || '';
       const label = versionTag ? `References (${versionTag})` : 'References';
@@ -433,7 +430,7 @@ export class TutorStudentTreeProvider implements vscode.TreeDataProvider<vscode.
     return items;
   }
 
-  private getTutorRepoRoot(workspaceRoot: string, courseId: string, memberId: string, content: CourseContentStudentList): string {
+  private getTutorRepoRoot(courseId: string, memberId: string, content: CourseContentStudentList): string {
     const submissionRepo = content.submission_group?.repository as any;
     let remoteUrl: string | undefined = submissionRepo?.clone_url || submissionRepo?.url || submissionRepo?.web_url;
     if (!remoteUrl && submissionRepo) {
@@ -453,12 +450,11 @@ export class TutorStudentTreeProvider implements vscode.TreeDataProvider<vscode.
       submissionGroupId: content.submission_group?.id || undefined
     });
 
-    return buildReviewRepoRoot(workspaceRoot, repoName);
+    return WorkspaceStructureManager.getInstance().getReviewRepositoryPath(repoName, courseId);
   }
 
   private async getVirtualFolderChildren(element: TutorVirtualFolderItem): Promise<vscode.TreeItem[]> {
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-    if (!workspaceFolder) {
+    if (!vscode.workspace.workspaceFolders?.length) {
       return [new MessageItem('Open a workspace folder to view files.', 'warning')];
     }
 
@@ -466,7 +462,7 @@ export class TutorStudentTreeProvider implements vscode.TreeDataProvider<vscode.
 
     switch (element.folderType) {
       case 'repository':
-        return this.getRepositoryChildren(element, workspaceFolder, workspaceStructure);
+        return this.getRepositoryChildren(element);
       case 'reference':
         return this.getReferenceChildren(element, workspaceStructure);
       case 'submissions':
@@ -478,8 +474,8 @@ export class TutorStudentTreeProvider implements vscode.TreeDataProvider<vscode.
     }
   }
 
-  private async getRepositoryChildren(element: TutorVirtualFolderItem, workspaceFolder: string, workspaceStructure: WorkspaceStructureManager): Promise<vscode.TreeItem[]> {
-    const repoRoot = this.getTutorRepoRoot(workspaceFolder, element.courseId, element.memberId, element.content);
+  private async getRepositoryChildren(element: TutorVirtualFolderItem): Promise<vscode.TreeItem[]> {
+    const repoRoot = this.getTutorRepoRoot(element.courseId, element.memberId, element.content);
     const gitDir = path.join(repoRoot, '.git');
 
     if (!fs.existsSync(gitDir)) {
@@ -515,7 +511,7 @@ export class TutorStudentTreeProvider implements vscode.TreeDataProvider<vscode.
       return [new MessageItem('No reference available for this assignment.', 'info')];
     }
 
-    const referencePath = workspaceStructure.getReviewReferencePath(deployment.example_version_id);
+    const referencePath = workspaceStructure.getReviewReferencePath(deployment.example_version_id, element.courseId);
 
     if (!fs.existsSync(referencePath)) {
       return [new MessageItem('Reference not downloaded. Right-click assignment → "Download Reference".', 'info')];
@@ -532,7 +528,7 @@ export class TutorStudentTreeProvider implements vscode.TreeDataProvider<vscode.
       return [new MessageItem('No submissions available for this assignment.', 'info')];
     }
 
-    const submissionPath = workspaceStructure.getReviewSubmissionPath(submissionGroupId, artifactId);
+    const submissionPath = workspaceStructure.getReviewSubmissionPath(submissionGroupId, artifactId, element.courseId);
 
     // Auto-download the artifact if not present locally
     if (!fs.existsSync(submissionPath)) {
@@ -598,7 +594,7 @@ export class TutorStudentTreeProvider implements vscode.TreeDataProvider<vscode.
 
   private async getSubmissionItemChildren(element: TutorSubmissionItem): Promise<vscode.TreeItem[]> {
     const workspaceStructure = WorkspaceStructureManager.getInstance();
-    const submissionPath = workspaceStructure.getReviewSubmissionPath(element.submissionGroupId, element.artifactId);
+    const submissionPath = workspaceStructure.getReviewSubmissionPath(element.submissionGroupId, element.artifactId, element.courseId);
 
     // Auto-download the artifact if not present locally
     if (!fs.existsSync(submissionPath)) {
@@ -1,7 +1,46 @@
 import * as vscode from 'vscode';
+import type { ComputorApiService } from '../../../services/ComputorApiService';
 import type { TutorCourseMemberList } from '../../../types/generated/courses';
+import { collectAssignedMemberIds } from '../../../utils/tutorWorkload';
 
 export const NO_GROUP_SENTINEL = '__no_group__';
+export const myQueueSentinel = '__my_queue__';
+
+/** The `course_group_id` to query members with; both sentinels list every member and filter afterwards. */
+export function memberQueryGroupId(groupId: string | null): string | undefined {
+  if (!groupId || groupId === NO_GROUP_SENTINEL || groupId === myQueueSentinel) {
+    return undefined;
+  }
+  return groupId;
+}
+
+/** Number of course groups read at once for My Queue. */
+const myQueueChunkSize = 10;
+
+/**
+ * Course member IDs a lecturer assigned to the signed-in tutor, read from the
+ * course groups of the course (see `utils/tutorWorkload`). Group details come
+ * from the cache unless `force` is set.
+ */
+export async function loadMyQueueMemberIds(
+  api: ComputorApiService,
+  courseId: string,
+  courseContentId?: string,
+  options?: { force?: boolean }
+): Promise<Set<string>> {
+  const userId = api.getCurrentUserId();
+  if (!userId) {
+    return new Set();
+  }
+  const groups = await api.getTutorCourseGroups(courseId) || [];
+  const properties: unknown[] = [];
+  for (let start = 0; start < groups.length; start += myQueueChunkSize) {
+    const chunk = groups.slice(start, start + myQueueChunkSize);
+    const details = await Promise.all(chunk.map(group => api.getCourseGroup(group.id, { force: options?.force })));
+    properties.push(...details.map(group => group?.properties));
+  }
+  return collectAssignedMemberIds(properties, userId, courseContentId);
+}
 
 export function formatMemberName(member: TutorCourseMemberList): string {
   const user = member.user;
@@ -119,10 +158,11 @@ export class TutorGroupOptionItem extends vscode.TreeItem {
     public readonly groupId: string | null,
     public readonly groupLabel: string,
     public readonly isSelected: boolean,
-    public readonly isNoGroup: boolean = false
+    public readonly isNoGroup: boolean = false,
+    public readonly isMyQueue: boolean = false
   ) {
     super(groupLabel, vscode.TreeItemCollapsibleState.None);
-    const suffix = isNoGroup ? NO_GROUP_SENTINEL : (groupId ?? 'all');
+    const suffix = isNoGroup ? NO_GROUP_SENTINEL : isMyQueue ? myQueueSentinel : (groupId ?? 'all');
     this.id = `tutor-filter-group-option-${courseId}-${suffix}`;
     this.contextValue = isSelected ? 'tutorGroupOption.selected' : 'tutorGroupOption';
     this.iconPath = new vscode.ThemeIcon(isSelected ? 'check' : 'circle-outline');
@@ -11,6 +11,9 @@ import {
   TutorMemberFilterItem,
   TutorOrganizationFilterItem,
   NO_GROUP_SENTINEL,
+  myQueueSentinel,
+  memberQueryGroupId,
+  loadMyQueueMemberIds,
   formatMemberName,
   compareMembersByName
 } from './tutor-filter-tree-items';
@@ -302,6 +305,10 @@ export class TutorFilterTreeProvider implements vscode.TreeDataProvider<FilterTr
       courseId, null, 'All Groups', !currentGroupId, false
     ));
 
+    options.push(new TutorGroupOptionItem(
+      courseId, null, 'My Queue', currentGroupId === myQueueSentinel, false, true
+    ));
+
     for (const group of groups) {
       const label = group.title || group.id;
       options.push(new TutorGroupOptionItem(
@@ -323,6 +330,9 @@ export class TutorFilterTreeProvider implements vscode.TreeDataProvider<FilterTr
     if (groupId === NO_GROUP_SENTINEL) {
       return 'No Group';
     }
+    if (groupId === myQueueSentinel) {
+      return 'My Queue';
+    }
     const groups = this.groupsCache.get(courseId) || [];
     const group = groups.find(g => g.id === groupId);
     return group?.title || groupId;
@@ -330,7 +340,8 @@ export class TutorFilterTreeProvider implements vscode.TreeDataProvider<FilterTr
 
   private async fetchMembers(courseId: string, groupId: string | null): Promise<TutorCourseMemberList[]> {
     const isNoGroup = groupId === NO_GROUP_SENTINEL;
-    const effectiveGroupId = isNoGroup ? undefined : (groupId || undefined);
+    const isMyQueue = groupId === myQueueSentinel;
+    const effectiveGroupId = memberQueryGroupId(groupId);
     const cacheKey = `${courseId}-${groupId ?? 'all'}`;
 
     if (this.membersCache.has(cacheKey)) {
@@ -339,6 +350,8 @@ export class TutorFilterTreeProvider implements vscode.TreeDataProvider<FilterTr
 
     this.currentMemberFetchKey = { courseId, groupId };
     let members: TutorCourseMemberList[] = await this.api.getTutorCourseMembers(courseId, effectiveGroupId) || [];
+    // Students assigned to me that still have something to grade
+    const myQueue = isMyQueue ? await loadMyQueueMemberIds(this.api, courseId) : undefined;
 
     const latest = this.currentMemberFetchKey;
     if (!latest || latest.courseId !== courseId || latest.groupId !== groupId) {
@@ -348,6 +361,9 @@ export class TutorFilterTreeProvider implements vscode.TreeDataProvider<FilterTr
     if (isNoGroup) {
       members = members.filter(m => !m.course_group_id);
     }
+    if (myQueue) {
+      members = members.filter(m => myQueue.has(m.id) && m.ungraded_submissions_count !== 0);
+    }
 
     members.sort(compareMembersByName);
     this.membersCache.set(cacheKey, members);
@@ -3,16 +3,30 @@ import { BaseWebviewProvider } from './BaseWebviewProvider';
 import { ComputorApiService } from '../../services/ComputorApiService';
 import { CourseMemberCommentList } from '../../types/generated';
 import { CourseMemberCommentsInputPanelProvider } from '../panels/CourseMemberCommentsInputPanel';
+import type { ResponseTemplateContext } from '../../services/ResponseTemplateService';
+import { OutboxService } from '../../services/OutboxService';
+import { commentThreadKey } from '../../utils/outbox';
 
 interface CommentsWebviewData {
   courseMemberId: string;
   title: string;
   comments: CourseMemberCommentList[];
+  /** Comments on this member still waiting in the outbox. */
+  pending?: PendingComment[];
+}
+
+interface PendingComment {
+  id: string;
+  message: string;
+  status: 'pending' | 'conflict';
+  conflict?: string;
+  createdAt: string;
 }
 
 export class CourseMemberCommentsWebviewProvider extends BaseWebviewProvider {
   private apiService: ComputorApiService;
   private inputPanel?: CourseMemberCommentsInputPanelProvider;
+  private outboxSubscription?: vscode.Disposable;
 
   constructor(context: vscode.ExtensionContext, apiService: ComputorApiService) {
     super(context, 'computor.courseMemberComments');
@@ -38,13 +52,14 @@ export class CourseMemberCommentsWebviewProvider extends BaseWebviewProvider {
   async showComments(
     courseMemberId: string,
     title: string,
-    opts?: { preserveFocus?: boolean }
+    opts?: { preserveFocus?: boolean; templateContext?: ResponseTemplateContext }
   ): Promise<void> {
     const comments = await this.apiService.listCourseMemberComments(courseMemberId);
-    const payload: CommentsWebviewData = { courseMemberId, title, comments };
+    const payload: CommentsWebviewData = { courseMemberId, title, comments, pending: this.getPending(courseMemberId) };
     await this.show(`Comments: ${title}`, payload, { preserveFocus: opts?.preserveFocus });
+    this.watchOutbox();
     if (this.inputPanel) {
-      this.inputPanel.setTarget(courseMemberId, title);
+      this.inputPanel.setTarget(courseMemberId, title, opts?.templateContext);
       // Make sure the input panel's "comment was created/updated" callback
       // refreshes THIS provider's display webview rather than a sibling
       // provider that happened to register the callback later.
@@ -96,6 +111,8 @@ export class CourseMemberCommentsWebviewProvider extends BaseWebviewProvider {
     // Reset the input panel so it shows its empty-state hint again,
     // matching the behaviour of the messages view + input pair.
     this.inputPanel?.clearState();
+    this.outboxSubscription?.dispose();
+    this.outboxSubscription = undefined;
   }
 
   protected async handleMessage(message: any): Promise<void> {
@@ -114,6 +131,11 @@ export class CourseMemberCommentsWebviewProvider extends BaseWebviewProvider {
       case 'refreshComments':
         await this.refreshComments();
         break;
+      case 'discardPending':
+        if (message.data?.id) {
+          await OutboxService.getInstance().discard(String(message.data.id));
+        }
+        break;
       case 'showWarning':
         if (message.data) {
           vscode.window.showWarningMessage(String(message.data));
@@ -124,6 +146,36 @@ export class CourseMemberCommentsWebviewProvider extends BaseWebviewProvider {
     }
   }
 
+  private getPending(courseMemberId: string): PendingComment[] {
+    return OutboxService.getInstance().getItems(commentThreadKey(courseMemberId)).flatMap(item => (
+      item.kind === 'comment'
+        ? [{ id: item.id, message: item.text, status: item.status, conflict: item.conflict, createdAt: item.createdAt }]
+        : []
+    ));
+  }
+
+  /** Keeps the pending comments of the open member in sync with the outbox. */
+  private watchOutbox(): void {
+    if (this.outboxSubscription) {
+      return;
+    }
+    const outbox = OutboxService.getInstance();
+    this.outboxSubscription = vscode.Disposable.from(
+      outbox.onDidChange(() => {
+        const courseMemberId = this.getCourseMemberId();
+        if (courseMemberId && this.panel) {
+          this.panel.webview.postMessage({ command: 'updatePending', data: this.getPending(courseMemberId) });
+        }
+      }),
+      outbox.onDidSend(item => {
+        const courseMemberId = this.getCourseMemberId();
+        if (courseMemberId && item.threadKey === commentThreadKey(courseMemberId)) {
+          void this.refreshComments();
+        }
+      })
+    );
+  }
+
   private getCourseMemberId(): string | undefined {
     const data = this.currentData as CommentsWebviewData | undefined;
     return data?.courseMemberId;
@@ -134,7 +186,7 @@ export class CourseMemberCommentsWebviewProvider extends BaseWebviewProvider {
     if (!current) {
       return;
     }
-    this.currentData = { ...current, comments } satisfies CommentsWebviewData;
+    this.currentData = { ...current, comments, pending: this.getPending(current.courseMemberId) } satisfies CommentsWebviewData;
   }
 
   private postLoadingState(loading: boolean): void {
@@ -4,14 +4,40 @@ import { CourseRoleList, CourseMemberList, CourseGroupList } from '../../types/g
 import { ComputorApiService } from '../../services/ComputorApiService';
 import { LecturerTreeDataProvider } from '../tree/lecturer/LecturerTreeDataProvider';
 import { CourseMemberParserFactory } from '../../utils/parsers/CourseMemberParserFactory';
-import { CourseMemberImportRow } from '../../utils/parsers/ICourseMemberParser';
+import { CourseMemberImportRow, CourseMemberTable } from '../../utils/parsers/ICourseMemberParser';
+import {
+  ColumnAssignment,
+  ColumnMappingPreset,
+  applyColumnMapping,
+  columnTransformLabels,
+  findMappingIssues,
+  mappingTargetLabels,
+  validateMapping
+} from '../../utils/parsers/CourseMemberColumnMapping';
+import {
+  AbsentMemberAction,
+  RosterChange,
+  RosterSyncLogEntry,
+  appendRosterSyncLog,
+  describeRosterChange,
+  findAbsentMemberIds,
+  planRosterChanges,
+  revertRosterChanges
+} from '../../utils/rosterSync';
 import * as path from 'path';
 
+const mappingPresetsKey = 'computor.courseMemberImport.mappingPresets';
+const rosterSyncLogKey = 'computor.courseMemberImport.syncLog';
+
 interface ImportMemberRow extends CourseMemberImportRow {
   rowNumber: number;
-  status: 'missing' | 'existing' | 'modified';
+  /** `absent`: in the course but not in the import file (sync mode only). */
+  status: 'missing' | 'existing' | 'modified' | 'absent';
   selectedRoleId: string;
   isSelected: boolean;
+  /** Set for rows of members already in the course. */
+  courseMemberId?: string;
+  courseGroupId?: string | null;
 }
 
 export class CourseMemberImportWebviewProvider extends BaseWebviewProvider {
@@ -21,6 +47,11 @@ export class CourseMemberImportWebviewProvider extends BaseWebviewProvider {
   private members: ImportMemberRow[] = [];
   private availableRoles: CourseRoleList[] = [];
   private availableGroups: CourseGroupList[] = [];
+  /** Last tabular file, kept so its column mapping can be changed. */
+  private mappingSource?: { fileName: string; table: CourseMemberTable; columns: ColumnAssignment[] };
+  /** Rows of the last import file; sync mode compares the course against them. */
+  private importRows?: CourseMemberImportRow[];
+  private syncMode = false;
 
   constructor(
     context: vscode.ExtensionContext,
@@ -30,6 +61,7 @@ export class CourseMemberImportWebviewProvider extends BaseWebviewProvider {
     super(context, 'computor.courseMemberImportPreview');
     this.apiService = apiService;
     this.treeDataProvider = treeDataProvider;
+    CourseMemberParserFactory.setMappingPresets(context.globalState.get<ColumnMappingPreset[]>(mappingPresetsKey) ?? []);
   }
 
   async showMembers(courseId: string): Promise<void> {
@@ -73,9 +105,13 @@ export class CourseMemberImportWebviewProvider extends BaseWebviewProvider {
         rowNumber: index + 1,
         status: 'existing' as const,
         selectedRoleId: em.course_role_id,
-        isSelected: false
+        isSelected: false,
+        courseMemberId: em.id,
+        courseGroupId: em.course_group_id
       };
     });
+    this.importRows = undefined;
+    this.syncMode = false;
 
     await this.show('Course Members', {
       courseId,
@@ -91,6 +127,8 @@ export class CourseMemberImportWebviewProvider extends BaseWebviewProvider {
       return;
     }
 
+    this.importRows = importMembers;
+
     // Fetch existing members for comparison
     let existingMembers: CourseMemberList[] = [];
     try {
@@ -131,7 +169,9 @@ export class CourseMemberImportWebviewProvider extends BaseWebviewProvider {
       });
     });
 
-    // Add existing members not in import file
+    // Add existing members not in import file; in sync mode students among
+    // them are marked absent so they can be moved out of the course roster.
+    const absentIds = this.syncMode ? findAbsentMemberIds(existingMembers, importMembers) : new Set<string>();
     existingMembers.forEach(em => {
       const inImport = importMembers.find(
         im => im.email?.toLowerCase() === em.user.email?.toLowerCase()
@@ -152,9 +192,11 @@ export class CourseMemberImportWebviewProvider extends BaseWebviewProvider {
           course_group_title: groupTitle,
           course_role_id: em.course_role_id,
           rowNumber: rowNumber++,
-          status: 'existing',
+          status: absentIds.has(em.id) ? 'absent' : 'existing',
           selectedRoleId: em.course_role_id,
-          isSelected: false
+          isSelected: false,
+          courseMemberId: em.id,
+          courseGroupId: em.course_group_id
         });
       }
     });
@@ -167,7 +209,10 @@ export class CourseMemberImportWebviewProvider extends BaseWebviewProvider {
       data: {
         members: this.members,
         availableRoles: this.availableRoles,
-        availableGroups: this.availableGroups
+        availableGroups: this.availableGroups,
+        canEditMapping: Boolean(this.mappingSource),
+        canSync: true,
+        syncMode: this.syncMode
       }
     });
   }
@@ -256,6 +301,30 @@ export class CourseMemberImportWebviewProvider extends BaseWebviewProvider {
         await this.handleFileDropped(message.data);
         break;
 
+      case 'applyColumnMapping':
+        await this.handleApplyColumnMapping(message.data);
+        break;
+
+      case 'editColumnMapping':
+        this.postColumnMapping([]);
+        break;
+
+      case 'deleteMappingPreset':
+        await this.handleDeleteMappingPreset(message.data);
+        break;
+
+      case 'syncModeChanged':
+        await this.handleSyncModeChanged(message.data);
+        break;
+
+      case 'syncAbsentMembers':
+        await this.handleSyncAbsentMembers(message.data);
+        break;
+
+      case 'undoRosterSync':
+        await this.handleUndoRosterSync();
+        break;
+
       case 'showError':
         if (message.data?.message) {
           vscode.window.showErrorMessage(message.data.message);
@@ -322,21 +391,9 @@ export class CourseMemberImportWebviewProvider extends BaseWebviewProvider {
     try {
       const fs = await import('fs');
       const fileBuffer = await fs.promises.readFile(filePath);
-      const fileContent = fileBuffer.toString('utf-8');
-
-      // Parse file using factory
-      const members = CourseMemberParserFactory.parse(fileContent, fileExtension);
-
-      if (members.length === 0) {
-        vscode.window.showWarningMessage('No valid course members found in file');
-        return;
-      }
-
-      await this.loadImportData(members);
-
-      vscode.window.showInformationMessage(
-        `Import file loaded successfully: ${members.length} member(s) found`
-      );
+      // The XLSX parser reads binary strings, like the webview's drop handler sends them.
+      const fileContent = fileBuffer.toString(['xlsx', 'xls'].includes(fileExtension.toLowerCase()) ? 'binary' : 'utf-8');
+      await this.loadImportFile(path.basename(filePath), fileContent, fileExtension);
     } catch (error: any) {
       console.error('Failed to load import file:', error);
       vscode.window.showErrorMessage(`Failed to load import file: ${error?.message || error}`);
@@ -361,22 +418,268 @@ export class CourseMemberImportWebviewProvider extends BaseWebviewProvider {
     }
 
     try {
-      const members = CourseMemberParserFactory.parse(content, fileExtension);
+      await this.loadImportFile(fileName, content, fileExtension);
+    } catch (error: any) {
+      console.error('Failed to parse dropped file:', error);
+      vscode.window.showErrorMessage(`Failed to parse file: ${error?.message || error}`);
+    }
+  }
+
+  /**
+   * Parses an import file. Tabular files go through the column mapping: a
+   * matching preset is used as is, an ambiguous detected mapping is shown to
+   * the user first.
+   */
+  private async loadImportFile(fileName: string, fileContent: string, fileExtension: string): Promise<void> {
+    const table = CourseMemberParserFactory.readTable(fileContent, fileExtension);
+    if (!table) {
+      this.mappingSource = undefined;
+      await this.loadParsedMembers(CourseMemberParserFactory.parse(fileContent, fileExtension));
+      return;
+    }
+
+    const { columns, preset } = CourseMemberParserFactory.resolveColumns(table);
+    this.mappingSource = { fileName, table, columns };
+    const issues = preset ? [] : findMappingIssues(table, columns);
+    if (issues.length > 0) {
+      this.postColumnMapping(issues);
+      return;
+    }
+    await this.loadParsedMembers(applyColumnMapping(table, columns), preset?.name);
+  }
 
-      if (members.length === 0) {
-        vscode.window.showWarningMessage('No valid course members found in file. Make sure the file has an "email" column.');
-        return;
+  private async loadParsedMembers(members: CourseMemberImportRow[], presetName?: string): Promise<void> {
+    if (members.length === 0) {
+      vscode.window.showWarningMessage(this.mappingSource
+        ? 'No rows with an email address found. Use "Map Columns" to check which column holds the email.'
+        : 'No valid course members found in file. Make sure the file has an "email" column.');
+      if (this.mappingSource) {
+        this.postColumnMapping([]);
       }
+      return;
+    }
 
-      await this.loadImportData(members);
+    await this.loadImportData(members);
 
-      vscode.window.showInformationMessage(
-        `Import file loaded successfully: ${members.length} member(s) found`
-      );
-    } catch (error: any) {
-      console.error('Failed to parse dropped file:', error);
-      vscode.window.showErrorMessage(`Failed to parse file: ${error?.message || error}`);
+    vscode.window.showInformationMessage(
+      `Import file loaded successfully: ${members.length} member(s) found${presetName ? ` (column preset "${presetName}")` : ''}`
+    );
+  }
+
+  private postColumnMapping(issues: string[]): void {
+    if (!this.mappingSource) {
+      vscode.window.showInformationMessage('Load a CSV or Excel file first.');
+      return;
+    }
+    const { fileName, table, columns } = this.mappingSource;
+    this.panel?.webview.postMessage({
+      command: 'showColumnMapping',
+      data: {
+        fileName,
+        headers: table.headers,
+        samples: table.rows.slice(0, 3),
+        rowCount: table.rows.length,
+        columns,
+        issues,
+        presets: CourseMemberParserFactory.getMappingPresets(),
+        targetLabels: mappingTargetLabels,
+        transformLabels: columnTransformLabels
+      }
+    });
+  }
+
+  private async handleApplyColumnMapping(data: { columns: ColumnAssignment[]; presetName?: string }): Promise<void> {
+    if (!this.mappingSource || !Array.isArray(data?.columns) || data.columns.length !== this.mappingSource.table.headers.length) {
+      return;
+    }
+    const problem = validateMapping(data.columns);
+    if (problem) {
+      vscode.window.showWarningMessage(problem);
+      return;
+    }
+
+    this.mappingSource.columns = data.columns;
+    const presetName = data.presetName?.trim();
+    if (presetName) {
+      await this.saveMappingPresets([
+        ...CourseMemberParserFactory.getMappingPresets().filter(preset => preset.name !== presetName),
+        { name: presetName, columns: data.columns }
+      ]);
+    }
+    await this.loadParsedMembers(applyColumnMapping(this.mappingSource.table, data.columns), presetName);
+  }
+
+  private async handleDeleteMappingPreset(data: { name: string }): Promise<void> {
+    if (!data?.name) {
+      return;
+    }
+    const choice = await vscode.window.showWarningMessage(
+      `Delete the column preset "${data.name}"?`,
+      { modal: true },
+      'Delete'
+    );
+    if (choice !== 'Delete') {
+      return;
+    }
+    await this.saveMappingPresets(CourseMemberParserFactory.getMappingPresets().filter(preset => preset.name !== data.name));
+    this.panel?.webview.postMessage({
+      command: 'mappingPresetsUpdated',
+      data: { presets: CourseMemberParserFactory.getMappingPresets() }
+    });
+  }
+
+  private async handleSyncModeChanged(data: { enabled: boolean }): Promise<void> {
+    this.syncMode = Boolean(data?.enabled);
+    if (this.importRows) {
+      await this.loadImportData(this.importRows);
+    }
+  }
+
+  /** Shows the planned changes as a dry run and applies them after confirmation. */
+  private async handleSyncAbsentMembers(data: { action: AbsentMemberAction }): Promise<void> {
+    const courseId = this.courseId;
+    if (!courseId || !data?.action) {
+      return;
+    }
+    const rows = this.members.filter(member => member.status === 'absent' && member.isSelected && member.courseMemberId);
+    const changes = planRosterChanges(rows.map(row => ({
+      courseMemberId: row.courseMemberId!,
+      email: row.email,
+      name: [row.given_name, row.family_name].filter(Boolean).join(' '),
+      course_role_id: row.course_role_id ?? row.selectedRoleId,
+      course_group_id: row.courseGroupId
+    })), data.action);
+    if (changes.length === 0) {
+      vscode.window.showInformationMessage(rows.length === 0
+        ? 'Select the absent members to update first.'
+        : 'Nothing to change: the selected members already match.');
+      return;
+    }
+
+    const choice = await vscode.window.showWarningMessage(
+      `Apply ${changes.length} change(s) to members missing from the import file?`,
+      { modal: true, detail: this.describeChanges(changes) },
+      'Apply'
+    );
+    if (choice !== 'Apply') {
+      return;
+    }
+
+    const { applied, failures } = await this.applyRosterChanges(changes, 'Updating absent members...');
+    if (applied.length > 0) {
+      const entry: RosterSyncLogEntry = {
+        id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        courseId,
+        appliedAt: new Date().toISOString(),
+        changes: applied
+      };
+      await this.context.globalState.update(rosterSyncLogKey, appendRosterSyncLog(this.getRosterSyncLog(), entry));
+    }
+    this.reportRosterChanges(applied.length, failures, 'updated');
+    await this.reloadAfterRosterChange();
+  }
+
+  private async handleUndoRosterSync(): Promise<void> {
+    const entries = this.getRosterSyncLog().filter(entry => entry.courseId === this.courseId && !entry.undoneAt);
+    if (entries.length === 0) {
+      vscode.window.showInformationMessage('No roster sync of this course can be undone.');
+      return;
+    }
+    const picked = await vscode.window.showQuickPick(
+      entries.map(entry => ({
+        label: new Date(entry.appliedAt).toLocaleString(),
+        description: `${entry.changes.length} change(s)`,
+        detail: entry.changes.slice(0, 3).map(change => change.email).join(', ') + (entry.changes.length > 3 ? ', …' : ''),
+        entry
+      })),
+      { title: 'Undo Roster Sync', placeHolder: 'Select the sync to undo' }
+    );
+    if (!picked) {
+      return;
     }
+
+    const changes = revertRosterChanges(picked.entry.changes);
+    const choice = await vscode.window.showWarningMessage(
+      `Undo ${changes.length} change(s)?`,
+      { modal: true, detail: this.describeChanges(changes) },
+      'Undo'
+    );
+    if (choice !== 'Undo') {
+      return;
+    }
+
+    const { applied: reverted, failures } = await this.applyRosterChanges(changes, 'Undoing roster sync...');
+    // Changes that could not be reverted stay in the log for another attempt.
+    const remaining = picked.entry.changes.filter(change => !reverted.some(done => done.courseMemberId === change.courseMemberId));
+    await this.context.globalState.update(rosterSyncLogKey, this.getRosterSyncLog().map(entry => (
+      entry.id !== picked.entry.id
+        ? entry
+        : remaining.length === 0
+          ? { ...entry, undoneAt: new Date().toISOString() }
+          : { ...entry, changes: remaining }
+    )));
+    this.reportRosterChanges(reverted.length, failures, 'restored');
+    await this.reloadAfterRosterChange();
+  }
+
+  /** Sends the changes one by one and collects what the server accepted. */
+  private async applyRosterChanges(changes: RosterChange[], title: string): Promise<{ applied: RosterChange[]; failures: string[] }> {
+    const applied: RosterChange[] = [];
+    const failures: string[] = [];
+    await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title, cancellable: true },
+      async (progress, token) => {
+        for (const change of changes) {
+          if (token.isCancellationRequested) {
+            break;
+          }
+          progress.report({ message: change.email, increment: 100 / changes.length });
+          try {
+            await this.apiService.updateCourseMember(change.courseMemberId, change.after);
+            applied.push(change);
+          } catch (error: any) {
+            failures.push(`${change.email}: ${error?.message || error}`);
+          }
+        }
+      }
+    );
+    return { applied, failures };
+  }
+
+  private describeChanges(changes: RosterChange[]): string {
+    const roleTitle = (roleId: string) => this.availableRoles.find(role => role.id === roleId)?.title || roleId;
+    const groupTitle = (groupId: string) => this.availableGroups.find(group => group.id === groupId)?.title || groupId;
+    const lines = changes.map(change => describeRosterChange(change, roleTitle, groupTitle));
+    return lines.length > 15 ? [...lines.slice(0, 15), `… and ${lines.length - 15} more`].join('\n') : lines.join('\n');
+  }
+
+  private reportRosterChanges(done: number, failures: string[], verb: string): void {
+    if (failures.length === 0) {
+      vscode.window.showInformationMessage(`${done} member(s) ${verb}.`);
+      return;
+    }
+    vscode.window.showWarningMessage(
+      `${done} member(s) ${verb}, ${failures.length} failed.`,
+      { modal: true, detail: failures.slice(0, 10).join('\n') }
+    );
+  }
+
+  private async reloadAfterRosterChange(): Promise<void> {
+    if (this.treeDataProvider) {
+      await this.treeDataProvider.refresh();
+    }
+    if (this.importRows) {
+      await this.loadImportData(this.importRows);
+    }
+  }
+
+  private getRosterSyncLog(): RosterSyncLogEntry[] {
+    return this.context.globalState.get<RosterSyncLogEntry[]>(rosterSyncLogKey) ?? [];
+  }
+
+  private async saveMappingPresets(presets: ColumnMappingPreset[]): Promise<void> {
+    CourseMemberParserFactory.setMappingPresets(presets);
+    await this.context.globalState.update(mappingPresetsKey, presets);
   }
 
   private async handleImportSelected(data: {
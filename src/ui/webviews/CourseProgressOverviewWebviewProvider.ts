@@ -73,6 +73,13 @@ export class CourseProgressOverviewWebviewProvider extends BaseWebviewProvider {
       case 'refresh':
         await this.refreshData();
         break;
+      case 'exportGradebook': {
+        const data = this.currentData as CourseProgressOverviewData | undefined;
+        if (data?.course) {
+          await vscode.commands.executeCommand('computor.lecturer.exportGradebook', data.course.id);
+        }
+        break;
+      }
       case 'showStudentDetails':
         if (message.data?.courseMemberId) {
           await vscode.commands.executeCommand(
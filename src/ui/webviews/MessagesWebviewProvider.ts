@@ -3,8 +3,11 @@ import { BaseWebviewProvider } from './BaseWebviewProvider';
 import { ComputorApiService } from '../../services/ComputorApiService';
 import { canReplyInScope, deriveScopeFromCreatePayload } from '../../services/MessagePermissions';
 import { MessageGet, MessageList, MessageQuery } from '../../types/generated';
-import type { MessagesInputPanelProvider } from '../panels/MessagesInputPanel';
+import { MessagesInputPanelProvider, messageThreadKeyFor } from '../panels/MessagesInputPanel';
+import type { ResponseTemplateContext } from '../../services/ResponseTemplateService';
 import { WebSocketService } from '../../services/WebSocketService';
+import { parseSnippetReference } from '../../utils/messageSnippets';
+import { OutboxService } from '../../services/OutboxService';
 
 export interface MessageFilters {
   unread?: boolean;
@@ -28,6 +31,8 @@ export interface MessageTargetContext {
   readOnlyReason?: string;
   /** Whether replies are permitted in this scope (computed from createPayload). */
   allowReplies?: boolean;
+  /** Placeholder values for response templates; the composer offers templates when set. */
+  templateContext?: ResponseTemplateContext;
 }
 
 interface MessagesWebviewData {
@@ -35,6 +40,18 @@ interface MessagesWebviewData {
   messages: EnrichedMessage[];
   identity?: { id: string; username: string; full_name?: string };
   activeFilters?: MessageFilters;
+  /** Messages of this thread still waiting in the outbox. */
+  pending?: PendingMessage[];
+}
+
+interface PendingMessage {
+  id: string;
+  title?: string | null;
+  content: string;
+  parent_id?: string | null;
+  status: 'pending' | 'conflict';
+  conflict?: string;
+  createdAt: string;
 }
 
 type EnrichedMessage = MessageList & {
@@ -52,6 +69,7 @@ export class MessagesWebviewProvider extends BaseWebviewProvider {
   private currentWsChannel?: string;
   private readonly wsHandlerId: string;
   private pendingUnreadMessageIds: Set<string> = new Set();
+  private outboxSubscription?: vscode.Disposable;
 
   /** Shared instance reused across the chat, student, tutor and lecturer
    *  views — every caller routes through the same provider so that opening
@@ -88,7 +106,8 @@ export class MessagesWebviewProvider extends BaseWebviewProvider {
     this.wsService = wsService;
   }
 
-  async showMessages(target: MessageTargetContext): Promise<void> {
+  /** `draft` pre-fills the compose panel, e.g. with a quoted code snippet. */
+  async showMessages(target: MessageTargetContext, options?: { draft?: string }): Promise<void> {
     target = this.withReplyPolicy(target);
     const currentUserId = this.apiService.getCurrentUserId();
     const [identity, rawMessages] = await Promise.all([
@@ -99,14 +118,15 @@ export class MessagesWebviewProvider extends BaseWebviewProvider {
     const normalizedMessages = this.normalizeReadState(rawMessages, currentUserId);
     void this.markUnreadMessagesAsRead(rawMessages, target, currentUserId);
     const messages = this.enrichMessages(normalizedMessages, identity);
-    const payload: MessagesWebviewData = { target, messages, identity };
+    const payload: MessagesWebviewData = { target, messages, identity, pending: this.getPending(target) };
     await this.show(`Messages: ${target.title}`, payload);
+    this.watchOutbox();
 
     // Subscribe to WebSocket channel for real-time updates
     this.subscribeToChannel(target);
 
     if (this.inputPanel) {
-      this.inputPanel.setTarget(target, rawMessages);
+      this.inputPanel.setTarget(target, rawMessages, options?.draft);
       this.inputPanel.setOnMessageCreated(() => this.refreshMessages({ skipIndicatorUpdate: true }));
       if (target.wsChannel) {
         this.inputPanel.setWebSocketChannel(target.wsChannel);
@@ -296,6 +316,8 @@ export class MessagesWebviewProvider extends BaseWebviewProvider {
       this.currentWsChannel = undefined;
     }
     this.pendingUnreadMessageIds.clear();
+    this.outboxSubscription?.dispose();
+    this.outboxSubscription = undefined;
 
     // Clear the input panel state (removes typing indicators and resets form)
     console.log('[MessagesWebviewProvider] Clearing input panel state, inputPanel exists:', !!this.inputPanel);
@@ -414,11 +436,103 @@ export class MessagesWebviewProvider extends BaseWebviewProvider {
           vscode.window.showWarningMessage(String(message.data));
         }
         break;
+      case 'openSnippet':
+        await this.openSnippet(message.data);
+        break;
+      case 'discardPending':
+        if (message.data?.id) {
+          await OutboxService.getInstance().discard(String(message.data.id));
+        }
+        break;
+      case 'sendPendingAsNew':
+        if (message.data?.id) {
+          await OutboxService.getInstance().sendAsNewMessage(String(message.data.id));
+        }
+        break;
       default:
         break;
     }
   }
 
+  /**
+   * Opens the file a quoted snippet refers to. References are relative to the
+   * sender's assignment directory, so the file is looked up anywhere in the
+   * workspace and the lecturer/tutor picks when several repositories match.
+   */
+  private async openSnippet(data: any): Promise<void> {
+    const reference = typeof data?.path === 'string'
+      ? parseSnippetReference(`${data.path}#L${Number(data.startLine)}-L${Number(data.endLine)}`)
+      : undefined;
+    if (!reference || reference.path.split('/').includes('..')) {
+      return;
+    }
+    const matches = await vscode.workspace.findFiles(`**/${reference.path}`, '**/node_modules/**', 20);
+    let uri = matches[0];
+    if (matches.length > 1) {
+      const picked = await vscode.window.showQuickPick(
+        matches.map(match => ({ label: vscode.workspace.asRelativePath(match, true), uri: match })),
+        { placeHolder: `Several files match ${reference.path}` }
+      );
+      uri = picked?.uri;
+      if (!uri) {
+        return;
+      }
+    }
+    if (!uri) {
+      vscode.window.showWarningMessage(`${reference.path} was not found in the workspace. Clone or check out the repository first.`);
+      return;
+    }
+    const document = await vscode.workspace.openTextDocument(uri);
+    const lastLine = Math.max(0, document.lineCount - 1);
+    const start = Math.min(reference.startLine - 1, lastLine);
+    const end = Math.min(reference.endLine - 1, lastLine);
+    const range = new vscode.Range(start, 0, end, document.lineAt(end).text.length);
+    await vscode.window.showTextDocument(document, {
+      viewColumn: vscode.ViewColumn.One,
+      selection: range,
+      preview: true
+    });
+  }
+
+  private getPending(target: MessageTargetContext): PendingMessage[] {
+    return OutboxService.getInstance().getItems(messageThreadKeyFor(target)).flatMap(item => (
+      item.kind === 'message'
+        ? [{
+            id: item.id,
+            title: item.payload.title,
+            content: item.payload.content,
+            parent_id: item.payload.parent_id,
+            status: item.status,
+            conflict: item.conflict,
+            createdAt: item.createdAt
+          }]
+        : []
+    ));
+  }
+
+  /** Keeps the pending messages of the open thread in sync with the outbox. */
+  private watchOutbox(): void {
+    if (this.outboxSubscription) {
+      return;
+    }
+    const outbox = OutboxService.getInstance();
+    this.outboxSubscription = vscode.Disposable.from(
+      outbox.onDidChange(() => {
+        const target = this.getCurrentTarget();
+        if (target && this.panel) {
+          this.panel.webview.postMessage({ command: 'updatePending', data: this.getPending(target) });
+        }
+      }),
+      outbox.onDidSend(item => {
+        const target = this.getCurrentTarget();
+        // With a WebSocket channel the sent message arrives as a live update.
+        if (target && !target.wsChannel && item.threadKey === messageThreadKeyFor(target)) {
+          void this.refreshMessages({ skipIndicatorUpdate: true });
+        }
+      })
+    );
+  }
+
   private getCurrentTarget(): MessageTargetContext | undefined {
     const data = this.currentData as MessagesWebviewData | undefined;
     return data?.target;
@@ -602,7 +716,7 @@ export class MessagesWebviewProvider extends BaseWebviewProvider {
         void this.markUnreadMessagesAsRead(rawMessages, target, currentUserId);
       }
       const messages = this.enrichMessages(normalizedMessages, identity);
-      this.currentData = { target, messages, identity, activeFilters } satisfies MessagesWebviewData;
+      this.currentData = { target, messages, identity, activeFilters, pending: this.getPending(target) } satisfies MessagesWebviewData;
       this.panel.webview.postMessage({ command: 'updateMessages', data: messages });
       this.postLoadingState(false);
 
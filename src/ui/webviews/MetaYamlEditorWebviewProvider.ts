@@ -3,6 +3,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { BaseWebviewProvider } from './BaseWebviewProvider';
 import { escapeHtml } from './shared/webviewHelpers';
+import { listExampleFiles } from '../../utils/metaYamlHelpers';
 
 interface MetaYamlEditorData {
   filePath: string;
@@ -46,34 +47,6 @@ export class MetaYamlEditorWebviewProvider extends BaseWebviewProvider {
     fs.writeFileSync(filePath, content, 'utf8');
   }
 
-  private listExampleFiles(exampleDir: string): string[] {
-    const results: string[] = [];
-    const excludeDirs = new Set(['content', '.git', 'node_modules']);
-    const excludeFiles = new Set(['meta.yaml', 'test.yaml']);
-    try {
-      const scanDir = (dir: string, prefix: string) => {
-        const entries = fs.readdirSync(dir, { withFileTypes: true });
-        for (const entry of entries) {
-          if (entry.name.startsWith('.')) { continue; }
-          const rel = prefix ? `${prefix}/${entry.name}` : entry.name;
-          if (entry.isDirectory()) {
-            if (!prefix && excludeDirs.has(entry.name)) { continue; }
-            scanDir(path.join(dir, entry.name), rel);
-          } else {
-            if (!prefix && excludeFiles.has(entry.name)) { continue; }
-            results.push(rel);
-          }
-        }
-      };
-      if (fs.existsSync(exampleDir)) {
-        scanDir(exampleDir, '');
-      }
-    } catch {
-      // Directory might not exist
-    }
-    return results;
-  }
-
   protected async getWebviewContent(data?: MetaYamlEditorData): Promise<string> {
     if (!data || !this.panel) {
       return this.getBaseHtml('Meta Editor', '<p>No data available</p>');
@@ -82,7 +55,7 @@ export class MetaYamlEditorWebviewProvider extends BaseWebviewProvider {
     const webview = this.panel.webview;
     const nonce = this.getNonce();
     const existingData = this.parseMetaYaml(data.filePath);
-    const exampleFiles = this.listExampleFiles(data.exampleDir);
+    const exampleFiles = listExampleFiles(data.exampleDir);
 
     const scriptUri = this.getWebviewUri(webview, 'webview-ui', 'meta-yaml-editor.js');
     const stylesUri = this.getWebviewUri(webview, 'webview-ui', 'meta-yaml-editor.css');
@@ -152,7 +125,7 @@ export class MetaYamlEditorWebviewProvider extends BaseWebviewProvider {
 
     const sendUpdate = () => {
       if (this.panel) {
-        const files = this.listExampleFiles(exampleDir);
+        const files = listExampleFiles(exampleDir);
         this.panel.webview.postMessage({ command: 'updateFiles', files });
       }
     };
@@ -0,0 +1,191 @@
+import * as vscode from 'vscode';
+import { BaseWebviewProvider } from './BaseWebviewProvider';
+import { ComputorApiService } from '../../services/ComputorApiService';
+import { EffectivePermissions, InspectedMembership, buildEffectivePermissions } from '../../services/EffectivePermissions';
+import type { UserGet } from '../../types/generated';
+
+interface PermissionInspectorViewState {
+  user: {
+    id: string;
+    displayName: string;
+    email?: string | null;
+    username?: string | null;
+    archived: boolean;
+    isService: boolean;
+  };
+  permissions: EffectivePermissions;
+}
+
+/**
+ * Shows the roles a user holds on every scope and the capabilities the
+ * extension derives from them, each with the rule that allows or denies it.
+ */
+export class PermissionInspectorWebviewProvider extends BaseWebviewProvider {
+  private currentUserId?: string;
+
+  constructor(context: vscode.ExtensionContext, private readonly apiService: ComputorApiService) {
+    super(context, 'computor.permissionInspector');
+  }
+
+  async open(userId: string): Promise<void> {
+    try {
+      this.currentUserId = userId;
+      const state = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: 'Loading permissions…' },
+        () => this.loadState(userId)
+      );
+      await this.show(`Permissions: ${state.user.displayName}`, state);
+    } catch (error: any) {
+      vscode.window.showErrorMessage(`Failed to load permissions: ${error?.message || error}`);
+    }
+  }
+
+  protected async getWebviewContent(data?: PermissionInspectorViewState): Promise<string> {
+    if (!this.panel) {
+      return this.getBaseHtml('Permissions', '<p>Loading…</p>');
+    }
+
+    const webview = this.panel.webview;
+    const nonce = this.getNonce();
+    const initialState = JSON.stringify(data ?? null);
+    const componentsCssUri = this.getWebviewUri(webview, 'webview-ui', 'components', 'components.css');
+    const stylesUri = this.getWebviewUri(webview, 'webview-ui', 'permission-inspector.css');
+    const scriptUri = this.getWebviewUri(webview, 'webview-ui', 'permission-inspector.js');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+  <title>Permissions</title>
+  <link rel="stylesheet" href="${componentsCssUri}">
+  <link rel="stylesheet" href="${stylesUri}">
+</head>
+<body>
+  <div id="app" class="permission-inspector-root"></div>
+  <script nonce="${nonce}">
+    window.vscodeApi = window.vscodeApi || acquireVsCodeApi();
+    window.__INITIAL_STATE__ = ${initialState};
+  </script>
+  <script nonce="${nonce}" src="${scriptUri}"></script>
+</body>
+</html>`;
+  }
+
+  protected async handleMessage(message: any): Promise<void> {
+    if (!message || !this.currentUserId) {
+      return;
+    }
+    switch (message.command) {
+      case 'refresh':
+        await this.refreshState();
+        break;
+      case 'openUserDetails':
+        await vscode.commands.executeCommand('computor.userManager.openUserDetails', this.currentUserId);
+        break;
+      default:
+        break;
+    }
+  }
+
+  private async loadState(userId: string): Promise<PermissionInspectorViewState> {
+    const [user, memberships] = await Promise.all([
+      this.apiService.getUserById(userId, { force: true }),
+      this.apiService.listUserMemberships(userId)
+    ]);
+    if (!user) {
+      throw new Error(`User not found: ${userId}`);
+    }
+
+    const [organizationTitles, familyTitles, courseTitles] = await Promise.all([
+      this.resolveTitles(memberships.organizations.map(m => m.organization_id), async id => {
+        const organization = await this.apiService.getOrganization(id);
+        return organization?.title || organization?.path;
+      }),
+      this.resolveTitles(memberships.courseFamilies.map(m => m.course_family_id), async id => {
+        const family = await this.apiService.getCourseFamily(id);
+        return family?.title || family?.path;
+      }),
+      this.resolveTitles(memberships.courses.map(m => m.course_id), async id => {
+        const course = await this.apiService.getCourse(id);
+        return course?.title || course?.path;
+      })
+    ]);
+
+    const inspected: InspectedMembership[] = [
+      ...memberships.organizations.map(m => ({
+        kind: 'organization' as const,
+        scopeId: m.organization_id,
+        title: organizationTitles.get(m.organization_id) ?? m.organization_id,
+        roleId: m.organization_role_id
+      })),
+      ...memberships.courseFamilies.map(m => ({
+        kind: 'course_family' as const,
+        scopeId: m.course_family_id,
+        title: familyTitles.get(m.course_family_id) ?? m.course_family_id,
+        roleId: m.course_family_role_id
+      })),
+      ...memberships.courses.map(m => ({
+        kind: 'course' as const,
+        scopeId: m.course_id,
+        title: courseTitles.get(m.course_id) ?? m.course_id,
+        roleId: m.course_role_id
+      }))
+    ];
+
+    const globalRoles = new Set(
+      (user.user_roles ?? [])
+        .map(r => r?.role_id)
+        .filter((id): id is string => typeof id === 'string')
+    );
+
+    return {
+      user: {
+        id: user.id,
+        displayName: getUserDisplayName(user),
+        email: user.email,
+        username: user.username,
+        archived: Boolean(user.archived_at),
+        isService: user.is_service === true
+      },
+      permissions: buildEffectivePermissions({ archived: Boolean(user.archived_at), globalRoles, memberships: inspected })
+    };
+  }
+
+  /** Scope titles by id; scopes the signed-in user cannot read keep their id. */
+  private async resolveTitles(ids: string[], fetch: (id: string) => Promise<string | null | undefined>): Promise<Map<string, string>> {
+    const titles = new Map<string, string>();
+    await Promise.all([...new Set(ids)].map(async id => {
+      try {
+        const title = await fetch(id);
+        if (title) {
+          titles.set(id, title);
+        }
+      } catch (error) {
+        console.warn(`[PermissionInspector] Failed to load title for ${id}:`, error);
+      }
+    }));
+    return titles;
+  }
+
+  private async refreshState(): Promise<void> {
+    if (!this.currentUserId || !this.panel) {
+      return;
+    }
+    try {
+      const state = await this.loadState(this.currentUserId);
+      this.currentData = state;
+      this.panel.webview.postMessage({ command: 'updateState', data: state });
+    } catch (error: any) {
+      vscode.window.showErrorMessage(`Failed to load permissions: ${error?.message || error}`);
+    }
+  }
+}
+
+function getUserDisplayName(user: UserGet): string {
+  if (user.given_name || user.family_name) {
+    return `${user.given_name || ''} ${user.family_name || ''}`.trim();
+  }
+  return user.email || user.username || user.id;
+}
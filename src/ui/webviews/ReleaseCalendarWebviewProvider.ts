@@ -0,0 +1,144 @@
+import * as vscode from 'vscode';
+import { BaseWebviewProvider } from './BaseWebviewProvider';
+import { ReleaseScheduleService } from '../../services/ReleaseScheduleService';
+import { ScheduledRelease, describeReleaseCountdown } from '../../utils/releaseSchedule';
+import { formatLocalDateTime } from '../../utils/localDateTime';
+
+/** Actions the calendar delegates back to the lecturer commands. */
+export interface ReleaseCalendarActions {
+  releaseNow(entry: ScheduledRelease): Promise<void>;
+  reschedule(entry: ScheduledRelease): Promise<void>;
+}
+
+interface ReleaseCalendarEntry extends ScheduledRelease {
+  displayDate: string;
+  countdown: string;
+  overdue: boolean;
+}
+
+interface ReleaseCalendarState {
+  courseId?: string;
+  title: string;
+  now: string;
+  entries: ReleaseCalendarEntry[];
+}
+
+export class ReleaseCalendarWebviewProvider extends BaseWebviewProvider {
+  private courseId?: string;
+  private title = 'All Courses';
+  private scheduleSubscription?: vscode.Disposable;
+
+  constructor(
+    context: vscode.ExtensionContext,
+    private readonly schedule: ReleaseScheduleService,
+    private readonly actions: ReleaseCalendarActions
+  ) {
+    super(context, 'computor.lecturer.releaseCalendar');
+  }
+
+  /** Opens the calendar for one course, or for all scheduled releases without a course. */
+  async open(courseId?: string, courseTitle?: string): Promise<void> {
+    this.courseId = courseId;
+    this.title = courseTitle || 'All Courses';
+    if (!this.scheduleSubscription) {
+      this.scheduleSubscription = this.schedule.onDidChange(() => this.postState());
+    }
+    if (this.panel) {
+      this.panel.title = `Release Calendar: ${this.title}`;
+      this.postState();
+      this.panel.reveal();
+      return;
+    }
+    await this.show(`Release Calendar: ${this.title}`, this.buildState());
+  }
+
+  protected async getWebviewContent(data?: ReleaseCalendarState): Promise<string> {
+    if (!this.panel) {
+      return this.getBaseHtml('Release Calendar', '<p>Loading…</p>');
+    }
+    const webview = this.panel.webview;
+    const nonce = this.getNonce();
+    const initialState = JSON.stringify(data ?? null);
+    const componentsCssUri = this.getWebviewUri(webview, 'webview-ui', 'components', 'components.css');
+    const stylesUri = this.getWebviewUri(webview, 'webview-ui', 'release-calendar.css');
+    const scriptUri = this.getWebviewUri(webview, 'webview-ui', 'release-calendar.js');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+  <title>Release Calendar</title>
+  <link rel="stylesheet" href="${componentsCssUri}">
+  <link rel="stylesheet" href="${stylesUri}">
+</head>
+<body>
+  <div id="app" class="release-calendar-root"></div>
+  <script nonce="${nonce}">
+    window.vscodeApi = window.vscodeApi || acquireVsCodeApi();
+    window.__INITIAL_STATE__ = ${initialState};
+  </script>
+  <script nonce="${nonce}" src="${scriptUri}"></script>
+</body>
+</html>`;
+  }
+
+  protected async handleMessage(message: any): Promise<void> {
+    if (!message) {
+      return;
+    }
+    const entry = typeof message.data?.contentId === 'string' ? this.schedule.get(message.data.contentId) : undefined;
+    switch (message.command) {
+      case 'releaseNow':
+        if (entry) {
+          await this.actions.releaseNow(entry);
+        }
+        break;
+      case 'reschedule':
+        if (entry) {
+          await this.actions.reschedule(entry);
+        }
+        break;
+      case 'remove':
+        if (entry) {
+          await this.schedule.remove(entry.contentId);
+        }
+        break;
+      case 'refresh':
+        this.postState();
+        break;
+      default:
+        break;
+    }
+  }
+
+  protected override onPanelDisposed(): void {
+    this.scheduleSubscription?.dispose();
+    this.scheduleSubscription = undefined;
+  }
+
+  private buildState(): ReleaseCalendarState {
+    const now = new Date();
+    return {
+      courseId: this.courseId,
+      title: this.title,
+      now: now.toISOString(),
+      entries: this.schedule.getAll(this.courseId).map(entry => ({
+        ...entry,
+        displayDate: formatLocalDateTime(entry.releaseAt),
+        countdown: describeReleaseCountdown(entry.releaseAt, now),
+        overdue: new Date(entry.releaseAt).getTime() <= now.getTime()
+      }))
+    };
+  }
+
+  private postState(): void {
+    if (!this.panel) {
+      return;
+    }
+    const state = this.buildState();
+    this.currentData = state;
+    void this.panel.webview.postMessage({ command: 'update', data: state });
+  }
+}
@@ -117,6 +117,11 @@ export class ScopeMembershipWebviewProvider extends BaseWebviewProvider {
       case 'removeMember':
         await this.handleRemoveMember(message.data);
         break;
+      case 'inspectPermissions':
+        if (typeof message.data?.user_id === 'string') {
+          await vscode.commands.executeCommand('computor.permissions.inspect', message.data.user_id);
+        }
+        break;
       default:
         break;
     }
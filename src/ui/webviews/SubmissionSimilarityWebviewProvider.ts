@@ -0,0 +1,307 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { BaseWebviewProvider } from './BaseWebviewProvider';
+import { ComputorApiService } from '../../services/ComputorApiService';
+import { WorkspaceStructureManager } from '../../utils/workspaceStructure';
+import { shouldExcludeExampleEntry } from '../../utils/exampleExcludePatterns';
+import {
+  SimilarityPair,
+  SubmissionSource,
+  computeSimilarityPairs,
+  fingerprintSource
+} from '../../utils/submissionSimilarity';
+
+export interface SimilarityReportTarget {
+  courseId: string;
+  courseContentId: string;
+  contentTitle: string;
+  /** Deployed example version; its student templates are left out of the comparison. */
+  exampleVersionId?: string | null;
+}
+
+/** Latest submitted artifact per submission group, cached so the report can be rebuilt offline. */
+interface SimilarityManifestEntry {
+  submissionGroupId: string;
+  label: string;
+  artifactId: string;
+}
+
+interface SimilarityReportState {
+  target: SimilarityReportTarget;
+  generatedAt: string;
+  submissionCount: number;
+  skipped: string[];
+  templateIgnored: boolean;
+  minScore: number;
+  defaultThreshold: number;
+  submissions: Record<string, string>;
+  pairs: SimilarityPair[];
+}
+
+const manifestKey = 'computor.similarity.manifests';
+/** Pairs below this score are never reported; the webview filters further. */
+const minReportedScore = 0.3;
+const defaultThreshold = 0.5;
+const maxSourceFileBytes = 256 * 1024;
+
+export class SubmissionSimilarityWebviewProvider extends BaseWebviewProvider {
+  private readonly workspaceStructure = WorkspaceStructureManager.getInstance();
+  private currentTarget?: SimilarityReportTarget;
+  private sources = new Map<string, SubmissionSource>();
+
+  constructor(context: vscode.ExtensionContext, private readonly apiService: ComputorApiService) {
+    super(context, 'computor.similarityReport');
+  }
+
+  async open(target: SimilarityReportTarget): Promise<void> {
+    const report = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Similarity report: ${target.contentTitle}`,
+        cancellable: true
+      },
+      (progress, token) => this.buildReport(target, progress, token)
+    );
+    if (!report) {
+      return;
+    }
+    if (report.sources.length < 2) {
+      vscode.window.showInformationMessage(`At least two submissions are needed to compare "${target.contentTitle}".`);
+      return;
+    }
+    if (this.panel) {
+      this.panel.dispose();
+      this.panel = undefined;
+    }
+    this.currentTarget = target;
+    this.sources = new Map(report.sources.map(source => [source.id, source]));
+    await this.show(`Similarity: ${target.contentTitle}`, report.state);
+  }
+
+  protected async getWebviewContent(data?: SimilarityReportState): Promise<string> {
+    if (!this.panel) {
+      return this.getBaseHtml('Similarity Report', '<p>Loading…</p>');
+    }
+    const webview = this.panel.webview;
+    const nonce = this.getNonce();
+    const initialState = JSON.stringify(data ?? null);
+    const componentsCssUri = this.getWebviewUri(webview, 'webview-ui', 'components', 'components.css');
+    const stylesUri = this.getWebviewUri(webview, 'webview-ui', 'similarity-report.css');
+    const scriptUri = this.getWebviewUri(webview, 'webview-ui', 'similarity-report.js');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+  <title>Similarity Report</title>
+  <link rel="stylesheet" href="${componentsCssUri}">
+  <link rel="stylesheet" href="${stylesUri}">
+</head>
+<body>
+  <div id="app" class="similarity-root"></div>
+  <script nonce="${nonce}">
+    window.vscodeApi = window.vscodeApi || acquireVsCodeApi();
+    window.__INITIAL_STATE__ = ${initialState};
+  </script>
+  <script nonce="${nonce}" src="${scriptUri}"></script>
+</body>
+</html>`;
+  }
+
+  protected async handleMessage(message: any): Promise<void> {
+    if (!message) {
+      return;
+    }
+    switch (message.command) {
+      case 'compare':
+        await this.openDiff(message.data);
+        break;
+      case 'refresh':
+        if (this.currentTarget) {
+          await this.open(this.currentTarget);
+        }
+        break;
+      default:
+        break;
+    }
+  }
+
+  protected override onPanelDisposed(): void {
+    this.currentTarget = undefined;
+    this.sources.clear();
+  }
+
+  private async buildReport(
+    target: SimilarityReportTarget,
+    progress: vscode.Progress<{ message?: string; increment?: number }>,
+    token: vscode.CancellationToken
+  ): Promise<{ state: SimilarityReportState; sources: SubmissionSource[] } | undefined> {
+    progress.report({ message: 'Listing submissions…' });
+    const entries = await this.resolveLatestArtifacts(target);
+    if (entries.length === 0) {
+      vscode.window.showInformationMessage(`No submissions found for "${target.contentTitle}".`);
+      return undefined;
+    }
+
+    const sources: SubmissionSource[] = [];
+    const skipped: string[] = [];
+    const step = 100 / entries.length;
+    for (const entry of entries) {
+      if (token.isCancellationRequested) {
+        return undefined;
+      }
+      progress.report({ message: entry.label, increment: step });
+      try {
+        const root = await this.ensureArtifactDownloaded(entry, target.courseId);
+        const files = await this.readSourceFiles(root);
+        if (files.length === 0) {
+          skipped.push(entry.label);
+          continue;
+        }
+        sources.push({ id: entry.submissionGroupId, label: entry.label, root, files });
+      } catch (error: any) {
+        console.warn(`[SimilarityReport] Skipping ${entry.label}:`, error);
+        skipped.push(entry.label);
+      }
+    }
+
+    progress.report({ message: 'Comparing submissions…' });
+    const ignore = await this.loadTemplateFingerprints(target);
+    const pairs = computeSimilarityPairs(sources, { threshold: minReportedScore, ignore });
+
+    const state: SimilarityReportState = {
+      target,
+      generatedAt: new Date().toISOString(),
+      submissionCount: sources.length,
+      skipped,
+      templateIgnored: ignore.size > 0,
+      minScore: minReportedScore,
+      defaultThreshold,
+      submissions: Object.fromEntries(sources.map(source => [source.id, source.label])),
+      pairs
+    };
+    return { state, sources };
+  }
+
+  private async resolveLatestArtifacts(target: SimilarityReportTarget): Promise<SimilarityManifestEntry[]> {
+    const manifests = this.context.workspaceState.get<Record<string, SimilarityManifestEntry[]>>(manifestKey, {});
+    const cached = manifests[target.courseContentId] ?? [];
+
+    const groups = await this.apiService.getTutorSubmissionGroups({
+      course_id: target.courseId,
+      course_content_id: target.courseContentId,
+      has_submissions: true
+    });
+    if (groups.length === 0) {
+      // Offline or nothing submitted yet: fall back to what was downloaded before
+      return cached;
+    }
+
+    const entries: SimilarityManifestEntry[] = [];
+    for (const group of groups) {
+      const artifacts = await this.apiService.listSubmissionArtifacts(group.id);
+      const latest = (artifacts ?? [])
+        .slice()
+        .sort((a, b) => (b.uploaded_at || b.created_at || '').localeCompare(a.uploaded_at || a.created_at || ''))[0];
+      if (latest) {
+        entries.push({ submissionGroupId: group.id, label: group.display_name, artifactId: latest.id });
+      } else {
+        const previous = cached.find(entry => entry.submissionGroupId === group.id);
+        if (previous) {
+          entries.push(previous);
+        }
+      }
+    }
+
+    await this.context.workspaceState.update(manifestKey, { ...manifests, [target.courseContentId]: entries });
+    return entries;
+  }
+
+  private async ensureArtifactDownloaded(entry: SimilarityManifestEntry, courseId: string): Promise<string> {
+    const submissionPath = this.workspaceStructure.getReviewSubmissionPath(entry.submissionGroupId, entry.artifactId, courseId);
+    if (await this.workspaceStructure.directoryExists(submissionPath)) {
+      return submissionPath;
+    }
+
+    const buffer = await this.apiService.downloadSubmissionArtifact(entry.artifactId);
+    if (!buffer) {
+      throw new Error('Failed to download submission artifact');
+    }
+
+    await fs.promises.mkdir(submissionPath, { recursive: true });
+    const JSZip = require('jszip');
+    const zip = await JSZip.loadAsync(buffer);
+    for (const [filename, file] of Object.entries(zip.files)) {
+      const fileData = file as any;
+      if (!fileData.dir) {
+        const content = await fileData.async('nodebuffer');
+        const filePath = path.join(submissionPath, filename);
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.promises.writeFile(filePath, content);
+      }
+    }
+    return submissionPath;
+  }
+
+  /** Text files below `root`, keyed by their POSIX-style relative path. */
+  private async readSourceFiles(root: string): Promise<Array<{ path: string; content: string }>> {
+    const files: Array<{ path: string; content: string }> = [];
+    const walk = async (dir: string): Promise<void> => {
+      const entries = await fs.promises.readdir(dir, { withFileTypes: true });
+      for (const entry of entries) {
+        if (entry.name.startsWith('.') || shouldExcludeExampleEntry(entry.name)) {
+          continue;
+        }
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          await walk(fullPath);
+        } else if (entry.isFile()) {
+          const stat = await fs.promises.stat(fullPath);
+          if (stat.size === 0 || stat.size > maxSourceFileBytes) {
+            continue;
+          }
+          const buffer = await fs.promises.readFile(fullPath);
+          if (buffer.includes(0)) {
+            continue;
+          }
+          files.push({ path: path.relative(root, fullPath).split(path.sep).join('/'), content: buffer.toString('utf8') });
+        }
+      }
+    };
+    await walk(root);
+    return files;
+  }
+
+  private async loadTemplateFingerprints(target: SimilarityReportTarget): Promise<Set<number>> {
+    const ignore = new Set<number>();
+    if (!target.exampleVersionId) {
+      return ignore;
+    }
+    const templatesDir = path.join(
+      this.workspaceStructure.getReviewReferencePath(target.exampleVersionId, target.courseId),
+      'studentTemplates'
+    );
+    if (!(await this.workspaceStructure.directoryExists(templatesDir))) {
+      return ignore;
+    }
+    for (const file of await this.readSourceFiles(templatesDir)) {
+      fingerprintSource(file.content).forEach(value => ignore.add(value));
+    }
+    return ignore;
+  }
+
+  private async openDiff(data: any): Promise<void> {
+    const sourceA = this.sources.get(String(data?.a));
+    const sourceB = this.sources.get(String(data?.b));
+    if (!sourceA || !sourceB || typeof data?.pathA !== 'string' || typeof data?.pathB !== 'string') {
+      return;
+    }
+    const left = vscode.Uri.file(path.join(sourceA.root, data.pathA));
+    const right = vscode.Uri.file(path.join(sourceB.root, data.pathB));
+    const title = `${sourceA.label} ↔ ${sourceB.label} (${path.basename(data.pathA)})`;
+    await vscode.commands.executeCommand('vscode.diff', left, right, title, { preview: false });
+  }
+}
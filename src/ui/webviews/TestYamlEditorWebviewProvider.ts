@@ -4,6 +4,7 @@ import * as path from 'path';
 import { BaseWebviewProvider } from './BaseWebviewProvider';
 import { escapeHtml } from './shared/webviewHelpers';
 import blockRegistryJson from '../../data/block-registry.json';
+import { detectBlockLanguage } from '../../utils/testYamlBlocks';
 
 interface TestYamlEditorData {
   filePath: string;
@@ -11,94 +12,11 @@ interface TestYamlEditorData {
   exampleTitle?: string;
 }
 
-interface BlockRegistryLanguage {
-  id: string;
-  name: string;
-  description?: string;
-  file_extensions: string[];
-  icon?: string;
-  test_types: BlockRegistryTestType[];
-  qualifications?: BlockRegistryQualification[];
-  defaults?: Record<string, unknown>;
-  config_fields?: BlockRegistryField[];
-}
-
-interface BlockRegistryTestType {
-  id: string;
-  name: string;
-  description: string;
-  icon?: string;
-  category?: string;
-  qualifications: string[];
-  default_qualification?: string;
-  collection_fields?: BlockRegistryField[];
-  test_fields?: BlockRegistryField[];
-  example?: Record<string, unknown>;
-}
-
-interface BlockRegistryQualification {
-  id: string;
-  name: string;
-  description: string;
-  category?: string;
-  uses_value?: boolean;
-  uses_pattern?: boolean;
-  uses_tolerance?: boolean;
-  uses_line_number?: boolean;
-  uses_count?: boolean;
-  extra_fields?: BlockRegistryField[];
-  example?: Record<string, unknown>;
-}
-
-interface BlockRegistryField {
-  name: string;
-  type: string;
-  description: string;
-  required?: boolean;
-  default?: unknown;
-  enum_values?: string[] | null;
-  array_item_type?: string | null;
-  min_value?: number | null;
-  max_value?: number | null;
-  min_length?: number | null;
-  max_length?: number | null;
-  pattern?: string | null;
-  placeholder?: string | null;
-  examples?: unknown[] | null;
-}
-
-interface BlockRegistry {
-  version: string;
-  languages: BlockRegistryLanguage[];
-}
-
 export class TestYamlEditorWebviewProvider extends BaseWebviewProvider {
-  private blockRegistry: BlockRegistry | undefined;
-
   constructor(context: vscode.ExtensionContext) {
     super(context, 'computor.testYamlEditor');
   }
 
-  private loadBlockRegistry(): BlockRegistry {
-    if (this.blockRegistry) { return this.blockRegistry; }
-    this.blockRegistry = blockRegistryJson as unknown as BlockRegistry;
-    return this.blockRegistry;
-  }
-
-  private detectLanguage(exampleDir: string): string | undefined {
-    const registry = this.loadBlockRegistry();
-    const files = this.listFilesRecursive(exampleDir);
-
-    for (const lang of registry.languages) {
-      for (const ext of lang.file_extensions) {
-        if (files.some(f => f.endsWith(ext))) {
-          return lang.id;
-        }
-      }
-    }
-    return undefined;
-  }
-
   private listFilesRecursive(dir: string): string[] {
     const results: string[] = [];
     try {
@@ -153,16 +71,15 @@ export class TestYamlEditorWebviewProvider extends BaseWebviewProvider {
 
     const webview = this.panel.webview;
     const nonce = this.getNonce();
-    const registry = this.loadBlockRegistry();
     const existingData = this.parseTestYaml(data.filePath);
     const detectedLanguage = existingData?.type as string
-      || this.detectLanguage(data.exampleDir);
+      || detectBlockLanguage(this.listFilesRecursive(data.exampleDir));
 
     const scriptUri = this.getWebviewUri(webview, 'webview-ui', 'test-yaml-editor.js');
     const stylesUri = this.getWebviewUri(webview, 'webview-ui', 'test-yaml-editor.css');
 
     const initialState = JSON.stringify({
-      registry,
+      registry: blockRegistryJson,
       testSuite: existingData || null,
       detectedLanguage: detectedLanguage || null,
       filePath: data.filePath,
@@ -0,0 +1,242 @@
+import * as vscode from 'vscode';
+import { BaseWebviewProvider } from './BaseWebviewProvider';
+import { ComputorApiService } from '../../services/ComputorApiService';
+import type { GradingStatus, TutorGradeCreate } from '../../types/generated/common';
+import {
+  GradingRubric,
+  RubricScores,
+  GRADING_STATUS_OPTIONS,
+  computeRubricGrade,
+  formatRubricFeedback
+} from '../../utils/gradingRubric';
+
+export interface TutorGradingTarget {
+  memberId: string;
+  memberLabel?: string | null;
+  courseContentId: string;
+  contentTitle: string;
+  contentPath?: string | null;
+  /** Latest submitted artifact; the grade is attached to it when present. */
+  artifactId?: string;
+  rubric?: GradingRubric;
+  /** Previous grade (0.0–1.0) from the submission group. */
+  previousGrade?: number;
+  previousStatus?: string | null;
+}
+
+interface GradingDraft {
+  scores: RubricScores;
+  generalFeedback: string;
+  status?: GradingStatus;
+  /** Manual grade, only used when no rubric is defined. */
+  grade?: number;
+}
+
+interface TutorGradingViewState {
+  target: TutorGradingTarget;
+  statusOptions: typeof GRADING_STATUS_OPTIONS;
+  draft?: GradingDraft;
+}
+
+export interface TutorGradeSubmittedEvent {
+  memberId: string;
+  courseContentId: string;
+  grade: number;
+  status: GradingStatus;
+}
+
+type NoticeType = 'info' | 'success' | 'warning' | 'error';
+
+const DRAFTS_KEY = 'computor.tutor.gradingDrafts';
+
+export class TutorGradingWebviewProvider extends BaseWebviewProvider {
+  private currentTarget?: TutorGradingTarget;
+  private readonly submittedEmitter = new vscode.EventEmitter<TutorGradeSubmittedEvent>();
+  public readonly onDidSubmitGrade = this.submittedEmitter.event;
+  private readonly closedEmitter = new vscode.EventEmitter<void>();
+  /** Fires when the panel is closed, whether or not a grade was submitted. */
+  public readonly onDidClose = this.closedEmitter.event;
+
+  constructor(context: vscode.ExtensionContext, private readonly apiService: ComputorApiService) {
+    super(context, 'computor.tutor.gradingView');
+  }
+
+  async open(target: TutorGradingTarget): Promise<void> {
+    // Re-create the panel when switching submissions so the form never shows stale input.
+    if (this.panel && this.currentTarget && !this.isSameTarget(this.currentTarget, target)) {
+      this.panel.dispose();
+      this.panel = undefined;
+    }
+    this.currentTarget = target;
+    const state: TutorGradingViewState = {
+      target,
+      statusOptions: GRADING_STATUS_OPTIONS,
+      draft: this.loadDraft(target)
+    };
+    const who = target.memberLabel ? `${target.memberLabel} — ` : '';
+    await this.show(`Grading: ${who}${target.contentTitle}`, state);
+  }
+
+  protected async getWebviewContent(data?: TutorGradingViewState): Promise<string> {
+    if (!this.panel) {
+      return this.getBaseHtml('Grading', '<p>Loading…</p>');
+    }
+    const webview = this.panel.webview;
+    const nonce = this.getNonce();
+    const initialState = JSON.stringify(data ?? null);
+    const componentsCssUri = this.getWebviewUri(webview, 'webview-ui', 'components', 'components.css');
+    const stylesUri = this.getWebviewUri(webview, 'webview-ui', 'tutor-grading.css');
+    const scriptUri = this.getWebviewUri(webview, 'webview-ui', 'tutor-grading.js');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+  <title>Grading</title>
+  <link rel="stylesheet" href="${componentsCssUri}">
+  <link rel="stylesheet" href="${stylesUri}">
+</head>
+<body>
+  <div id="app" class="tutor-grading-root"></div>
+  <script nonce="${nonce}">
+    window.vscodeApi = window.vscodeApi || acquireVsCodeApi();
+    window.__INITIAL_STATE__ = ${initialState};
+  </script>
+  <script nonce="${nonce}" src="${scriptUri}"></script>
+</body>
+</html>`;
+  }
+
+  protected async handleMessage(message: any): Promise<void> {
+    if (!message || !this.currentTarget) {
+      return;
+    }
+    switch (message.command) {
+      case 'saveDraft':
+        await this.saveDraft(this.currentTarget, this.sanitizeDraft(message.data));
+        break;
+      case 'submit':
+        await this.handleSubmit(this.sanitizeDraft(message.data));
+        break;
+      case 'cancel':
+        this.panel?.dispose();
+        break;
+      default:
+        break;
+    }
+  }
+
+  protected override onPanelDisposed(): void {
+    this.currentTarget = undefined;
+    this.closedEmitter.fire();
+  }
+
+  private async handleSubmit(draft: GradingDraft): Promise<void> {
+    const target = this.currentTarget;
+    if (!target) { return; }
+
+    if (draft.status === undefined) {
+      this.postNotice('warning', 'Choose a status before submitting.');
+      return;
+    }
+
+    let grade: number;
+    let feedback: string | undefined;
+    if (target.rubric) {
+      grade = computeRubricGrade(target.rubric, draft.scores);
+      feedback = formatRubricFeedback(target.rubric, draft.scores, draft.generalFeedback);
+    } else {
+      if (draft.grade === undefined) {
+        this.postNotice('warning', 'Enter a grade between 0.00 and 1.00.');
+        return;
+      }
+      grade = Math.round(Math.max(0, Math.min(1, draft.grade)) * 100) / 100;
+      feedback = draft.generalFeedback.trim() || undefined;
+    }
+
+    const payload: TutorGradeCreate = {
+      artifact_id: target.artifactId,
+      grade,
+      status: draft.status,
+      feedback
+    };
+
+    try {
+      this.postBusy(true);
+      await this.apiService.submitTutorGrade(target.memberId, target.courseContentId, payload);
+      await this.deleteDraft(target);
+      const statusLabel = GRADING_STATUS_OPTIONS.find(o => o.value === draft.status)?.label ?? String(draft.status);
+      vscode.window.showInformationMessage(`Updated: ${grade.toFixed(2)} • ${statusLabel}`);
+      this.submittedEmitter.fire({
+        memberId: target.memberId,
+        courseContentId: target.courseContentId,
+        grade,
+        status: draft.status
+      });
+      this.panel?.dispose();
+    } catch (error: any) {
+      const detail = error?.message || String(error);
+      console.error('[TutorGradingWebview] Failed to submit grade:', error);
+      vscode.window.showErrorMessage(`Failed to update grading: ${detail}`);
+      this.postNotice('error', `Failed to update grading: ${detail}`);
+    } finally {
+      this.postBusy(false);
+    }
+  }
+
+  private sanitizeDraft(raw: any): GradingDraft {
+    const scores: RubricScores = {};
+    if (raw?.scores && typeof raw.scores === 'object') {
+      for (const [id, value] of Object.entries(raw.scores as Record<string, any>)) {
+        const points = Number(value?.points);
+        scores[id] = {
+          points: Number.isFinite(points) ? points : 0,
+          comment: typeof value?.comment === 'string' ? value.comment : undefined
+        };
+      }
+    }
+    const status = Number(raw?.status);
+    const grade = raw?.grade === '' || raw?.grade === null || raw?.grade === undefined ? NaN : Number(raw.grade);
+    return {
+      scores,
+      generalFeedback: typeof raw?.generalFeedback === 'string' ? raw.generalFeedback : '',
+      status: GRADING_STATUS_OPTIONS.some(o => o.value === status) ? status as GradingStatus : undefined,
+      grade: Number.isFinite(grade) ? grade : undefined
+    };
+  }
+
+  private draftKey(target: TutorGradingTarget): string {
+    return `${target.memberId}:${target.courseContentId}`;
+  }
+
+  private loadDraft(target: TutorGradingTarget): GradingDraft | undefined {
+    const drafts = this.context.workspaceState.get<Record<string, GradingDraft>>(DRAFTS_KEY) ?? {};
+    return drafts[this.draftKey(target)];
+  }
+
+  private async saveDraft(target: TutorGradingTarget, draft: GradingDraft): Promise<void> {
+    const drafts = { ...(this.context.workspaceState.get<Record<string, GradingDraft>>(DRAFTS_KEY) ?? {}) };
+    drafts[this.draftKey(target)] = draft;
+    await this.context.workspaceState.update(DRAFTS_KEY, drafts);
+  }
+
+  private async deleteDraft(target: TutorGradingTarget): Promise<void> {
+    const drafts = { ...(this.context.workspaceState.get<Record<string, GradingDraft>>(DRAFTS_KEY) ?? {}) };
+    delete drafts[this.draftKey(target)];
+    await this.context.workspaceState.update(DRAFTS_KEY, drafts);
+  }
+
+  private isSameTarget(a: TutorGradingTarget, b: TutorGradingTarget): boolean {
+    return a.memberId === b.memberId && a.courseContentId === b.courseContentId;
+  }
+
+  private postNotice(type: NoticeType, message: string): void {
+    this.panel?.webview.postMessage({ command: 'notice', notice: { type, message } });
+  }
+
+  private postBusy(busy: boolean): void {
+    this.panel?.webview.postMessage({ command: 'setBusy', data: { busy } });
+  }
+}
@@ -0,0 +1,370 @@
+import * as vscode from 'vscode';
+import { BaseWebviewProvider } from './BaseWebviewProvider';
+import { ComputorApiService } from '../../services/ComputorApiService';
+import { extractGraderName } from '../../utils/gradingHelpers';
+import {
+  DistributionStrategy,
+  StoredGroupAssignments,
+  TutorAssignments,
+  WorkloadSubmission,
+  WorkloadSummary,
+  WorkloadTutor,
+  distributeSubmissions,
+  planAssignmentWrites,
+  readTutorAssignments,
+  summarizeWorkload,
+  writeTutorAssignments
+} from '../../utils/tutorWorkload';
+import type { CourseContentStudentList, CourseGroupGet, CourseGroupList, CourseMemberList } from '../../types/generated/courses';
+
+/** Number of per-student or per-group requests issued at once. */
+const loadChunkSize = 10;
+/** Created on request when a course has no group to store assignments of ungrouped students in. */
+const holderGroupTitle = 'Tutor Assignments';
+
+export interface TutorWorkloadTarget {
+  courseId: string;
+  courseTitle: string;
+  courseContentId: string;
+  contentTitle: string;
+}
+
+interface WorkloadSubmissionRow extends WorkloadSubmission {
+  groupTitle?: string;
+  tutorUserId?: string;
+  graderLabel?: string | null;
+}
+
+interface TutorWorkloadViewState {
+  target: TutorWorkloadTarget;
+  tutors: WorkloadTutor[];
+  summary: WorkloadSummary;
+  submissions: WorkloadSubmissionRow[];
+}
+
+interface LoadedWorkload {
+  state: TutorWorkloadViewState;
+  students: CourseMemberList[];
+  groups: CourseGroupList[];
+  assignments: TutorAssignments;
+}
+
+function memberDisplayName(member: CourseMemberList): string {
+  const parts = [member.user?.given_name, member.user?.family_name].filter(Boolean);
+  return parts.length > 0 ? parts.join(' ') : (member.user?.email || member.user?.username || member.id);
+}
+
+/**
+ * Lecturer view of who grades what for one course content: per-tutor pending
+ * and graded counts, and distribution of ungraded submissions across tutors.
+ */
+export class TutorWorkloadWebviewProvider extends BaseWebviewProvider {
+  private loaded?: LoadedWorkload;
+
+  constructor(context: vscode.ExtensionContext, private readonly apiService: ComputorApiService) {
+    super(context, 'computor.tutorWorkload');
+  }
+
+  async open(target: TutorWorkloadTarget): Promise<void> {
+    try {
+      this.loaded = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: `Loading submissions for "${target.contentTitle}"…` },
+        (progress) => this.load(target, progress)
+      );
+      await this.show(`Tutor Workload: ${target.contentTitle}`, this.loaded.state);
+    } catch (error: any) {
+      vscode.window.showErrorMessage(`Failed to load tutor workload: ${error?.response?.data?.detail || error?.message || error}`);
+    }
+  }
+
+  protected async getWebviewContent(data?: TutorWorkloadViewState): Promise<string> {
+    if (!this.panel) {
+      return this.getBaseHtml('Tutor Workload', '<p>Loading…</p>');
+    }
+
+    const webview = this.panel.webview;
+    const nonce = this.getNonce();
+    const initialState = JSON.stringify(data ?? null);
+    const componentsCssUri = this.getWebviewUri(webview, 'webview-ui', 'components', 'components.css');
+    const stylesUri = this.getWebviewUri(webview, 'webview-ui', 'tutor-workload.css');
+    const scriptUri = this.getWebviewUri(webview, 'webview-ui', 'tutor-workload.js');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+  <title>Tutor Workload</title>
+  <link rel="stylesheet" href="${componentsCssUri}">
+  <link rel="stylesheet" href="${stylesUri}">
+</head>
+<body>
+  <div id="app" class="tutor-workload-root"></div>
+  <script nonce="${nonce}">
+    window.vscodeApi = window.vscodeApi || acquireVsCodeApi();
+    window.__INITIAL_STATE__ = ${initialState};
+  </script>
+  <script nonce="${nonce}" src="${scriptUri}"></script>
+</body>
+</html>`;
+  }
+
+  protected async handleMessage(message: any): Promise<void> {
+    if (!message || !this.loaded) {
+      return;
+    }
+    switch (message.command) {
+      case 'refresh':
+        await this.reload();
+        break;
+      case 'distribute':
+        await this.distribute(message.data?.strategy, message.data?.reassign === true);
+        break;
+      case 'assign':
+        if (typeof message.data?.courseMemberId === 'string') {
+          await this.assign(message.data.courseMemberId, message.data.tutorUserId || undefined);
+        }
+        break;
+      default:
+        break;
+    }
+  }
+
+  private async load(
+    target: TutorWorkloadTarget,
+    progress: vscode.Progress<{ message?: string; increment?: number }>
+  ): Promise<LoadedWorkload> {
+    const members = await this.apiService.getCourseMembers(target.courseId);
+    const students = members.filter(m => m.course_role_id === '_student');
+    const tutors: WorkloadTutor[] = members
+      .filter(m => m.course_role_id === '_tutor')
+      .map(m => ({ userId: m.user_id, name: memberDisplayName(m), courseGroupId: m.course_group_id ?? null }));
+
+    const groups = await this.apiService.getCourseGroups(target.courseId);
+    const groupTitles = new Map(groups.map(group => [group.id, group.title || group.id]));
+    const assignments: TutorAssignments = {};
+    for (const stored of (await this.readGroups(groups, target.courseContentId)).stored) {
+      Object.assign(assignments, stored.assignments);
+    }
+
+    const submissions: WorkloadSubmissionRow[] = [];
+    for (let start = 0; start < students.length; start += loadChunkSize) {
+      const chunk = students.slice(start, start + loadChunkSize);
+      progress.report({ message: `${Math.min(start + loadChunkSize, students.length)}/${students.length} students` });
+      const contents: Array<CourseContentStudentList | undefined> = await Promise.all(
+        chunk.map(student => this.apiService.getTutorMemberCourseContent(student.id, target.courseContentId))
+      );
+      chunk.forEach((student, index) => {
+        const content = contents[index];
+        if (!content || (content.submission_count ?? 0) === 0) {
+          return;
+        }
+        const submissionGroup = content.submission_group;
+        const graderUserId = submissionGroup?.graded_by_course_member?.user_id ?? null;
+        const graderName = extractGraderName(submissionGroup);
+        submissions.push({
+          courseMemberId: student.id,
+          name: memberDisplayName(student),
+          courseGroupId: student.course_group_id ?? null,
+          groupTitle: student.course_group_id ? groupTitles.get(student.course_group_id) : undefined,
+          pending: (content.unreviewed_count ?? 0) > 0,
+          graded: !!graderUserId || !!graderName,
+          graderUserId,
+          graderName,
+          graderLabel: graderUserId ? tutors.find(t => t.userId === graderUserId)?.name ?? graderName : graderName,
+          tutorUserId: assignments[student.id]
+        });
+      });
+    }
+    submissions.sort((a, b) => a.name.localeCompare(b.name));
+
+    return {
+      students,
+      groups,
+      assignments,
+      state: {
+        target,
+        tutors,
+        summary: summarizeWorkload(submissions, tutors, assignments),
+        submissions
+      }
+    };
+  }
+
+  /** Reads the course groups with their properties, a few at a time and bypassing the cache. */
+  private async readGroups(
+    groups: readonly CourseGroupList[],
+    courseContentId: string
+  ): Promise<{ details: Map<string, CourseGroupGet | undefined>; stored: StoredGroupAssignments[] }> {
+    const details = new Map<string, CourseGroupGet | undefined>();
+    for (let start = 0; start < groups.length; start += loadChunkSize) {
+      const chunk = groups.slice(start, start + loadChunkSize);
+      const loaded = await Promise.all(chunk.map(group => this.apiService.getCourseGroup(group.id, { force: true })));
+      chunk.forEach((group, index) => details.set(group.id, loaded[index]));
+    }
+    const stored = groups.map(group => ({
+      groupId: group.id,
+      assignments: readTutorAssignments(details.get(group.id)?.properties, courseContentId)
+    }));
+    return { details, stored };
+  }
+
+  private async reload(): Promise<void> {
+    if (!this.loaded || !this.panel) {
+      return;
+    }
+    const target = this.loaded.state.target;
+    try {
+      this.loaded = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: `Loading submissions for "${target.contentTitle}"…` },
+        (progress) => this.load(target, progress)
+      );
+    } catch (error: any) {
+      vscode.window.showErrorMessage(`Failed to load tutor workload: ${error?.response?.data?.detail || error?.message || error}`);
+    }
+    this.postState();
+  }
+
+  /** Also re-enables the controls the webview disabled while waiting. */
+  private postState(): void {
+    if (!this.loaded || !this.panel) {
+      return;
+    }
+    this.currentData = this.loaded.state;
+    this.panel.webview.postMessage({ command: 'updateState', data: this.loaded.state });
+  }
+
+  private async distribute(strategy: DistributionStrategy, reassign: boolean): Promise<void> {
+    const loaded = this.loaded!;
+    if (!['byGroup', 'roundRobin', 'loadBalanced'].includes(strategy)) {
+      this.postState();
+      return;
+    }
+    if (loaded.state.tutors.length === 0) {
+      this.postState();
+      vscode.window.showWarningMessage('This course has no tutors to distribute submissions to.');
+      return;
+    }
+
+    const result = distributeSubmissions(loaded.state.submissions, loaded.state.tutors, strategy, loaded.assignments, { reassign });
+    if (result.assigned.length === 0) {
+      this.postState();
+      vscode.window.showInformationMessage(result.unassignable.length > 0
+        ? `No tutor could take the ${result.unassignable.length} remaining submission(s).`
+        : 'Every ungraded submission already has a tutor.');
+      return;
+    }
+
+    if (await this.save(result.assignments)) {
+      const note = result.unassignable.length > 0
+        ? ` ${result.unassignable.length} could not be assigned (no tutor in their course group).`
+        : '';
+      vscode.window.showInformationMessage(`Assigned ${result.assigned.length} submission(s) to tutors.${note}`);
+    }
+  }
+
+  private async assign(courseMemberId: string, tutorUserId: string | undefined): Promise<void> {
+    const assignments = { ...this.loaded!.assignments };
+    if (tutorUserId) {
+      assignments[courseMemberId] = tutorUserId;
+    } else {
+      delete assignments[courseMemberId];
+    }
+    await this.save(assignments);
+  }
+
+  /**
+   * Writes the changed assignments to the course groups that hold them and
+   * updates the view in place; only a failed write reloads everything.
+   */
+  private async save(assignments: TutorAssignments): Promise<boolean> {
+    const loaded = this.loaded!;
+    const contentId = loaded.state.target.courseContentId;
+    const studentGroups = new Map(loaded.students.map(s => [s.id, s.course_group_id ?? null]));
+    const changes = [...new Set([...Object.keys(assignments), ...Object.keys(loaded.assignments)])]
+      .filter(memberId => assignments[memberId] !== loaded.assignments[memberId])
+      .map(memberId => ({ courseMemberId: memberId, courseGroupId: studentGroups.get(memberId), tutorUserId: assignments[memberId] }));
+    if (changes.length === 0) {
+      this.postState();
+      return true;
+    }
+
+    let groups = loaded.groups;
+    if (groups.length === 0 && changes.some(change => !change.courseGroupId && change.tutorUserId)) {
+      const choice = await vscode.window.showWarningMessage(
+        `Tutor assignments are stored on course groups, and this course has none. Create a course group "${holderGroupTitle}" to hold the assignments of students without a group?`,
+        { modal: true },
+        'Create Group'
+      );
+      if (choice === 'Create Group') {
+        try {
+          const created = await this.apiService.createCourseGroup(loaded.state.target.courseId, holderGroupTitle);
+          groups = [{ id: created.id, title: created.title, course_id: created.course_id }];
+          loaded.groups = groups;
+        } catch (error: any) {
+          vscode.window.showErrorMessage(`Failed to create course group: ${error?.response?.data?.detail || error?.message || error}`);
+        }
+      }
+    }
+
+    const failures: string[] = [];
+    let unstorable: string[] = [];
+    try {
+      // Re-read so concurrent edits to other contents or keys are kept
+      const { details, stored } = await this.readGroups(groups, contentId);
+      // New ungrouped students join the group that already holds ungrouped ones, else the first by title
+      const fallbackGroupId = stored.find(group => Object.keys(group.assignments).some(memberId => studentGroups.get(memberId) === null))?.groupId
+        ?? [...groups].sort((a, b) => (a.title || a.id).localeCompare(b.title || b.id))[0]?.id;
+      const plan = planAssignmentWrites(stored, changes, fallbackGroupId);
+      unstorable = plan.unstorable;
+      for (const [groupId, next] of plan.writes) {
+        try {
+          const group = details.get(groupId);
+          if (!group) {
+            // Writing without the current properties would drop the group's other keys
+            throw new Error('The course group could not be loaded.');
+          }
+          await this.apiService.updateCourseGroup(groupId, {
+            properties: writeTutorAssignments(group.properties, contentId, next)
+          });
+        } catch (error: any) {
+          const title = groups.find(group => group.id === groupId)?.title || groupId;
+          failures.push(`${title}: ${error?.response?.data?.detail || error?.message || String(error)}`);
+        }
+      }
+    } catch (error: any) {
+      failures.push(error?.response?.data?.detail || error?.message || String(error));
+    }
+
+    if (failures.length > 0) {
+      await this.reload();
+      vscode.window.showWarningMessage(
+        'Failed to save some tutor assignments.',
+        { modal: true, detail: failures.join('\n') }
+      );
+      return false;
+    }
+
+    const saved = { ...assignments };
+    unstorable.forEach(memberId => delete saved[memberId]);
+    this.applyAssignments(saved);
+    if (unstorable.length > 0) {
+      vscode.window.showWarningMessage(`${unstorable.length} student(s) without a course group were not assigned: the course has no group to store the assignment in.`);
+      return false;
+    }
+    return true;
+  }
+
+  private applyAssignments(assignments: TutorAssignments): void {
+    const loaded = this.loaded!;
+    const submissions = loaded.state.submissions.map(submission => ({ ...submission, tutorUserId: assignments[submission.courseMemberId] }));
+    loaded.assignments = assignments;
+    loaded.state = {
+      ...loaded.state,
+      submissions,
+      summary: summarizeWorkload(submissions, loaded.state.tutors, assignments)
+    };
+    this.postState();
+  }
+}
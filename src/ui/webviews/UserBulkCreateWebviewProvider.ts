@@ -0,0 +1,237 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { BaseWebviewProvider } from './BaseWebviewProvider';
+import { ComputorApiService } from '../../services/ComputorApiService';
+import { UserManagerTreeProvider } from '../tree/user-manager/UserManagerTreeProvider';
+import { CourseMemberCsvParser } from '../../utils/parsers/CourseMemberCsvParser';
+import { BulkUserRow, bulkUserReportToCsv, readBulkUserRows } from '../../utils/userBulk';
+
+interface UserBulkCreateViewState {
+  fileName: string;
+  rows: BulkUserRow[];
+  creating: boolean;
+}
+
+/**
+ * Creates users from a CSV file: a preview of every row, creation one row at
+ * a time with the result next to it, and a CSV report of all rows afterwards.
+ */
+export class UserBulkCreateWebviewProvider extends BaseWebviewProvider {
+  private state?: UserBulkCreateViewState;
+  private sourcePath?: string;
+
+  constructor(
+    context: vscode.ExtensionContext,
+    private readonly apiService: ComputorApiService,
+    private readonly treeProvider: UserManagerTreeProvider
+  ) {
+    super(context, 'computor.usermanager.bulkCreateUsers');
+  }
+
+  /** Asks for a CSV file and shows its rows. */
+  async open(): Promise<void> {
+    if (this.state?.creating) {
+      if (this.panel) {
+        this.panel.reveal();
+      } else {
+        vscode.window.showInformationMessage('Users from the previous file are still being created.');
+      }
+      return;
+    }
+    const uris = await vscode.window.showOpenDialog({
+      canSelectMany: false,
+      filters: { 'CSV': ['csv', 'txt'] },
+      openLabel: 'Load Users'
+    });
+    const uri = uris?.[0];
+    if (!uri) {
+      return;
+    }
+
+    try {
+      const rows = await this.loadRows(uri.fsPath);
+      this.sourcePath = uri.fsPath;
+      this.state = { fileName: path.basename(uri.fsPath), rows, creating: false };
+      await this.show(`Bulk Create Users: ${this.state.fileName}`, this.state);
+    } catch (error: any) {
+      vscode.window.showErrorMessage(`Failed to read users from file: ${error?.message || error}`);
+    }
+  }
+
+  protected async getWebviewContent(data?: UserBulkCreateViewState): Promise<string> {
+    if (!this.panel) {
+      return this.getBaseHtml('Bulk Create Users', '<p>Loading…</p>');
+    }
+
+    const webview = this.panel.webview;
+    const nonce = this.getNonce();
+    const initialState = JSON.stringify(data ?? {});
+    const componentsCssUri = this.getWebviewUri(webview, 'webview-ui', 'components', 'components.css');
+    const stylesUri = this.getWebviewUri(webview, 'webview-ui', 'user-bulk-create.css');
+    const scriptUri = this.getWebviewUri(webview, 'webview-ui', 'user-bulk-create.js');
+
+    return `<!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+      <title>Bulk Create Users</title>
+      <link rel="stylesheet" href="${componentsCssUri}">
+      <link rel="stylesheet" href="${stylesUri}">
+    </head>
+    <body>
+      <div id="app"></div>
+      <script nonce="${nonce}">
+        window.vscodeApi = window.vscodeApi || acquireVsCodeApi();
+        window.__INITIAL_STATE__ = ${initialState};
+      </script>
+      <script nonce="${nonce}" src="${scriptUri}"></script>
+    </body>
+    </html>`;
+  }
+
+  protected async handleMessage(message: any): Promise<void> {
+    if (!message) {
+      return;
+    }
+
+    switch (message.command) {
+      case 'createUsers':
+        await this.createUsers();
+        break;
+      case 'reloadFile':
+        await this.reloadFile();
+        break;
+      case 'pickFile':
+        await this.open();
+        break;
+      case 'downloadReport':
+        await this.downloadReport();
+        break;
+      default:
+        break;
+    }
+  }
+
+  private async loadRows(filePath: string): Promise<BulkUserRow[]> {
+    const content = await fs.promises.readFile(filePath, 'utf8');
+    const table = new CourseMemberCsvParser().readTable(content);
+    const [users, roles] = await Promise.all([
+      this.apiService.getUsers({ force: true }),
+      this.apiService.listRoles().catch(() => undefined)
+    ]);
+    return readBulkUserRows(table, users || [], roles ? new Set(roles.map(role => role.id)) : undefined);
+  }
+
+  /** Re-reads the file, e.g. after fixing invalid rows in an editor. */
+  private async reloadFile(): Promise<void> {
+    if (!this.state || !this.sourcePath || this.state.creating) {
+      return;
+    }
+    try {
+      this.state.rows = await this.loadRows(this.sourcePath);
+      this.postRows();
+    } catch (error: any) {
+      vscode.window.showErrorMessage(`Failed to read users from file: ${error?.message || error}`);
+    }
+  }
+
+  private async createUsers(): Promise<void> {
+    const state = this.state;
+    if (!state || state.creating) {
+      return;
+    }
+    const pending = state.rows.filter(row => row.status === 'ready');
+    if (pending.length === 0) {
+      vscode.window.showInformationMessage('No rows are ready to be created.');
+      return;
+    }
+
+    state.creating = true;
+    this.postRows();
+    try {
+      for (const row of pending) {
+        await this.createUser(row);
+        this.postRows();
+      }
+    } finally {
+      state.creating = false;
+      this.postRows();
+      this.treeProvider.refresh();
+    }
+
+    const created = pending.filter(row => row.status === 'created').length;
+    const summary = `Created ${created} of ${pending.length} user${pending.length === 1 ? '' : 's'}.`;
+    const action = created === pending.length
+      ? await vscode.window.showInformationMessage(summary, 'Download Report')
+      : await vscode.window.showWarningMessage(summary, 'Download Report');
+    if (action === 'Download Report') {
+      await this.downloadReport();
+    }
+  }
+
+  /** Creates one user and assigns its roles; a failed role assignment keeps the user. */
+  private async createUser(row: BulkUserRow): Promise<void> {
+    try {
+      const created = await this.apiService.createUser({
+        username: row.username,
+        email: row.email,
+        given_name: row.given_name || null,
+        family_name: row.family_name || null
+      });
+      row.status = 'created';
+      row.userId = created.id;
+      row.message = undefined;
+    } catch (error: any) {
+      row.status = 'failed';
+      row.message = error?.response?.data?.detail || error?.message || String(error);
+      return;
+    }
+
+    const roleErrors: string[] = [];
+    for (const roleId of row.roles) {
+      try {
+        await this.apiService.assignUserRole(row.userId!, roleId);
+      } catch (error: any) {
+        roleErrors.push(`role "${roleId}" not assigned: ${error?.response?.data?.detail || error?.message || String(error)}`);
+      }
+    }
+    if (roleErrors.length > 0) {
+      row.message = roleErrors.join('; ');
+    }
+  }
+
+  private async downloadReport(): Promise<void> {
+    if (!this.state) {
+      return;
+    }
+    const baseName = path.basename(this.state.fileName, path.extname(this.state.fileName));
+    const target = await vscode.window.showSaveDialog({
+      defaultUri: this.sourcePath ? vscode.Uri.file(path.join(path.dirname(this.sourcePath), `${baseName}-report.csv`)) : undefined,
+      filters: { 'CSV': ['csv'] },
+      saveLabel: 'Save Report'
+    });
+    if (!target) {
+      return;
+    }
+    try {
+      await fs.promises.writeFile(target.fsPath, bulkUserReportToCsv(this.state.rows));
+      const action = await vscode.window.showInformationMessage(`Report saved to ${path.basename(target.fsPath)}.`, 'Reveal File');
+      if (action === 'Reveal File') {
+        await vscode.commands.executeCommand('revealFileInOS', target);
+      }
+    } catch (error: any) {
+      vscode.window.showErrorMessage(`Failed to save report: ${error?.message || error}`);
+    }
+  }
+
+  private postRows(): void {
+    if (!this.state) {
+      return;
+    }
+    this.currentData = this.state;
+    this.panel?.webview.postMessage({ command: 'updateState', data: this.state });
+  }
+}
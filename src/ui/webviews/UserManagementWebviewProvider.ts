@@ -118,6 +118,11 @@ export class UserManagementWebviewProvider extends BaseWebviewProvider {
       case 'revokeRole':
         await this.handleRevokeRole(message.data);
         break;
+      case 'inspectPermissions':
+        if (this.currentUserId) {
+          await vscode.commands.executeCommand('computor.permissions.inspect', this.currentUserId);
+        }
+        break;
       default:
         break;
     }
@@ -0,0 +1,246 @@
+import * as vscode from 'vscode';
+import { BaseWebviewProvider } from './BaseWebviewProvider';
+import { ComputorApiService } from '../../services/ComputorApiService';
+import type { CourseContentList, CourseDeploymentList, ExampleDownloadResponse } from '../../types/generated';
+import type { ExampleDiff } from '../../utils/exampleDiffHelper';
+import { SubmittedAgainstVersion, countSubmittedAgainstVersion, diffStudentFiles } from '../../utils/versionUpgradeImpact';
+
+export interface VersionUpgradePreviewTarget {
+  courseId: string;
+  scopeLabel?: string;
+  items: Array<{ content: CourseContentList; deployment: CourseDeploymentList }>;
+}
+
+interface VersionUpgradePreviewRow {
+  courseContentId: string;
+  title: string;
+  path: string;
+  exampleIdentifier?: string | null;
+  fromTag?: string | null;
+  toTag?: string | null;
+  /** Undefined when a version could not be downloaded. */
+  studentFiles?: ExampleDiff;
+  /** Undefined when the submissions could not be loaded. */
+  submitted?: SubmittedAgainstVersion;
+  /** Set after the batch ran. */
+  result?: { success: boolean; error?: string | null };
+}
+
+interface VersionUpgradePreviewState {
+  scopeLabel?: string;
+  rows: VersionUpgradePreviewRow[];
+  running: boolean;
+  summary?: string;
+}
+
+/**
+ * Preview of a batch example version upgrade: per course content the old and
+ * new version, the student template files that change and how many students
+ * already submitted against the deployed version. The lecturer deselects
+ * contents and runs the upgrade from the panel.
+ */
+export class VersionUpgradePreviewWebviewProvider extends BaseWebviewProvider {
+  private target?: VersionUpgradePreviewTarget;
+  private state?: VersionUpgradePreviewState;
+  private onUpgraded?: (courseId: string) => Promise<void>;
+
+  constructor(context: vscode.ExtensionContext, private readonly apiService: ComputorApiService) {
+    super(context, 'computor.versionUpgradePreview');
+  }
+
+  async open(target: VersionUpgradePreviewTarget, onUpgraded: (courseId: string) => Promise<void>): Promise<void> {
+    const rows = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: 'Preparing upgrade preview',
+        cancellable: true
+      },
+      (progress, token) => this.buildRows(target, progress, token)
+    );
+    if (!rows) {
+      return;
+    }
+    if (this.panel) {
+      this.panel.dispose();
+      this.panel = undefined;
+    }
+    this.target = target;
+    this.onUpgraded = onUpgraded;
+    this.state = { scopeLabel: target.scopeLabel, rows, running: false };
+    await this.show(`Upgrade Preview${target.scopeLabel ? `: ${target.scopeLabel}` : ''}`, this.state);
+  }
+
+  protected async getWebviewContent(data?: VersionUpgradePreviewState): Promise<string> {
+    if (!this.panel) {
+      return this.getBaseHtml('Upgrade Preview', '<p>Loading…</p>');
+    }
+    const webview = this.panel.webview;
+    const nonce = this.getNonce();
+    const initialState = JSON.stringify(data ?? null);
+    const componentsCssUri = this.getWebviewUri(webview, 'webview-ui', 'components', 'components.css');
+    const stylesUri = this.getWebviewUri(webview, 'webview-ui', 'version-upgrade-preview.css');
+    const scriptUri = this.getWebviewUri(webview, 'webview-ui', 'version-upgrade-preview.js');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+  <title>Upgrade Preview</title>
+  <link rel="stylesheet" href="${componentsCssUri}">
+  <link rel="stylesheet" href="${stylesUri}">
+</head>
+<body>
+  <div id="app" class="upgrade-root"></div>
+  <script nonce="${nonce}">
+    window.vscodeApi = window.vscodeApi || acquireVsCodeApi();
+    window.__INITIAL_STATE__ = ${initialState};
+  </script>
+  <script nonce="${nonce}" src="${scriptUri}"></script>
+</body>
+</html>`;
+  }
+
+  protected async handleMessage(message: any): Promise<void> {
+    if (!message) {
+      return;
+    }
+    switch (message.command) {
+      case 'upgrade':
+        await this.runUpgrade(Array.isArray(message.data?.courseContentIds) ? message.data.courseContentIds.map(String) : []);
+        break;
+      case 'close':
+        this.panel?.dispose();
+        break;
+      default:
+        break;
+    }
+  }
+
+  protected override onPanelDisposed(): void {
+    this.target = undefined;
+    this.state = undefined;
+    this.onUpgraded = undefined;
+  }
+
+  private async buildRows(
+    target: VersionUpgradePreviewTarget,
+    progress: vscode.Progress<{ message?: string; increment?: number }>,
+    token: vscode.CancellationToken
+  ): Promise<VersionUpgradePreviewRow[] | undefined> {
+    const downloads = new Map<string, Promise<ExampleDownloadResponse | undefined>>();
+    const download = (versionId: string | undefined) => {
+      if (!versionId) {
+        return Promise.resolve(undefined);
+      }
+      if (!downloads.has(versionId)) {
+        downloads.set(versionId, this.apiService.downloadExampleVersion(versionId));
+      }
+      return downloads.get(versionId)!;
+    };
+
+    const rows: VersionUpgradePreviewRow[] = [];
+    const step = 100 / Math.max(target.items.length, 1);
+    for (const { content, deployment } of target.items) {
+      if (token.isCancellationRequested) {
+        return undefined;
+      }
+      const title = content.title || content.path;
+      progress.report({ message: title, increment: step });
+
+      let studentFiles: ExampleDiff | undefined;
+      try {
+        const versions = deployment.example_id ? await this.apiService.getExampleVersions(deployment.example_id) : [];
+        const idOf = (tag?: string | null) => versions.find(version => version.version_tag === tag)?.id;
+        const [current, next] = await Promise.all([
+          download(idOf(deployment.version_tag)),
+          download(idOf(deployment.latest_version_tag))
+        ]);
+        if (current && next) {
+          studentFiles = diffStudentFiles(current, next);
+        }
+      } catch (error) {
+        console.warn(`[UpgradePreview] Could not compare versions of ${title}:`, error);
+      }
+
+      let submitted: SubmittedAgainstVersion | undefined;
+      try {
+        const groups = await this.apiService.getTutorSubmissionGroups({
+          course_id: target.courseId,
+          course_content_id: content.id,
+          has_submissions: true
+        }, { throwOnError: true });
+        submitted = countSubmittedAgainstVersion(groups, deployment.deployed_at);
+      } catch (error) {
+        console.warn(`[UpgradePreview] Could not load submissions of ${title}:`, error);
+      }
+
+      rows.push({
+        courseContentId: content.id,
+        title,
+        path: content.path,
+        exampleIdentifier: deployment.example_identifier,
+        fromTag: deployment.version_tag,
+        toTag: deployment.latest_version_tag,
+        studentFiles,
+        submitted
+      });
+    }
+    return rows;
+  }
+
+  private async runUpgrade(courseContentIds: string[]): Promise<void> {
+    if (!this.target || !this.state || this.state.running) {
+      return;
+    }
+    const selected = courseContentIds.filter(id => this.state!.rows.some(row => row.courseContentId === id && !row.result));
+    if (selected.length === 0) {
+      vscode.window.showInformationMessage('Select at least one assignment to upgrade.');
+      return;
+    }
+    const target = this.target;
+    const state = this.state;
+    state.running = true;
+    await this.postState();
+
+    try {
+      const result = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: 'Updating example versions...',
+        cancellable: false
+      }, () => this.apiService.lecturerBatchUpgradeVersions(target.courseId, selected));
+
+      for (const item of result.results) {
+        const row = state.rows.find(candidate => candidate.courseContentId === item.course_content_id);
+        if (row) {
+          row.result = { success: item.success, error: item.error };
+        }
+      }
+      state.summary = `Updated ${result.total_upgraded} assignment(s)`
+        + (result.total_skipped > 0 ? `, ${result.total_skipped} already up to date` : '')
+        + (result.total_failed > 0 ? `, ${result.total_failed} failed` : '')
+        + '.';
+      if (result.total_failed === 0) {
+        vscode.window.showInformationMessage(`Updated ${result.total_upgraded} assignment(s) to latest example versions.`);
+      } else {
+        vscode.window.showWarningMessage(`Updated ${result.total_upgraded} assignment(s), ${result.total_failed} failed.`);
+      }
+      await this.onUpgraded?.(target.courseId);
+    } catch (error: any) {
+      console.error('Failed to batch update example versions:', error);
+      const errorMessage = error?.response?.data?.detail || error.message || 'Unknown error';
+      vscode.window.showErrorMessage(`Failed to update example versions: ${errorMessage}`);
+    } finally {
+      state.running = false;
+      await this.postState();
+    }
+  }
+
+  private async postState(): Promise<void> {
+    if (this.panel && this.state) {
+      this.currentData = this.state;
+      await this.panel.webview.postMessage({ command: 'update', data: this.state });
+    }
+  }
+}
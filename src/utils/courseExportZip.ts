@@ -2,14 +2,14 @@ import * as fs from 'fs';
 import * as path from 'path';
 import JSZip from 'jszip';
 import { shouldExcludeExampleEntry } from './exampleExcludePatterns';
-import { buildStudentRepoRoot } from './repositoryNaming';
 import type { CourseContentStudentList } from '../types/generated';
 
 export type CourseExportFormat = 'flat' | 'tree';
 
 export interface CourseExportInput {
   contents: CourseContentStudentList[];
-  workspaceRoot: string;
+  /** Directory holding the course's student repositories (see WorkspaceStructureManager). */
+  studentRoot: string;
   format: CourseExportFormat;
 }
 
@@ -41,12 +41,12 @@ export function sanitizeContentDirName(raw: string | null | undefined): string {
  *  `submission_group.repository.full_path` into the local repo directory. */
 function repoRootFor(
   content: CourseContentStudentList,
-  workspaceRoot: string
+  studentRoot: string
 ): string | undefined {
   const fullPath = content.submission_group?.repository?.full_path;
   if (!fullPath) { return undefined; }
   const dirName = fullPath.replace(/\//g, '.');
-  return buildStudentRepoRoot(workspaceRoot, dirName);
+  return path.join(studentRoot, dirName);
 }
 
 /** Mirrors StudentCourseContentTreeProvider's `resolvePath` helper used to
@@ -55,9 +55,9 @@ function repoRootFor(
  *  we fall back to repoRoot itself. */
 function localAssignmentPath(
   content: CourseContentStudentList,
-  workspaceRoot: string
+  studentRoot: string
 ): string | undefined {
-  const repoRoot = repoRootFor(content, workspaceRoot);
+  const repoRoot = repoRootFor(content, studentRoot);
   if (!repoRoot) { return undefined; }
   const directory = (content as any)?.directory as string | undefined;
   if (!directory) { return repoRoot; }
@@ -133,7 +133,7 @@ export async function buildCourseExportZip(input: CourseExportInput): Promise<Co
     // mirror that — pure unit folders aren't exportable.
     if (!content.submission_group) { continue; }
 
-    const sourcePath = localAssignmentPath(content, input.workspaceRoot);
+    const sourcePath = localAssignmentPath(content, input.studentRoot);
     if (!sourcePath) { continue; }
     probedPaths.push(sourcePath);
 
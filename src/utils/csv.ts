@@ -0,0 +1,23 @@
+/**
+ * CSV output shared by the exports and reports.
+ */
+
+/** Leading characters that make Excel and other spreadsheets evaluate a cell as a formula. */
+const formulaPrefix = /^[=+\-@\t\r]/;
+
+/**
+ * Quotes a cell where needed. Text that would run as a formula (e.g. a name
+ * starting with `=`) is prefixed with `'` so it is shown as typed; numbers
+ * are written as they are.
+ */
+export function escapeCsvValue(value: string | number): string {
+  const text = typeof value === 'string' && formulaPrefix.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Rows as CSV with CRLF line endings. */
+export function toCsv(rows: readonly (readonly (string | number)[])[]): string {
+  const lines = rows.map(row => row.map(escapeCsvValue).join(','));
+  // BOM so Excel picks UTF-8 for names with umlauts
+  return '\ufeff' + lines.join('\r\n') + '\r\n';
+}
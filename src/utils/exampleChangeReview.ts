@@ -0,0 +1,271 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ExampleDiff, computeExampleDiff } from './exampleDiffHelper';
+import type { BumpPart } from './versionHelpers';
+
+export type ChangeKind = 'added' | 'removed' | 'changed';
+
+export interface MetaFieldChange {
+  /** Dotted path of the field, e.g. `properties.studentSubmissionFiles`. */
+  field: string;
+  kind: ChangeKind;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface TestCaseChange {
+  collection: string;
+  /** Name of the test case; undefined when the whole collection (or its settings) changed. */
+  test?: string;
+  kind: ChangeKind;
+}
+
+export interface SemanticExampleDiff {
+  meta: MetaFieldChange[];
+  tests: TestCaseChange[];
+  /** Files other than meta.yaml, test.yaml and the changelog. */
+  files: ExampleDiff;
+}
+
+export interface BumpSuggestion {
+  part: BumpPart;
+  /** Short explanation, e.g. "test cases changed → minor". */
+  reason: string;
+}
+
+/** Changelog kept in the example directory, so every uploaded version carries its history. */
+export const changelogFileName = 'CHANGELOG.md';
+
+/** Properties that change what students hand in; editing them breaks existing submissions. */
+const submissionContractFields = ['properties.studentSubmissionFiles', 'properties.studentTemplates'];
+const reviewedSeparately = new Set(['meta.yaml', 'test.yaml', changelogFileName]);
+
+/** Field-level changes between two meta.yaml documents. The version itself is ignored. */
+export function diffMetaYaml(before: unknown, after: unknown): MetaFieldChange[] {
+  const left = flattenFields(before);
+  const right = flattenFields(after);
+  left.delete('version');
+  right.delete('version');
+
+  const changes: MetaFieldChange[] = [];
+  for (const [field, value] of right) {
+    if (!left.has(field)) {
+      changes.push({ field, kind: 'added', after: value });
+    } else if (!sameValue(left.get(field), value)) {
+      changes.push({ field, kind: 'changed', before: left.get(field), after: value });
+    }
+  }
+  for (const [field, value] of left) {
+    if (!right.has(field)) {
+      changes.push({ field, kind: 'removed', before: value });
+    }
+  }
+  return changes.sort((a, b) => a.field.localeCompare(b.field));
+}
+
+/**
+ * Test case changes between two test.yaml documents. Collections are matched
+ * by name (falling back to type and position) and test cases by name within
+ * their collection.
+ */
+export function diffTestYaml(before: unknown, after: unknown): TestCaseChange[] {
+  const left = keyedCollections(before);
+  const right = keyedCollections(after);
+  const changes: TestCaseChange[] = [];
+
+  for (const [collection, current] of right) {
+    const previous = left.get(collection);
+    if (!previous) {
+      changes.push({ collection, kind: 'added' });
+      continue;
+    }
+    if (!sameValue(withoutTests(previous), withoutTests(current))) {
+      changes.push({ collection, kind: 'changed' });
+    }
+    const previousTests = keyedTests(previous);
+    const currentTests = keyedTests(current);
+    for (const [test, value] of currentTests) {
+      if (!previousTests.has(test)) {
+        changes.push({ collection, test, kind: 'added' });
+      } else if (!sameValue(previousTests.get(test), value)) {
+        changes.push({ collection, test, kind: 'changed' });
+      }
+    }
+    for (const test of previousTests.keys()) {
+      if (!currentTests.has(test)) {
+        changes.push({ collection, test, kind: 'removed' });
+      }
+    }
+  }
+  for (const collection of left.keys()) {
+    if (!right.has(collection)) {
+      changes.push({ collection, kind: 'removed' });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Compares an example against a reference snapshot (`leftDir`, usually the
+ * last uploaded version) the way a reviewer would read it: meta.yaml fields,
+ * test.yaml test cases and the remaining files.
+ */
+export function computeSemanticExampleDiff(leftDir: string, rightDir: string): SemanticExampleDiff {
+  const files = computeExampleDiff(leftDir, rightDir);
+  const keep = (file: string) => !reviewedSeparately.has(file.replace(/\\/g, '/'));
+  return {
+    meta: diffMetaYaml(readYamlFile(leftDir, 'meta.yaml'), readYamlFile(rightDir, 'meta.yaml')),
+    tests: diffTestYaml(readYamlFile(leftDir, 'test.yaml'), readYamlFile(rightDir, 'test.yaml')),
+    files: {
+      modified: files.modified.filter(keep),
+      added: files.added.filter(keep),
+      removed: files.removed.filter(keep)
+    }
+  };
+}
+
+export function isSemanticDiffEmpty(diff: SemanticExampleDiff): boolean {
+  return diff.meta.length === 0 && diff.tests.length === 0
+    && diff.files.modified.length + diff.files.added.length + diff.files.removed.length === 0;
+}
+
+/**
+ * Suggests the version part to bump: removing tests, files or changing what
+ * students submit is breaking (major); new or changed test cases, new files
+ * and other property changes are features (minor); everything else, such as
+ * wording or solution fixes, is a patch.
+ */
+export function suggestVersionBump(diff: SemanticExampleDiff): BumpSuggestion {
+  if (diff.meta.some(change => submissionContractFields.some(field => change.field === field || change.field.startsWith(`${field}.`)))) {
+    return { part: 'major', reason: 'submission files changed → major' };
+  }
+  if (diff.tests.some(change => change.kind === 'removed')) {
+    return { part: 'major', reason: 'test cases removed → major' };
+  }
+  if (diff.files.removed.length > 0) {
+    return { part: 'major', reason: 'files removed → major' };
+  }
+  if (diff.tests.length > 0) {
+    return { part: 'minor', reason: 'test cases changed → minor' };
+  }
+  if (diff.files.added.length > 0) {
+    return { part: 'minor', reason: 'files added → minor' };
+  }
+  if (diff.meta.some(change => change.field.startsWith('properties.') || change.field === 'testDependencies')) {
+    return { part: 'minor', reason: 'example properties changed → minor' };
+  }
+  return { part: 'patch', reason: isSemanticDiffEmpty(diff) ? 'no changes → patch' : 'content changes only → patch' };
+}
+
+/** One line per change, suitable for a changelog entry or a confirmation dialog. */
+export function summarizeSemanticDiff(diff: SemanticExampleDiff): string[] {
+  const lines = diff.meta.map(change => `meta.yaml: ${change.field} ${change.kind}`);
+  for (const change of diff.tests) {
+    lines.push(change.test
+      ? `Test "${change.test}" in "${change.collection}" ${change.kind}`
+      : `Test collection "${change.collection}" ${change.kind}`);
+  }
+  diff.files.added.forEach(file => lines.push(`File ${file} added`));
+  diff.files.modified.forEach(file => lines.push(`File ${file} modified`));
+  diff.files.removed.forEach(file => lines.push(`File ${file} removed`));
+  return lines;
+}
+
+/**
+ * Adds an entry for `version` at the top of a changelog, creating the
+ * document when there is none. An existing entry for the same version is
+ * replaced so re-uploads do not duplicate it.
+ */
+export function prependChangelogEntry(existing: string | undefined, version: string, entry: string, date: string): string {
+  const heading = '# Changelog';
+  const body = (existing ?? '').replace(/\r\n/g, '\n').replace(/^# Changelog[^\n]*\n*/, '');
+  const sections = body.split(/^(?=## )/m).filter(section => section.trim().length > 0);
+  const kept = sections.filter(section => !new RegExp(`^## ${escapeRegExp(version)}(\\s|$)`).test(section));
+  const items = entry.split('\n').map(line => line.trim()).filter(Boolean)
+    .map(line => (line.startsWith('- ') ? line : `- ${line}`));
+  const section = `## ${version} (${date})\n\n${items.join('\n')}\n`;
+  return [heading, section, ...kept.map(existingSection => existingSection.trimEnd() + '\n')].join('\n\n').replace(/\n{3,}/g, '\n\n');
+}
+
+export function writeChangelogEntry(exampleDir: string, version: string, entry: string, date: Date = new Date()): void {
+  const changelogPath = path.join(exampleDir, changelogFileName);
+  const existing = fs.existsSync(changelogPath) ? fs.readFileSync(changelogPath, 'utf8') : undefined;
+  fs.writeFileSync(changelogPath, prependChangelogEntry(existing, version, entry, date.toISOString().slice(0, 10)), 'utf8');
+}
+
+function readYamlFile(dir: string, fileName: string): unknown {
+  const filePath = path.join(dir, fileName);
+  if (!fs.existsSync(filePath)) {
+    return undefined;
+  }
+  try {
+    const yaml = require('js-yaml');
+    return yaml.load(fs.readFileSync(filePath, 'utf8'));
+  } catch {
+    return undefined;
+  }
+}
+
+/** Maps nested object fields to dotted paths; arrays and scalars are leaves. */
+function flattenFields(value: unknown, prefix = '', result = new Map<string, unknown>()): Map<string, unknown> {
+  if (!isRecord(value)) {
+    if (prefix) {
+      result.set(prefix, value);
+    }
+    return result;
+  }
+  for (const [key, child] of Object.entries(value)) {
+    flattenFields(child, prefix ? `${prefix}.${key}` : key, result);
+  }
+  return result;
+}
+
+function keyedCollections(suite: unknown): Map<string, Record<string, unknown>> {
+  const collections = isRecord(suite) && isRecord(suite.properties) && Array.isArray(suite.properties.tests)
+    ? suite.properties.tests
+    : [];
+  const result = new Map<string, Record<string, unknown>>();
+  collections.forEach((collection, index) => {
+    if (!isRecord(collection)) {
+      return;
+    }
+    const name = typeof collection.name === 'string' && collection.name
+      ? collection.name
+      : `${typeof collection.type === 'string' ? collection.type : 'collection'} #${index + 1}`;
+    result.set(uniqueKey(result, name), collection);
+  });
+  return result;
+}
+
+function keyedTests(collection: Record<string, unknown>): Map<string, unknown> {
+  const result = new Map<string, unknown>();
+  (Array.isArray(collection.tests) ? collection.tests : []).forEach((test, index) => {
+    const name = isRecord(test) && typeof test.name === 'string' && test.name ? test.name : `#${index + 1}`;
+    result.set(uniqueKey(result, name), test);
+  });
+  return result;
+}
+
+function uniqueKey(existing: Map<string, unknown>, name: string): string {
+  let key = name;
+  for (let n = 2; existing.has(key); n++) {
+    key = `${name} (${n})`;
+  }
+  return key;
+}
+
+function withoutTests(collection: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(collection).filter(([key]) => key !== 'tests'));
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
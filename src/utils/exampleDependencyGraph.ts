@@ -0,0 +1,127 @@
+import type { TestDependencyRef } from './metaYamlHelpers';
+import { satisfiesVersionConstraint } from './versionHelpers';
+
+/** An example of the library with the dependencies declared in its meta.yaml. */
+export interface DependencyNode {
+  identifier: string;
+  title: string;
+  exampleId?: string;
+  directory?: string;
+  /** Latest version tag; undefined for examples without versions. */
+  version?: string;
+  dependencies: TestDependencyRef[];
+}
+
+export interface DependencyEdge {
+  from: string;
+  to: string;
+  constraint?: string;
+}
+
+export type DependencyEdgeStatus = 'ok' | 'missing' | 'unsatisfied';
+
+export interface ExampleDependencyGraph {
+  nodes: Map<string, DependencyNode>;
+  /** Reverse edges: identifier → edges of the examples that depend on it. */
+  dependants: Map<string, DependencyEdge[]>;
+}
+
+export interface TransitiveDependencies {
+  /** Identifiers of all (transitive) dependencies, each after its own dependencies. */
+  order: string[];
+  /** Edges anywhere in the chain whose target is not part of the graph. */
+  missing: DependencyEdge[];
+  /** Edges anywhere in the chain whose target version violates the constraint. */
+  unsatisfied: DependencyEdge[];
+  /** Identifiers that form a cycle, if any. */
+  cycle?: string[];
+}
+
+export function buildDependencyGraph(nodes: DependencyNode[]): ExampleDependencyGraph {
+  const graph: ExampleDependencyGraph = { nodes: new Map(), dependants: new Map() };
+  nodes.forEach(node => graph.nodes.set(node.identifier, node));
+  for (const node of nodes) {
+    for (const edge of dependenciesOf(graph, node.identifier)) {
+      const edges = graph.dependants.get(edge.to) ?? [];
+      edges.push(edge);
+      graph.dependants.set(edge.to, edges);
+    }
+  }
+  return graph;
+}
+
+/** A copy of the graph where `node` replaces (or adds) the example with its identifier. */
+export function withDependencyNode(graph: ExampleDependencyGraph, node: DependencyNode): ExampleDependencyGraph {
+  const nodes = new Map(graph.nodes);
+  nodes.set(node.identifier, node);
+  return buildDependencyGraph(Array.from(nodes.values()));
+}
+
+export function dependenciesOf(graph: ExampleDependencyGraph, identifier: string): DependencyEdge[] {
+  return (graph.nodes.get(identifier)?.dependencies ?? []).map(dependency => ({
+    from: identifier,
+    to: dependency.slug,
+    constraint: dependency.version
+  }));
+}
+
+export function dependantsOf(graph: ExampleDependencyGraph, identifier: string): DependencyEdge[] {
+  return graph.dependants.get(identifier) ?? [];
+}
+
+export function dependencyEdgeStatus(graph: ExampleDependencyGraph, edge: DependencyEdge): DependencyEdgeStatus {
+  const target = graph.nodes.get(edge.to);
+  if (!target) {
+    return 'missing';
+  }
+  if (edge.constraint && target.version && !satisfiesVersionConstraint(target.version, edge.constraint)) {
+    return 'unsatisfied';
+  }
+  return 'ok';
+}
+
+export function resolveTransitiveDependencies(graph: ExampleDependencyGraph, identifier: string): TransitiveDependencies {
+  const result: TransitiveDependencies = { order: [], missing: [], unsatisfied: [] };
+  const done = new Set<string>();
+  const visiting: string[] = [];
+
+  const visit = (current: string) => {
+    visiting.push(current);
+    for (const edge of dependenciesOf(graph, current)) {
+      const status = dependencyEdgeStatus(graph, edge);
+      if (status === 'missing') {
+        result.missing.push(edge);
+        continue;
+      }
+      if (status === 'unsatisfied') {
+        result.unsatisfied.push(edge);
+      }
+      if (visiting.includes(edge.to)) {
+        result.cycle ??= [...visiting.slice(visiting.indexOf(edge.to)), edge.to];
+        continue;
+      }
+      if (!done.has(edge.to)) {
+        visit(edge.to);
+      }
+    }
+    visiting.pop();
+    done.add(current);
+    if (current !== identifier) {
+      result.order.push(current);
+    }
+  };
+
+  visit(identifier);
+  return result;
+}
+
+/** Direct dependants whose constraint would not accept `version` of the example. */
+export function findBrokenDependants(graph: ExampleDependencyGraph, identifier: string, version: string): DependencyEdge[] {
+  return dependantsOf(graph, identifier).filter(edge =>
+    !!edge.constraint && !satisfiesVersionConstraint(version, edge.constraint)
+  );
+}
+
+export function describeDependencyEdge(edge: DependencyEdge): string {
+  return edge.constraint ? `${edge.to} (${edge.constraint})` : edge.to;
+}
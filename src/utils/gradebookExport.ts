@@ -0,0 +1,159 @@
+import * as XLSX from 'xlsx';
+import type { CourseMemberGradingsGet } from '../types/generated';
+import { toCsv } from './csv';
+
+/**
+ * Member × course content matrix built from the detailed course member
+ * gradings, for export to CSV or XLSX.
+ */
+
+export interface GradebookColumn {
+  /** ltree path of the assignment; stable key for the cells. */
+  path: string;
+  title: string;
+  contentTypeId?: string;
+  contentTypeTitle?: string;
+}
+
+export interface GradebookCell {
+  /** Grade on the 0.0–1.0 scale, undefined if not graded. */
+  grade?: number;
+  status?: string;
+  submissions: number;
+}
+
+export interface GradebookRow {
+  courseMemberId: string;
+  studentId: string;
+  familyName: string;
+  givenName: string;
+  username: string;
+  group: string;
+  cells: Record<string, GradebookCell>;
+}
+
+export interface Gradebook {
+  columns: GradebookColumn[];
+  rows: GradebookRow[];
+}
+
+export interface GradebookMember {
+  gradings: CourseMemberGradingsGet;
+  groupTitle?: string | null;
+}
+
+export interface GradebookFilter {
+  /** Only keep assignments of these content types. */
+  contentTypeIds?: Set<string>;
+}
+
+export type GradebookFormat = 'csv' | 'xlsx';
+
+export function buildGradebook(members: GradebookMember[], filter: GradebookFilter = {}): Gradebook {
+  const columns = new Map<string, GradebookColumn>();
+  const rows: GradebookRow[] = [];
+
+  for (const { gradings, groupTitle } of members) {
+    const cells: Record<string, GradebookCell> = {};
+    for (const node of gradings.nodes ?? []) {
+      if (!node.submittable) {
+        continue;
+      }
+      const contentType = node.by_content_type?.[0];
+      if (filter.contentTypeIds && (!contentType || !filter.contentTypeIds.has(contentType.course_content_type_id))) {
+        continue;
+      }
+      if (!columns.has(node.path)) {
+        columns.set(node.path, {
+          path: node.path,
+          title: node.title || node.path,
+          contentTypeId: contentType?.course_content_type_id,
+          contentTypeTitle: contentType?.course_content_type_title || contentType?.course_content_type_slug
+        });
+      }
+      cells[node.path] = {
+        grade: typeof node.grading === 'number' ? node.grading : undefined,
+        status: node.status || undefined,
+        submissions: node.submissions_count ?? node.submitted_assignments ?? 0
+      };
+    }
+    rows.push({
+      courseMemberId: gradings.course_member_id,
+      studentId: gradings.student_id || '',
+      familyName: gradings.family_name || '',
+      givenName: gradings.given_name || '',
+      username: gradings.username || '',
+      group: groupTitle || '',
+      cells
+    });
+  }
+
+  const sortedColumns = Array.from(columns.values()).sort((a, b) => compareContentPaths(a.path, b.path));
+  rows.sort((a, b) =>
+    a.familyName.localeCompare(b.familyName) || a.givenName.localeCompare(b.givenName) || a.username.localeCompare(b.username)
+  );
+  return { columns: sortedColumns, rows };
+}
+
+/** Header plus one line per member: identity columns, then grade/status/submissions per assignment. */
+export function gradebookToTable(gradebook: Gradebook): Array<Array<string | number>> {
+  const header: Array<string | number> = ['Student ID', 'Family Name', 'Given Name', 'Username', 'Group'];
+  for (const column of gradebook.columns) {
+    header.push(`${column.title} – Grade`, `${column.title} – Status`, `${column.title} – Submissions`);
+  }
+  const lines = gradebook.rows.map(row => {
+    const line: Array<string | number> = [row.studentId, row.familyName, row.givenName, row.username, row.group];
+    for (const column of gradebook.columns) {
+      const cell = row.cells[column.path];
+      line.push(
+        cell?.grade !== undefined ? Math.round(cell.grade * 100) / 100 : '',
+        formatGradingStatus(cell?.status),
+        cell?.submissions ?? 0
+      );
+    }
+    return line;
+  });
+  return [header, ...lines];
+}
+
+export function gradebookToCsv(gradebook: Gradebook): string {
+  return toCsv(gradebookToTable(gradebook));
+}
+
+export function gradebookToXlsx(gradebook: Gradebook, sheetName = 'Gradebook'): Buffer {
+  const workbook = XLSX.utils.book_new();
+  const worksheet = XLSX.utils.aoa_to_sheet(gradebookToTable(gradebook));
+  XLSX.utils.book_append_sheet(workbook, worksheet, toSheetName(sheetName));
+  return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }) as Buffer;
+}
+
+/** Excel rejects sheet names longer than 31 characters or containing : \ / ? * [ ] */
+export function toSheetName(name: string): string {
+  const cleaned = name.replace(/[:\\/?*[\]]/g, '').trim().slice(0, 31).trim();
+  return cleaned || 'Gradebook';
+}
+
+/** "correction_necessary" -> "Correction Necessary" */
+export function formatGradingStatus(status: string | undefined): string {
+  if (!status) {
+    return '';
+  }
+  return status
+    .split('_')
+    .filter(Boolean)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+/** Orders ltree paths segment by segment, numerically where both segments are numbers. */
+function compareContentPaths(a: string, b: string): number {
+  const partsA = a.split('.');
+  const partsB = b.split('.');
+  for (let i = 0; i < Math.min(partsA.length, partsB.length); i++) {
+    const result = partsA[i]!.localeCompare(partsB[i]!, undefined, { numeric: true });
+    if (result !== 0) {
+      return result;
+    }
+  }
+  return partsA.length - partsB.length;
+}
@@ -0,0 +1,152 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { GradingStatus } from '../types/generated/common';
+
+/**
+ * A single rubric line as declared under `properties.gradingRubric.criteria`
+ * in an example's meta.yaml.
+ */
+export interface GradingRubricCriterion {
+  id: string;
+  title: string;
+  description?: string;
+  maxPoints: number;
+}
+
+export interface GradingRubric {
+  criteria: GradingRubricCriterion[];
+}
+
+/** Points and optional comment a tutor gave for one criterion. */
+export interface RubricCriterionScore {
+  points: number;
+  comment?: string;
+}
+
+export type RubricScores = Record<string, RubricCriterionScore | undefined>;
+
+export const GRADING_STATUS_OPTIONS: ReadonlyArray<{ value: GradingStatus; label: string; description: string }> = [
+  { value: 1, label: 'corrected', description: 'Mark as corrected' },
+  { value: 2, label: 'correction_necessary', description: 'Correction necessary' },
+  { value: 3, label: 'improvement_possible', description: 'Improvement possible' },
+  { value: 0, label: 'not_reviewed', description: 'Not reviewed' }
+];
+
+function slugifyCriterionId(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Normalizes the raw `gradingRubric` value from meta.yaml. Criteria without a
+ * title or with a non-positive `maxPoints` are dropped; missing ids are derived
+ * from the title and de-duplicated. Returns undefined when nothing usable is left.
+ */
+export function parseGradingRubric(raw: unknown): GradingRubric | undefined {
+  if (!raw || typeof raw !== 'object') {
+    return undefined;
+  }
+  const criteriaRaw = (raw as Record<string, unknown>).criteria;
+  if (!Array.isArray(criteriaRaw)) {
+    return undefined;
+  }
+
+  const criteria: GradingRubricCriterion[] = [];
+  const usedIds = new Set<string>();
+  for (const [index, entry] of criteriaRaw.entries()) {
+    if (!entry || typeof entry !== 'object') { continue; }
+    const item = entry as Record<string, unknown>;
+    const title = typeof item.title === 'string' ? item.title.trim() : '';
+    const maxPoints = Number(item.maxPoints);
+    if (!title || !Number.isFinite(maxPoints) || maxPoints <= 0) { continue; }
+
+    let id = typeof item.id === 'string' && item.id.trim() ? item.id.trim() : slugifyCriterionId(title);
+    if (!id) { id = `criterion_${index + 1}`; }
+    let uniqueId = id;
+    let suffix = 2;
+    while (usedIds.has(uniqueId)) {
+      uniqueId = `${id}_${suffix++}`;
+    }
+    usedIds.add(uniqueId);
+
+    criteria.push({
+      id: uniqueId,
+      title,
+      description: typeof item.description === 'string' && item.description.trim() ? item.description.trim() : undefined,
+      maxPoints
+    });
+  }
+
+  return criteria.length > 0 ? { criteria } : undefined;
+}
+
+/**
+ * Reads the rubric from `<exampleDir>/meta.yaml` (`properties.gradingRubric`).
+ * Returns undefined when the file is missing, unparsable or defines no rubric.
+ */
+export function readGradingRubric(exampleDir: string): GradingRubric | undefined {
+  const metaPath = path.join(exampleDir, 'meta.yaml');
+  if (!fs.existsSync(metaPath)) {
+    return undefined;
+  }
+  try {
+    const yaml = require('js-yaml');
+    const meta = yaml.load(fs.readFileSync(metaPath, 'utf8')) as Record<string, any> | undefined;
+    return parseGradingRubric(meta?.properties?.gradingRubric);
+  } catch (error) {
+    console.warn(`[gradingRubric] Failed to read rubric from ${metaPath}:`, error);
+    return undefined;
+  }
+}
+
+export function getRubricMaxPoints(rubric: GradingRubric): number {
+  return rubric.criteria.reduce((sum, c) => sum + c.maxPoints, 0);
+}
+
+/** Clamps the given points into `[0, maxPoints]`; non-numeric values count as 0. */
+export function clampCriterionPoints(criterion: GradingRubricCriterion, points: unknown): number {
+  const value = Number(points);
+  if (!Number.isFinite(value)) { return 0; }
+  return Math.max(0, Math.min(criterion.maxPoints, value));
+}
+
+export function getRubricAchievedPoints(rubric: GradingRubric, scores: RubricScores): number {
+  return rubric.criteria.reduce((sum, c) => sum + clampCriterionPoints(c, scores[c.id]?.points), 0);
+}
+
+/**
+ * Computes the normalized grade (0.0–1.0, two decimals) the backend expects in
+ * `TutorGradeCreate.grade`.
+ */
+export function computeRubricGrade(rubric: GradingRubric, scores: RubricScores): number {
+  const max = getRubricMaxPoints(rubric);
+  if (max <= 0) { return 0; }
+  const ratio = getRubricAchievedPoints(rubric, scores) / max;
+  return Math.round(Math.max(0, Math.min(1, ratio)) * 100) / 100;
+}
+
+function formatPoints(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(2).replace(/0+$/, '').replace(/\.$/, '');
+}
+
+/**
+ * Renders the per-criterion breakdown plus the tutor's general remarks as the
+ * Markdown feedback stored with the grade.
+ */
+export function formatRubricFeedback(rubric: GradingRubric, scores: RubricScores, generalFeedback?: string): string {
+  const lines = rubric.criteria.map(c => {
+    const points = clampCriterionPoints(c, scores[c.id]?.points);
+    const comment = scores[c.id]?.comment?.trim();
+    const base = `- **${c.title}**: ${formatPoints(points)} / ${formatPoints(c.maxPoints)}`;
+    return comment ? `${base} — ${comment.replace(/\s*\n\s*/g, ' ')}` : base;
+  });
+  const total = `**Total**: ${formatPoints(getRubricAchievedPoints(rubric, scores))} / ${formatPoints(getRubricMaxPoints(rubric))}`;
+  const sections = [lines.join('\n'), total];
+  const general = generalFeedback?.trim();
+  if (general) {
+    sections.push(general);
+  }
+  return sections.join('\n\n');
+}
@@ -0,0 +1,288 @@
+/**
+ * Minimal JSON Schema support for the schemas shipped with the extension
+ * (schemas/meta-yaml-schema.json). Covers the keywords those schemas use:
+ * $ref into $defs/definitions, anyOf/oneOf, type, enum/const, properties,
+ * required, additionalProperties, items, min/max lengths and bounds, pattern.
+ */
+
+import type { YamlPath } from './yamlLocator';
+
+export interface JsonSchema {
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  definitions?: Record<string, JsonSchema>;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  type?: string | string[];
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  title?: string;
+  description?: string;
+  default?: unknown;
+}
+
+export interface SchemaIssue {
+  path: YamlPath;
+  message: string;
+  /** Unknown properties are only suspicious, everything else violates the schema. */
+  severity: 'error' | 'warning';
+}
+
+export interface SchemaValidationOptions {
+  /** Warn about properties the schema does not declare (typos) unless it allows additional ones explicitly. */
+  reportUnknownProperties?: boolean;
+}
+
+export function validateAgainstSchema(
+  value: unknown,
+  root: JsonSchema,
+  options: SchemaValidationOptions = {}
+): SchemaIssue[] {
+  return validateNode(value, root, root, [], options);
+}
+
+/** Flattens `$ref` and `anyOf`/`oneOf` into the plain alternatives. */
+export function expandSchema(schema: JsonSchema | undefined, root: JsonSchema): JsonSchema[] {
+  if (!schema) {
+    return [];
+  }
+  if (schema.$ref) {
+    return expandSchema(resolveRef(schema.$ref, root), root);
+  }
+  const alternatives = schema.anyOf ?? schema.oneOf;
+  if (alternatives) {
+    const { anyOf, oneOf, ...rest } = schema;
+    void anyOf;
+    void oneOf;
+    return alternatives.flatMap(alternative => expandSchema({ ...rest, ...alternative }, root));
+  }
+  return [schema];
+}
+
+/** All alternatives that may describe the value at `path`. */
+export function schemasAtPath(root: JsonSchema, path: YamlPath): JsonSchema[] {
+  let current = expandSchema(root, root);
+  for (const segment of path) {
+    current = current.flatMap(schema => {
+      if (typeof segment === 'number') {
+        return schema.items ? expandSchema(schema.items, root) : [];
+      }
+      const property = schema.properties?.[segment];
+      if (property) {
+        return expandSchema(property, root);
+      }
+      return typeof schema.additionalProperties === 'object' ? expandSchema(schema.additionalProperties, root) : [];
+    });
+  }
+  return current;
+}
+
+/** Declared properties of the object alternatives, with their raw (unexpanded) schemas. */
+export function schemaProperties(schemas: JsonSchema[]): Map<string, JsonSchema> {
+  const properties = new Map<string, JsonSchema>();
+  for (const schema of schemas) {
+    for (const [name, property] of Object.entries(schema.properties ?? {})) {
+      if (!properties.has(name)) {
+        properties.set(name, property);
+      }
+    }
+  }
+  return properties;
+}
+
+/** Values worth suggesting: enums, consts and booleans. */
+export function schemaValueSuggestions(schemas: JsonSchema[]): unknown[] {
+  const values: unknown[] = [];
+  for (const schema of schemas) {
+    if (schema.enum) values.push(...schema.enum);
+    if (schema.const !== undefined) values.push(schema.const);
+    if (typeNames(schema).includes('boolean')) values.push(true, false);
+  }
+  return Array.from(new Set(values));
+}
+
+export function schemaTypeLabel(schemas: JsonSchema[]): string {
+  const types = new Set<string>();
+  for (const schema of schemas) {
+    const names = typeNames(schema);
+    if (names.length === 0 && schema.properties) types.add('object');
+    names.forEach(name => types.add(name === 'array' && schema.items ? `${itemTypeLabel(schema)}[]` : name));
+  }
+  return Array.from(types).join(' | ');
+}
+
+/** First description found on the schema or its alternatives. */
+export function schemaDescription(schema: JsonSchema | undefined, root: JsonSchema): string | undefined {
+  if (!schema) {
+    return undefined;
+  }
+  return schema.description ?? expandSchema(schema, root).map(alternative => alternative.description).find(Boolean);
+}
+
+function itemTypeLabel(schema: JsonSchema): string {
+  const items = schema.items;
+  if (!items) return 'unknown';
+  if (items.$ref) return items.$ref.split('/').pop() ?? 'object';
+  if (items.anyOf || items.oneOf) return 'mixed';
+  return typeNames(items).join('|') || 'unknown';
+}
+
+function validateNode(
+  value: unknown,
+  schema: JsonSchema,
+  root: JsonSchema,
+  path: YamlPath,
+  options: SchemaValidationOptions
+): SchemaIssue[] {
+  if (schema.$ref) {
+    const target = resolveRef(schema.$ref, root);
+    return target ? validateNode(value, target, root, path, options) : [];
+  }
+
+  const alternatives = schema.anyOf ?? schema.oneOf;
+  if (alternatives) {
+    const expanded = expandSchema(schema, root);
+    const matching = expanded.filter(alternative => matchesType(value, alternative));
+    if (matching.length === 0) {
+      const expected = schemaTypeLabel(expanded) || 'a different value';
+      return [{ path, message: `Expected ${expected.replace(/ \| /g, ' or ')}, got ${describeValue(value)}.`, severity: 'error' }];
+    }
+    const results = matching.map(alternative => validateNode(value, alternative, root, path, options));
+    return results.reduce((best, issues) => (errorCount(issues) < errorCount(best) ? issues : best));
+  }
+
+  if (!matchesType(value, schema)) {
+    return [{ path, message: `Expected ${typeNames(schema).join(' or ')}, got ${describeValue(value)}.`, severity: 'error' }];
+  }
+
+  const issues: SchemaIssue[] = [];
+  if (schema.enum && !schema.enum.some(candidate => candidate === value)) {
+    issues.push({ path, message: `Value must be one of: ${schema.enum.map(candidate => JSON.stringify(candidate)).join(', ')}.`, severity: 'error' });
+  }
+  if (schema.const !== undefined && schema.const !== value) {
+    issues.push({ path, message: `Value must be ${JSON.stringify(schema.const)}.`, severity: 'error' });
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      issues.push({ path, message: schema.minLength === 1 ? 'Value must not be empty.' : `Must be at least ${schema.minLength} characters long.`, severity: 'error' });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      issues.push({ path, message: `Must be at most ${schema.maxLength} characters long.`, severity: 'error' });
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      issues.push({ path, message: `Does not match the expected format ${schema.pattern}.`, severity: 'error' });
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({ path, message: `Must be at least ${schema.minimum}.`, severity: 'error' });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push({ path, message: `Must be at most ${schema.maximum}.`, severity: 'error' });
+    }
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      issues.push({ path, message: `Must be greater than ${schema.exclusiveMinimum}.`, severity: 'error' });
+    }
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+      issues.push({ path, message: `Must be less than ${schema.exclusiveMaximum}.`, severity: 'error' });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issues.push({ path, message: `Needs at least ${schema.minItems} item${schema.minItems === 1 ? '' : 's'}.`, severity: 'error' });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      issues.push({ path, message: `Allows at most ${schema.maxItems} item${schema.maxItems === 1 ? '' : 's'}.`, severity: 'error' });
+    }
+    if (schema.items) {
+      value.forEach((item, index) => issues.push(...validateNode(item, schema.items!, root, [...path, index], options)));
+    }
+  }
+
+  if (isPlainObject(value)) {
+    for (const name of schema.required ?? []) {
+      if (!(name in value)) {
+        issues.push({ path, message: `Missing required property "${name}".`, severity: 'error' });
+      }
+    }
+    for (const [name, propertyValue] of Object.entries(value)) {
+      const property = schema.properties?.[name];
+      if (property) {
+        issues.push(...validateNode(propertyValue, property, root, [...path, name], options));
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: [...path, name], message: `Property "${name}" is not allowed.`, severity: 'error' });
+      } else if (typeof schema.additionalProperties === 'object') {
+        issues.push(...validateNode(propertyValue, schema.additionalProperties, root, [...path, name], options));
+      } else if (options.reportUnknownProperties && schema.additionalProperties === undefined && schema.properties) {
+        issues.push({ path: [...path, name], message: `Unknown property "${name}".`, severity: 'warning' });
+      }
+    }
+  }
+
+  return issues;
+}
+
+function resolveRef(ref: string, root: JsonSchema): JsonSchema | undefined {
+  const match = /^#\/(\$defs|definitions)\/(.+)$/.exec(ref);
+  if (!match) {
+    return undefined;
+  }
+  const defs = match[1] === '$defs' ? root.$defs : root.definitions;
+  return defs?.[match[2]!];
+}
+
+function typeNames(schema: JsonSchema): string[] {
+  if (!schema.type) return [];
+  return Array.isArray(schema.type) ? schema.type : [schema.type];
+}
+
+function matchesType(value: unknown, schema: JsonSchema): boolean {
+  const types = typeNames(schema);
+  if (types.length === 0) {
+    return true;
+  }
+  return types.some(type => {
+    switch (type) {
+      case 'null': return value === null;
+      case 'string': return typeof value === 'string';
+      case 'boolean': return typeof value === 'boolean';
+      case 'number': return typeof value === 'number' && Number.isFinite(value);
+      case 'integer': return typeof value === 'number' && Number.isInteger(value);
+      case 'array': return Array.isArray(value);
+      case 'object': return isPlainObject(value);
+      default: return true;
+    }
+  });
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+function describeValue(value: unknown): string {
+  if (value === null || value === undefined) return 'an empty value';
+  if (Array.isArray(value)) return 'a list';
+  if (value instanceof Date) return 'a date';
+  if (typeof value === 'object') return 'a mapping';
+  return `${typeof value} ${JSON.stringify(value)}`;
+}
+
+function errorCount(issues: SchemaIssue[]): number {
+  return issues.filter(issue => issue.severity === 'error').length;
+}
@@ -0,0 +1,34 @@
+/**
+ * Date input shared by the locally planned dates (release schedule, student
+ * deadlines). Values are entered and shown in local time.
+ */
+
+const datePattern = /^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{1,2}):(\d{2}))?$/;
+
+/** Parses `YYYY-MM-DD` or `YYYY-MM-DD HH:mm` as local time; a missing time means midnight. */
+export function parseLocalDateTime(input: string): Date | undefined {
+  const match = datePattern.exec(input.trim());
+  if (!match) {
+    return undefined;
+  }
+  const [, year, month, day, hours, minutes] = match;
+  const date = new Date(Number(year), Number(month) - 1, Number(day), Number(hours ?? 0), Number(minutes ?? 0));
+  // Reject overflowing values such as 2025-02-30 or 25:00
+  if (
+    date.getFullYear() !== Number(year) ||
+    date.getMonth() !== Number(month) - 1 ||
+    date.getDate() !== Number(day) ||
+    date.getHours() !== Number(hours ?? 0) ||
+    date.getMinutes() !== Number(minutes ?? 0)
+  ) {
+    return undefined;
+  }
+  return date;
+}
+
+/** Local `YYYY-MM-DD HH:mm`, the same format `parseLocalDateTime` accepts. */
+export function formatLocalDateTime(value: string | Date): string {
+  const date = typeof value === 'string' ? new Date(value) : value;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
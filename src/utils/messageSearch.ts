@@ -0,0 +1,112 @@
+import type { MessageList, MessageQuery } from '../types/generated';
+
+export interface MessageSearchFilters {
+  /** Words or "quoted phrases"; every one must occur in the title or content. */
+  text: string;
+  scope?: MessageList['scope'];
+  courseId?: string;
+  authorId?: string;
+  /** ISO timestamps, inclusive. */
+  createdAfter?: string;
+  createdBefore?: string;
+}
+
+/** Splits search text into lower-case terms, keeping "quoted phrases" together. */
+export function searchTerms(text: string): string[] {
+  const terms: string[] = [];
+  const pattern = /"([^"]*)"|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const term = (match[1] ?? match[2] ?? '').trim().toLowerCase();
+    if (term) {
+      terms.push(term);
+    }
+  }
+  return terms;
+}
+
+export function hasSearchCriteria(filters: MessageSearchFilters): boolean {
+  return searchTerms(filters.text).length > 0
+    || Boolean(filters.scope || filters.courseId || filters.authorId || filters.createdAfter || filters.createdBefore);
+}
+
+/** Applies every filter locally, so already-loaded messages and server pages go through the same check. */
+export function matchesMessageSearch(message: MessageList, filters: MessageSearchFilters): boolean {
+  if (message.is_deleted) {
+    return false;
+  }
+  if (filters.scope && message.scope !== filters.scope) {
+    return false;
+  }
+  if (filters.courseId && message.course_id !== filters.courseId) {
+    return false;
+  }
+  if (filters.authorId && message.author_id !== filters.authorId) {
+    return false;
+  }
+  if (filters.createdAfter || filters.createdBefore) {
+    const created = message.created_at ? Date.parse(message.created_at) : NaN;
+    if (Number.isNaN(created)) {
+      return false;
+    }
+    if (filters.createdAfter && created < Date.parse(filters.createdAfter)) {
+      return false;
+    }
+    if (filters.createdBefore && created > Date.parse(filters.createdBefore)) {
+      return false;
+    }
+  }
+  const haystack = `${message.title ?? ''}\n${message.content ?? ''}`.toLowerCase();
+  return searchTerms(filters.text).every(term => haystack.includes(term));
+}
+
+/**
+ * Server-side part of a search. The messages endpoint has no full-text
+ * parameter, so only the structured filters are sent and the text is matched
+ * with `matchesMessageSearch` afterwards.
+ */
+export function toMessageQuery(filters: MessageSearchFilters): MessageQuery {
+  const query: MessageQuery = {};
+  if (filters.scope) { query.scope = filters.scope; }
+  if (filters.courseId) { query.course_id = filters.courseId; }
+  if (filters.authorId) { query.author_id = filters.authorId; }
+  if (filters.createdAfter) { query.created_after = filters.createdAfter; }
+  if (filters.createdBefore) { query.created_before = filters.createdBefore; }
+  return query;
+}
+
+/** Unions result lists by message id (first occurrence wins), newest first. */
+export function mergeSearchResults(...lists: MessageList[][]): MessageList[] {
+  const byId = new Map<string, MessageList>();
+  for (const list of lists) {
+    for (const message of list) {
+      if (!byId.has(message.id)) {
+        byId.set(message.id, message);
+      }
+    }
+  }
+  const time = (message: MessageList) => (message.created_at ? Date.parse(message.created_at) || 0 : 0);
+  return [...byId.values()].sort((a, b) => time(b) - time(a));
+}
+
+/** `[start, end)` ranges of the first occurrence of each term in `text`, sorted and non-overlapping. */
+export function highlightRanges(text: string, terms: string[]): Array<[number, number]> {
+  const lower = text.toLowerCase();
+  const ranges = terms
+    .map(term => {
+      const start = lower.indexOf(term);
+      return start >= 0 ? [start, start + term.length] as [number, number] : undefined;
+    })
+    .filter((range): range is [number, number] => range !== undefined)
+    .sort((a, b) => a[0] - b[0]);
+  const merged: Array<[number, number]> = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([range[0], range[1]]);
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,49 @@
+/** A file location quoted in a message, with 1-based inclusive lines. */
+export interface SnippetReference {
+  /** POSIX path relative to the assignment directory (or workspace folder). */
+  path: string;
+  startLine: number;
+  endLine: number;
+}
+
+export interface CodeSnippet extends SnippetReference {
+  code: string;
+  /** Fence language, usually the editor's language id. */
+  language?: string;
+}
+
+const referencePattern = /^([^\s`#][^\s`]*)#L(\d+)(?:-L(\d+))?$/;
+
+/** `src/main.py#L3-L10`, or `src/main.py#L3` for a single line. */
+export function formatSnippetReference(reference: SnippetReference): string {
+  const range = reference.endLine > reference.startLine
+    ? `L${reference.startLine}-L${reference.endLine}`
+    : `L${reference.startLine}`;
+  return `${reference.path}#${range}`;
+}
+
+/** Reads a reference written by {@link formatSnippetReference}; undefined for any other text. */
+export function parseSnippetReference(text: string): SnippetReference | undefined {
+  const match = referencePattern.exec(text.trim());
+  if (!match) {
+    return undefined;
+  }
+  const startLine = Number(match[2]);
+  const endLine = match[3] ? Number(match[3]) : startLine;
+  if (startLine < 1 || endLine < startLine) {
+    return undefined;
+  }
+  return { path: match[1]!, startLine, endLine };
+}
+
+/**
+ * Markdown for a quoted snippet: the reference as inline code (which the
+ * messages view turns into a link) followed by a fenced block. The fence is
+ * longer than any backtick run inside the code so it cannot be closed early.
+ */
+export function formatCodeSnippet(snippet: CodeSnippet): string {
+  const longestRun = Math.max(0, ...(snippet.code.match(/`+/g) ?? []).map(run => run.length));
+  const fence = '`'.repeat(Math.max(3, longestRun + 1));
+  const code = snippet.code.replace(/\r\n/g, '\n').replace(/\n+$/, '');
+  return `\`${formatSnippetReference(snippet)}\`\n\n${fence}${snippet.language ?? ''}\n${code}\n${fence}\n`;
+}
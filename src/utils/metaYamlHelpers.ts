@@ -1,6 +1,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { normalizeSemVer } from './versionHelpers';
+import type { YamlPath } from './yamlLocator';
 
 export interface MetaYamlData {
   title?: string;
@@ -51,3 +52,88 @@ export function updateMetaYamlVersion(exampleDir: string, newVersion: string): v
 
   fs.writeFileSync(metaPath, updated, 'utf8');
 }
+
+/** `properties` entries that list files relative to the example directory. */
+export const metaYamlFileListProperties = ['studentSubmissionFiles', 'additionalFiles', 'testFiles', 'studentTemplates'] as const;
+
+/** Example files that can be referenced from meta.yaml (no content/, meta.yaml or test.yaml). */
+export function listExampleFiles(exampleDir: string): string[] {
+  const results: string[] = [];
+  const excludeDirs = new Set(['content', '.git', 'node_modules']);
+  const excludeFiles = new Set(['meta.yaml', 'test.yaml']);
+  try {
+    const scanDir = (dir: string, prefix: string) => {
+      const entries = fs.readdirSync(dir, { withFileTypes: true });
+      for (const entry of entries) {
+        if (entry.name.startsWith('.')) { continue; }
+        const rel = prefix ? `${prefix}/${entry.name}` : entry.name;
+        if (entry.isDirectory()) {
+          if (!prefix && excludeDirs.has(entry.name)) { continue; }
+          scanDir(path.join(dir, entry.name), rel);
+        } else {
+          if (!prefix && excludeFiles.has(entry.name)) { continue; }
+          results.push(rel);
+        }
+      }
+    };
+    if (fs.existsSync(exampleDir)) {
+      scanDir(exampleDir, '');
+    }
+  } catch {
+    // Directory might not exist
+  }
+  return results;
+}
+
+/**
+ * File list entries that do not exist in the example directory. Entries with
+ * glob characters are skipped, directories count as existing.
+ */
+export function findMissingMetaYamlFiles(data: unknown, exampleDir: string): Array<{ path: YamlPath; file: string }> {
+  const properties = (data as MetaYamlData | undefined)?.properties;
+  if (!properties || typeof properties !== 'object') {
+    return [];
+  }
+  const missing: Array<{ path: YamlPath; file: string }> = [];
+  for (const key of metaYamlFileListProperties) {
+    const files = (properties as Record<string, unknown>)[key];
+    if (!Array.isArray(files)) {
+      continue;
+    }
+    files.forEach((file, index) => {
+      if (typeof file !== 'string' || file.trim() === '' || /[*?[\]{}]/.test(file)) {
+        return;
+      }
+      if (!fs.existsSync(path.resolve(exampleDir, file))) {
+        missing.push({ path: ['properties', key, index], file });
+      }
+    });
+  }
+  return missing;
+}
+
+export interface TestDependencyRef {
+  slug: string;
+  /** Version constraint; undefined means the latest version. */
+  version?: string;
+}
+
+/** `testDependencies` (under `properties`, or top-level in older files) as slug/constraint pairs. */
+export function readTestDependencies(data: MetaYamlData | undefined): TestDependencyRef[] {
+  const properties = data?.properties as Record<string, unknown> | undefined;
+  const raw = properties?.testDependencies ?? data?.testDependencies;
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+  return raw.flatMap((entry): TestDependencyRef[] => {
+    if (typeof entry === 'string' && entry.trim()) {
+      return [{ slug: entry.trim() }];
+    }
+    if (entry && typeof entry === 'object') {
+      const { slug: rawSlug, identifier, version } = entry as { slug?: unknown; identifier?: unknown; version?: unknown };
+      const slug = String(rawSlug || identifier || '').trim();
+      return slug ? [{ slug, version: version ? String(version) : undefined }] : [];
+    }
+    return [];
+  });
+}
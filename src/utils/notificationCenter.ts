@@ -0,0 +1,222 @@
+/**
+ * Records of server events for the notification center. Every event is kept
+ * (newest first, capped); how it is announced depends on the user's
+ * preference for its type.
+ */
+
+/** `toast` shows a notification and counts on the badge, `badge` only counts, `silent` only records. */
+export type NotificationDelivery = 'toast' | 'badge' | 'silent';
+
+export type NotificationSeverity = 'info' | 'warning' | 'error';
+
+/** Where "Open" leads: a node in a course tree or a chat message. */
+export type NotificationLink =
+  | { kind: 'course'; courseId: string }
+  | { kind: 'courseContent'; courseId: string; courseContentId: string }
+  | { kind: 'message'; messageId: string; scope: string };
+
+export interface NotificationEntry {
+  id: string;
+  /** A key of {@link serverEventTypes} or a chat type from {@link chatEventType}. */
+  type: string;
+  title: string;
+  detail?: string;
+  severity: NotificationSeverity;
+  /** ISO timestamp of the event. */
+  timestamp: string;
+  read: boolean;
+  link?: NotificationLink;
+}
+
+export type NotificationInput = Omit<NotificationEntry, 'id' | 'read'>;
+
+export type NotificationPreferences = Record<string, NotificationDelivery>;
+
+/** Server event types with the label shown in the preferences and their default delivery. */
+export const serverEventTypes: Record<string, { label: string; defaultDelivery: NotificationDelivery }> = {
+  'deployment:status_changed': { label: 'Deployment status changed', defaultDelivery: 'badge' },
+  'deployment:assigned': { label: 'Example assigned', defaultDelivery: 'badge' },
+  'deployment:unassigned': { label: 'Example unassigned', defaultDelivery: 'badge' },
+  'course:content_updated': { label: 'Course content changed', defaultDelivery: 'silent' },
+  maintenance: { label: 'Maintenance', defaultDelivery: 'toast' }
+};
+
+export const maxNotificationEntries = 200;
+
+const chatTypePrefix = 'chat:';
+
+/** Notification type of new chat messages in a message scope. */
+export function chatEventType(scope: string): string {
+  return `${chatTypePrefix}${scope}`;
+}
+
+export function isChatEventType(type: string): boolean {
+  return type.startsWith(chatTypePrefix);
+}
+
+/** The user's choice for a type, else its default. Chat messages toast by default. */
+export function deliveryFor(preferences: NotificationPreferences, type: string): NotificationDelivery {
+  return preferences[type] ?? serverEventTypes[type]?.defaultDelivery ?? 'toast';
+}
+
+/**
+ * Adds an entry in front, dropping the oldest beyond `limit`. Silent entries
+ * are stored as read so they never count on the badge.
+ */
+export function appendNotification(
+  entries: NotificationEntry[],
+  input: NotificationInput,
+  delivery: NotificationDelivery,
+  id: string,
+  limit = maxNotificationEntries
+): NotificationEntry[] {
+  const entry: NotificationEntry = { ...input, id, read: delivery === 'silent' };
+  return [entry, ...entries].slice(0, limit);
+}
+
+export function unreadNotificationCount(entries: NotificationEntry[]): number {
+  return entries.filter(entry => !entry.read).length;
+}
+
+/** Marks the given entries (all when `ids` is omitted) as read. */
+export function markNotificationsRead(entries: NotificationEntry[], ids?: readonly string[]): NotificationEntry[] {
+  const selected = ids ? new Set(ids) : undefined;
+  return entries.map(entry => (!entry.read && (!selected || selected.has(entry.id)) ? { ...entry, read: true } : entry));
+}
+
+/** Turns the old per-scope chat mute list into preferences; explicit preferences win. */
+export function migrateMutedScopes(preferences: NotificationPreferences, mutedScopes: readonly string[]): NotificationPreferences {
+  const migrated = { ...preferences };
+  for (const scope of mutedScopes) {
+    const type = chatEventType(scope);
+    if (!migrated[type]) {
+      migrated[type] = 'silent';
+    }
+  }
+  return migrated;
+}
+
+interface DeploymentStatusEvent {
+  course_id: string;
+  course_content_id: string;
+  previous_status: string;
+  new_status: string;
+  version_tag?: string | null;
+  example_identifier?: string | null;
+  deployment_message?: string | null;
+  timestamp?: string;
+}
+
+interface DeploymentAssignedEvent {
+  course_id: string;
+  course_content_id: string;
+  example_identifier?: string | null;
+  version_tag?: string | null;
+  timestamp?: string;
+}
+
+interface DeploymentUnassignedEvent {
+  course_id: string;
+  course_content_id: string;
+  previous_example_identifier?: string | null;
+  previous_version_tag?: string | null;
+  timestamp?: string;
+}
+
+interface CourseContentUpdatedEvent {
+  course_id: string;
+  course_content_id: string;
+  change_type: string;
+  timestamp?: string;
+}
+
+export function describeDeploymentStatusChanged(event: DeploymentStatusEvent, now = new Date()): NotificationInput {
+  const status = event.new_status.toLowerCase();
+  const severity: NotificationSeverity = status === 'failed' ? 'error' : status === 'cancelled' ? 'warning' : 'info';
+  return {
+    type: 'deployment:status_changed',
+    title: `Deployment ${status}${exampleSuffix(event.example_identifier, event.version_tag)}`,
+    detail: [`${event.previous_status} → ${event.new_status}`, event.deployment_message].filter(Boolean).join(': '),
+    severity,
+    timestamp: event.timestamp || now.toISOString(),
+    link: contentLink(event)
+  };
+}
+
+export function describeDeploymentAssigned(event: DeploymentAssignedEvent, now = new Date()): NotificationInput {
+  return {
+    type: 'deployment:assigned',
+    title: `Example assigned${exampleSuffix(event.example_identifier, event.version_tag)}`,
+    severity: 'info',
+    timestamp: event.timestamp || now.toISOString(),
+    link: contentLink(event)
+  };
+}
+
+export function describeDeploymentUnassigned(event: DeploymentUnassignedEvent, now = new Date()): NotificationInput {
+  return {
+    type: 'deployment:unassigned',
+    title: `Example unassigned${exampleSuffix(event.previous_example_identifier, event.previous_version_tag)}`,
+    severity: 'info',
+    timestamp: event.timestamp || now.toISOString(),
+    link: contentLink(event)
+  };
+}
+
+export function describeCourseContentUpdated(event: CourseContentUpdatedEvent, now = new Date()): NotificationInput {
+  const deleted = event.change_type === 'deleted';
+  return {
+    type: 'course:content_updated',
+    title: `Course content ${event.change_type || 'updated'}`,
+    severity: 'info',
+    timestamp: event.timestamp || now.toISOString(),
+    // A deleted node cannot be revealed, so link to its course instead.
+    link: deleted ? { kind: 'course', courseId: event.course_id } : contentLink(event)
+  };
+}
+
+export type MaintenanceEvent =
+  | { kind: 'activated'; message: string }
+  | { kind: 'deactivated'; message: string }
+  | { kind: 'scheduled'; message: string; scheduledAt: string }
+  | { kind: 'cancelled'; message: string }
+  | { kind: 'reminder'; message: string; minutesRemaining: number };
+
+export function describeMaintenanceEvent(event: MaintenanceEvent, now = new Date()): NotificationInput {
+  const base = { type: 'maintenance', timestamp: now.toISOString() };
+  switch (event.kind) {
+    case 'activated':
+      return { ...base, title: 'Maintenance mode active', detail: event.message, severity: 'warning' };
+    case 'deactivated':
+      return { ...base, title: 'Maintenance complete', detail: event.message, severity: 'info' };
+    case 'scheduled':
+      return {
+        ...base,
+        title: `Maintenance scheduled for ${new Date(event.scheduledAt).toLocaleString()}`,
+        detail: event.message,
+        severity: 'info'
+      };
+    case 'cancelled':
+      return { ...base, title: 'Scheduled maintenance cancelled', detail: event.message || undefined, severity: 'info' };
+    case 'reminder': {
+      const minutes = event.minutesRemaining;
+      return {
+        ...base,
+        title: `Maintenance in ${minutes} minute${minutes === 1 ? '' : 's'}`,
+        detail: event.message,
+        severity: minutes <= 5 ? 'error' : minutes <= 10 ? 'warning' : 'info'
+      };
+    }
+  }
+}
+
+function exampleSuffix(identifier?: string | null, versionTag?: string | null): string {
+  if (!identifier) {
+    return '';
+  }
+  return versionTag ? `: ${identifier} ${versionTag}` : `: ${identifier}`;
+}
+
+function contentLink(event: { course_id: string; course_content_id: string }): NotificationLink {
+  return { kind: 'courseContent', courseId: event.course_id, courseContentId: event.course_content_id };
+}
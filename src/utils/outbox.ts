@@ -0,0 +1,121 @@
+import type { MessageCreate } from '../types/generated';
+
+/**
+ * Messages and course member comments written while the backend cannot be
+ * reached. Items are kept locally and sent in the order they were written
+ * once the connection is back.
+ */
+
+export type OutboxItemStatus = 'pending' | 'conflict';
+
+interface OutboxItemBase {
+  id: string;
+  /** Thread the item is shown in, see {@link messageThreadKey} and {@link commentThreadKey}. */
+  threadKey: string;
+  /** Title of that thread, for the outbox list. */
+  threadTitle: string;
+  /** ISO timestamp; items are sent oldest first. */
+  createdAt: string;
+  status: OutboxItemStatus;
+  /** Why the server would not take the item; set with status `conflict`. */
+  conflict?: string;
+  attempts: number;
+}
+
+export interface OutboxMessageItem extends OutboxItemBase {
+  kind: 'message';
+  payload: MessageCreate;
+}
+
+export interface OutboxCommentItem extends OutboxItemBase {
+  kind: 'comment';
+  courseMemberId: string;
+  text: string;
+}
+
+export type OutboxItem = OutboxMessageItem | OutboxCommentItem;
+
+/** How a failed send is handled: queue it, or stop and ask the user. */
+export type SendFailure = 'offline' | 'conflict';
+
+/** Key of a message thread from the single target left by `pickMostSpecificTarget`. */
+export function messageThreadKey(target: Record<string, unknown>): string {
+  const entry = Object.entries(target).find(([, value]) => typeof value === 'string' && value.length > 0);
+  return entry ? `message:${entry[0]}:${entry[1] as string}` : 'message:global';
+}
+
+export function commentThreadKey(courseMemberId: string): string {
+  return `comment:${courseMemberId}`;
+}
+
+const networkPatterns = [
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ETIMEDOUT',
+  'ENOTFOUND',
+  'ENETUNREACH',
+  'EAI_AGAIN',
+  'Network error',
+  'NetworkError',
+  'Request timeout',
+  'max retry time exceeded'
+];
+
+/**
+ * Client errors (4xx other than 408/429) mean the server saw the request and
+ * refused it, e.g. because the parent message or the course member is gone;
+ * sending again would fail the same way. Everything else (no response, time
+ * outs, 5xx) is treated as a connection problem worth retrying later.
+ */
+export function classifySendError(error: unknown): SendFailure {
+  const status = typeof (error as { status?: unknown })?.status === 'number'
+    ? (error as { status: number }).status
+    : statusFromMessage(error instanceof Error ? error.message : String(error));
+  if (status !== undefined && status >= 400 && status < 500 && status !== 408 && status !== 429) {
+    return 'conflict';
+  }
+  return 'offline';
+}
+
+/** True when the error looks like the backend could not be reached at all. */
+export function isNetworkError(error: unknown): boolean {
+  const message = error instanceof Error ? `${error.name} ${error.message}` : String(error);
+  return networkPatterns.some(pattern => message.includes(pattern));
+}
+
+/** Pending items in sending order (oldest first); conflicts wait for the user. */
+export function pendingInOrder(items: readonly OutboxItem[]): OutboxItem[] {
+  return items
+    .filter(item => item.status === 'pending')
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export function itemsForThread(items: readonly OutboxItem[], threadKey: string): OutboxItem[] {
+  return items.filter(item => item.threadKey === threadKey).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/** A reply whose parent was deleted becomes a top-level message of the same thread. */
+export function detachFromParent(item: OutboxMessageItem): OutboxMessageItem {
+  return {
+    ...item,
+    status: 'pending',
+    conflict: undefined,
+    payload: { ...item.payload, parent_id: null, level: 0 }
+  };
+}
+
+/** Drafts keyed by thread; empty text removes the entry. */
+export function updateDrafts(drafts: Record<string, string>, threadKey: string, text: string | undefined): Record<string, string> {
+  const next = { ...drafts };
+  if (text && text.trim()) {
+    next[threadKey] = text;
+  } else {
+    delete next[threadKey];
+  }
+  return next;
+}
+
+function statusFromMessage(message: string): number | undefined {
+  const match = /HTTP (\d{3})/.exec(message);
+  return match ? Number(match[1]) : undefined;
+}
@@ -0,0 +1,283 @@
+import { CourseMemberImportRow, CourseMemberTable } from './ICourseMemberParser';
+
+/**
+ * Column mapping for tabular member imports (CSV, XLSX). Headers are matched
+ * against known names first; when that leaves the mapping ambiguous the
+ * import view lets the user assign columns and save the result as a preset.
+ */
+
+export type ImportField =
+  | 'email'
+  | 'given_name'
+  | 'family_name'
+  | 'student_id'
+  | 'course_group_title'
+  | 'course_role_id'
+  | 'incoming'
+  | 'study_id'
+  | 'study_name'
+  | 'semester'
+  | 'registration_date'
+  | 'notes';
+
+/** `full_name` is split into given and family name by the column transform. */
+export type MappingTarget = ImportField | 'full_name' | 'ignore';
+
+export type ColumnTransform = 'none' | 'lowercase' | 'splitLastFirst' | 'splitFirstLast';
+
+/** What to do with one source column; `header` identifies the column in presets. */
+export interface ColumnAssignment {
+  header: string;
+  target: MappingTarget;
+  transform: ColumnTransform;
+}
+
+export interface ColumnMappingPreset {
+  name: string;
+  columns: ColumnAssignment[];
+}
+
+export const mappingTargetLabels: Record<MappingTarget, string> = {
+  email: 'Email',
+  given_name: 'Given Name',
+  family_name: 'Family Name',
+  full_name: 'Full Name',
+  student_id: 'Student ID',
+  course_group_title: 'Group',
+  course_role_id: 'Course Role',
+  incoming: 'Incoming',
+  study_id: 'Study ID',
+  study_name: 'Study Name',
+  semester: 'Semester',
+  registration_date: 'Registration Date',
+  notes: 'Notes',
+  ignore: 'Ignore'
+};
+
+export const columnTransformLabels: Record<ColumnTransform, string> = {
+  none: 'As is',
+  lowercase: 'Lowercase',
+  splitLastFirst: 'Split "Last, First"',
+  splitFirstLast: 'Split "First Last"'
+};
+
+const knownHeaders: Record<string, MappingTarget> = {
+  'email': 'email',
+  'e-mail': 'email',
+  'mail': 'email',
+  'email address': 'email',
+  'e-mail-adresse': 'email',
+  'vorname': 'given_name',
+  'given name': 'given_name',
+  'given_name': 'given_name',
+  'givenname': 'given_name',
+  'firstname': 'given_name',
+  'first name': 'given_name',
+  'first_name': 'given_name',
+  'familienname': 'family_name',
+  'family name': 'family_name',
+  'family_name': 'family_name',
+  'lastname': 'family_name',
+  'last name': 'family_name',
+  'last_name': 'family_name',
+  'surname': 'family_name',
+  'sn': 'family_name',
+  'nachname': 'family_name',
+  'name': 'full_name',
+  'full name': 'full_name',
+  'full_name': 'full_name',
+  'fullname': 'full_name',
+  'cn': 'full_name',
+  'teilnehmer': 'full_name',
+  'matrikelnummer': 'student_id',
+  'student id': 'student_id',
+  'student_id': 'student_id',
+  'studentid': 'student_id',
+  'matr.-nr.': 'student_id',
+  'id number': 'student_id',
+  'gruppe': 'course_group_title',
+  'group': 'course_group_title',
+  'groups': 'course_group_title',
+  'course group': 'course_group_title',
+  'course_group_title': 'course_group_title',
+  'role': 'course_role_id',
+  'course role': 'course_role_id',
+  'course_role_id': 'course_role_id',
+  'incoming': 'incoming',
+  'kennzahl': 'study_id',
+  'study id': 'study_id',
+  'study_id': 'study_id',
+  'studyid': 'study_id',
+  'studien-id': 'study_id',
+  'studium': 'study_name',
+  'study': 'study_name',
+  'study name': 'study_name',
+  'study_name': 'study_name',
+  'semester': 'semester',
+  'semester im studium': 'semester',
+  'anmeldedatum': 'registration_date',
+  'registration date': 'registration_date',
+  'registration_date': 'registration_date',
+  'anmerkung': 'notes',
+  'notes': 'notes',
+  'note': 'notes',
+  'bemerkung': 'notes'
+};
+
+/** Rows looked at when guessing name order and checking email columns. */
+const sampleSize = 20;
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().trim();
+}
+
+function sampleValues(table: CourseMemberTable, column: number): string[] {
+  return table.rows
+    .slice(0, sampleSize)
+    .map(row => (row[column] ?? '').trim())
+    .filter(value => value !== '');
+}
+
+/** Maps columns by their header names; full-name columns guess the order from a comma. */
+export function detectColumns(table: CourseMemberTable): ColumnAssignment[] {
+  return table.headers.map((header, index) => {
+    const target = knownHeaders[normalizeHeader(header)] ?? 'ignore';
+    if (target !== 'full_name') {
+      return { header, target, transform: 'none' };
+    }
+    const values = sampleValues(table, index);
+    const withComma = values.filter(value => value.includes(',')).length;
+    return { header, target, transform: withComma * 2 > values.length ? 'splitLastFirst' : 'splitFirstLast' };
+  });
+}
+
+/** Lines up a preset with the columns of a file by header name; unknown columns are ignored. */
+export function applyPreset(preset: ColumnMappingPreset, headers: readonly string[]): ColumnAssignment[] {
+  const byHeader = new Map(preset.columns.map(column => [normalizeHeader(column.header), column]));
+  return headers.map(header => {
+    const column = byHeader.get(normalizeHeader(header));
+    return { header, target: column?.target ?? 'ignore', transform: column?.transform ?? 'none' };
+  });
+}
+
+/** True when every column the preset uses is present in the file. */
+export function presetMatches(preset: ColumnMappingPreset, headers: readonly string[]): boolean {
+  const present = new Set(headers.map(normalizeHeader));
+  const used = preset.columns.filter(column => column.target !== 'ignore');
+  return used.length > 0 && used.every(column => present.has(normalizeHeader(column.header)));
+}
+
+/**
+ * Reasons to let the user check the mapping before importing. Empty when the
+ * detected mapping can be used as is.
+ */
+export function findMappingIssues(table: CourseMemberTable, columns: readonly ColumnAssignment[]): string[] {
+  const issues: string[] = [];
+  const emailIndex = columns.findIndex(column => column.target === 'email');
+  if (emailIndex < 0) {
+    issues.push('No column is recognised as the email address.');
+  } else {
+    const values = sampleValues(table, emailIndex);
+    const addresses = values.filter(value => value.includes('@')).length;
+    if (values.length > 0 && addresses * 2 <= values.length) {
+      issues.push(`Column "${columns[emailIndex]!.header}" does not look like email addresses.`);
+    }
+  }
+
+  const hasNames = columns.some(column => ['given_name', 'family_name', 'full_name'].includes(column.target));
+  if (!hasNames) {
+    issues.push('No name columns are recognised.');
+  }
+  for (const column of columns.filter(candidate => candidate.target === 'full_name')) {
+    issues.push(`Column "${column.header}" holds full names; check the name order.`);
+  }
+
+  const seen = new Set<MappingTarget>();
+  for (const column of columns) {
+    if (column.target === 'ignore') {
+      continue;
+    }
+    if (seen.has(column.target)) {
+      issues.push(`Several columns are mapped to ${mappingTargetLabels[column.target]}.`);
+    }
+    seen.add(column.target);
+  }
+  return issues;
+}
+
+/** Blocking problems of a user-made mapping. */
+export function validateMapping(columns: readonly ColumnAssignment[]): string | undefined {
+  if (!columns.some(column => column.target === 'email')) {
+    return 'Map one column to Email.';
+  }
+  return undefined;
+}
+
+/**
+ * Splits a full name. A comma always separates "Last, First"; without one,
+ * `splitLastFirst` takes the first word as family name and `splitFirstLast`
+ * the last word.
+ */
+export function splitFullName(value: string, transform: ColumnTransform): { given_name?: string; family_name?: string } {
+  const trimmed = value.trim();
+  const comma = trimmed.indexOf(',');
+  if (comma >= 0) {
+    return {
+      family_name: trimmed.slice(0, comma).trim() || undefined,
+      given_name: trimmed.slice(comma + 1).trim() || undefined
+    };
+  }
+  const words = trimmed.split(/\s+/).filter(Boolean);
+  if (words.length < 2) {
+    return { family_name: words[0] };
+  }
+  return transform === 'splitLastFirst'
+    ? { family_name: words[0], given_name: words.slice(1).join(' ') }
+    : { given_name: words.slice(0, -1).join(' '), family_name: words[words.length - 1] };
+}
+
+/** Builds import rows; rows without an email are skipped. Explicit name columns win over full names. */
+export function applyColumnMapping(table: CourseMemberTable, columns: readonly ColumnAssignment[]): CourseMemberImportRow[] {
+  const members: CourseMemberImportRow[] = [];
+  for (const row of table.rows) {
+    const fields: Partial<Record<ImportField, string>> = {};
+    let fromFullName: { given_name?: string; family_name?: string } = {};
+
+    columns.forEach((column, index) => {
+      const raw = String(row[index] ?? '').trim();
+      if (column.target === 'ignore' || raw === '') {
+        return;
+      }
+      if (column.target === 'full_name') {
+        fromFullName = splitFullName(raw, column.transform);
+        return;
+      }
+      if (fields[column.target] === undefined) {
+        fields[column.target] = column.transform === 'lowercase' ? raw.toLowerCase() : raw;
+      }
+    });
+
+    if (!fields.email) {
+      continue;
+    }
+    const member: CourseMemberImportRow = {
+      email: fields.email,
+      given_name: fields.given_name ?? fromFullName.given_name,
+      family_name: fields.family_name ?? fromFullName.family_name,
+      student_id: fields.student_id,
+      course_group_title: fields.course_group_title,
+      course_role_id: fields.course_role_id,
+      incoming: fields.incoming,
+      study_id: fields.study_id,
+      study_name: fields.study_name,
+      registration_date: fields.registration_date,
+      notes: fields.notes
+    };
+    const semester = fields.semester ? parseInt(fields.semester, 10) : NaN;
+    if (!isNaN(semester)) {
+      member.semester = semester;
+    }
+    members.push(member);
+  }
+  return members;
+}
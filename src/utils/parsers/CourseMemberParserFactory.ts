@@ -1,4 +1,5 @@
-import { ICourseMemberParser, CourseMemberImportRow } from './ICourseMemberParser';
+import { ICourseMemberParser, CourseMemberImportRow, CourseMemberTable, isTabularParser } from './ICourseMemberParser';
+import { ColumnAssignment, ColumnMappingPreset, applyColumnMapping, applyPreset, detectColumns, presetMatches } from './CourseMemberColumnMapping';
 import { CourseMemberXmlParser } from './CourseMemberXmlParser';
 import { CourseMemberCsvParser } from './CourseMemberCsvParser';
 import { CourseMemberJsonParser } from './CourseMemberJsonParser';
@@ -16,6 +17,8 @@ export class CourseMemberParserFactory {
     new CourseMemberXlsxParser()
   ];
 
+  private static mappingPresets: ColumnMappingPreset[] = [];
+
   /**
    * Parse course member data from file content.
    * Automatically detects format and uses appropriate parser.
@@ -35,7 +38,7 @@ export class CourseMemberParserFactory {
 
       if (parserByExt) {
         try {
-          return parserByExt.parse(fileContent);
+          return this.parseWith(parserByExt, fileContent);
         } catch (error) {
           console.warn(`Parser for extension '${fileExtension}' failed, trying content detection:`, error);
         }
@@ -46,7 +49,7 @@ export class CourseMemberParserFactory {
     for (const parser of this.parsers) {
       if (parser.canParse(fileContent)) {
         try {
-          return parser.parse(fileContent);
+          return this.parseWith(parser, fileContent);
         } catch (error) {
           console.error(`Parser '${parser.getName()}' failed:`, error);
           throw error;
@@ -60,6 +63,39 @@ export class CourseMemberParserFactory {
     );
   }
 
+  /**
+   * Read the raw cells of a tabular file (CSV, XLSX) for column mapping.
+   *
+   * @returns The table, or undefined for formats with named fields (XML, JSON)
+   * @throws Error if the file is tabular but cannot be read
+   */
+  static readTable(fileContent: string, fileExtension?: string): CourseMemberTable | undefined {
+    const parser = this.findParser(fileContent, fileExtension);
+    return parser && isTabularParser(parser) ? parser.readTable(fileContent) : undefined;
+  }
+
+  /**
+   * Column mapping for a table: the first saved preset whose columns are all
+   * present, otherwise the mapping detected from the header names.
+   */
+  static resolveColumns(table: CourseMemberTable): { columns: ColumnAssignment[]; preset?: ColumnMappingPreset } {
+    const preset = this.mappingPresets.find(candidate => presetMatches(candidate, table.headers));
+    return preset
+      ? { columns: applyPreset(preset, table.headers), preset }
+      : { columns: detectColumns(table) };
+  }
+
+  /**
+   * Replace the saved column mapping presets used for tabular files
+   */
+  static setMappingPresets(presets: ColumnMappingPreset[]): void {
+    this.mappingPresets = [...presets];
+  }
+
+  static getMappingPresets(): ColumnMappingPreset[] {
+    return [...this.mappingPresets];
+  }
+
   /**
    * Get list of all supported file extensions
    */
@@ -94,4 +130,23 @@ export class CourseMemberParserFactory {
   static getParsers(): ICourseMemberParser[] {
     return [...this.parsers];
   }
+
+  private static parseWith(parser: ICourseMemberParser, fileContent: string): CourseMemberImportRow[] {
+    if (!isTabularParser(parser)) {
+      return parser.parse(fileContent);
+    }
+    const table = parser.readTable(fileContent);
+    return applyColumnMapping(table, this.resolveColumns(table).columns);
+  }
+
+  private static findParser(fileContent: string, fileExtension?: string): ICourseMemberParser | undefined {
+    if (fileExtension) {
+      const normalizedExt = fileExtension.toLowerCase().replace(/^\./, '');
+      const parserByExt = this.parsers.find(parser => parser.getSupportedExtensions().includes(normalizedExt));
+      if (parserByExt) {
+        return parserByExt;
+      }
+    }
+    return this.parsers.find(parser => parser.canParse(fileContent));
+  }
 }
@@ -22,6 +22,14 @@ export interface CourseMemberImportRow extends CourseMemberImportRequest {
   incoming?: string | null;
 }
 
+/**
+ * Cells of a tabular import file (CSV, XLSX); the first row holds the headers.
+ */
+export interface CourseMemberTable {
+  headers: string[];
+  rows: string[][];
+}
+
 /**
  * Interface for course member file parsers.
  * Implement this interface to support different file formats (XML, CSV, JSON, etc.)
@@ -53,3 +61,20 @@ export interface ICourseMemberParser {
    */
   getName(): string;
 }
+
+/**
+ * Parsers for tabular formats expose the raw cells so columns can be mapped
+ * by the user (see CourseMemberColumnMapping).
+ */
+export interface ITabularCourseMemberParser extends ICourseMemberParser {
+  /**
+   * Read headers and data rows without interpreting them
+   * @param fileContent - The raw file content as string
+   * @throws Error if the content cannot be read
+   */
+  readTable(fileContent: string): CourseMemberTable;
+}
+
+export function isTabularParser(parser: ICourseMemberParser): parser is ITabularCourseMemberParser {
+  return typeof (parser as Partial<ITabularCourseMemberParser>).readTable === 'function';
+}
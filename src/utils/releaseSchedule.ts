@@ -0,0 +1,49 @@
+/**
+ * Planned release dates for course contents. The schedule lives on the
+ * lecturer's machine; when a date passes the extension reminds the lecturer
+ * or starts the regular validation + release workflow.
+ */
+
+export interface ScheduledRelease {
+  courseId: string;
+  courseTitle: string;
+  contentId: string;
+  /** ltree path; a unit releases everything below it. */
+  contentPath: string;
+  contentTitle: string;
+  /** Planned release date (ISO 8601). */
+  releaseAt: string;
+  /** Set once the due notification or release was triggered. */
+  triggeredAt?: string;
+  /** Postponed reminder after "Remind me later" (ISO 8601). */
+  snoozedUntil?: string;
+}
+
+/** Due once the planned date (or a snoozed reminder) has passed and it was not triggered yet. */
+export function isReleaseDue(entry: ScheduledRelease, now: Date): boolean {
+  if (entry.snoozedUntil) {
+    return new Date(entry.snoozedUntil).getTime() <= now.getTime();
+  }
+  return !entry.triggeredAt && new Date(entry.releaseAt).getTime() <= now.getTime();
+}
+
+/** Short relative description, e.g. "in 3 days", "in 5 h", "overdue". */
+export function describeReleaseCountdown(releaseAt: string, now: Date): string {
+  const diffMs = new Date(releaseAt).getTime() - now.getTime();
+  if (diffMs <= 0) {
+    return 'overdue';
+  }
+  const minutes = Math.ceil(diffMs / 60000);
+  if (minutes < 60) {
+    return `in ${minutes} min`;
+  }
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) {
+    return `in ${hours} h`;
+  }
+  return `in ${Math.floor(hours / 24)} days`;
+}
+
+export function sortScheduledReleases(entries: ScheduledRelease[]): ScheduledRelease[] {
+  return entries.slice().sort((a, b) => a.releaseAt.localeCompare(b.releaseAt) || a.contentPath.localeCompare(b.contentPath));
+}
@@ -54,10 +54,6 @@ export function deriveRepositoryDirectoryName(context: RepositoryContext): strin
   return 'repository';
 }
 
-export function buildStudentRepoRoot(workspaceRoot: string, repoName: string): string {
-  return path.join(workspaceRoot, 'student', repoName);
-}
-
 export function buildReviewRepoRoot(workspaceRoot: string, repoName: string): string {
   return path.join(workspaceRoot, 'review', 'repositories', repoName);
 }
@@ -0,0 +1,127 @@
+/**
+ * Canned responses for tutors. Templates live in JSON files: one per user and
+ * one per course, committed to the course's assignments repository so every
+ * tutor of the course gets the same set.
+ */
+
+export interface ResponseTemplate {
+  title: string;
+  /** Markdown with `{{placeholder}}` markers. */
+  body: string;
+  description?: string;
+}
+
+export interface ResponseTemplateFile {
+  templates: ResponseTemplate[];
+  /**
+   * Due dates by course content path (e.g. `week1.loops`). The backend has
+   * no deadlines, so the course file is where `{{deadline}}` comes from; an
+   * entry for a unit applies to everything below it.
+   */
+  deadlines?: Record<string, string>;
+}
+
+/** Placeholders a template may use, with the help text shown when editing. */
+export const templatePlaceholders = {
+  studentName: 'Full name of the student',
+  studentFirstName: 'Given name of the student',
+  assignmentTitle: 'Title of the assignment',
+  grade: 'Current grade of the submission, e.g. 85%',
+  deadline: 'Deadline of the assignment from the course template file',
+  courseTitle: 'Title of the course',
+  tutorName: 'Your name'
+} as const;
+
+export type TemplatePlaceholder = keyof typeof templatePlaceholders;
+export type TemplateValues = Partial<Record<TemplatePlaceholder, string>>;
+
+/** File name of the shared templates in the assignments repository. */
+export const courseTemplatesFileName = 'response-templates.json';
+
+const placeholderPattern = /\{\{\s*([A-Za-z][A-Za-z0-9_]*)\s*\}\}/g;
+
+/**
+ * Replaces known placeholders that have a value. Everything else stays as
+ * written so the tutor sees what still needs filling in.
+ */
+export function renderTemplate(body: string, values: TemplateValues): { text: string; unresolved: string[] } {
+  const unresolved = new Set<string>();
+  const text = body.replace(placeholderPattern, (marker, name: string) => {
+    const value = Object.prototype.hasOwnProperty.call(templatePlaceholders, name)
+      ? values[name as TemplatePlaceholder]
+      : undefined;
+    if (value === undefined || value === '') {
+      unresolved.add(name);
+      return marker;
+    }
+    return value;
+  });
+  return { text, unresolved: [...unresolved] };
+}
+
+/** Reads a template file; invalid entries are skipped and reported. */
+export function parseResponseTemplateFile(raw: string): { file: ResponseTemplateFile; errors: string[] } {
+  const errors: string[] = [];
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch (error: any) {
+    return { file: { templates: [] }, errors: [`Invalid JSON: ${error?.message || error}`] };
+  }
+
+  const record = isRecord(data) ? data : {};
+  const entries = Array.isArray(data) ? data : record.templates;
+  if (!Array.isArray(entries)) {
+    return { file: { templates: [] }, errors: ['Expected a "templates" array.'] };
+  }
+
+  const templates: ResponseTemplate[] = [];
+  entries.forEach((entry, index) => {
+    if (!isRecord(entry) || typeof entry.title !== 'string' || !entry.title.trim() || typeof entry.body !== 'string') {
+      errors.push(`Template #${index + 1} needs a "title" and a "body".`);
+      return;
+    }
+    const unknown = [...entry.body.matchAll(placeholderPattern)]
+      .map(match => match[1]!)
+      .filter(name => !Object.prototype.hasOwnProperty.call(templatePlaceholders, name));
+    if (unknown.length > 0) {
+      errors.push(`Template "${entry.title}" uses unknown placeholder(s): ${[...new Set(unknown)].join(', ')}.`);
+    }
+    templates.push({
+      title: entry.title.trim(),
+      body: entry.body,
+      description: typeof entry.description === 'string' ? entry.description : undefined
+    });
+  });
+
+  const file: ResponseTemplateFile = { templates };
+  if (isRecord(record.deadlines)) {
+    file.deadlines = Object.fromEntries(
+      Object.entries(record.deadlines).filter((pair): pair is [string, string] => typeof pair[1] === 'string')
+    );
+  }
+  return { file, errors };
+}
+
+export function serializeResponseTemplateFile(file: ResponseTemplateFile): string {
+  return `${JSON.stringify(file, null, 2)}\n`;
+}
+
+/** Deadline for a content path: its own entry or the closest unit above it. */
+export function deadlineFor(deadlines: Record<string, string> | undefined, contentPath: string | undefined): string | undefined {
+  if (!deadlines || !contentPath) {
+    return undefined;
+  }
+  const segments = contentPath.split('.');
+  for (let length = segments.length; length > 0; length--) {
+    const deadline = deadlines[segments.slice(0, length).join('.')];
+    if (deadline) {
+      return deadline;
+    }
+  }
+  return undefined;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,104 @@
+import * as path from 'path';
+import type { MessageList } from '../types/generated';
+
+/**
+ * Inline review comments are stored as regular submission-group messages. The
+ * file/line anchor lives in the message title as a `#review` tag, e.g.
+ * `#review src/main.py:12`, so the thread also shows up (readable) in the
+ * messages view and can be filtered by tag.
+ */
+export const reviewCommentTag = 'review';
+
+export interface ReviewCommentAnchor {
+  /** Path relative to the submission root, always with forward slashes. */
+  filePath: string;
+  /** 1-based line number. */
+  line: number;
+}
+
+export interface ReviewCommentThreadData {
+  anchor: ReviewCommentAnchor;
+  root: MessageList;
+  replies: MessageList[];
+}
+
+const reviewTitlePattern = new RegExp(`^#${reviewCommentTag}\\s+(.+):(\\d+)\\s*$`);
+
+export function normalizeReviewPath(relativePath: string): string {
+  return relativePath.split(path.sep).join('/').replace(/^\.\//, '');
+}
+
+export function formatReviewCommentTitle(anchor: ReviewCommentAnchor): string {
+  return `#${reviewCommentTag} ${normalizeReviewPath(anchor.filePath)}:${anchor.line}`;
+}
+
+export function parseReviewCommentTitle(title: string | null | undefined): ReviewCommentAnchor | undefined {
+  if (!title) { return undefined; }
+  const match = reviewTitlePattern.exec(title.trim());
+  if (!match || !match[1] || !match[2]) { return undefined; }
+  const line = Number.parseInt(match[2], 10);
+  if (!Number.isFinite(line) || line < 1) { return undefined; }
+  return { filePath: match[1], line };
+}
+
+/**
+ * Maps a file below `review/submissions/<submission_group_id>/<artifact_id>/`
+ * to its submission group and the path inside the submission.
+ */
+export function resolveReviewSubmissionFile(
+  reviewSubmissionsDir: string,
+  filePath: string
+): { submissionGroupId: string; artifactId: string; relativePath: string } | undefined {
+  const relative = path.relative(reviewSubmissionsDir, filePath);
+  if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) { return undefined; }
+  const parts = relative.split(path.sep);
+  if (parts.length < 3 || !parts[0] || !parts[1]) { return undefined; }
+  return {
+    submissionGroupId: parts[0],
+    artifactId: parts[1],
+    relativePath: parts.slice(2).join('/')
+  };
+}
+
+/**
+ * Groups submission-group messages into review threads for a single file.
+ * Roots are messages carrying a review anchor for `filePath`; every other
+ * message whose parent chain leads to such a root becomes a reply. Replies are
+ * ordered by creation time.
+ */
+export function groupReviewThreads(messages: MessageList[], filePath: string): ReviewCommentThreadData[] {
+  const normalized = normalizeReviewPath(filePath);
+  const byId = new Map(messages.map(m => [m.id, m]));
+  const threads = new Map<string, ReviewCommentThreadData>();
+
+  for (const message of messages) {
+    if (message.parent_id || message.is_deleted) { continue; }
+    const anchor = parseReviewCommentTitle(message.title);
+    if (anchor && anchor.filePath === normalized) {
+      threads.set(message.id, { anchor, root: message, replies: [] });
+    }
+  }
+
+  const findRoot = (message: MessageList): string | undefined => {
+    let current: MessageList | undefined = message;
+    const seen = new Set<string>();
+    while (current?.parent_id && !seen.has(current.id)) {
+      seen.add(current.id);
+      if (threads.has(current.parent_id)) { return current.parent_id; }
+      current = byId.get(current.parent_id);
+    }
+    return undefined;
+  };
+
+  for (const message of messages) {
+    if (!message.parent_id || message.is_deleted) { continue; }
+    const rootId = findRoot(message);
+    if (rootId) { threads.get(rootId)!.replies.push(message); }
+  }
+
+  const byCreation = (a: MessageList, b: MessageList) =>
+    new Date(a.created_at || 0).getTime() - new Date(b.created_at || 0).getTime();
+  const result = Array.from(threads.values());
+  result.forEach(t => t.replies.sort(byCreation));
+  return result.sort((a, b) => a.anchor.line - b.anchor.line || byCreation(a.root, b.root));
+}
@@ -0,0 +1,105 @@
+import type { CourseMemberList, CourseMemberUpdate } from '../types/generated';
+import type { CourseMemberImportRow } from './parsers/ICourseMemberParser';
+
+/**
+ * Roster sync: course members that no longer appear in the official roster
+ * (e.g. students who dropped out) get their role changed or leave their group.
+ * Every applied change keeps the previous values so a sync can be undone.
+ *
+ * Course members cannot be archived: the API has no archive state for them.
+ * Removing a member from their group takes that place; changing the role to
+ * one the lecturer set up for dropouts is the other option.
+ */
+
+/** Only students come from the official roster; tutors and lecturers are never absent. */
+export const rosterRoleId = '_student';
+
+export type AbsentMemberAction =
+  | { kind: 'changeRole'; roleId: string }
+  | { kind: 'removeFromGroup' };
+
+export type RosterFields = Pick<CourseMemberUpdate, 'course_role_id' | 'course_group_id'>;
+
+export interface RosterMember {
+  courseMemberId: string;
+  email: string;
+  name: string;
+  course_role_id: string;
+  course_group_id?: string | null;
+}
+
+export interface RosterChange {
+  courseMemberId: string;
+  email: string;
+  name: string;
+  /** Values before the change; sent back on undo. */
+  before: RosterFields;
+  after: RosterFields;
+}
+
+export interface RosterSyncLogEntry {
+  id: string;
+  courseId: string;
+  appliedAt: string;
+  /** Changes the server accepted. */
+  changes: RosterChange[];
+  undoneAt?: string;
+}
+
+export const maxRosterSyncLogEntries = 20;
+
+/** Ids of course students whose email is not in the imported roster. */
+export function findAbsentMemberIds(existing: readonly CourseMemberList[], rows: readonly CourseMemberImportRow[]): Set<string> {
+  const emails = new Set(rows.map(row => row.email?.trim().toLowerCase()).filter((email): email is string => Boolean(email)));
+  return new Set(existing
+    .filter(member => member.course_role_id === rosterRoleId)
+    .filter(member => !emails.has((member.user.email ?? '').trim().toLowerCase()))
+    .map(member => member.id));
+}
+
+/** The dry run: what `action` would change. Members it would not change are left out. */
+export function planRosterChanges(members: readonly RosterMember[], action: AbsentMemberAction): RosterChange[] {
+  const changes: RosterChange[] = [];
+  for (const member of members) {
+    const base = { courseMemberId: member.courseMemberId, email: member.email, name: member.name };
+    if (action.kind === 'changeRole' && member.course_role_id !== action.roleId) {
+      changes.push({ ...base, before: { course_role_id: member.course_role_id }, after: { course_role_id: action.roleId } });
+    } else if (action.kind === 'removeFromGroup' && member.course_group_id) {
+      changes.push({ ...base, before: { course_group_id: member.course_group_id }, after: { course_group_id: null } });
+    }
+  }
+  return changes;
+}
+
+/** Changes that restore the previous values, in reverse order. */
+export function revertRosterChanges(changes: readonly RosterChange[]): RosterChange[] {
+  return [...changes].reverse().map(change => ({ ...change, before: change.after, after: change.before }));
+}
+
+/** One line per change, e.g. `Max Muster <max@example.org>: role Student → Dropped`. */
+export function describeRosterChange(
+  change: RosterChange,
+  roleTitle: (roleId: string) => string,
+  groupTitle: (groupId: string) => string
+): string {
+  const parts: string[] = [];
+  if (change.after.course_role_id !== undefined) {
+    parts.push(`role ${roleTitle(change.before.course_role_id ?? '')} → ${roleTitle(change.after.course_role_id ?? '')}`);
+  }
+  if (change.after.course_group_id !== undefined) {
+    const from = change.before.course_group_id ? groupTitle(change.before.course_group_id) : 'no group';
+    const to = change.after.course_group_id ? groupTitle(change.after.course_group_id) : 'no group';
+    parts.push(`group ${from} → ${to}`);
+  }
+  const who = change.name ? `${change.name} <${change.email}>` : change.email;
+  return `${who}: ${parts.join(', ')}`;
+}
+
+/** Newest first; the oldest entries are dropped beyond `limit`. */
+export function appendRosterSyncLog(
+  log: readonly RosterSyncLogEntry[],
+  entry: RosterSyncLogEntry,
+  limit = maxRosterSyncLogEntries
+): RosterSyncLogEntry[] {
+  return [entry, ...log].slice(0, limit);
+}
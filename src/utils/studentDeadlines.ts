@@ -0,0 +1,88 @@
+/**
+ * Deadlines for student assignments. The backend does not expose due dates
+ * for course contents, so students note them locally; the tree, the status
+ * bar and the reminders all read from these entries.
+ */
+
+export interface StudentDeadline {
+  courseId: string;
+  contentId: string;
+  contentTitle: string;
+  /** Due date (ISO 8601). */
+  dueAt: string;
+  /** Reminder offsets (hours before the due date) that were already handled. */
+  handledReminders?: number[];
+}
+
+/** What the reminder check knows about an assignment's submission state. */
+export interface DeadlineActivity {
+  latestSubmissionAt?: Date;
+  latestLocalChangeAt?: Date;
+}
+
+export const defaultReminderHours = [24, 1];
+
+/** Positive, unique offsets from the setting, largest first. Falls back to the defaults on invalid input. */
+export function normalizeReminderHours(value: unknown): number[] {
+  if (!Array.isArray(value)) {
+    return [...defaultReminderHours];
+  }
+  const hours = value.filter((entry): entry is number => typeof entry === 'number' && Number.isFinite(entry) && entry > 0);
+  return Array.from(new Set(hours)).sort((a, b) => b - a);
+}
+
+export function isDeadlineOverdue(deadline: StudentDeadline, now: Date): boolean {
+  return new Date(deadline.dueAt).getTime() <= now.getTime();
+}
+
+/**
+ * Reminder offsets whose window has opened but that were not handled yet.
+ * Once the due date passed no reminders are pending anymore.
+ */
+export function pendingReminders(deadline: StudentDeadline, reminderHours: number[], now: Date): number[] {
+  const dueMs = new Date(deadline.dueAt).getTime();
+  if (dueMs <= now.getTime()) {
+    return [];
+  }
+  const handled = new Set(deadline.handledReminders ?? []);
+  return reminderHours.filter(hours => !handled.has(hours) && dueMs - hours * 3600 * 1000 <= now.getTime());
+}
+
+/** Remind only when there are local changes that no submission contains yet. */
+export function hasUnsubmittedChanges(activity: DeadlineActivity): boolean {
+  if (!activity.latestLocalChangeAt) {
+    return false;
+  }
+  if (!activity.latestSubmissionAt) {
+    return true;
+  }
+  return activity.latestSubmissionAt.getTime() < activity.latestLocalChangeAt.getTime();
+}
+
+/** Compact time left for tree descriptions and the status bar, e.g. "2d 5h", "3h 20m", "45m", "overdue". */
+export function describeTimeRemaining(dueAt: string, now: Date): string {
+  const diffMs = new Date(dueAt).getTime() - now.getTime();
+  if (diffMs <= 0) {
+    return 'overdue';
+  }
+  const totalMinutes = Math.ceil(diffMs / 60000);
+  const days = Math.floor(totalMinutes / (24 * 60));
+  const hours = Math.floor((totalMinutes % (24 * 60)) / 60);
+  const minutes = totalMinutes % 60;
+  if (days > 0) {
+    return hours > 0 ? `${days}d ${hours}h` : `${days}d`;
+  }
+  if (hours > 0) {
+    return minutes > 0 ? `${hours}h ${minutes}m` : `${hours}h`;
+  }
+  return `${minutes}m`;
+}
+
+export function sortDeadlines(deadlines: StudentDeadline[]): StudentDeadline[] {
+  return deadlines.slice().sort((a, b) => a.dueAt.localeCompare(b.dueAt) || a.contentTitle.localeCompare(b.contentTitle));
+}
+
+/** The earliest deadline that has not passed yet. */
+export function nextUpcomingDeadline(deadlines: StudentDeadline[], now: Date): StudentDeadline | undefined {
+  return sortDeadlines(deadlines).find(deadline => !isDeadlineOverdue(deadline, now));
+}
@@ -0,0 +1,198 @@
+/**
+ * Offline similarity detection between student submissions. Source files are
+ * reduced to a normalized token stream (identifiers, literals and comments are
+ * abstracted away, so renaming variables does not hide a copy) and then
+ * fingerprinted with winnowing over k-grams of tokens. Two submissions are
+ * compared by the overlap of their fingerprint sets.
+ */
+
+export interface SubmissionSource {
+  /** Submission group ID (or any stable key). */
+  id: string;
+  label: string;
+  /** Root directory of the extracted submission on disk. */
+  root: string;
+  files: Array<{ path: string; content: string }>;
+}
+
+export interface FileSimilarity {
+  pathA: string;
+  pathB: string;
+  score: number;
+}
+
+export interface SimilarityPair {
+  a: string;
+  b: string;
+  /** Share of the smaller submission's fingerprints found in the other one (0..1). */
+  score: number;
+  files: FileSimilarity[];
+}
+
+export interface SimilarityOptions {
+  /** Tokens per k-gram. */
+  k?: number;
+  /** Winnowing window size. */
+  window?: number;
+  /** Pairs below this score are dropped. */
+  threshold?: number;
+  /** Fingerprints to ignore, e.g. those of the assignment template. */
+  ignore?: Set<number>;
+}
+
+const defaultK = 5;
+const defaultWindow = 4;
+
+const keywords = new Set([
+  // shared by the languages used in courses (Python, C/C++, Java, JS/TS, MATLAB, Octave)
+  'if', 'else', 'elif', 'for', 'while', 'do', 'switch', 'case', 'default', 'break', 'continue',
+  'return', 'def', 'function', 'class', 'struct', 'import', 'from', 'as', 'try', 'except', 'catch',
+  'finally', 'raise', 'throw', 'with', 'lambda', 'yield', 'in', 'is', 'not', 'and', 'or', 'new',
+  'end', 'pass', 'global', 'const', 'let', 'var', 'static', 'void', 'int', 'float', 'double',
+  'char', 'bool', 'boolean', 'long', 'short', 'unsigned', 'public', 'private', 'protected',
+  'true', 'false', 'True', 'False', 'None', 'null', 'nullptr', 'this', 'self', 'print', 'printf'
+]);
+
+const tokenPattern = /("(?:\\.|[^"\\])*"|'(?:\\.|[^'\\])*'|[A-Za-z_][A-Za-z0-9_]*|\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|==|!=|<=|>=|&&|\|\||\+\+|--|\+=|-=|\*=|\/=|->|::|\*\*|[{}()[\];,.:+\-*/%<>=!&|^~?@])/g;
+
+function stripComments(source: string): string {
+  return source
+    .replace(/\/\*[\s\S]*?\*\//g, ' ')
+    .replace(/"""[\s\S]*?"""|'''[\s\S]*?'''/g, ' ')
+    .replace(/(^|[^:"'])\/\/.*$/gm, '$1')
+    .replace(/(^|\s)#.*$/gm, '$1')
+    .replace(/^\s*%.*$/gm, '');
+}
+
+/**
+ * Normalized token stream: identifiers become `V`, numbers `N` and strings `S`;
+ * keywords and operators are kept verbatim.
+ */
+export function tokenizeSource(source: string): string[] {
+  const tokens: string[] = [];
+  const text = stripComments(source);
+  for (const match of text.matchAll(tokenPattern)) {
+    const token = match[0];
+    const first = token.charAt(0);
+    if (first === '"' || first === '\'') {
+      tokens.push('S');
+    } else if (/\d/.test(first)) {
+      tokens.push('N');
+    } else if (/[A-Za-z_]/.test(first)) {
+      tokens.push(keywords.has(token) ? token : 'V');
+    } else {
+      tokens.push(token);
+    }
+  }
+  return tokens;
+}
+
+function hashTokens(tokens: string[], start: number, k: number): number {
+  // FNV-1a over the joined k-gram
+  let hash = 0x811c9dc5;
+  for (let i = start; i < start + k; i++) {
+    const token = tokens[i]!;
+    for (let c = 0; c < token.length; c++) {
+      hash ^= token.charCodeAt(c);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    hash ^= 0x20;
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** Winnowed fingerprints of a token stream. */
+export function fingerprintTokens(tokens: string[], k = defaultK, window = defaultWindow): Set<number> {
+  const fingerprints = new Set<number>();
+  if (tokens.length < k) {
+    return fingerprints;
+  }
+  const hashes: number[] = [];
+  for (let i = 0; i + k <= tokens.length; i++) {
+    hashes.push(hashTokens(tokens, i, k));
+  }
+  if (hashes.length <= window) {
+    fingerprints.add(Math.min(...hashes));
+    return fingerprints;
+  }
+  for (let i = 0; i + window <= hashes.length; i++) {
+    let min = hashes[i]!;
+    for (let j = i + 1; j < i + window; j++) {
+      min = Math.min(min, hashes[j]!);
+    }
+    fingerprints.add(min);
+  }
+  return fingerprints;
+}
+
+export function fingerprintSource(source: string, options: SimilarityOptions = {}): Set<number> {
+  return fingerprintTokens(tokenizeSource(source), options.k ?? defaultK, options.window ?? defaultWindow);
+}
+
+function overlap(a: Set<number>, b: Set<number>): number {
+  if (a.size === 0 || b.size === 0) {
+    return 0;
+  }
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let shared = 0;
+  for (const value of small) {
+    if (large.has(value)) {
+      shared++;
+    }
+  }
+  return shared / small.size;
+}
+
+function withoutIgnored(fingerprints: Set<number>, ignore?: Set<number>): Set<number> {
+  if (!ignore || ignore.size === 0) {
+    return fingerprints;
+  }
+  return new Set(Array.from(fingerprints).filter(value => !ignore.has(value)));
+}
+
+/**
+ * Compares every pair of submissions and returns those scoring at least
+ * `threshold`, most similar first. Per-file scores list the best matching file
+ * of the other submission for every file.
+ */
+export function computeSimilarityPairs(submissions: SubmissionSource[], options: SimilarityOptions = {}): SimilarityPair[] {
+  const threshold = options.threshold ?? 0;
+  const prepared = submissions.map(submission => {
+    const files = submission.files
+      .map(file => ({ path: file.path, fingerprints: withoutIgnored(fingerprintSource(file.content, options), options.ignore) }))
+      .filter(file => file.fingerprints.size > 0);
+    const all = new Set<number>();
+    files.forEach(file => file.fingerprints.forEach(value => all.add(value)));
+    return { id: submission.id, files, all };
+  });
+
+  const pairs: SimilarityPair[] = [];
+  for (let i = 0; i < prepared.length; i++) {
+    for (let j = i + 1; j < prepared.length; j++) {
+      const a = prepared[i]!;
+      const b = prepared[j]!;
+      const score = overlap(a.all, b.all);
+      if (score < threshold || score === 0) {
+        continue;
+      }
+      const files: FileSimilarity[] = [];
+      for (const fileA of a.files) {
+        let best: FileSimilarity | undefined;
+        for (const fileB of b.files) {
+          const fileScore = overlap(fileA.fingerprints, fileB.fingerprints);
+          if (!best || fileScore > best.score) {
+            best = { pathA: fileA.path, pathB: fileB.path, score: fileScore };
+          }
+        }
+        if (best && best.score > 0) {
+          files.push(best);
+        }
+      }
+      files.sort((x, y) => y.score - x.score);
+      pairs.push({ a: a.id, b: b.id, score, files });
+    }
+  }
+
+  return pairs.sort((x, y) => y.score - x.score);
+}
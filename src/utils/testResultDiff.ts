@@ -0,0 +1,99 @@
+/**
+ * Run-to-run comparison of test results as produced by computor-test
+ * (`testSummary.json` / `result_json`): a head object with nested `tests`
+ * arrays whose entries carry `name`, `result` ("PASSED"/"FAILED"/...) and an
+ * optional `resultMessage`.
+ */
+
+export interface TestOutcome {
+  passed: boolean;
+  message?: string;
+}
+
+export interface TestOutcomeChange {
+  /** Slash separated path of test names, e.g. `Variables/x`. */
+  key: string;
+  before?: TestOutcome;
+  after?: TestOutcome;
+}
+
+export interface TestResultDiff {
+  newlyPassed: TestOutcomeChange[];
+  regressed: TestOutcomeChange[];
+  messageChanged: TestOutcomeChange[];
+  added: TestOutcomeChange[];
+  removed: TestOutcomeChange[];
+  unchangedCount: number;
+}
+
+/**
+ * Flattens a result payload into leaf tests keyed by their name path. Groups
+ * without sub-tests count as a single test. A name that repeats within the
+ * same collection gets its occurrence appended, e.g. `Variables (2)/x`, so
+ * no test overwrites another.
+ */
+export function flattenTestResults(results: unknown): Map<string, TestOutcome> {
+  const outcomes = new Map<string, TestOutcome>();
+
+  const visit = (tests: unknown, prefix: string): void => {
+    if (!Array.isArray(tests)) { return; }
+    const occurrences = new Map<string, number>();
+    tests.forEach((test: any, index: number) => {
+      if (!test || typeof test !== 'object') { return; }
+      const name = typeof test.name === 'string' && test.name ? test.name : `item-${index}`;
+      const occurrence = (occurrences.get(name) ?? 0) + 1;
+      occurrences.set(name, occurrence);
+      const unique = occurrence > 1 ? `${name} (${occurrence})` : name;
+      const key = prefix ? `${prefix}/${unique}` : unique;
+      if (Array.isArray(test.tests) && test.tests.length > 0) {
+        visit(test.tests, key);
+        return;
+      }
+      const message = typeof test.resultMessage === 'string' && test.resultMessage.trim()
+        ? test.resultMessage.trim()
+        : undefined;
+      outcomes.set(key, { passed: test.result === 'PASSED', message });
+    });
+  };
+
+  if (results && typeof results === 'object') {
+    visit(Array.isArray(results) ? results : (results as any).tests, '');
+  }
+  return outcomes;
+}
+
+export function diffTestResults(before: unknown, after: unknown): TestResultDiff {
+  const beforeOutcomes = flattenTestResults(before);
+  const afterOutcomes = flattenTestResults(after);
+  const diff: TestResultDiff = {
+    newlyPassed: [],
+    regressed: [],
+    messageChanged: [],
+    added: [],
+    removed: [],
+    unchangedCount: 0
+  };
+
+  for (const [key, next] of afterOutcomes) {
+    const previous = beforeOutcomes.get(key);
+    if (!previous) {
+      diff.added.push({ key, after: next });
+    } else if (!previous.passed && next.passed) {
+      diff.newlyPassed.push({ key, before: previous, after: next });
+    } else if (previous.passed && !next.passed) {
+      diff.regressed.push({ key, before: previous, after: next });
+    } else if ((previous.message ?? '') !== (next.message ?? '')) {
+      diff.messageChanged.push({ key, before: previous, after: next });
+    } else {
+      diff.unchangedCount++;
+    }
+  }
+
+  for (const [key, previous] of beforeOutcomes) {
+    if (!afterOutcomes.has(key)) {
+      diff.removed.push({ key, before: previous });
+    }
+  }
+
+  return diff;
+}
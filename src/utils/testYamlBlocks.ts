@@ -0,0 +1,425 @@
+/**
+ * test.yaml support derived from src/data/block-registry.json: the registry in
+ * its typed (camelCase) form, the fields that are valid at each level of a
+ * test suite, and validation of test types, qualifications and field values
+ * against the language the suite is written for.
+ */
+
+import blockRegistryJson from '../data/block-registry.json';
+import type { SchemaIssue } from './jsonSchema';
+import type { YamlPath } from './yamlLocator';
+import type {
+  BlockRegistry,
+  FieldDefinition,
+  FieldType,
+  LanguageBlocks,
+  QualificationBlock,
+  TestTypeBlock
+} from '../types/testing/blocks';
+
+interface RegistryFieldJson {
+  name: string;
+  type: string;
+  description: string;
+  required?: boolean;
+  default?: unknown;
+  enum_values?: string[] | null;
+  array_item_type?: string | null;
+  min_value?: number | null;
+  max_value?: number | null;
+  min_length?: number | null;
+  max_length?: number | null;
+  pattern?: string | null;
+  placeholder?: string | null;
+  examples?: unknown[] | null;
+}
+
+interface RegistryJson {
+  version: string;
+  languages: Array<{
+    id: string;
+    name: string;
+    description?: string;
+    file_extensions: string[];
+    icon?: string;
+    test_types: Array<{
+      id: string;
+      name: string;
+      description: string;
+      icon?: string;
+      category?: string;
+      qualifications: string[];
+      default_qualification?: string | null;
+      collection_fields?: RegistryFieldJson[] | null;
+      test_fields?: RegistryFieldJson[] | null;
+      example?: Record<string, unknown> | null;
+    }>;
+    qualifications?: Array<{
+      id: string;
+      name: string;
+      description: string;
+      category?: string;
+      uses_value?: boolean;
+      uses_pattern?: boolean;
+      uses_tolerance?: boolean;
+      uses_line_number?: boolean;
+      uses_count?: boolean;
+      extra_fields?: RegistryFieldJson[] | null;
+      example?: Record<string, unknown> | null;
+    }>;
+    config_fields?: RegistryFieldJson[] | null;
+    defaults?: Record<string, unknown> | null;
+  }>;
+}
+
+/** Where a path points inside a test suite. */
+export type TestYamlContainer =
+  | { kind: 'suite' }
+  | { kind: 'properties' }
+  | { kind: 'collection'; collection: number }
+  | { kind: 'test'; collection: number; test: number };
+
+let registry: BlockRegistry | undefined;
+
+export function getBlockRegistry(): BlockRegistry {
+  if (!registry) {
+    registry = toBlockRegistry(blockRegistryJson as unknown as RegistryJson);
+  }
+  return registry;
+}
+
+export function findLanguageBlocks(id: unknown, blocks: BlockRegistry = getBlockRegistry()): LanguageBlocks | undefined {
+  return typeof id === 'string' ? blocks.languages.find(language => language.id === id) : undefined;
+}
+
+/** First language whose file extensions occur among the example's files. */
+export function detectBlockLanguage(fileNames: string[], blocks: BlockRegistry = getBlockRegistry()): string | undefined {
+  return blocks.languages.find(language =>
+    language.fileExtensions.some(ext => fileNames.some(file => file.endsWith(ext)))
+  )?.id;
+}
+
+export function findTestType(language: LanguageBlocks, id: unknown): TestTypeBlock | undefined {
+  return typeof id === 'string' ? language.testTypes.find(testType => testType.id === id) : undefined;
+}
+
+export function findQualification(language: LanguageBlocks, id: unknown): QualificationBlock | undefined {
+  return typeof id === 'string' ? language.qualifications.find(qualification => qualification.id === id) : undefined;
+}
+
+export function testYamlContainerAt(path: YamlPath): TestYamlContainer | undefined {
+  if (path.length === 0) {
+    return { kind: 'suite' };
+  }
+  if (path[0] !== 'properties') {
+    return undefined;
+  }
+  if (path.length === 1) {
+    return { kind: 'properties' };
+  }
+  const [, tests, collection, nested, test] = path;
+  if (tests !== 'tests' || typeof collection !== 'number') {
+    return undefined;
+  }
+  if (path.length === 3) {
+    return { kind: 'collection', collection };
+  }
+  if (path.length === 5 && nested === 'tests' && typeof test === 'number') {
+    return { kind: 'test', collection, test };
+  }
+  return undefined;
+}
+
+/**
+ * Fields that are valid in a container. Collections need their test type and
+ * tests their qualification (the test type default applies when omitted).
+ */
+export function testYamlFields(
+  language: LanguageBlocks | undefined,
+  container: TestYamlContainer,
+  testTypeId?: unknown,
+  qualificationId?: unknown
+): FieldDefinition[] {
+  switch (container.kind) {
+    case 'suite':
+      return suiteFields(language);
+    case 'properties':
+      return mergeFields(propertyFields(language), language?.configFields ?? []);
+    case 'collection': {
+      const testType = language ? findTestType(language, testTypeId) : undefined;
+      return mergeFields(collectionFields(language), testType?.collectionFields ?? []);
+    }
+    case 'test': {
+      const testType = language ? findTestType(language, testTypeId) : undefined;
+      if (!language || !testType) {
+        return [];
+      }
+      const qualification = findQualification(language, qualificationId ?? testType.defaultQualification);
+      const fields = (testType.testFields ?? []).map(field =>
+        field.name === 'qualification' ? { ...field, enumValues: testType.qualifications } : field
+      );
+      return mergeFields(fields, qualification?.extraFields ?? []);
+    }
+  }
+}
+
+/** Registry checks for a parsed test.yaml written for `language`. */
+export function validateTestYaml(data: unknown, language: LanguageBlocks): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  if (!isRecord(data)) {
+    return [{ path: [], message: 'test.yaml must be a mapping.', severity: 'error' }];
+  }
+  issues.push(...validateFields(data, suiteFields(language), []));
+
+  const properties = data.properties;
+  if (!isRecord(properties)) {
+    return issues;
+  }
+  issues.push(...validateFields(properties, testYamlFields(language, { kind: 'properties' }), ['properties']));
+  if (!Array.isArray(properties.tests)) {
+    return issues;
+  }
+
+  properties.tests.forEach((collection, ci) => {
+    const collectionPath: YamlPath = ['properties', 'tests', ci];
+    if (!isRecord(collection)) {
+      issues.push({ path: collectionPath, message: 'Expected a test collection mapping.', severity: 'error' });
+      return;
+    }
+    const testType = findTestType(language, collection.type);
+    if (collection.type !== undefined && !testType) {
+      issues.push({
+        path: [...collectionPath, 'type'],
+        message: `Unknown test type "${String(collection.type)}" for ${language.name}. Expected one of: ${language.testTypes.map(t => t.id).join(', ')}.`,
+        severity: 'error'
+      });
+    }
+    const fields = testYamlFields(language, { kind: 'collection', collection: ci }, collection.type)
+      .map(field => (field.name === 'type' ? { ...field, enumValues: undefined } : field));
+    issues.push(...validateFields(collection, fields, collectionPath));
+    if (!testType || !Array.isArray(collection.tests)) {
+      return;
+    }
+
+    collection.tests.forEach((test, ti) => {
+      const testPath: YamlPath = [...collectionPath, 'tests', ti];
+      if (!isRecord(test)) {
+        issues.push({ path: testPath, message: 'Expected a test case mapping.', severity: 'error' });
+        return;
+      }
+      if (test.qualification !== undefined && !testType.qualifications.includes(String(test.qualification))) {
+        const known = findQualification(language, test.qualification);
+        issues.push({
+          path: [...testPath, 'qualification'],
+          message: known
+            ? `Qualification "${known.id}" is not allowed for ${testType.name} tests. Allowed: ${testType.qualifications.join(', ')}.`
+            : `Unknown qualification "${String(test.qualification)}". Allowed for ${testType.name} tests: ${testType.qualifications.join(', ')}.`,
+          severity: 'error'
+        });
+      }
+      const fields = testYamlFields(language, { kind: 'test', collection: ci, test: ti }, testType.id, test.qualification)
+        .filter(field => field.name !== 'qualification');
+      issues.push(...validateFields(test, fields, testPath));
+    });
+  });
+  return issues;
+}
+
+/** Checks required fields and the value constraints of the fields present. */
+export function validateFields(data: Record<string, unknown>, fields: FieldDefinition[], path: YamlPath): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  for (const field of fields) {
+    const value = data[field.name];
+    if (value === undefined || value === null) {
+      if (field.required) {
+        issues.push({ path, message: `Missing required field "${field.name}".`, severity: 'error' });
+      }
+      continue;
+    }
+    const message = fieldValueProblem(value, field);
+    if (message) {
+      issues.push({ path: [...path, field.name], message, severity: 'error' });
+    }
+  }
+  return issues;
+}
+
+/** Markdown documentation for a field: description, constraints, default and examples. */
+export function describeField(field: FieldDefinition): string {
+  const parts = [`**${field.name}** \`${fieldTypeLabel(field)}\`${field.required ? ' (required)' : ''}`];
+  if (field.description) {
+    parts.push(field.description);
+  }
+  const constraints: string[] = [];
+  if (field.minValue !== undefined) constraints.push(`≥ ${field.minValue}`);
+  if (field.maxValue !== undefined) constraints.push(`≤ ${field.maxValue}`);
+  if (field.minLength !== undefined) constraints.push(`at least ${field.minLength} characters`);
+  if (field.maxLength !== undefined) constraints.push(`at most ${field.maxLength} characters`);
+  if (field.pattern) constraints.push(`matches \`${field.pattern}\``);
+  if (constraints.length > 0) {
+    parts.push(`Constraints: ${constraints.join(', ')}`);
+  }
+  if (field.default !== undefined && field.default !== null) {
+    parts.push(`Default: \`${JSON.stringify(field.default)}\``);
+  }
+  const examples = field.examples?.length ? field.examples : (field.placeholder ? [field.placeholder] : []);
+  if (examples.length > 0) {
+    parts.push(`Examples: ${examples.map(example => `\`${typeof example === 'string' ? example : JSON.stringify(example)}\``).join(', ')}`);
+  }
+  return parts.join('\n\n');
+}
+
+export function fieldTypeLabel(field: FieldDefinition): string {
+  return field.type === 'array' && field.arrayItemType ? `${field.arrayItemType}[]` : field.type;
+}
+
+function fieldValueProblem(value: unknown, field: FieldDefinition): string | undefined {
+  switch (field.type) {
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || (field.type === 'integer' && !Number.isInteger(value))) {
+        return `Expected ${field.type === 'integer' ? 'an integer' : 'a number'}, got ${JSON.stringify(value)}.`;
+      }
+      if (field.minValue !== undefined && value < field.minValue) {
+        return `Must be at least ${field.minValue}.`;
+      }
+      if (field.maxValue !== undefined && value > field.maxValue) {
+        return `Must be at most ${field.maxValue}.`;
+      }
+      return undefined;
+    case 'boolean':
+      return typeof value === 'boolean' ? undefined : `Expected true or false, got ${JSON.stringify(value)}.`;
+    case 'array':
+      return Array.isArray(value) ? undefined : 'Expected a list.';
+    case 'object':
+      return isRecord(value) ? undefined : 'Expected a mapping.';
+  }
+  if (field.enumValues?.length && !field.enumValues.includes(String(value))) {
+    return `Value must be one of: ${field.enumValues.join(', ')}.`;
+  }
+  // Scalars like `value` are free-form; only strings carry length and pattern constraints
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  if (field.minLength !== undefined && value.length < field.minLength) {
+    return field.minLength === 1 ? 'Value must not be empty.' : `Must be at least ${field.minLength} characters long.`;
+  }
+  if (field.maxLength !== undefined && value.length > field.maxLength) {
+    return `Must be at most ${field.maxLength} characters long.`;
+  }
+  if (field.pattern && !new RegExp(field.pattern).test(value)) {
+    return `Does not match the expected format ${field.pattern}.`;
+  }
+  return undefined;
+}
+
+function suiteFields(language: LanguageBlocks | undefined): FieldDefinition[] {
+  return [
+    { name: 'name', type: 'string', description: 'Name of the test suite' },
+    { name: 'description', type: 'string', description: 'Description of the test suite' },
+    { name: 'version', type: 'string', description: 'Version of the test suite' },
+    {
+      name: 'type',
+      type: 'enum',
+      description: 'Language the tests are written for',
+      enumValues: getBlockRegistry().languages.map(candidate => candidate.id),
+      default: language?.id
+    },
+    { name: 'properties', type: 'object', description: 'Suite settings and the test collections', required: true }
+  ];
+}
+
+function propertyFields(language: LanguageBlocks | undefined): FieldDefinition[] {
+  const defaults = language?.defaults ?? {};
+  return [
+    { name: 'timeout', type: 'number', description: 'Maximum execution time in seconds', default: defaults.timeout, minValue: 0 },
+    { name: 'relativeTolerance', type: 'number', description: 'Relative tolerance for numeric comparison', default: defaults.relativeTolerance, minValue: 0 },
+    { name: 'absoluteTolerance', type: 'number', description: 'Absolute tolerance for numeric comparison', default: defaults.absoluteTolerance, minValue: 0 },
+    { name: 'tests', type: 'array', description: 'Test collections', arrayItemType: 'object', required: true }
+  ];
+}
+
+function collectionFields(language: LanguageBlocks | undefined): FieldDefinition[] {
+  return [
+    { name: 'name', type: 'string', description: 'Collection name (displayed in results)', required: true, minLength: 1 },
+    {
+      name: 'type',
+      type: 'enum',
+      description: 'Test type of the collection',
+      required: true,
+      enumValues: language?.testTypes.map(testType => testType.id)
+    },
+    { name: 'description', type: 'string', description: 'Description of the collection' },
+    { name: 'tests', type: 'array', description: 'Test cases of the collection', arrayItemType: 'object', required: true }
+  ];
+}
+
+/** Later definitions of a field override earlier ones. */
+function mergeFields(base: FieldDefinition[], extra: FieldDefinition[]): FieldDefinition[] {
+  const byName = new Map<string, FieldDefinition>();
+  [...base, ...extra].forEach(field => byName.set(field.name, field));
+  return Array.from(byName.values());
+}
+
+function toBlockRegistry(json: RegistryJson): BlockRegistry {
+  return {
+    version: json.version,
+    languages: json.languages.map(language => ({
+      id: language.id,
+      name: language.name,
+      description: language.description ?? '',
+      fileExtensions: language.file_extensions,
+      icon: language.icon,
+      testTypes: language.test_types.map(testType => ({
+        id: testType.id,
+        name: testType.name,
+        description: testType.description,
+        icon: testType.icon,
+        category: testType.category,
+        qualifications: testType.qualifications,
+        defaultQualification: testType.default_qualification ?? undefined,
+        collectionFields: (testType.collection_fields ?? []).map(toFieldDefinition),
+        testFields: (testType.test_fields ?? []).map(toFieldDefinition),
+        example: testType.example ?? undefined
+      })),
+      qualifications: (language.qualifications ?? []).map(qualification => ({
+        id: qualification.id,
+        name: qualification.name,
+        description: qualification.description,
+        category: qualification.category,
+        usesValue: qualification.uses_value,
+        usesPattern: qualification.uses_pattern,
+        usesTolerance: qualification.uses_tolerance,
+        usesLineNumber: qualification.uses_line_number,
+        usesCount: qualification.uses_count,
+        extraFields: (qualification.extra_fields ?? []).map(toFieldDefinition),
+        example: qualification.example ?? undefined
+      })),
+      configFields: (language.config_fields ?? []).map(toFieldDefinition),
+      defaults: language.defaults ?? undefined
+    }))
+  };
+}
+
+function toFieldDefinition(field: RegistryFieldJson): FieldDefinition {
+  return {
+    name: field.name,
+    type: field.type as FieldType,
+    description: field.description,
+    required: field.required ?? undefined,
+    default: field.default ?? undefined,
+    enumValues: field.enum_values ?? undefined,
+    arrayItemType: (field.array_item_type ?? undefined) as FieldType | undefined,
+    minValue: field.min_value ?? undefined,
+    maxValue: field.max_value ?? undefined,
+    minLength: field.min_length ?? undefined,
+    maxLength: field.max_length ?? undefined,
+    pattern: field.pattern ?? undefined,
+    placeholder: field.placeholder ?? undefined,
+    examples: field.examples ?? undefined
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,311 @@
+/**
+ * Distribution of ungraded submissions across tutors.
+ *
+ * Assignments are shared between lecturers and tutors through the free-form
+ * `properties` of each course group:
+ *
+ *   properties.tutor_assignments[courseContentId][studentCourseMemberId] = tutorUserId
+ *
+ * A student's entry lives in their own course group. Entries of students
+ * without a group are kept in another group of the course (the one that
+ * already holds them, else a fallback the lecturer picks), and every student
+ * is stored in at most one group, so readers simply merge all groups.
+ */
+
+export type DistributionStrategy = 'byGroup' | 'roundRobin' | 'loadBalanced';
+
+export const tutorAssignmentsProperty = 'tutor_assignments';
+
+/** Student course member ID → tutor user ID, for one course content. */
+export type TutorAssignments = Record<string, string>;
+
+export interface WorkloadTutor {
+  userId: string;
+  name: string;
+  /** The tutor's own course group; used by the `byGroup` strategy. */
+  courseGroupId?: string | null;
+}
+
+export interface WorkloadSubmission {
+  courseMemberId: string;
+  name: string;
+  courseGroupId?: string | null;
+  /** Has submissions nobody has reviewed yet. */
+  pending: boolean;
+  graded: boolean;
+  graderUserId?: string | null;
+  /** Fallback when only a display name is known (see `extractGraderName`). */
+  graderName?: string | null;
+}
+
+export interface DistributionResult {
+  assignments: TutorAssignments;
+  /** Course member IDs of pending submissions that got a tutor in this run. */
+  assigned: string[];
+  /** Course member IDs of pending submissions no tutor could take. */
+  unassignable: string[];
+}
+
+export interface TutorWorkloadRow {
+  userId: string;
+  name: string;
+  pending: number;
+  graded: number;
+}
+
+export interface WorkloadSummary {
+  tutors: TutorWorkloadRow[];
+  unassignedPending: number;
+  /** Graded by someone outside the tutor list, e.g. a lecturer. */
+  gradedByOthers: number;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/** All assignments stored in a course group's properties, by course content ID. */
+export function readAllTutorAssignments(properties: unknown): Record<string, TutorAssignments> {
+  const stored = isRecord(properties) ? properties[tutorAssignmentsProperty] : undefined;
+  const result: Record<string, TutorAssignments> = {};
+  if (!isRecord(stored)) {
+    return result;
+  }
+  for (const [contentId, entries] of Object.entries(stored)) {
+    if (!isRecord(entries)) { continue; }
+    const assignments: TutorAssignments = {};
+    for (const [memberId, tutorUserId] of Object.entries(entries)) {
+      if (typeof tutorUserId === 'string' && tutorUserId) {
+        assignments[memberId] = tutorUserId;
+      }
+    }
+    result[contentId] = assignments;
+  }
+  return result;
+}
+
+export function readTutorAssignments(properties: unknown, courseContentId: string): TutorAssignments {
+  return readAllTutorAssignments(properties)[courseContentId] ?? {};
+}
+
+/**
+ * Course member IDs assigned to `tutorUserId` across several course groups,
+ * optionally limited to one course content.
+ */
+export function collectAssignedMemberIds(
+  groupProperties: readonly unknown[],
+  tutorUserId: string,
+  courseContentId?: string
+): Set<string> {
+  const memberIds = new Set<string>();
+  for (const properties of groupProperties) {
+    for (const [contentId, assignments] of Object.entries(readAllTutorAssignments(properties))) {
+      if (courseContentId && contentId !== courseContentId) { continue; }
+      for (const [memberId, assignee] of Object.entries(assignments)) {
+        if (assignee === tutorUserId) {
+          memberIds.add(memberId);
+        }
+      }
+    }
+  }
+  return memberIds;
+}
+
+/**
+ * Returns a copy of `properties` with the assignments of one course content
+ * replaced. Other keys and other contents are kept as they are.
+ */
+export function writeTutorAssignments(
+  properties: unknown,
+  courseContentId: string,
+  assignments: TutorAssignments
+): Record<string, unknown> {
+  const base = isRecord(properties) ? { ...properties } : {};
+  const stored = isRecord(base[tutorAssignmentsProperty]) ? { ...(base[tutorAssignmentsProperty] as Record<string, unknown>) } : {};
+  if (Object.keys(assignments).length > 0) {
+    stored[courseContentId] = { ...assignments };
+  } else {
+    delete stored[courseContentId];
+  }
+  base[tutorAssignmentsProperty] = stored;
+  return base;
+}
+
+export interface StoredGroupAssignments {
+  groupId: string;
+  assignments: TutorAssignments;
+}
+
+export interface AssignmentChange {
+  courseMemberId: string;
+  courseGroupId?: string | null;
+  /** Undefined removes the assignment. */
+  tutorUserId?: string;
+}
+
+/**
+ * The course groups to write for a set of changed assignments, with the full
+ * assignments of one course content for each. A changed entry is removed from
+ * every group but the one it belongs in. Students without a group that no
+ * group holds yet go to `fallbackGroupId`; without one they are `unstorable`.
+ */
+export function planAssignmentWrites(
+  stored: readonly StoredGroupAssignments[],
+  changes: readonly AssignmentChange[],
+  fallbackGroupId?: string
+): { writes: Map<string, TutorAssignments>; unstorable: string[] } {
+  const next = new Map(stored.map(group => [group.groupId, { ...group.assignments }]));
+  const touched = new Set<string>();
+  const unstorable: string[] = [];
+
+  for (const change of changes) {
+    const holder = stored.find(group => change.courseMemberId in group.assignments)?.groupId;
+    const targetGroupId = change.courseGroupId || holder || fallbackGroupId;
+    if (change.tutorUserId && !targetGroupId) {
+      unstorable.push(change.courseMemberId);
+      continue;
+    }
+    for (const [groupId, assignments] of next) {
+      if (groupId !== targetGroupId && change.courseMemberId in assignments) {
+        delete assignments[change.courseMemberId];
+        touched.add(groupId);
+      }
+    }
+    if (targetGroupId) {
+      const assignments = next.get(targetGroupId) ?? {};
+      next.set(targetGroupId, assignments);
+      if (assignments[change.courseMemberId] !== change.tutorUserId) {
+        if (change.tutorUserId) {
+          assignments[change.courseMemberId] = change.tutorUserId;
+        } else {
+          delete assignments[change.courseMemberId];
+        }
+        touched.add(targetGroupId);
+      }
+    }
+  }
+
+  return {
+    writes: new Map([...touched].map(groupId => [groupId, next.get(groupId)!])),
+    unstorable
+  };
+}
+
+function byName<T extends { name: string }>(a: T, b: T): number {
+  return a.name.localeCompare(b.name);
+}
+
+/**
+ * Assigns pending submissions to tutors. Existing assignments to known tutors
+ * are kept unless `reassign` is set; graded submissions are never moved.
+ *
+ * - `roundRobin` hands out submissions in name order, one tutor after the other.
+ * - `loadBalanced` always picks the tutor with the fewest pending submissions.
+ * - `byGroup` only considers tutors of the student's own course group and
+ *   balances within it; groups without a tutor stay unassigned.
+ */
+export function distributeSubmissions(
+  submissions: readonly WorkloadSubmission[],
+  tutors: readonly WorkloadTutor[],
+  strategy: DistributionStrategy,
+  existing: TutorAssignments = {},
+  options: { reassign?: boolean } = {}
+): DistributionResult {
+  const sortedTutors = [...tutors].sort(byName);
+  const tutorIds = new Set(sortedTutors.map(tutor => tutor.userId));
+  const assignments: TutorAssignments = {};
+  for (const [memberId, tutorUserId] of Object.entries(existing)) {
+    if (tutorIds.has(tutorUserId)) {
+      assignments[memberId] = tutorUserId;
+    }
+  }
+
+  const targets = submissions
+    .filter(submission => submission.pending && (options.reassign || !assignments[submission.courseMemberId]))
+    .sort(byName);
+  for (const target of targets) {
+    delete assignments[target.courseMemberId];
+  }
+
+  const load = new Map(sortedTutors.map(tutor => [tutor.userId, 0]));
+  for (const submission of submissions) {
+    const tutorUserId = assignments[submission.courseMemberId];
+    if (submission.pending && tutorUserId) {
+      load.set(tutorUserId, (load.get(tutorUserId) ?? 0) + 1);
+    }
+  }
+
+  const leastLoaded = (candidates: readonly WorkloadTutor[]): WorkloadTutor | undefined => {
+    let best: WorkloadTutor | undefined;
+    for (const candidate of candidates) {
+      if (!best || load.get(candidate.userId)! < load.get(best.userId)!) {
+        best = candidate;
+      }
+    }
+    return best;
+  };
+
+  const assigned: string[] = [];
+  const unassignable: string[] = [];
+  targets.forEach((target, index) => {
+    let tutor: WorkloadTutor | undefined;
+    if (strategy === 'roundRobin') {
+      tutor = sortedTutors.length > 0 ? sortedTutors[index % sortedTutors.length] : undefined;
+    } else if (strategy === 'loadBalanced') {
+      tutor = leastLoaded(sortedTutors);
+    } else {
+      tutor = target.courseGroupId
+        ? leastLoaded(sortedTutors.filter(candidate => candidate.courseGroupId === target.courseGroupId))
+        : undefined;
+    }
+    if (!tutor) {
+      unassignable.push(target.courseMemberId);
+      return;
+    }
+    assignments[target.courseMemberId] = tutor.userId;
+    load.set(tutor.userId, load.get(tutor.userId)! + 1);
+    assigned.push(target.courseMemberId);
+  });
+
+  return { assignments, assigned, unassignable };
+}
+
+function isGradedBy(submission: WorkloadSubmission, tutor: WorkloadTutor): boolean {
+  if (submission.graderUserId) {
+    return submission.graderUserId === tutor.userId;
+  }
+  return !!submission.graderName && submission.graderName === tutor.name;
+}
+
+/** Pending (assigned, not yet reviewed) and graded counts per tutor. */
+export function summarizeWorkload(
+  submissions: readonly WorkloadSubmission[],
+  tutors: readonly WorkloadTutor[],
+  assignments: TutorAssignments
+): WorkloadSummary {
+  const rows = [...tutors].sort(byName).map(tutor => ({ userId: tutor.userId, name: tutor.name, pending: 0, graded: 0 }));
+  const rowsById = new Map(rows.map(row => [row.userId, row]));
+  let unassignedPending = 0;
+  let gradedByOthers = 0;
+
+  for (const submission of submissions) {
+    if (submission.pending) {
+      const row = rowsById.get(assignments[submission.courseMemberId] ?? '');
+      if (row) {
+        row.pending++;
+      } else {
+        unassignedPending++;
+      }
+    }
+    if (submission.graded) {
+      const grader = tutors.find(tutor => isGradedBy(submission, tutor));
+      if (grader) {
+        rowsById.get(grader.userId)!.graded++;
+      } else {
+        gradedByOthers++;
+      }
+    }
+  }
+
+  return { tutors: rows, unassignedPending, gradedByOthers };
+}
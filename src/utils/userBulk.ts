@@ -0,0 +1,163 @@
+import type { UserList } from '../types/generated/users';
+import type { CourseMemberTable } from './parsers/ICourseMemberParser';
+import { toCsv } from './csv';
+
+/**
+ * Bulk user administration: rows of the user creation CSV, their per-row
+ * results and the report written afterwards.
+ */
+
+export type BulkUserStatus = 'ready' | 'invalid' | 'exists' | 'created' | 'failed';
+
+export interface BulkUserRow {
+  /** 1-based data row in the file, for the report. */
+  line: number;
+  username: string;
+  email: string;
+  given_name?: string;
+  family_name?: string;
+  /** System roles to assign after creating the user. */
+  roles: string[];
+  status: BulkUserStatus;
+  /** Why the row is invalid, skipped or failed; warnings for created users. */
+  message?: string;
+  userId?: string;
+}
+
+type BulkUserColumn = 'username' | 'email' | 'given_name' | 'family_name' | 'roles';
+
+const knownHeaders: Record<string, BulkUserColumn> = {
+  'username': 'username',
+  'user name': 'username',
+  'login': 'username',
+  'email': 'email',
+  'e-mail': 'email',
+  'mail': 'email',
+  'given_name': 'given_name',
+  'given name': 'given_name',
+  'first name': 'given_name',
+  'firstname': 'given_name',
+  'vorname': 'given_name',
+  'family_name': 'family_name',
+  'family name': 'family_name',
+  'last name': 'family_name',
+  'lastname': 'family_name',
+  'surname': 'family_name',
+  'nachname': 'family_name',
+  'roles': 'roles',
+  'role': 'roles'
+};
+
+const emailPattern = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** Roles are separated by `;` or `|` so they survive comma-delimited files. */
+function splitRoles(value: string): string[] {
+  return value.split(/[;|]/).map(role => role.trim()).filter(Boolean);
+}
+
+/**
+ * Reads the rows of a user CSV. The username defaults to the part of the
+ * email before `@`. Rows that clash with each other or with `existing` users,
+ * or name a role outside `roleIds`, are marked instead of dropped so they
+ * show up in the report.
+ */
+export function readBulkUserRows(
+  table: CourseMemberTable,
+  existing: readonly UserList[] = [],
+  roleIds?: ReadonlySet<string>
+): BulkUserRow[] {
+  const columns = table.headers.map(header => knownHeaders[header.toLowerCase().trim()]);
+  if (!columns.includes('email')) {
+    throw new Error('The file needs an "email" column.');
+  }
+
+  const existingEmails = new Set(existing.map(user => (user.email ?? '').toLowerCase()).filter(Boolean));
+  const existingUsernames = new Set(existing.map(user => (user.username ?? '').toLowerCase()).filter(Boolean));
+  const seenEmails = new Set<string>();
+  const seenUsernames = new Set<string>();
+
+  return table.rows.map((cells, index) => {
+    const fields: Partial<Record<BulkUserColumn, string>> = {};
+    columns.forEach((column, columnIndex) => {
+      const value = String(cells[columnIndex] ?? '').trim();
+      if (column && value && fields[column] === undefined) {
+        fields[column] = value;
+      }
+    });
+
+    const email = fields.email ?? '';
+    const username = fields.username ?? email.split('@')[0] ?? '';
+    const row: BulkUserRow = {
+      line: index + 1,
+      username,
+      email,
+      given_name: fields.given_name,
+      family_name: fields.family_name,
+      roles: splitRoles(fields.roles ?? ''),
+      status: 'ready'
+    };
+
+    const emailKey = email.toLowerCase();
+    const usernameKey = username.toLowerCase();
+    const unknownRole = roleIds ? row.roles.find(role => !roleIds.has(role)) : undefined;
+    if (!emailPattern.test(email)) {
+      row.status = 'invalid';
+      row.message = email ? `"${email}" is not a valid email address.` : 'Email is missing.';
+    } else if (!username || /\s/.test(username)) {
+      row.status = 'invalid';
+      row.message = 'Username is missing or contains whitespace.';
+    } else if (unknownRole) {
+      row.status = 'invalid';
+      row.message = `Unknown role "${unknownRole}".`;
+    } else if (seenEmails.has(emailKey) || seenUsernames.has(usernameKey)) {
+      row.status = 'invalid';
+      row.message = 'Duplicate of an earlier row.';
+    } else if (existingEmails.has(emailKey) || existingUsernames.has(usernameKey)) {
+      row.status = 'exists';
+      row.message = 'A user with this email or username already exists.';
+    }
+    seenEmails.add(emailKey);
+    seenUsernames.add(usernameKey);
+    return row;
+  });
+}
+
+export function bulkUserReportToCsv(rows: readonly BulkUserRow[]): string {
+  const header = ['row', 'username', 'email', 'given_name', 'family_name', 'roles', 'status', 'user_id', 'message'];
+  const lines = rows.map(row => [
+    String(row.line),
+    row.username,
+    row.email,
+    row.given_name ?? '',
+    row.family_name ?? '',
+    row.roles.join(';'),
+    row.status,
+    row.userId ?? '',
+    row.message ?? ''
+  ]);
+  return toCsv([header, ...lines]);
+}
+
+export interface BulkFailure {
+  label: string;
+  error: string;
+}
+
+/** Modal text for a bulk action, e.g. `Archived 3 of 5 users.` plus one line per failure. */
+export function summarizeBulkOutcome(
+  pastTense: string,
+  total: number,
+  failures: readonly BulkFailure[],
+  maxLines = 15
+): { message: string; detail?: string } {
+  const succeeded = total - failures.length;
+  const noun = total === 1 ? 'user' : 'users';
+  if (failures.length === 0) {
+    return { message: `${pastTense} ${total} ${noun}.` };
+  }
+  const lines = failures.slice(0, maxLines).map(failure => `${failure.label}: ${failure.error}`);
+  if (failures.length > maxLines) {
+    lines.push(`… and ${failures.length - maxLines} more`);
+  }
+  return { message: `${pastTense} ${succeeded} of ${total} ${noun}.`, detail: lines.join('\n') };
+}
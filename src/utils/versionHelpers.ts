@@ -1,3 +1,5 @@
+import semver from 'semver';
+
 export interface SemVer {
   major: number;
   minor: number;
@@ -35,3 +37,25 @@ export function bumpVersion(versionTag: string, part: BumpPart): string {
       return formatSemVer({ major: version.major, minor: version.minor, patch: version.patch + 1 });
   }
 }
+
+export function compareSemVer(a: string, b: string): number {
+  const left = parseSemVer(a);
+  const right = parseSemVer(b);
+  return (left.major - right.major) || (left.minor - right.minor) || (left.patch - right.patch);
+}
+
+/**
+ * Whether a version satisfies a testDependencies constraint such as
+ * '>=1.2.0', '>= 1.2.0', '^2.1.0', '~1.2.0', '1.0.0' or '>=1.0.0, <2.0.0'.
+ * An empty constraint means "latest" and accepts every version; so does a
+ * constraint semver cannot parse, as the backend resolves it in the end.
+ */
+export function satisfiesVersionConstraint(versionTag: string, constraint?: string | null): boolean {
+  // meta.yaml allows comma-separated clauses and '=='; semver expects spaces and '='
+  const range = semver.validRange((constraint ?? '').replace(/,/g, ' ').replace(/==/g, '=').trim());
+  const version = semver.coerce(versionTag);
+  if (!range || !version) {
+    return true;
+  }
+  return semver.satisfies(version, range);
+}
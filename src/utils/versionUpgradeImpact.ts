@@ -0,0 +1,85 @@
+import type { ExampleDiff } from './exampleDiffHelper';
+import type { TutorSubmissionGroupList } from '../types/generated';
+
+/** Files of an example version as returned by the example download endpoint. */
+export interface ExampleVersionFiles {
+  files: Record<string, string>;
+  meta_yaml?: string | null;
+}
+
+export interface SubmittedAgainstVersion {
+  /** Submission groups with a submission since the current version was deployed. */
+  groups: number;
+  /** Members of those groups. */
+  students: number;
+}
+
+const studentTemplatesDirectory = 'studentTemplates/';
+const studentFileProperties = ['studentTemplates', 'additionalFiles'] as const;
+
+/**
+ * Files of a version that end up in student repositories: everything below
+ * `studentTemplates/` plus the files (or folders) meta.yaml lists as
+ * `studentTemplates` or `additionalFiles`.
+ */
+export function studentFacingFiles(version: ExampleVersionFiles): string[] {
+  const listed = listedStudentFiles(version.meta_yaml);
+  return Object.keys(version.files)
+    .map(file => file.replace(/\\/g, '/'))
+    .filter(file => file.startsWith(studentTemplatesDirectory)
+      || listed.some(entry => file === entry || file.startsWith(`${entry}/`)))
+    .sort();
+}
+
+/** Student-facing files that an upgrade from `current` to `next` adds, changes or removes. */
+export function diffStudentFiles(current: ExampleVersionFiles, next: ExampleVersionFiles): ExampleDiff {
+  const before = new Set(studentFacingFiles(current));
+  const after = new Set(studentFacingFiles(next));
+  const content = (version: ExampleVersionFiles, file: string) => version.files[file] ?? version.files[file.replace(/\//g, '\\')];
+  return {
+    added: [...after].filter(file => !before.has(file)),
+    modified: [...after].filter(file => before.has(file) && content(current, file) !== content(next, file)),
+    removed: [...before].filter(file => !after.has(file))
+  };
+}
+
+/**
+ * Counts the groups (and their members) that submitted since `deployedAt`,
+ * i.e. against the currently deployed version. Without a deployment date
+ * every group with a submission counts.
+ */
+export function countSubmittedAgainstVersion(groups: TutorSubmissionGroupList[], deployedAt?: string | null): SubmittedAgainstVersion {
+  const since = deployedAt ? Date.parse(deployedAt) : NaN;
+  const submitted = groups.filter(group => {
+    if (!group.submission_count) {
+      return false;
+    }
+    if (Number.isNaN(since) || !group.latest_submission_at) {
+      return true;
+    }
+    return Date.parse(group.latest_submission_at) >= since;
+  });
+  return {
+    groups: submitted.length,
+    students: submitted.reduce((sum, group) => sum + (group.member_count || 1), 0)
+  };
+}
+
+function listedStudentFiles(metaYaml: string | null | undefined): string[] {
+  if (!metaYaml) {
+    return [];
+  }
+  let meta: any;
+  try {
+    const yaml = require('js-yaml');
+    meta = yaml.load(metaYaml);
+  } catch {
+    return [];
+  }
+  const properties = meta?.properties ?? {};
+  return studentFileProperties.flatMap(property =>
+    (Array.isArray(properties[property]) ? properties[property] : [])
+      .filter((entry: unknown): entry is string => typeof entry === 'string' && entry.length > 0)
+      .map((entry: string) => entry.replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/+$/, ''))
+  );
+}
@@ -0,0 +1,86 @@
+import * as path from 'path';
+
+/**
+ * Configurable part of the Computor workspace layout. Each key belongs to one
+ * role: `student` (student checkouts), `review` (tutor repositories, references
+ * and submissions), `reference`, `examples` and `exampleVersions` (lecturer),
+ * `tmp` (shared scratch space).
+ */
+export type WorkspaceLayoutKey = 'student' | 'review' | 'reference' | 'examples' | 'exampleVersions' | 'tmp';
+
+export type WorkspaceLayoutOverrides = Partial<Record<WorkspaceLayoutKey, string>>;
+
+/** Shape of the `computor.workspace.layout` setting. */
+export interface WorkspaceLayoutSettings extends WorkspaceLayoutOverrides {
+  /** Per-course overrides keyed by course ID; they win over the global entries. */
+  courses?: Record<string, WorkspaceLayoutOverrides>;
+}
+
+export const workspaceLayoutKeys: WorkspaceLayoutKey[] = ['student', 'review', 'reference', 'examples', 'exampleVersions', 'tmp'];
+
+export const defaultWorkspaceLayout: Record<WorkspaceLayoutKey, string> = {
+  student: 'student',
+  review: 'review',
+  reference: 'reference',
+  examples: 'examples',
+  exampleVersions: 'example_versions',
+  tmp: 'tmp'
+};
+
+/**
+ * Resolves a configured layout entry: `~` expands to the home directory,
+ * absolute paths are taken verbatim, anything else is relative to the
+ * workspace root.
+ */
+export function resolveLayoutPath(workspaceRoot: string, value: string, homeDir: string): string {
+  const trimmed = value.trim();
+  if (trimmed === '~' || trimmed.startsWith('~/') || trimmed.startsWith('~\\')) {
+    return path.join(homeDir, trimmed.slice(1));
+  }
+  return path.isAbsolute(trimmed) ? path.normalize(trimmed) : path.join(workspaceRoot, trimmed);
+}
+
+/** Absolute directory per layout key for the given course (or the global layout without one). */
+export function resolveWorkspaceLayout(
+  workspaceRoot: string,
+  settings: WorkspaceLayoutSettings | undefined,
+  homeDir: string,
+  courseId?: string
+): Record<WorkspaceLayoutKey, string> {
+  const courseOverrides = courseId ? settings?.courses?.[courseId] : undefined;
+  const resolved = {} as Record<WorkspaceLayoutKey, string>;
+  for (const key of workspaceLayoutKeys) {
+    const configured = pickNonEmpty(courseOverrides?.[key]) ?? pickNonEmpty(settings?.[key]) ?? defaultWorkspaceLayout[key];
+    resolved[key] = resolveLayoutPath(workspaceRoot, configured, homeDir);
+  }
+  return resolved;
+}
+
+/**
+ * Picks the Computor workspace root among the open workspace folders. An
+ * explicitly configured root (absolute path or folder name) wins, then the
+ * first folder carrying a `.computor` marker, then the first folder.
+ */
+export function selectWorkspaceRoot(
+  folders: Array<{ name: string; fsPath: string }>,
+  configuredRoot: string | undefined,
+  hasMarker: (fsPath: string) => boolean
+): string | undefined {
+  const configured = pickNonEmpty(configuredRoot);
+  if (configured) {
+    const match = folders.find(folder =>
+      folder.name === configured || path.resolve(folder.fsPath) === path.resolve(configured)
+    );
+    if (match) {
+      return match.fsPath;
+    }
+    if (path.isAbsolute(configured)) {
+      return configured;
+    }
+  }
+  return folders.find(folder => hasMarker(folder.fsPath))?.fsPath ?? folders[0]?.fsPath;
+}
+
+function pickNonEmpty(value: string | undefined): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
@@ -1,6 +1,8 @@
 import * as path from 'path';
 import * as fs from 'fs';
+import * as os from 'os';
 import * as vscode from 'vscode';
+import { resolveWorkspaceLayout, selectWorkspaceRoot, type WorkspaceLayoutSettings } from './workspaceLayout';
 
 export interface WorkspaceDirectories {
   root: string;
@@ -16,16 +18,29 @@ export interface WorkspaceDirectories {
   tmpArtifacts: string;
 }
 
+/**
+ * Root of the Computor workspace, or undefined without an open folder. In
+ * multi-root workspaces this is the folder configured in
+ * `computor.workspace.root`, else the one holding the `.computor` marker, else
+ * the first folder.
+ */
+export function resolveComputorWorkspaceRoot(): string | undefined {
+  const folders = (vscode.workspace.workspaceFolders || []).map(folder => ({
+    name: folder.name,
+    fsPath: folder.uri.fsPath
+  }));
+  const configuredRoot = vscode.workspace.getConfiguration('computor.workspace').get<string>('root');
+  return selectWorkspaceRoot(folders, configuredRoot, dir => fs.existsSync(path.join(dir, '.computor')));
+}
+
 export class WorkspaceStructureManager {
   private static instance: WorkspaceStructureManager;
-  private workspaceRoot: string;
 
   private constructor() {
     const workspaceFolders = vscode.workspace.workspaceFolders;
     if (!workspaceFolders || workspaceFolders.length === 0) {
       throw new Error('No workspace folder is open');
     }
-    this.workspaceRoot = workspaceFolders[0]!.uri.fsPath;
   }
 
   static getInstance(): WorkspaceStructureManager {
@@ -35,32 +50,55 @@ export class WorkspaceStructureManager {
     return WorkspaceStructureManager.instance;
   }
 
+  private get workspaceRoot(): string {
+    const root = resolveComputorWorkspaceRoot();
+    if (!root) {
+      throw new Error('No workspace folder is open');
+    }
+    return root;
+  }
+
   /**
-   * Get all workspace directories
+   * Get all workspace directories. Pass a course ID to apply that course's
+   * entries from `computor.workspace.layout`.
    */
-  getDirectories(): WorkspaceDirectories {
-    const review = path.join(this.workspaceRoot, 'review');
-    const tmp = path.join(this.workspaceRoot, 'tmp');
+  getDirectories(courseId?: string): WorkspaceDirectories {
+    const root = this.workspaceRoot;
+    const layout = resolveWorkspaceLayout(root, this.getLayoutSettings(), os.homedir(), courseId);
     return {
-      root: this.workspaceRoot,
-      student: path.join(this.workspaceRoot, 'student'),
-      review,
-      reviewRepositories: path.join(review, 'repositories'),
-      reviewReference: path.join(review, 'reference'),
-      reviewSubmissions: path.join(review, 'submissions'),
-      reference: path.join(this.workspaceRoot, 'reference'),
-      examples: path.join(this.workspaceRoot, 'examples'),
-      exampleVersions: path.join(this.workspaceRoot, 'example_versions'),
-      tmp,
-      tmpArtifacts: path.join(tmp, 'artifacts')
+      root,
+      student: layout.student,
+      review: layout.review,
+      reviewRepositories: path.join(layout.review, 'repositories'),
+      reviewReference: path.join(layout.review, 'reference'),
+      reviewSubmissions: path.join(layout.review, 'submissions'),
+      reference: layout.reference,
+      examples: layout.examples,
+      exampleVersions: layout.exampleVersions,
+      tmp: layout.tmp,
+      tmpArtifacts: path.join(layout.tmp, 'artifacts')
     };
   }
 
+  /**
+   * Every location a directory may live in: the global layout plus all
+   * per-course overrides. Used to recognise files when the course is unknown.
+   */
+  getDirectoryCandidates(key: keyof WorkspaceDirectories): string[] {
+    const courseIds = Object.keys(this.getLayoutSettings()?.courses ?? {});
+    const candidates = [undefined, ...courseIds].map(courseId => this.getDirectories(courseId)[key]);
+    return Array.from(new Set(candidates));
+  }
+
+  private getLayoutSettings(): WorkspaceLayoutSettings | undefined {
+    return vscode.workspace.getConfiguration('computor.workspace').get<WorkspaceLayoutSettings>('layout');
+  }
+
   /**
    * Ensure workspace directories exist
    */
-  async ensureDirectories(): Promise<void> {
-    const dirs = this.getDirectories();
+  async ensureDirectories(courseId?: string): Promise<void> {
+    const dirs = this.getDirectories(courseId);
     await fs.promises.mkdir(dirs.student, { recursive: true });
     await fs.promises.mkdir(dirs.review, { recursive: true });
     await fs.promises.mkdir(dirs.reviewRepositories, { recursive: true });
@@ -74,40 +112,40 @@ export class WorkspaceStructureManager {
   /**
    * Get student repository path using submission group UUID
    */
-  getStudentRepositoryPath(submissionGroupId: string): string {
-    const dirs = this.getDirectories();
+  getStudentRepositoryPath(submissionGroupId: string, courseId?: string): string {
+    const dirs = this.getDirectories(courseId);
     return path.join(dirs.student, submissionGroupId);
   }
 
   /**
    * Get tutor review repository path using repository name
    */
-  getReviewRepositoryPath(repoName: string): string {
-    const dirs = this.getDirectories();
+  getReviewRepositoryPath(repoName: string, courseId?: string): string {
+    const dirs = this.getDirectories(courseId);
     return path.join(dirs.reviewRepositories, repoName);
   }
 
   /**
    * Get tutor review reference path using example version ID
    */
-  getReviewReferencePath(exampleVersionId: string): string {
-    const dirs = this.getDirectories();
+  getReviewReferencePath(exampleVersionId: string, courseId?: string): string {
+    const dirs = this.getDirectories(courseId);
     return path.join(dirs.reviewReference, exampleVersionId);
   }
 
   /**
    * Get tutor course content description (README) cache path
    */
-  getReviewDescriptionPath(courseContentId: string): string {
-    const dirs = this.getDirectories();
+  getReviewDescriptionPath(courseContentId: string, courseId?: string): string {
+    const dirs = this.getDirectories(courseId);
     return path.join(dirs.reviewReference, 'descriptions', courseContentId);
   }
 
   /**
    * Get tutor review submission artifact path
    */
-  getReviewSubmissionPath(submissionGroupId: string, artifactId: string): string {
-    const dirs = this.getDirectories();
+  getReviewSubmissionPath(submissionGroupId: string, artifactId: string, courseId?: string): string {
+    const dirs = this.getDirectories(courseId);
     return path.join(dirs.reviewSubmissions, submissionGroupId, artifactId);
   }
 
@@ -115,7 +153,7 @@ export class WorkspaceStructureManager {
    * Get lecturer reference repository path using course UUID
    */
   getReferenceRepositoryPath(courseId: string): string {
-    const dirs = this.getDirectories();
+    const dirs = this.getDirectories(courseId);
     return path.join(dirs.reference, courseId);
   }
 
@@ -180,8 +218,8 @@ export class WorkspaceStructureManager {
   /**
    * Get all existing student repositories
    */
-  async getExistingStudentRepositories(): Promise<string[]> {
-    const dirs = this.getDirectories();
+  async getExistingStudentRepositories(courseId?: string): Promise<string[]> {
+    const dirs = this.getDirectories(courseId);
     try {
       const entries = await fs.promises.readdir(dirs.student, { withFileTypes: true });
       const repos: string[] = [];
@@ -202,8 +240,8 @@ export class WorkspaceStructureManager {
   /**
    * Get all existing review repositories
    */
-  async getExistingReviewRepositories(): Promise<string[]> {
-    const dirs = this.getDirectories();
+  async getExistingReviewRepositories(courseId?: string): Promise<string[]> {
+    const dirs = this.getDirectories(courseId);
     try {
       const entries = await fs.promises.readdir(dirs.reviewRepositories, { withFileTypes: true });
       const repos: string[] = [];
@@ -258,24 +296,24 @@ export class WorkspaceStructureManager {
   /**
    * Check if reference exists for given example version ID
    */
-  async referenceExists(exampleVersionId: string): Promise<boolean> {
-    const refPath = this.getReviewReferencePath(exampleVersionId);
+  async referenceExists(exampleVersionId: string, courseId?: string): Promise<boolean> {
+    const refPath = this.getReviewReferencePath(exampleVersionId, courseId);
     return this.directoryExists(refPath);
   }
 
   /**
    * Check if submission artifact exists
    */
-  async submissionArtifactExists(submissionGroupId: string, artifactId: string): Promise<boolean> {
-    const submissionPath = this.getReviewSubmissionPath(submissionGroupId, artifactId);
+  async submissionArtifactExists(submissionGroupId: string, artifactId: string, courseId?: string): Promise<boolean> {
+    const submissionPath = this.getReviewSubmissionPath(submissionGroupId, artifactId, courseId);
     return this.directoryExists(submissionPath);
   }
 
   /**
    * Get all submission artifacts for a submission group
    */
-  async getSubmissionArtifacts(submissionGroupId: string): Promise<string[]> {
-    const dirs = this.getDirectories();
+  async getSubmissionArtifacts(submissionGroupId: string, courseId?: string): Promise<string[]> {
+    const dirs = this.getDirectories(courseId);
     const submissionGroupPath = path.join(dirs.reviewSubmissions, submissionGroupId);
     try {
       const entries = await fs.promises.readdir(submissionGroupPath, { withFileTypes: true });
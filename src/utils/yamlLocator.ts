@@ -0,0 +1,290 @@
+/**
+ * Line-based locator for block-style YAML (meta.yaml, test.yaml). js-yaml
+ * gives us values but no positions; this scanner maps value paths to the
+ * ranges of their keys and scalar values so schema issues can be reported
+ * where they occur, and tells completion what the cursor is positioned on.
+ * Flow mappings and multi-line flow collections are not indexed in detail.
+ */
+
+export type YamlPath = Array<string | number>;
+
+export interface YamlRange {
+  line: number;
+  start: number;
+  end: number;
+}
+
+export interface YamlNodeLocation {
+  path: YamlPath;
+  /** The key (mappings) or the `-` marker (sequence items). */
+  key?: YamlRange;
+  /** Scalar value on the same line, if any. */
+  value?: YamlRange;
+  /** Unquoted scalar value text. */
+  text?: string;
+}
+
+export type YamlCursorContext =
+  | { kind: 'key'; path: YamlPath; prefix: string }
+  | { kind: 'value'; path: YamlPath; prefix: string }
+  | { kind: 'item'; path: YamlPath; prefix: string };
+
+interface Frame {
+  indent: number;
+  path: YamlPath;
+  kind: 'key' | 'item';
+}
+
+interface ScanState {
+  frames: Frame[];
+  counters: Map<string, number>;
+  blockIndent?: number;
+}
+
+const keyPattern = /^("[^"]*"|'[^']*'|[^\s#'"\-[{][^:#]*?|-[^\s:#][^:#]*?)\s*:(?=\s|$)/;
+
+export function yamlPathKey(path: YamlPath): string {
+  return path.map(segment => String(segment)).join('/');
+}
+
+/** Maps every key and sequence item of the document to its location. */
+export function indexYamlLocations(text: string): Map<string, YamlNodeLocation> {
+  const locations = new Map<string, YamlNodeLocation>();
+  const state: ScanState = { frames: [], counters: new Map() };
+  splitLines(text).forEach((line, lineNo) => {
+    scanLine(state, line, lineNo, (path, location) => {
+      const key = yamlPathKey(path);
+      locations.set(key, { ...locations.get(key), ...location, path });
+    });
+  });
+  return locations;
+}
+
+/** Location for a path, falling back to the closest located ancestor. */
+export function locateYamlPath(locations: Map<string, YamlNodeLocation>, path: YamlPath): YamlRange | undefined {
+  for (let length = path.length; length > 0; length--) {
+    const location = locations.get(yamlPathKey(path.slice(0, length)));
+    if (location) {
+      // Report on the value only for the exact node; ancestors are marked at their key
+      return (length === path.length ? location.value : undefined) ?? location.key;
+    }
+  }
+  return undefined;
+}
+
+/** Keys that already exist directly below `path`. */
+export function existingYamlKeys(locations: Map<string, YamlNodeLocation>, path: YamlPath): Set<string> {
+  const prefix = path.length > 0 ? `${yamlPathKey(path)}/` : '';
+  const keys = new Set<string>();
+  for (const key of locations.keys()) {
+    if (key.startsWith(prefix)) {
+      const rest = key.slice(prefix.length);
+      if (rest && !rest.includes('/') && !/^\d+$/.test(rest)) {
+        keys.add(rest);
+      }
+    }
+  }
+  return keys;
+}
+
+/** The located node whose key or scalar value covers the position. */
+export function findYamlNodeAt(
+  locations: Map<string, YamlNodeLocation>,
+  line: number,
+  character: number
+): { location: YamlNodeLocation; onKey: boolean } | undefined {
+  const covers = (range: YamlRange | undefined) => !!range && range.line === line && range.start <= character && character <= range.end;
+  for (const location of locations.values()) {
+    if (covers(location.key)) {
+      return { location, onKey: true };
+    }
+    if (covers(location.value)) {
+      return { location, onKey: false };
+    }
+  }
+  return undefined;
+}
+
+/** Describes what is being typed at the given position. */
+export function resolveYamlCursor(text: string, line: number, character: number): YamlCursorContext {
+  const lines = splitLines(text);
+  const state: ScanState = { frames: [], counters: new Map() };
+  for (let i = 0; i < line && i < lines.length; i++) {
+    scanLine(state, lines[i] ?? '', i, () => undefined);
+  }
+  const before = (lines[line] ?? '').slice(0, character);
+  let indent = before.length - before.trimStart().length;
+  let rest = before.slice(indent);
+  let container: YamlPath;
+
+  if (rest === '-' || rest.startsWith('- ')) {
+    popFrames(state, frame => frame.indent > indent || (frame.indent === indent && frame.kind === 'item'));
+    const sequence = top(state)?.path ?? [];
+    const afterDash = rest.slice(1);
+    const trimmed = afterDash.trimStart();
+    if (!keyPattern.test(trimmed)) {
+      return { kind: 'item', path: sequence, prefix: trimmed };
+    }
+    // `- key: value` inside a sequence of mappings
+    container = [...sequence, state.counters.get(yamlPathKey(sequence)) ?? 0];
+    indent += 1 + afterDash.length - trimmed.length;
+    rest = trimmed;
+  } else {
+    popFrames(state, frame => frame.indent >= indent);
+    container = top(state)?.path ?? [];
+  }
+
+  const match = keyPattern.exec(rest);
+  if (!match) {
+    return { kind: 'key', path: container, prefix: rest };
+  }
+  const keyPath = [...container, unquote(match[1] ?? '')];
+  const value = rest.slice(match[0].length).trimStart();
+  if (value.startsWith('[') && !value.includes(']')) {
+    const lastItem = value.slice(1).split(',').pop() ?? '';
+    return { kind: 'item', path: keyPath, prefix: unquote(lastItem.trim()) };
+  }
+  return { kind: 'value', path: keyPath, prefix: unquote(value) };
+}
+
+function scanLine(
+  state: ScanState,
+  line: string,
+  lineNo: number,
+  record: (path: YamlPath, location: Omit<YamlNodeLocation, 'path'>) => void
+): void {
+  const indent = line.length - line.trimStart().length;
+  const content = line.slice(indent);
+  if (state.blockIndent !== undefined) {
+    if (content === '' || indent > state.blockIndent) {
+      return;
+    }
+    state.blockIndent = undefined;
+  }
+  if (content === '' || content.startsWith('#') || content.startsWith('---') || content.startsWith('...')) {
+    return;
+  }
+
+  let column = indent;
+  let rest = content;
+  if (rest === '-' || rest.startsWith('- ')) {
+    popFrames(state, frame => frame.indent > column || (frame.indent === column && frame.kind === 'item'));
+    const parent = top(state)?.path ?? [];
+    const counterKey = yamlPathKey(parent);
+    const index = state.counters.get(counterKey) ?? 0;
+    state.counters.set(counterKey, index + 1);
+    const itemPath = [...parent, index];
+    state.frames.push({ indent: column, path: itemPath, kind: 'item' });
+    record(itemPath, { key: { line: lineNo, start: column, end: column + 1 } });
+
+    const afterDash = rest.slice(1);
+    const trimmed = afterDash.trimStart();
+    if (trimmed === '' || trimmed.startsWith('#')) {
+      return;
+    }
+    column += 1 + afterDash.length - trimmed.length;
+    rest = trimmed;
+    if (!keyPattern.test(rest)) {
+      recordValue(state, itemPath, rest, lineNo, column, record);
+      return;
+    }
+  }
+
+  const match = keyPattern.exec(rest);
+  if (!match) {
+    return;
+  }
+  popFrames(state, frame => frame.indent >= column);
+  const rawKey = match[1] ?? '';
+  const path = [...(top(state)?.path ?? []), unquote(rawKey)];
+  state.counters.delete(yamlPathKey(path));
+  state.frames.push({ indent: column, path, kind: 'key' });
+  record(path, { key: { line: lineNo, start: column, end: column + rawKey.length } });
+
+  const afterColon = rest.slice(match[0].length);
+  const value = afterColon.trimStart();
+  const valueColumn = column + match[0].length + afterColon.length - value.length;
+  if (value === '' || value.startsWith('#')) {
+    return;
+  }
+  if (/^[|>][-+0-9]*\s*(#.*)?$/.test(value)) {
+    state.blockIndent = column;
+    return;
+  }
+  recordValue(state, path, value, lineNo, valueColumn, record);
+}
+
+function recordValue(
+  state: ScanState,
+  path: YamlPath,
+  value: string,
+  lineNo: number,
+  column: number,
+  record: (path: YamlPath, location: Omit<YamlNodeLocation, 'path'>) => void
+): void {
+  const scalar = stripComment(value);
+  record(path, {
+    value: { line: lineNo, start: column, end: column + scalar.length },
+    text: scalar.startsWith('[') || scalar.startsWith('{') ? undefined : unquote(scalar)
+  });
+  if (!scalar.startsWith('[') || !scalar.endsWith(']')) {
+    return;
+  }
+  // Single-line flow sequence of scalars: locate each item
+  let index = 0;
+  let itemStart = 1;
+  let quote: string | undefined;
+  for (let i = 1; i < scalar.length; i++) {
+    const char = scalar[i];
+    if (quote) {
+      if (char === quote) quote = undefined;
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ',' || i === scalar.length - 1) {
+      const raw = scalar.slice(itemStart, i);
+      const trimmed = raw.trim();
+      if (trimmed) {
+        const start = column + itemStart + raw.indexOf(trimmed);
+        record([...path, index], { value: { line: lineNo, start, end: start + trimmed.length }, text: unquote(trimmed) });
+        index++;
+      }
+      itemStart = i + 1;
+    }
+  }
+  state.counters.set(yamlPathKey(path), index);
+}
+
+function stripComment(value: string): string {
+  if (value.startsWith('"') || value.startsWith("'")) {
+    const close = value.indexOf(value[0]!, 1);
+    if (close > 0) {
+      return value.slice(0, close + 1);
+    }
+  }
+  const comment = value.search(/\s#/);
+  return (comment >= 0 ? value.slice(0, comment) : value).trimEnd();
+}
+
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  if (trimmed.length >= 2 && (trimmed[0] === '"' || trimmed[0] === "'") && trimmed.endsWith(trimmed[0]!)) {
+    return trimmed.slice(1, -1);
+  }
+  return trimmed.replace(/^["']/, '');
+}
+
+function splitLines(text: string): string[] {
+  return text.split(/\r?\n/);
+}
+
+function top(state: ScanState): Frame | undefined {
+  return state.frames[state.frames.length - 1];
+}
+
+function popFrames(state: ScanState, shouldPop: (frame: Frame) => boolean): void {
+  while (state.frames.length > 0 && shouldPop(state.frames[state.frames.length - 1]!)) {
+    state.frames.pop();
+  }
+}
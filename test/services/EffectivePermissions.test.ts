@@ -0,0 +1,62 @@
+import { expect } from 'chai';
+import { InspectedMembership, buildEffectivePermissions, explainCourseRole } from '../../src/services/EffectivePermissions';
+import { canManageScopeMembership, explainScopeMembership } from '../../src/services/ScopePermissions';
+
+const membership = (kind: InspectedMembership['kind'], scopeId: string, roleId: string): InspectedMembership => ({
+  kind,
+  scopeId,
+  title: scopeId.toUpperCase(),
+  roleId
+});
+
+describe('EffectivePermissions', () => {
+  it('explains scope membership with the rule that decided it', () => {
+    const scopes = { is_admin: false, course_family: { f1: ['_manager'] } };
+    expect(explainScopeMembership('course_family', 'f1', { scopes })).to.deep.equal({
+      allowed: true,
+      reason: 'Holds _manager on this course family.'
+    });
+    expect(explainScopeMembership('course_family', 'f1', { globalRoles: new Set(['_organization_manager']) }).reason)
+      .to.equal('Granted by the system role _organization_manager.');
+    expect(canManageScopeMembership('organization', 'o1', { scopes })).to.equal(false);
+  });
+
+  it('follows the course role hierarchy', () => {
+    expect(explainCourseRole('_lecturer', '_tutor', false)).to.deep.equal({
+      allowed: true,
+      reason: 'Holds _lecturer, which includes _tutor.'
+    });
+    expect(explainCourseRole('_student', '_tutor', false).allowed).to.equal(false);
+    expect(explainCourseRole('_student', '_lecturer', true).allowed).to.equal(true);
+  });
+
+  it('builds one section per scope from the memberships', () => {
+    const result = buildEffectivePermissions({
+      archived: false,
+      globalRoles: new Set(['_user_manager']),
+      memberships: [
+        membership('organization', 'o1', '_owner'),
+        membership('course', 'c1', '_tutor')
+      ]
+    });
+    expect(result.isAdmin).to.equal(false);
+    expect(result.sections.map(section => `${section.kind}:${section.title}`)).to.deep.equal(['system:System', 'organization:O1', 'course:C1']);
+
+    const [system, organization, course] = result.sections;
+    expect(system!.checks.find(item => item.action === 'Post global announcements')!.allowed).to.equal(true);
+    expect(organization!.checks.every(item => item.allowed)).to.equal(true);
+    expect(course!.checks.map(item => item.allowed)).to.deep.equal([true, true, false]);
+  });
+
+  it('denies everything for archived accounts but keeps the underlying reason', () => {
+    const result = buildEffectivePermissions({
+      archived: true,
+      globalRoles: new Set(['_admin']),
+      memberships: []
+    });
+    expect(result.blockedReason).to.match(/archived/);
+    const [system] = result.sections;
+    expect(system!.checks.every(item => !item.allowed)).to.equal(true);
+    expect(system!.checks[0]!.reason).to.equal('Archived account. Otherwise: Administrators can post global announcements.');
+  });
+});
@@ -0,0 +1,73 @@
+import { expect } from 'chai';
+import {
+  applyColumnMapping,
+  applyPreset,
+  detectColumns,
+  findMappingIssues,
+  presetMatches,
+  splitFullName
+} from '../../src/utils/parsers/CourseMemberColumnMapping';
+import { CourseMemberTable } from '../../src/utils/parsers/ICourseMemberParser';
+
+describe('CourseMemberColumnMapping', () => {
+  it('maps known headers and imports them without asking', () => {
+    const table: CourseMemberTable = {
+      headers: ['Matrikelnummer', 'Nachname', 'Vorname', 'E-Mail', 'Semester'],
+      rows: [
+        ['01234567', 'Muster', 'Max', 'max.muster@student.example.org', '3'],
+        ['07654321', 'Huber', 'Eva', '', '1']
+      ]
+    };
+    const columns = detectColumns(table);
+    expect(columns.map(column => column.target)).to.deep.equal(['student_id', 'family_name', 'given_name', 'email', 'semester']);
+    expect(findMappingIssues(table, columns)).to.deep.equal([]);
+
+    const rows = applyColumnMapping(table, columns);
+    expect(rows).to.have.length(1);
+    expect(rows[0]).to.include({ email: 'max.muster@student.example.org', given_name: 'Max', family_name: 'Muster', semester: 3 });
+  });
+
+  it('guesses the name order of full-name columns and asks to confirm', () => {
+    const table: CourseMemberTable = {
+      headers: ['Name', 'Mail'],
+      rows: [['Muster, Max', 'MAX@example.org'], ['Huber, Eva Maria', 'eva@example.org']]
+    };
+    const columns = detectColumns(table);
+    expect(columns[0]).to.deep.include({ target: 'full_name', transform: 'splitLastFirst' });
+    expect(findMappingIssues(table, columns)).to.deep.equal(['Column "Name" holds full names; check the name order.']);
+
+    columns[1]!.transform = 'lowercase';
+    const rows = applyColumnMapping(table, columns);
+    expect(rows[0]).to.include({ email: 'max@example.org', given_name: 'Max', family_name: 'Muster' });
+    expect(rows[1]).to.include({ given_name: 'Eva Maria', family_name: 'Huber' });
+  });
+
+  it('reports missing and implausible email columns', () => {
+    const noEmail: CourseMemberTable = { headers: ['Vorname', 'Nachname'], rows: [['Max', 'Muster']] };
+    expect(findMappingIssues(noEmail, detectColumns(noEmail))).to.deep.equal(['No column is recognised as the email address.']);
+
+    const usernames: CourseMemberTable = { headers: ['Mail', 'Vorname'], rows: [['mmuster', 'Max'], ['ehuber', 'Eva']] };
+    expect(findMappingIssues(usernames, detectColumns(usernames))).to.deep.equal(['Column "Mail" does not look like email addresses.']);
+  });
+
+  it('splits full names without a comma by the chosen order', () => {
+    expect(splitFullName('MUSTER Max Peter', 'splitLastFirst')).to.deep.equal({ family_name: 'MUSTER', given_name: 'Max Peter' });
+    expect(splitFullName('Max Peter Muster', 'splitFirstLast')).to.deep.equal({ given_name: 'Max Peter', family_name: 'Muster' });
+    expect(splitFullName('Muster, Max', 'splitFirstLast')).to.deep.equal({ family_name: 'Muster', given_name: 'Max' });
+  });
+
+  it('applies presets by header name regardless of column order', () => {
+    const preset = {
+      name: 'Moodle',
+      columns: [
+        { header: 'Email address', target: 'email' as const, transform: 'lowercase' as const },
+        { header: 'Teilnehmer/in', target: 'full_name' as const, transform: 'splitFirstLast' as const },
+        { header: 'Groups', target: 'ignore' as const, transform: 'none' as const }
+      ]
+    };
+    const headers = ['teilnehmer/in', 'ID number', 'EMAIL ADDRESS'];
+    expect(presetMatches(preset, headers)).to.equal(true);
+    expect(presetMatches(preset, ['Email address'])).to.equal(false);
+    expect(applyPreset(preset, headers).map(column => column.target)).to.deep.equal(['full_name', 'ignore', 'email']);
+  });
+});
@@ -0,0 +1,27 @@
+import { expect } from 'chai';
+import { escapeCsvValue, toCsv } from '../../src/utils/csv';
+
+describe('csv', () => {
+  describe('escapeCsvValue', () => {
+    it('quotes separators, quotes and line breaks', () => {
+      expect(escapeCsvValue('Muster, Max')).to.equal('"Muster, Max"');
+      expect(escapeCsvValue('say "hi"')).to.equal('"say ""hi"""');
+      expect(escapeCsvValue('plain')).to.equal('plain');
+    });
+
+    it('keeps text that looks like a formula from running', () => {
+      expect(escapeCsvValue('=HYPERLINK("http://x")')).to.equal('"\'=HYPERLINK(""http://x"")"');
+      expect(escapeCsvValue('+1')).to.equal("'+1");
+      expect(escapeCsvValue('-x')).to.equal("'-x");
+      expect(escapeCsvValue('@sum')).to.equal("'@sum");
+    });
+
+    it('writes numbers as they are', () => {
+      expect(escapeCsvValue(-0.5)).to.equal('-0.5');
+    });
+  });
+
+  it('joins rows with CRLF after a BOM', () => {
+    expect(toCsv([['a', 1], ['b', 2]])).to.equal('\ufeffa,1\r\nb,2\r\n');
+  });
+});
@@ -0,0 +1,100 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  SemanticExampleDiff,
+  computeSemanticExampleDiff,
+  diffMetaYaml,
+  diffTestYaml,
+  prependChangelogEntry,
+  suggestVersionBump
+} from '../../src/utils/exampleChangeReview';
+
+describe('exampleChangeReview', () => {
+  const suite = (tests: unknown[]) => ({ type: 'python', properties: { tests } });
+  const noChanges: SemanticExampleDiff = { meta: [], tests: [], files: { modified: [], added: [], removed: [] } };
+
+  it('diffs meta.yaml fields by dotted path and ignores the version', () => {
+    const before = { version: '1.0.0', title: 'Loops', properties: { testFiles: ['test.py'], maxTestRuns: 5 } };
+    const after = { version: '1.1.0', title: 'Loops', properties: { testFiles: ['test.py', 'helpers.py'] }, keywords: ['loops'] };
+    expect(diffMetaYaml(before, after)).to.deep.equal([
+      { field: 'keywords', kind: 'added', after: ['loops'] },
+      { field: 'properties.maxTestRuns', kind: 'removed', before: 5 },
+      { field: 'properties.testFiles', kind: 'changed', before: ['test.py'], after: ['test.py', 'helpers.py'] }
+    ]);
+  });
+
+  it('diffs test cases by collection and test name', () => {
+    const before = suite([
+      { name: 'Variables', type: 'variable', tests: [{ name: 'x' }, { name: 'y', value: 1 }] },
+      { name: 'Output', type: 'stdout', tests: [{ name: 'lines' }] }
+    ]);
+    const after = suite([
+      { name: 'Variables', type: 'variable', timeout: 10, tests: [{ name: 'y', value: 2 }, { name: 'z' }] },
+      { type: 'exist', tests: [] }
+    ]);
+    expect(diffTestYaml(before, after)).to.deep.equal([
+      { collection: 'Variables', kind: 'changed' },
+      { collection: 'Variables', test: 'y', kind: 'changed' },
+      { collection: 'Variables', test: 'z', kind: 'added' },
+      { collection: 'Variables', test: 'x', kind: 'removed' },
+      { collection: 'exist #2', kind: 'added' },
+      { collection: 'Output', kind: 'removed' }
+    ]);
+  });
+
+  it('suggests the bump part from the kind of change', () => {
+    const withTests = (kind: 'added' | 'removed') => ({ ...noChanges, tests: [{ collection: 'Variables', test: 'x', kind }] });
+    expect(suggestVersionBump(noChanges)).to.deep.equal({ part: 'patch', reason: 'no changes → patch' });
+    expect(suggestVersionBump({ ...noChanges, files: { modified: ['solution.py'], added: [], removed: [] } }).part).to.equal('patch');
+    expect(suggestVersionBump(withTests('added'))).to.deep.equal({ part: 'minor', reason: 'test cases changed → minor' });
+    expect(suggestVersionBump(withTests('removed')).part).to.equal('major');
+    expect(suggestVersionBump({
+      ...noChanges,
+      meta: [{ field: 'properties.studentSubmissionFiles', kind: 'changed', before: ['a.py'], after: ['b.py'] }]
+    }).reason).to.equal('submission files changed → major');
+  });
+
+  it('keeps changelog entries newest first and replaces re-uploaded versions', () => {
+    const first = prependChangelogEntry(undefined, '1.0.0', 'Initial version', '2026-01-10');
+    expect(first).to.equal('# Changelog\n\n## 1.0.0 (2026-01-10)\n\n- Initial version\n');
+    const second = prependChangelogEntry(first, '1.1.0', 'Added loop tests\n- Fixed typo', '2026-02-01');
+    expect(second).to.equal(
+      '# Changelog\n\n## 1.1.0 (2026-02-01)\n\n- Added loop tests\n- Fixed typo\n\n## 1.0.0 (2026-01-10)\n\n- Initial version\n'
+    );
+    expect(prependChangelogEntry(second, '1.1.0', 'Added loop tests', '2026-02-02')).to.equal(
+      '# Changelog\n\n## 1.1.0 (2026-02-02)\n\n- Added loop tests\n\n## 1.0.0 (2026-01-10)\n\n- Initial version\n'
+    );
+  });
+
+  describe('computeSemanticExampleDiff', () => {
+    let snapshotDir: string;
+    let workingDir: string;
+
+    beforeEach(() => {
+      snapshotDir = fs.mkdtempSync(path.join(os.tmpdir(), 'review-old-'));
+      workingDir = fs.mkdtempSync(path.join(os.tmpdir(), 'review-new-'));
+      for (const dir of [snapshotDir, workingDir]) {
+        fs.writeFileSync(path.join(dir, 'meta.yaml'), 'version: "1.0.0"\ntitle: Loops\n');
+        fs.writeFileSync(path.join(dir, 'solution.py'), 'x = 1\n');
+      }
+      fs.writeFileSync(path.join(snapshotDir, 'test.yaml'), 'type: python\nproperties:\n  tests:\n    - name: Vars\n      tests:\n        - name: x\n');
+      fs.writeFileSync(path.join(workingDir, 'test.yaml'), 'type: python\nproperties:\n  tests:\n    - name: Vars\n      tests:\n        - name: x\n        - name: y\n');
+      fs.writeFileSync(path.join(workingDir, 'CHANGELOG.md'), '# Changelog\n');
+    });
+
+    afterEach(() => {
+      fs.rmSync(snapshotDir, { recursive: true, force: true });
+      fs.rmSync(workingDir, { recursive: true, force: true });
+    });
+
+    it('reports test cases separately from the remaining files', () => {
+      const diff = computeSemanticExampleDiff(snapshotDir, workingDir);
+      expect(diff.meta).to.deep.equal([]);
+      expect(diff.tests).to.deep.equal([{ collection: 'Vars', test: 'y', kind: 'added' }]);
+      expect(diff.files).to.deep.equal({ modified: [], added: [], removed: [] });
+      expect(suggestVersionBump(diff).part).to.equal('minor');
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import { expect } from 'chai';
+import {
+  DependencyNode,
+  buildDependencyGraph,
+  dependantsOf,
+  dependencyEdgeStatus,
+  findBrokenDependants,
+  resolveTransitiveDependencies,
+  withDependencyNode
+} from '../../src/utils/exampleDependencyGraph';
+
+const node = (identifier: string, version: string, dependencies: DependencyNode['dependencies'] = []): DependencyNode => ({
+  identifier,
+  title: identifier,
+  version,
+  dependencies
+});
+
+describe('exampleDependencyGraph', () => {
+  const graph = buildDependencyGraph([
+    node('vectors', '1.0.0'),
+    node('matrices', '2.1.0', [{ slug: 'vectors', version: '^1.0.0' }]),
+    node('solver', '1.0.0', [{ slug: 'matrices', version: '>=2.0.0' }, { slug: 'plots' }]),
+    node('report', '1.0.0', [{ slug: 'matrices', version: '^1.0.0' }])
+  ]);
+
+  it('indexes dependants', () => {
+    expect(dependantsOf(graph, 'matrices').map(edge => edge.from)).to.deep.equal(['solver', 'report']);
+    expect(dependantsOf(graph, 'plots').map(edge => edge.from)).to.deep.equal(['solver']);
+  });
+
+  it('classifies edges', () => {
+    expect(dependencyEdgeStatus(graph, { from: 'solver', to: 'plots' })).to.equal('missing');
+    expect(dependencyEdgeStatus(graph, { from: 'report', to: 'matrices', constraint: '^1.0.0' })).to.equal('unsatisfied');
+    expect(dependencyEdgeStatus(graph, { from: 'matrices', to: 'vectors', constraint: '^1.0.0' })).to.equal('ok');
+  });
+
+  it('resolves transitive dependencies in checkout order', () => {
+    const resolved = resolveTransitiveDependencies(graph, 'solver');
+    expect(resolved.order).to.deep.equal(['vectors', 'matrices']);
+    expect(resolved.missing.map(edge => edge.to)).to.deep.equal(['plots']);
+    expect(resolved.cycle).to.be.undefined;
+  });
+
+  it('detects cycles', () => {
+    const cyclic = withDependencyNode(graph, node('vectors', '1.0.0', [{ slug: 'solver' }]));
+    expect(resolveTransitiveDependencies(cyclic, 'solver').cycle).to.deep.equal(['solver', 'matrices', 'vectors', 'solver']);
+  });
+
+  it('finds dependants a new version would break', () => {
+    expect(findBrokenDependants(graph, 'vectors', '2.0.0').map(edge => edge.from)).to.deep.equal(['matrices']);
+    expect(findBrokenDependants(graph, 'vectors', '1.4.0')).to.deep.equal([]);
+  });
+});
@@ -0,0 +1,94 @@
+import { expect } from 'chai';
+import * as XLSX from 'xlsx';
+import { buildGradebook, gradebookToCsv, gradebookToXlsx, formatGradingStatus, toSheetName } from '../../src/utils/gradebookExport';
+import type { CourseMemberGradingsGet, CourseMemberGradingNode } from '../../src/types/generated';
+
+const mandatory = { course_content_type_id: 'type-m', course_content_type_slug: 'mandatory', max_assignments: 1, submitted_assignments: 1, progress_percentage: 100 };
+const optional = { course_content_type_id: 'type-o', course_content_type_slug: 'optional', course_content_type_title: 'Optional', max_assignments: 1, submitted_assignments: 0, progress_percentage: 0 };
+
+function node(path: string, extra: Partial<CourseMemberGradingNode>): CourseMemberGradingNode {
+  return { path, submittable: true, max_assignments: 1, submitted_assignments: 1, progress_percentage: 100, ...extra };
+}
+
+function member(id: string, familyName: string, nodes: CourseMemberGradingNode[]): CourseMemberGradingsGet {
+  return {
+    course_member_id: id,
+    course_id: 'c1',
+    family_name: familyName,
+    given_name: 'Ada',
+    username: id,
+    student_id: `s-${id}`,
+    total_max_assignments: 2,
+    total_submitted_assignments: 1,
+    overall_progress_percentage: 50,
+    nodes
+  };
+}
+
+const members = [
+  {
+    gradings: member('m2', 'Zuse', [
+      node('week1', { submittable: false, title: 'Week 1' }),
+      node('week1.ex10', { title: 'Exercise 10', grading: 0.5, status: 'correction_necessary', submissions_count: 3, by_content_type: [mandatory] }),
+      node('week1.ex2', { title: 'Exercise 2', by_content_type: [optional], submitted_assignments: 0 })
+    ]),
+    groupTitle: 'Group B'
+  },
+  {
+    gradings: member('m1', 'Lovelace', [
+      node('week1.ex10', { title: 'Exercise 10', grading: 0.875, status: 'corrected', submissions_count: 1, by_content_type: [mandatory] })
+    ]),
+    groupTitle: 'Group A'
+  }
+];
+
+describe('gradebookExport', () => {
+  describe('buildGradebook', () => {
+    it('collects assignment columns in path order and sorts members by name', () => {
+      const gradebook = buildGradebook(members);
+
+      expect(gradebook.columns.map(c => c.title)).to.deep.equal(['Exercise 2', 'Exercise 10']);
+      expect(gradebook.rows.map(r => r.familyName)).to.deep.equal(['Lovelace', 'Zuse']);
+      expect(gradebook.rows[1]!.cells['week1.ex10']).to.deep.equal({ grade: 0.5, status: 'correction_necessary', submissions: 3 });
+      expect(gradebook.rows[1]!.cells['week1.ex2']).to.deep.equal({ grade: undefined, status: undefined, submissions: 0 });
+    });
+
+    it('keeps only the selected content types', () => {
+      const gradebook = buildGradebook(members, { contentTypeIds: new Set(['type-m']) });
+      expect(gradebook.columns.map(c => c.path)).to.deep.equal(['week1.ex10']);
+    });
+  });
+
+  describe('gradebookToCsv', () => {
+    it('writes one line per member with grade, status and submissions', () => {
+      const csv = gradebookToCsv(buildGradebook(members, { contentTypeIds: new Set(['type-m']) }));
+      const lines = csv.replace(/^\ufeff/, '').trim().split('\r\n');
+
+      expect(lines[0]).to.equal('Student ID,Family Name,Given Name,Username,Group,Exercise 10 – Grade,Exercise 10 – Status,Exercise 10 – Submissions');
+      expect(lines[1]).to.equal('s-m1,Lovelace,Ada,m1,Group A,0.88,Corrected,1');
+      expect(lines[2]).to.equal('s-m2,Zuse,Ada,m2,Group B,0.5,Correction Necessary,3');
+    });
+  });
+
+  describe('gradebookToXlsx', () => {
+    it('produces a readable workbook', () => {
+      const workbook = XLSX.read(gradebookToXlsx(buildGradebook(members), 'Course'), { type: 'buffer' });
+      const rows = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets['Course']!, { header: 1 });
+
+      expect(rows).to.have.length(3);
+      expect(rows[1]).to.include('Lovelace');
+    });
+
+    it('strips characters Excel rejects from the sheet name', () => {
+      const workbook = XLSX.read(gradebookToXlsx(buildGradebook(members), 'A/B [2025]'), { type: 'buffer' });
+      expect(workbook.SheetNames).to.deep.equal(['AB 2025']);
+      expect(toSheetName('[/]')).to.equal('Gradebook');
+      expect(toSheetName('x'.repeat(40))).to.have.length(31);
+    });
+  });
+
+  it('formats grading status labels', () => {
+    expect(formatGradingStatus('not_reviewed')).to.equal('Not Reviewed');
+    expect(formatGradingStatus(undefined)).to.equal('');
+  });
+});
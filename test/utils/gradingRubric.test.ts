@@ -0,0 +1,111 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  parseGradingRubric,
+  readGradingRubric,
+  computeRubricGrade,
+  formatRubricFeedback,
+  GradingRubric
+} from '../../src/utils/gradingRubric';
+
+const rubric: GradingRubric = {
+  criteria: [
+    { id: 'correctness', title: 'Correctness', maxPoints: 6 },
+    { id: 'style', title: 'Code style', maxPoints: 4 }
+  ]
+};
+
+describe('gradingRubric', () => {
+  describe('parseGradingRubric', () => {
+    it('returns undefined for missing or malformed input', () => {
+      expect(parseGradingRubric(undefined)).to.be.undefined;
+      expect(parseGradingRubric('rubric')).to.be.undefined;
+      expect(parseGradingRubric({ criteria: 'x' })).to.be.undefined;
+      expect(parseGradingRubric({ criteria: [] })).to.be.undefined;
+    });
+
+    it('drops criteria without title or with non-positive maxPoints', () => {
+      const parsed = parseGradingRubric({
+        criteria: [
+          { title: 'Works', maxPoints: 5 },
+          { title: '', maxPoints: 2 },
+          { title: 'Zero', maxPoints: 0 },
+          { title: 'Broken', maxPoints: 'abc' }
+        ]
+      });
+      expect(parsed?.criteria).to.have.length(1);
+      expect(parsed?.criteria[0]?.title).to.equal('Works');
+    });
+
+    it('derives ids from titles and de-duplicates them', () => {
+      const parsed = parseGradingRubric({
+        criteria: [
+          { title: 'Code Style', maxPoints: 1 },
+          { title: 'Code style', maxPoints: 1 },
+          { id: 'custom', title: 'Other', maxPoints: 1 }
+        ]
+      });
+      expect(parsed?.criteria.map(c => c.id)).to.deep.equal(['code_style', 'code_style_2', 'custom']);
+    });
+  });
+
+  describe('readGradingRubric', () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rubric-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('reads properties.gradingRubric from meta.yaml', () => {
+      fs.writeFileSync(path.join(tmpDir, 'meta.yaml'), [
+        'slug: demo',
+        'properties:',
+        '  gradingRubric:',
+        '    criteria:',
+        '      - title: Correctness',
+        '        maxPoints: 3'
+      ].join('\n'));
+      const parsed = readGradingRubric(tmpDir);
+      expect(parsed?.criteria[0]).to.deep.include({ id: 'correctness', maxPoints: 3 });
+    });
+
+    it('returns undefined when meta.yaml is missing', () => {
+      expect(readGradingRubric(tmpDir)).to.be.undefined;
+    });
+  });
+
+  describe('computeRubricGrade', () => {
+    it('normalizes achieved points to 0..1 with two decimals', () => {
+      expect(computeRubricGrade(rubric, { correctness: { points: 5 }, style: { points: 2 } })).to.equal(0.7);
+      expect(computeRubricGrade(rubric, { correctness: { points: 2 } })).to.equal(0.2);
+    });
+
+    it('clamps points to each criterion range', () => {
+      expect(computeRubricGrade(rubric, { correctness: { points: 99 }, style: { points: -3 } })).to.equal(0.6);
+    });
+  });
+
+  describe('formatRubricFeedback', () => {
+    it('lists every criterion, the total and the general feedback', () => {
+      const feedback = formatRubricFeedback(
+        rubric,
+        { correctness: { points: 4.5, comment: 'Edge case\nmissing' }, style: { points: 4 } },
+        'Nice work.'
+      );
+      expect(feedback).to.equal([
+        '- **Correctness**: 4.5 / 6 — Edge case missing',
+        '- **Code style**: 4 / 4',
+        '',
+        '**Total**: 8.5 / 10',
+        '',
+        'Nice work.'
+      ].join('\n'));
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import { expect } from 'chai';
+import { JsonSchema, schemaProperties, schemaTypeLabel, schemaValueSuggestions, schemasAtPath, validateAgainstSchema } from '../../src/utils/jsonSchema';
+
+const schema: JsonSchema = {
+  $defs: {
+    Dependency: {
+      type: 'object',
+      properties: { slug: { type: 'string' }, version: { anyOf: [{ type: 'string' }, { type: 'null' }] } },
+      required: ['slug']
+    }
+  },
+  type: 'object',
+  properties: {
+    version: { anyOf: [{ type: 'string', pattern: '^\\d+(\\.\\d+)*$' }, { type: 'null' }], description: 'Format version' },
+    mode: { enum: ['fast', 'slow'] },
+    enabled: { type: 'boolean' },
+    title: { type: 'string', minLength: 1 },
+    deps: { type: 'array', items: { anyOf: [{ type: 'string' }, { $ref: '#/$defs/Dependency' }] } }
+  }
+};
+
+describe('jsonSchema', () => {
+  it('accepts valid documents', () => {
+    expect(validateAgainstSchema({ version: '1.0', mode: 'fast', deps: ['a', { slug: 'b' }] }, schema)).to.deep.equal([]);
+  });
+
+  it('reports issues with their paths', () => {
+    const issues = validateAgainstSchema({ version: 1, mode: 'medium', title: '', deps: [{ version: '1' }] }, schema);
+    expect(issues.map(issue => issue.path)).to.deep.equal([['version'], ['mode'], ['title'], ['deps', 0]]);
+    expect(issues[0]!.message).to.equal('Expected string or null, got number 1.');
+    expect(issues[3]!.message).to.equal('Missing required property "slug".');
+  });
+
+  it('picks the matching anyOf alternative', () => {
+    const issues = validateAgainstSchema({ version: 'v1' }, schema);
+    expect(issues).to.have.length(1);
+    expect(issues[0]!.message).to.contain('expected format');
+  });
+
+  it('warns about unknown properties on request', () => {
+    expect(validateAgainstSchema({ titel: 'x' }, schema)).to.deep.equal([]);
+    expect(validateAgainstSchema({ titel: 'x' }, schema, { reportUnknownProperties: true })).to.deep.equal([
+      { path: ['titel'], message: 'Unknown property "titel".', severity: 'warning' }
+    ]);
+  });
+
+  it('navigates to nested schemas for completion', () => {
+    expect(Array.from(schemaProperties(schemasAtPath(schema, ['deps', 0])).keys())).to.deep.equal(['slug', 'version']);
+    expect(schemaValueSuggestions(schemasAtPath(schema, ['mode']))).to.deep.equal(['fast', 'slow']);
+    expect(schemaValueSuggestions(schemasAtPath(schema, ['enabled']))).to.deep.equal([true, false]);
+    expect(schemaTypeLabel(schemasAtPath(schema, ['version']))).to.equal('string | null');
+  });
+});
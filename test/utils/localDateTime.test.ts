@@ -0,0 +1,19 @@
+import { expect } from 'chai';
+import { formatLocalDateTime, parseLocalDateTime } from '../../src/utils/localDateTime';
+
+describe('localDateTime', () => {
+  it('parses dates with and without time as local time', () => {
+    expect(parseLocalDateTime('2026-03-02')!.getTime()).to.equal(new Date(2026, 2, 2).getTime());
+    expect(parseLocalDateTime(' 2026-03-02 8:30 ')!.getTime()).to.equal(new Date(2026, 2, 2, 8, 30).getTime());
+  });
+
+  it('rejects malformed and overflowing values', () => {
+    expect(parseLocalDateTime('02.03.2026')).to.be.undefined;
+    expect(parseLocalDateTime('2026-02-30')).to.be.undefined;
+    expect(parseLocalDateTime('2026-03-02 25:00')).to.be.undefined;
+  });
+
+  it('round-trips with formatLocalDateTime', () => {
+    expect(formatLocalDateTime(parseLocalDateTime('2026-10-05 09:05')!)).to.equal('2026-10-05 09:05');
+  });
+});
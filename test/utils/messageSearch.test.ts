@@ -0,0 +1,67 @@
+import { expect } from 'chai';
+import type { MessageList } from '../../src/types/generated';
+import {
+  highlightRanges,
+  matchesMessageSearch,
+  mergeSearchResults,
+  searchTerms,
+  toMessageQuery
+} from '../../src/utils/messageSearch';
+
+describe('messageSearch', () => {
+  const message = (overrides: Partial<MessageList>): MessageList => ({
+    id: 'm1',
+    title: 'Question about recursion',
+    content: 'I get an IndexError: list index out of range in line 3.',
+    level: 0,
+    author_id: 'u1',
+    scope: 'submission_group',
+    course_id: 'c1',
+    created_at: '2026-03-10T12:00:00Z',
+    ...overrides
+  });
+
+  it('splits text into lower-case terms and quoted phrases', () => {
+    expect(searchTerms('  Recursion "index OUT of range" ""  ')).to.deep.equal(['recursion', 'index out of range']);
+  });
+
+  it('requires every term in the title or content', () => {
+    expect(matchesMessageSearch(message({}), { text: 'recursion "out of range"' })).to.equal(true);
+    expect(matchesMessageSearch(message({}), { text: 'recursion loops' })).to.equal(false);
+    expect(matchesMessageSearch(message({ is_deleted: true }), { text: 'recursion' })).to.equal(false);
+  });
+
+  it('applies scope, course, author and date filters', () => {
+    const m = message({});
+    expect(matchesMessageSearch(m, { text: '', scope: 'course' })).to.equal(false);
+    expect(matchesMessageSearch(m, { text: '', courseId: 'c2' })).to.equal(false);
+    expect(matchesMessageSearch(m, { text: '', authorId: 'u1' })).to.equal(true);
+    expect(matchesMessageSearch(m, { text: '', createdAfter: '2026-03-10T12:00:00Z' })).to.equal(true);
+    expect(matchesMessageSearch(m, { text: '', createdAfter: '2026-03-11T00:00:00Z' })).to.equal(false);
+    expect(matchesMessageSearch(m, { text: '', createdBefore: '2026-03-01T00:00:00Z' })).to.equal(false);
+    expect(matchesMessageSearch(message({ created_at: null }), { text: '', createdBefore: '2026-03-01T00:00:00Z' })).to.equal(false);
+  });
+
+  it('sends only the structured filters to the server', () => {
+    expect(toMessageQuery({ text: 'recursion', scope: 'course', courseId: 'c1', createdBefore: '2026-03-01T00:00:00Z' })).to.deep.equal({
+      scope: 'course',
+      course_id: 'c1',
+      created_before: '2026-03-01T00:00:00Z'
+    });
+  });
+
+  it('merges results by id, newest first', () => {
+    const older = message({ id: 'a', created_at: '2026-01-01T00:00:00Z' });
+    const newer = message({ id: 'b', created_at: '2026-02-01T00:00:00Z' });
+    const stale = message({ id: 'a', title: 'stale copy', created_at: '2026-01-01T00:00:00Z' });
+    expect(mergeSearchResults([older], [newer, stale]).map(m => [m.id, m.title])).to.deep.equal([
+      ['b', 'Question about recursion'],
+      ['a', 'Question about recursion']
+    ]);
+  });
+
+  it('highlights the first occurrence of each term, merging overlaps', () => {
+    expect(highlightRanges('Index out of range', ['range', 'index', 'dex out'])).to.deep.equal([[0, 9], [13, 18]]);
+    expect(highlightRanges('nothing here', ['missing'])).to.deep.equal([]);
+  });
+});
@@ -0,0 +1,22 @@
+import { expect } from 'chai';
+import { formatCodeSnippet, formatSnippetReference, parseSnippetReference } from '../../src/utils/messageSnippets';
+
+describe('messageSnippets', () => {
+  it('formats and parses references', () => {
+    expect(formatSnippetReference({ path: 'src/main.py', startLine: 3, endLine: 10 })).to.equal('src/main.py#L3-L10');
+    expect(formatSnippetReference({ path: 'main.py', startLine: 4, endLine: 4 })).to.equal('main.py#L4');
+    expect(parseSnippetReference('src/main.py#L3-L10')).to.deep.equal({ path: 'src/main.py', startLine: 3, endLine: 10 });
+    expect(parseSnippetReference('main.py#L4')).to.deep.equal({ path: 'main.py', startLine: 4, endLine: 4 });
+  });
+
+  it('ignores text that is not a reference', () => {
+    expect(parseSnippetReference('print(x)')).to.be.undefined;
+    expect(parseSnippetReference('main.py#L10-L3')).to.be.undefined;
+    expect(parseSnippetReference('#L3')).to.be.undefined;
+  });
+
+  it('quotes code in a fence that the code cannot close', () => {
+    const snippet = formatCodeSnippet({ path: 'README.md', startLine: 1, endLine: 3, code: 'Run:\n```sh\nmake\n```\n', language: 'markdown' });
+    expect(snippet).to.equal('`README.md#L1-L3`\n\n````markdown\nRun:\n```sh\nmake\n```\n````\n');
+  });
+});
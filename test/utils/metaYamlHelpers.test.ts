@@ -0,0 +1,52 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { findMissingMetaYamlFiles, listExampleFiles, readTestDependencies } from '../../src/utils/metaYamlHelpers';
+
+describe('metaYamlHelpers', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'meta-'));
+    fs.mkdirSync(path.join(tmpDir, 'studentTemplates'));
+    fs.mkdirSync(path.join(tmpDir, 'content'));
+    fs.writeFileSync(path.join(tmpDir, 'studentTemplates', 'main.py'), '');
+    fs.writeFileSync(path.join(tmpDir, 'content', 'index.md'), '');
+    fs.writeFileSync(path.join(tmpDir, 'meta.yaml'), '');
+    fs.writeFileSync(path.join(tmpDir, 'test.py'), '');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('lists referenceable example files', () => {
+    expect(listExampleFiles(tmpDir).sort()).to.deep.equal(['studentTemplates/main.py', 'test.py']);
+  });
+
+  it('reports listed files that do not exist', () => {
+    const data = {
+      properties: {
+        testFiles: ['test.py', 'missing.py'],
+        studentTemplates: ['studentTemplates', 'studentTemplates/*.py'],
+        additionalFiles: null
+      }
+    };
+    expect(findMissingMetaYamlFiles(data, tmpDir)).to.deep.equal([{ path: ['properties', 'testFiles', 1], file: 'missing.py' }]);
+  });
+
+  it('reads test dependencies in both notations', () => {
+    const data = {
+      properties: {
+        testDependencies: ['physics.vectors', { slug: 'physics.matrices', version: '^1.0.0' }, { version: '1.0.0' }, 3]
+      }
+    };
+    expect(readTestDependencies(data)).to.deep.equal([
+      { slug: 'physics.vectors' },
+      { slug: 'physics.matrices', version: '^1.0.0' }
+    ]);
+    expect(readTestDependencies({ testDependencies: ['legacy'] })).to.deep.equal([{ slug: 'legacy' }]);
+    expect(readTestDependencies(undefined)).to.deep.equal([]);
+  });
+});
@@ -0,0 +1,76 @@
+import { expect } from 'chai';
+import {
+  NotificationInput,
+  appendNotification,
+  chatEventType,
+  deliveryFor,
+  describeCourseContentUpdated,
+  describeDeploymentStatusChanged,
+  describeMaintenanceEvent,
+  markNotificationsRead,
+  migrateMutedScopes,
+  unreadNotificationCount
+} from '../../src/utils/notificationCenter';
+
+const input = (title: string): NotificationInput => ({
+  type: 'deployment:assigned',
+  title,
+  severity: 'info',
+  timestamp: '2026-10-19T10:00:00.000Z'
+});
+
+describe('notificationCenter', () => {
+  it('uses preferences first, then the type default, then toast for chat', () => {
+    const preferences = { 'course:content_updated': 'toast' as const };
+    expect(deliveryFor(preferences, 'course:content_updated')).to.equal('toast');
+    expect(deliveryFor(preferences, 'deployment:status_changed')).to.equal('badge');
+    expect(deliveryFor(preferences, chatEventType('course'))).to.equal('toast');
+  });
+
+  it('keeps the newest entries and stores silent ones as read', () => {
+    let entries = appendNotification([], input('first'), 'badge', 'a', 2);
+    entries = appendNotification(entries, input('second'), 'silent', 'b', 2);
+    entries = appendNotification(entries, input('third'), 'toast', 'c', 2);
+    expect(entries.map(entry => entry.title)).to.deep.equal(['third', 'second']);
+    expect(unreadNotificationCount(entries)).to.equal(1);
+
+    const read = markNotificationsRead(entries, ['c']);
+    expect(unreadNotificationCount(read)).to.equal(0);
+    expect(entries[0]!.read).to.equal(false);
+  });
+
+  it('migrates muted chat scopes without overriding explicit preferences', () => {
+    const migrated = migrateMutedScopes({ [chatEventType('user')]: 'toast' }, ['user', 'global']);
+    expect(migrated).to.deep.equal({ 'chat:user': 'toast', 'chat:global': 'silent' });
+  });
+
+  it('describes deployment and course events with links to the affected node', () => {
+    const failed = describeDeploymentStatusChanged({
+      course_id: 'c1',
+      course_content_id: 'cc1',
+      previous_status: 'deploying',
+      new_status: 'failed',
+      version_tag: 'v1.2.0',
+      example_identifier: 'loops.sum',
+      deployment_message: 'Missing meta.yaml',
+      timestamp: '2026-10-19T09:00:00Z'
+    });
+    expect(failed.title).to.equal('Deployment failed: loops.sum v1.2.0');
+    expect(failed.detail).to.equal('deploying → failed: Missing meta.yaml');
+    expect(failed.severity).to.equal('error');
+    expect(failed.link).to.deep.equal({ kind: 'courseContent', courseId: 'c1', courseContentId: 'cc1' });
+
+    const deleted = describeCourseContentUpdated({ course_id: 'c1', course_content_id: 'cc1', change_type: 'deleted' });
+    expect(deleted.link).to.deep.equal({ kind: 'course', courseId: 'c1' });
+  });
+
+  it('escalates maintenance reminders as time runs out', () => {
+    const now = new Date('2026-10-19T10:00:00Z');
+    expect(describeMaintenanceEvent({ kind: 'reminder', message: 'Upgrade', minutesRemaining: 30 }, now).severity).to.equal('info');
+    expect(describeMaintenanceEvent({ kind: 'reminder', message: 'Upgrade', minutesRemaining: 10 }, now).severity).to.equal('warning');
+    const last = describeMaintenanceEvent({ kind: 'reminder', message: 'Upgrade', minutesRemaining: 1 }, now);
+    expect(last.severity).to.equal('error');
+    expect(last.title).to.equal('Maintenance in 1 minute');
+    expect(last.timestamp).to.equal(now.toISOString());
+  });
+});
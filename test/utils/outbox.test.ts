@@ -0,0 +1,68 @@
+import { expect } from 'chai';
+import {
+  OutboxItem,
+  OutboxMessageItem,
+  classifySendError,
+  commentThreadKey,
+  detachFromParent,
+  isNetworkError,
+  itemsForThread,
+  messageThreadKey,
+  pendingInOrder,
+  updateDrafts
+} from '../../src/utils/outbox';
+
+const reply = (id: string, createdAt: string, threadKey = 'message:course_id:c1'): OutboxMessageItem => ({
+  id,
+  kind: 'message',
+  threadKey,
+  threadTitle: 'Course',
+  createdAt,
+  status: 'pending',
+  attempts: 0,
+  payload: { title: '', content: `text ${id}`, parent_id: 'p1', level: 1, course_id: 'c1' }
+});
+
+describe('outbox', () => {
+  it('keys threads by their single target', () => {
+    expect(messageThreadKey({ submission_group_id: 'sg1' })).to.equal('message:submission_group_id:sg1');
+    expect(messageThreadKey({})).to.equal('message:global');
+    expect(commentThreadKey('m1')).to.equal('comment:m1');
+  });
+
+  it('queues connection problems and stops on client errors', () => {
+    expect(classifySendError(Object.assign(new Error('Gone'), { status: 404 }))).to.equal('conflict');
+    expect(classifySendError(new Error('HTTP 422: Unprocessable Entity'))).to.equal('conflict');
+    expect(classifySendError(Object.assign(new Error('Too many'), { status: 429 }))).to.equal('offline');
+    expect(classifySendError(new Error('HTTP 503: Service Unavailable'))).to.equal('offline');
+
+    expect(isNetworkError(new Error('Network error: connect ECONNREFUSED 127.0.0.1:8000'))).to.equal(true);
+    expect(isNetworkError(new Error('Operation failed after 30s (max retry time exceeded)'))).to.equal(true);
+    expect(isNetworkError(new Error('HTTP 500: Internal Server Error'))).to.equal(false);
+  });
+
+  it('sends pending items oldest first and leaves conflicts to the user', () => {
+    const items: OutboxItem[] = [
+      reply('b', '2026-10-19T10:05:00.000Z'),
+      { ...reply('c', '2026-10-19T10:01:00.000Z'), status: 'conflict', conflict: 'The message you replied to was deleted.' },
+      reply('a', '2026-10-19T10:00:00.000Z', 'message:global')
+    ];
+    expect(pendingInOrder(items).map(item => item.id)).to.deep.equal(['a', 'b']);
+    expect(itemsForThread(items, 'message:course_id:c1').map(item => item.id)).to.deep.equal(['c', 'b']);
+  });
+
+  it('turns a reply into a top-level message of the same thread', () => {
+    const item = { ...reply('c', '2026-10-19T10:01:00.000Z'), status: 'conflict' as const, conflict: 'deleted' };
+    const detached = detachFromParent(item);
+    expect(detached.status).to.equal('pending');
+    expect(detached.conflict).to.equal(undefined);
+    expect(detached.payload).to.include({ parent_id: null, level: 0, course_id: 'c1' });
+    expect(item.payload.parent_id).to.equal('p1');
+  });
+
+  it('drops empty drafts', () => {
+    const drafts = updateDrafts({}, 'comment:m1', 'Nice work');
+    expect(drafts).to.deep.equal({ 'comment:m1': 'Nice work' });
+    expect(updateDrafts(drafts, 'comment:m1', '  ')).to.deep.equal({});
+  });
+});
@@ -0,0 +1,52 @@
+import { expect } from 'chai';
+import {
+  ScheduledRelease,
+  describeReleaseCountdown,
+  isReleaseDue,
+  sortScheduledReleases
+} from '../../src/utils/releaseSchedule';
+
+const entry = (releaseAt: Date, extra: Partial<ScheduledRelease> = {}): ScheduledRelease => ({
+  courseId: 'c1',
+  courseTitle: 'Course',
+  contentId: 'x',
+  contentPath: 'week1',
+  contentTitle: 'Week 1',
+  releaseAt: releaseAt.toISOString(),
+  ...extra
+});
+
+describe('releaseSchedule', () => {
+  describe('isReleaseDue', () => {
+    const now = new Date(2026, 0, 10, 12, 0);
+
+    it('is due once the date passed and not triggered yet', () => {
+      expect(isReleaseDue(entry(new Date(2026, 0, 10, 11, 59)), now)).to.be.true;
+      expect(isReleaseDue(entry(new Date(2026, 0, 10, 12, 1)), now)).to.be.false;
+      expect(isReleaseDue(entry(new Date(2026, 0, 9), { triggeredAt: now.toISOString() }), now)).to.be.false;
+    });
+
+    it('honours a snoozed reminder', () => {
+      const past = new Date(2026, 0, 9);
+      expect(isReleaseDue(entry(past, { triggeredAt: past.toISOString(), snoozedUntil: new Date(2026, 0, 10, 13).toISOString() }), now)).to.be.false;
+      expect(isReleaseDue(entry(past, { triggeredAt: past.toISOString(), snoozedUntil: new Date(2026, 0, 10, 11).toISOString() }), now)).to.be.true;
+    });
+  });
+
+  it('describes the remaining time', () => {
+    const now = new Date(2026, 0, 10, 12, 0);
+    expect(describeReleaseCountdown(new Date(2026, 0, 10, 12, 30).toISOString(), now)).to.equal('in 30 min');
+    expect(describeReleaseCountdown(new Date(2026, 0, 11, 17, 0).toISOString(), now)).to.equal('in 29 h');
+    expect(describeReleaseCountdown(new Date(2026, 0, 15, 12, 0).toISOString(), now)).to.equal('in 5 days');
+    expect(describeReleaseCountdown(new Date(2026, 0, 10, 11, 0).toISOString(), now)).to.equal('overdue');
+  });
+
+  it('sorts by date, then path', () => {
+    const sorted = sortScheduledReleases([
+      entry(new Date(2026, 1, 1), { contentId: 'b', contentPath: 'b' }),
+      entry(new Date(2026, 0, 1), { contentId: 'c', contentPath: 'c' }),
+      entry(new Date(2026, 1, 1), { contentId: 'a', contentPath: 'a' })
+    ]);
+    expect(sorted.map(e => e.contentId)).to.deep.equal(['c', 'a', 'b']);
+  });
+});
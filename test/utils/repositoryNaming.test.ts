@@ -2,7 +2,6 @@ import { expect } from 'chai';
 import * as path from 'path';
 import {
   deriveRepositoryDirectoryName,
-  buildStudentRepoRoot,
   buildReviewRepoRoot,
   buildReferenceRepoRoot,
   slugify
@@ -71,11 +70,6 @@ describe('repositoryNaming', () => {
   });
 
   describe('path builders', () => {
-    it('buildStudentRepoRoot → workspaceRoot/student/<name>', () => {
-      expect(buildStudentRepoRoot('/ws', 'foo'))
-        .to.equal(path.join('/ws', 'student', 'foo'));
-    });
-
     it('buildReviewRepoRoot → workspaceRoot/review/repositories/<name>', () => {
       expect(buildReviewRepoRoot('/ws', 'foo'))
         .to.equal(path.join('/ws', 'review', 'repositories', 'foo'));
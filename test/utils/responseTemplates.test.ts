@@ -0,0 +1,44 @@
+import { expect } from 'chai';
+import { deadlineFor, parseResponseTemplateFile, renderTemplate } from '../../src/utils/responseTemplates';
+
+describe('responseTemplates', () => {
+  it('fills known placeholders and keeps the rest visible', () => {
+    const { text, unresolved } = renderTemplate(
+      'Hi {{ studentFirstName }}, your grade for {{assignmentTitle}} is {{grade}}. {{unknown}}',
+      { studentFirstName: 'Ada', assignmentTitle: 'Loops', grade: '' }
+    );
+    expect(text).to.equal('Hi Ada, your grade for Loops is {{grade}}. {{unknown}}');
+    expect(unresolved).to.deep.equal(['grade', 'unknown']);
+  });
+
+  it('parses template files and reports invalid entries', () => {
+    const { file, errors } = parseResponseTemplateFile(JSON.stringify({
+      templates: [
+        { title: ' Late ', body: 'Deadline was {{deadline}}.', description: 'Late submission' },
+        { title: 'Broken' },
+        { title: 'Typo', body: 'Hi {{studentname}}' }
+      ],
+      deadlines: { week1: '2026-11-01 23:59', week2: 5 }
+    }));
+    expect(file.templates.map(template => template.title)).to.deep.equal(['Late', 'Typo']);
+    expect(file.deadlines).to.deep.equal({ week1: '2026-11-01 23:59' });
+    expect(errors).to.deep.equal([
+      'Template #2 needs a "title" and a "body".',
+      'Template "Typo" uses unknown placeholder(s): studentname.'
+    ]);
+  });
+
+  it('accepts a bare array and rejects invalid JSON', () => {
+    expect(parseResponseTemplateFile('[{"title":"A","body":"B"}]').file.templates).to.have.length(1);
+    expect(parseResponseTemplateFile('{').errors[0]).to.match(/^Invalid JSON/);
+    expect(parseResponseTemplateFile('{}').errors).to.deep.equal(['Expected a "templates" array.']);
+  });
+
+  it('looks up deadlines on the content path or the closest unit above it', () => {
+    const deadlines = { week1: '2026-11-01', 'week1.loops': '2026-11-03 12:00' };
+    expect(deadlineFor(deadlines, 'week1.loops')).to.equal('2026-11-03 12:00');
+    expect(deadlineFor(deadlines, 'week1.functions')).to.equal('2026-11-01');
+    expect(deadlineFor(deadlines, 'week2.loops')).to.be.undefined;
+    expect(deadlineFor(undefined, 'week1')).to.be.undefined;
+  });
+});
@@ -0,0 +1,66 @@
+import { expect } from 'chai';
+import * as path from 'path';
+import {
+  formatReviewCommentTitle,
+  parseReviewCommentTitle,
+  resolveReviewSubmissionFile,
+  groupReviewThreads
+} from '../../src/utils/reviewCommentAnchor';
+
+const msg = (obj: Record<string, unknown>) => ({ level: 0, author_id: 'u1', content: '', ...obj }) as any;
+
+describe('reviewCommentAnchor', () => {
+  describe('title round-trip', () => {
+    it('formats and parses a file/line anchor', () => {
+      const title = formatReviewCommentTitle({ filePath: 'src/main.py', line: 12 });
+      expect(title).to.equal('#review src/main.py:12');
+      expect(parseReviewCommentTitle(title)).to.deep.equal({ filePath: 'src/main.py', line: 12 });
+    });
+
+    it('keeps colons inside the path', () => {
+      expect(parseReviewCommentTitle('#review a:b.py:3')).to.deep.equal({ filePath: 'a:b.py', line: 3 });
+    });
+
+    it('rejects titles without a review anchor', () => {
+      expect(parseReviewCommentTitle(undefined)).to.be.undefined;
+      expect(parseReviewCommentTitle('#ai question')).to.be.undefined;
+      expect(parseReviewCommentTitle('#review main.py')).to.be.undefined;
+      expect(parseReviewCommentTitle('#review main.py:0')).to.be.undefined;
+    });
+  });
+
+  describe('resolveReviewSubmissionFile', () => {
+    const base = path.join('/ws', 'review', 'submissions');
+
+    it('splits submission group, artifact and relative path', () => {
+      expect(resolveReviewSubmissionFile(base, path.join(base, 'sg1', 'art1', 'src', 'main.py'))).to.deep.equal({
+        submissionGroupId: 'sg1',
+        artifactId: 'art1',
+        relativePath: 'src/main.py'
+      });
+    });
+
+    it('ignores files outside a submission', () => {
+      expect(resolveReviewSubmissionFile(base, path.join('/ws', 'review', 'reference', 'x', 'main.py'))).to.be.undefined;
+      expect(resolveReviewSubmissionFile(base, path.join(base, 'sg1', 'art1'))).to.be.undefined;
+    });
+  });
+
+  describe('groupReviewThreads', () => {
+    it('collects roots for the file and nested replies in creation order', () => {
+      const threads = groupReviewThreads([
+        msg({ id: 'r2', title: '#review main.py:8', created_at: '2026-01-01T10:00:00Z' }),
+        msg({ id: 'r1', title: '#review main.py:3', created_at: '2026-01-01T09:00:00Z' }),
+        msg({ id: 'other', title: '#review util.py:3' }),
+        msg({ id: 'plain', title: 'Question' }),
+        msg({ id: 'a2', parent_id: 'a1', created_at: '2026-01-02T00:00:00Z' }),
+        msg({ id: 'a1', parent_id: 'r1', created_at: '2026-01-01T12:00:00Z' }),
+        msg({ id: 'gone', parent_id: 'r1', is_deleted: true })
+      ], 'main.py');
+
+      expect(threads.map(t => t.root.id)).to.deep.equal(['r1', 'r2']);
+      expect(threads[0]?.replies.map(m => m.id)).to.deep.equal(['a1', 'a2']);
+      expect(threads[1]?.replies).to.be.empty;
+    });
+  });
+});
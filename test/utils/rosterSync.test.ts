@@ -0,0 +1,65 @@
+import { expect } from 'chai';
+import type { CourseMemberList } from '../../src/types/generated';
+import {
+  RosterSyncLogEntry,
+  appendRosterSyncLog,
+  describeRosterChange,
+  findAbsentMemberIds,
+  planRosterChanges,
+  revertRosterChanges
+} from '../../src/utils/rosterSync';
+
+const member = (id: string, email: string, roleId = '_student'): CourseMemberList => ({
+  id,
+  user_id: `u-${id}`,
+  course_id: 'c1',
+  course_role_id: roleId,
+  course_group_id: 'g1',
+  user: { id: `u-${id}`, email } as CourseMemberList['user']
+});
+
+describe('rosterSync', () => {
+  it('lists students missing from the roster, ignoring staff and email case', () => {
+    const existing = [
+      member('m1', 'Max@Example.org'),
+      member('m2', 'dropped@example.org'),
+      member('m3', 'tutor@example.org', '_tutor')
+    ];
+    const absent = findAbsentMemberIds(existing, [{ email: 'max@example.org' }]);
+    expect([...absent]).to.deep.equal(['m2']);
+  });
+
+  it('plans only changes that change something and reverts them', () => {
+    const members = [
+      { courseMemberId: 'm1', email: 'a@example.org', name: 'Ann', course_role_id: '_student', course_group_id: 'g1' },
+      { courseMemberId: 'm2', email: 'b@example.org', name: 'Ben', course_role_id: '_dropped', course_group_id: null }
+    ];
+    const roleChanges = planRosterChanges(members, { kind: 'changeRole', roleId: '_dropped' });
+    expect(roleChanges).to.deep.equal([{
+      courseMemberId: 'm1',
+      email: 'a@example.org',
+      name: 'Ann',
+      before: { course_role_id: '_student' },
+      after: { course_role_id: '_dropped' }
+    }]);
+    expect(planRosterChanges(members, { kind: 'removeFromGroup' }).map(change => change.courseMemberId)).to.deep.equal(['m1']);
+
+    const undo = revertRosterChanges(roleChanges);
+    expect(undo[0]!.after).to.deep.equal({ course_role_id: '_student' });
+  });
+
+  it('describes changes for the dry run', () => {
+    const [change] = planRosterChanges(
+      [{ courseMemberId: 'm1', email: 'a@example.org', name: 'Ann Lee', course_role_id: '_student', course_group_id: 'g1' }],
+      { kind: 'removeFromGroup' }
+    );
+    expect(describeRosterChange(change!, id => id, id => (id === 'g1' ? 'Group A' : id)))
+      .to.equal('Ann Lee <a@example.org>: group Group A → no group');
+  });
+
+  it('keeps the newest log entries', () => {
+    const entry = (id: string): RosterSyncLogEntry => ({ id, courseId: 'c1', appliedAt: '2026-10-19T10:00:00.000Z', changes: [] });
+    const log = appendRosterSyncLog(appendRosterSyncLog([], entry('a'), 2), entry('b'), 2);
+    expect(appendRosterSyncLog(log, entry('c'), 2).map(item => item.id)).to.deep.equal(['c', 'b']);
+  });
+});
@@ -0,0 +1,67 @@
+import { expect } from 'chai';
+import {
+  StudentDeadline,
+  describeTimeRemaining,
+  hasUnsubmittedChanges,
+  nextUpcomingDeadline,
+  normalizeReminderHours,
+  pendingReminders
+} from '../../src/utils/studentDeadlines';
+
+const deadline = (dueAt: Date, extra: Partial<StudentDeadline> = {}): StudentDeadline => ({
+  courseId: 'c1',
+  contentId: 'a1',
+  contentTitle: 'Assignment 1',
+  dueAt: dueAt.toISOString(),
+  ...extra
+});
+
+describe('studentDeadlines', () => {
+  const now = new Date(2026, 0, 10, 12, 0);
+
+  it('normalizes the reminder setting', () => {
+    expect(normalizeReminderHours([1, 24, 1, -2, 'x'])).to.deep.equal([24, 1]);
+    expect(normalizeReminderHours(undefined)).to.deep.equal([24, 1]);
+    expect(normalizeReminderHours([])).to.deep.equal([]);
+  });
+
+  describe('pendingReminders', () => {
+    it('returns reached offsets that were not handled', () => {
+      const due = deadline(new Date(2026, 0, 10, 12, 30));
+      expect(pendingReminders(due, [24, 1], now)).to.deep.equal([24, 1]);
+      expect(pendingReminders({ ...due, handledReminders: [24] }, [24, 1], now)).to.deep.equal([1]);
+      expect(pendingReminders(deadline(new Date(2026, 0, 10, 20, 0)), [24, 1], now)).to.deep.equal([24]);
+    });
+
+    it('stops once the deadline passed', () => {
+      expect(pendingReminders(deadline(new Date(2026, 0, 10, 11, 0)), [24, 1], now)).to.deep.equal([]);
+    });
+  });
+
+  it('only reports changes newer than the latest submission', () => {
+    const earlier = new Date(2026, 0, 9);
+    const later = new Date(2026, 0, 10);
+    expect(hasUnsubmittedChanges({ latestSubmissionAt: earlier, latestLocalChangeAt: later })).to.be.true;
+    expect(hasUnsubmittedChanges({ latestSubmissionAt: later, latestLocalChangeAt: earlier })).to.be.false;
+    expect(hasUnsubmittedChanges({ latestLocalChangeAt: earlier })).to.be.true;
+    expect(hasUnsubmittedChanges({ latestSubmissionAt: earlier })).to.be.false;
+  });
+
+  it('describes the time left', () => {
+    expect(describeTimeRemaining(new Date(2026, 0, 12, 17, 0).toISOString(), now)).to.equal('2d 5h');
+    expect(describeTimeRemaining(new Date(2026, 0, 11, 12, 0).toISOString(), now)).to.equal('1d');
+    expect(describeTimeRemaining(new Date(2026, 0, 10, 15, 20).toISOString(), now)).to.equal('3h 20m');
+    expect(describeTimeRemaining(new Date(2026, 0, 10, 12, 45).toISOString(), now)).to.equal('45m');
+    expect(describeTimeRemaining(new Date(2026, 0, 10, 11, 0).toISOString(), now)).to.equal('overdue');
+  });
+
+  it('picks the next upcoming deadline', () => {
+    const entries = [
+      deadline(new Date(2026, 0, 9), { contentId: 'past' }),
+      deadline(new Date(2026, 0, 20), { contentId: 'later' }),
+      deadline(new Date(2026, 0, 11), { contentId: 'next' })
+    ];
+    expect(nextUpcomingDeadline(entries, now)?.contentId).to.equal('next');
+    expect(nextUpcomingDeadline(entries.slice(0, 1), now)).to.be.undefined;
+  });
+});
@@ -0,0 +1,87 @@
+import { expect } from 'chai';
+import { computeSimilarityPairs, fingerprintSource, tokenizeSource } from '../../src/utils/submissionSimilarity';
+
+const original = `
+def mean(values):
+    # average of the list
+    total = 0
+    for value in values:
+        total += value
+    return total / len(values)
+
+def variance(values):
+    m = mean(values)
+    return sum((v - m) ** 2 for v in values) / len(values)
+`;
+
+const renamed = `
+def avg(xs):
+    s = 0
+    for x in xs:
+        s += x
+    return s / len(xs)
+
+def var(xs):
+    mu = avg(xs)
+    return sum((y - mu) ** 2 for y in xs) / len(xs)
+`;
+
+const unrelated = `
+class Stack:
+    def __init__(self):
+        self.items = []
+
+    def push(self, item):
+        self.items.append(item)
+
+    def pop(self):
+        if not self.items:
+            raise IndexError("empty")
+        return self.items.pop()
+`;
+
+const submission = (id: string, content: string) => ({ id, label: id, root: `/tmp/${id}`, files: [{ path: 'main.py', content }] });
+
+describe('submissionSimilarity', () => {
+  describe('tokenizeSource', () => {
+    it('abstracts identifiers, literals and comments', () => {
+      expect(tokenizeSource('x = 42 # answer\nprint("hi")')).to.deep.equal(['V', '=', 'N', 'print', '(', 'S', ')']);
+      expect(tokenizeSource('a % b')).to.deep.equal(['V', '%', 'V']);
+      expect(tokenizeSource('int n = 1; // count\n/* block */')).to.deep.equal(['int', 'V', '=', 'N', ';']);
+    });
+  });
+
+  describe('computeSimilarityPairs', () => {
+    it('scores renamed copies as identical and unrelated code low', () => {
+      const pairs = computeSimilarityPairs([
+        submission('a', original),
+        submission('b', renamed),
+        submission('c', unrelated)
+      ]);
+
+      expect(pairs[0]).to.include({ a: 'a', b: 'b', score: 1 });
+      expect(pairs[0]!.files).to.deep.equal([{ pathA: 'main.py', pathB: 'main.py', score: 1 }]);
+      const other = pairs.filter(pair => pair.b === 'c').map(pair => pair.score);
+      other.forEach(score => expect(score).to.be.below(0.5));
+    });
+
+    it('drops pairs below the threshold', () => {
+      const pairs = computeSimilarityPairs([
+        submission('a', original),
+        submission('b', renamed),
+        submission('c', unrelated)
+      ], { threshold: 0.5 });
+
+      expect(pairs.map(pair => `${pair.a}-${pair.b}`)).to.deep.equal(['a-b']);
+    });
+
+    it('ignores fingerprints of the template', () => {
+      const pairs = computeSimilarityPairs([
+        submission('a', original),
+        submission('b', renamed)
+      ], { ignore: fingerprintSource(original) });
+
+      expect(pairs).to.be.empty;
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { expect } from 'chai';
+import { diffTestResults, flattenTestResults } from '../../src/utils/testResultDiff';
+
+const run = (tests: unknown[]) => ({ type: 'python', tests });
+
+describe('testResultDiff', () => {
+  describe('flattenTestResults', () => {
+    it('keys leaf tests by their name path', () => {
+      const outcomes = flattenTestResults(run([
+        { name: 'Variables', result: 'FAILED', tests: [
+          { name: 'x', result: 'PASSED' },
+          { name: 'y', result: 'FAILED', resultMessage: ' y is 2 ' }
+        ] },
+        { name: 'Syntax', result: 'PASSED', tests: [] }
+      ]));
+
+      expect(Array.from(outcomes.keys())).to.deep.equal(['Variables/x', 'Variables/y', 'Syntax']);
+      expect(outcomes.get('Variables/y')).to.deep.equal({ passed: false, message: 'y is 2' });
+      expect(outcomes.get('Syntax')).to.deep.equal({ passed: true, message: undefined });
+    });
+
+    it('keeps tests of collections with the same name apart', () => {
+      const outcomes = flattenTestResults(run([
+        { name: 'Variables', tests: [{ name: 'x', result: 'PASSED' }] },
+        { name: 'Variables', tests: [{ name: 'x', result: 'FAILED' }] }
+      ]));
+
+      expect(Array.from(outcomes.keys())).to.deep.equal(['Variables/x', 'Variables (2)/x']);
+      expect(outcomes.get('Variables (2)/x')!.passed).to.equal(false);
+    });
+
+    it('returns nothing for error payloads', () => {
+      expect(flattenTestResults({ error: 'Timeout' }).size).to.equal(0);
+      expect(flattenTestResults(undefined).size).to.equal(0);
+    });
+  });
+
+  describe('diffTestResults', () => {
+    it('classifies newly passed, regressed, changed, added and removed tests', () => {
+      const before = run([{ name: 'G', tests: [
+        { name: 'a', result: 'FAILED' },
+        { name: 'b', result: 'PASSED' },
+        { name: 'c', result: 'FAILED', resultMessage: 'expected 1' },
+        { name: 'd', result: 'PASSED' },
+        { name: 'gone', result: 'PASSED' }
+      ] }]);
+      const after = run([{ name: 'G', tests: [
+        { name: 'a', result: 'PASSED' },
+        { name: 'b', result: 'FAILED' },
+        { name: 'c', result: 'FAILED', resultMessage: 'expected 2' },
+        { name: 'd', result: 'PASSED' },
+        { name: 'new', result: 'FAILED' }
+      ] }]);
+
+      const diff = diffTestResults(before, after);
+      expect(diff.newlyPassed.map(c => c.key)).to.deep.equal(['G/a']);
+      expect(diff.regressed.map(c => c.key)).to.deep.equal(['G/b']);
+      expect(diff.messageChanged.map(c => c.key)).to.deep.equal(['G/c']);
+      expect(diff.added.map(c => c.key)).to.deep.equal(['G/new']);
+      expect(diff.removed.map(c => c.key)).to.deep.equal(['G/gone']);
+      expect(diff.unchangedCount).to.equal(1);
+    });
+  });
+});
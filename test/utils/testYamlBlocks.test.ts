@@ -0,0 +1,70 @@
+import { expect } from 'chai';
+import {
+  detectBlockLanguage,
+  findLanguageBlocks,
+  getBlockRegistry,
+  testYamlContainerAt,
+  testYamlFields,
+  validateTestYaml
+} from '../../src/utils/testYamlBlocks';
+
+describe('testYamlBlocks', () => {
+  const python = findLanguageBlocks('python')!;
+
+  const suite = (collection: Record<string, unknown>) => ({
+    type: 'python',
+    properties: { tests: [{ name: 'Variables', type: 'variable', tests: [{ name: 'result' }], ...collection }] }
+  });
+
+  it('converts the registry to the typed form', () => {
+    const variable = python.testTypes.find(testType => testType.id === 'variable');
+    expect(variable?.defaultQualification).to.equal('verifyEqual');
+    expect(variable?.collectionFields?.find(field => field.name === 'timeout')?.maxValue).to.equal(600);
+    expect(getBlockRegistry().languages.map(language => language.id)).to.include('c');
+  });
+
+  it('detects the language from file extensions', () => {
+    expect(detectBlockLanguage(['README.md', 'solution.py'])).to.equal('python');
+    expect(detectBlockLanguage(['data.bin'])).to.be.undefined;
+  });
+
+  it('maps paths to suite containers', () => {
+    expect(testYamlContainerAt([])).to.deep.equal({ kind: 'suite' });
+    expect(testYamlContainerAt(['properties', 'tests', 1])).to.deep.equal({ kind: 'collection', collection: 1 });
+    expect(testYamlContainerAt(['properties', 'tests', 1, 'tests', 2])).to.deep.equal({ kind: 'test', collection: 1, test: 2 });
+    expect(testYamlContainerAt(['properties', 'tests', 1, 'setUpCode'])).to.be.undefined;
+  });
+
+  it('offers the qualifications of the test type and their extra fields', () => {
+    const fields = testYamlFields(python, { kind: 'test', collection: 0, test: 0 }, 'variable');
+    expect(fields.find(field => field.name === 'qualification')?.enumValues).to.deep.equal(['verifyEqual', 'matches', 'contains', 'regexp']);
+    expect(testYamlFields(python, { kind: 'test', collection: 0, test: 0 }, 'unknown')).to.deep.equal([]);
+  });
+
+  it('accepts a valid suite', () => {
+    expect(validateTestYaml(suite({}), python)).to.deep.equal([]);
+  });
+
+  it('flags unknown test types', () => {
+    const issues = validateTestYaml(suite({ type: 'variables' }), python);
+    expect(issues.map(issue => issue.path)).to.deep.equal([['properties', 'tests', 0, 'type']]);
+    expect(issues[0]?.message).to.contain('Unknown test type "variables"');
+  });
+
+  it('flags qualifications the test type does not allow', () => {
+    const issues = validateTestYaml(suite({ tests: [{ name: 'lines', qualification: 'count' }, { name: 'x', qualification: 'nope' }] }), python);
+    expect(issues.map(issue => issue.message)).to.deep.equal([
+      'Qualification "count" is not allowed for Variable tests. Allowed: verifyEqual, matches, contains, regexp.',
+      'Unknown qualification "nope". Allowed for Variable tests: verifyEqual, matches, contains, regexp.'
+    ]);
+  });
+
+  it('flags out-of-range values and missing required fields', () => {
+    const issues = validateTestYaml(suite({ timeout: 1000, tests: [{ relativeTolerance: -1 }] }), python);
+    expect(issues).to.deep.equal([
+      { path: ['properties', 'tests', 0, 'timeout'], message: 'Must be at most 600.', severity: 'error' },
+      { path: ['properties', 'tests', 0, 'tests', 0], message: 'Missing required field "name".', severity: 'error' },
+      { path: ['properties', 'tests', 0, 'tests', 0, 'relativeTolerance'], message: 'Must be at least 0.', severity: 'error' }
+    ]);
+  });
+});
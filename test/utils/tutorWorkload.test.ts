@@ -0,0 +1,152 @@
+import { expect } from 'chai';
+import {
+  StoredGroupAssignments,
+  WorkloadSubmission,
+  WorkloadTutor,
+  collectAssignedMemberIds,
+  distributeSubmissions,
+  planAssignmentWrites,
+  readTutorAssignments,
+  summarizeWorkload,
+  writeTutorAssignments
+} from '../../src/utils/tutorWorkload';
+
+function submission(courseMemberId: string, extra: Partial<WorkloadSubmission> = {}): WorkloadSubmission {
+  return { courseMemberId, name: courseMemberId, pending: true, graded: false, ...extra };
+}
+
+describe('tutorWorkload', () => {
+  const tutors: WorkloadTutor[] = [
+    { userId: 't-bob', name: 'Bob Tutor', courseGroupId: 'g2' },
+    { userId: 't-ann', name: 'Ann Tutor', courseGroupId: 'g1' }
+  ];
+
+  describe('distributeSubmissions', () => {
+    it('hands out submissions in name order with round-robin', () => {
+      const result = distributeSubmissions(
+        [submission('s1'), submission('s2'), submission('s3')],
+        tutors,
+        'roundRobin'
+      );
+      expect(result.assignments).to.deep.equal({ s1: 't-ann', s2: 't-bob', s3: 't-ann' });
+      expect(result.assigned).to.deep.equal(['s1', 's2', 's3']);
+    });
+
+    it('balances against existing assignments and keeps them', () => {
+      const result = distributeSubmissions(
+        [submission('s1'), submission('s2'), submission('s3'), submission('s4')],
+        tutors,
+        'loadBalanced',
+        { s1: 't-ann', s2: 't-ann' }
+      );
+      expect(result.assignments).to.deep.equal({ s1: 't-ann', s2: 't-ann', s3: 't-bob', s4: 't-bob' });
+      expect(result.assigned).to.deep.equal(['s3', 's4']);
+    });
+
+    it('moves everything pending when reassigning but leaves graded work alone', () => {
+      const result = distributeSubmissions(
+        [submission('s1'), submission('s2'), submission('s3', { pending: false, graded: true })],
+        tutors,
+        'loadBalanced',
+        { s1: 't-ann', s2: 't-ann', s3: 't-bob' },
+        { reassign: true }
+      );
+      expect(result.assignments).to.deep.equal({ s1: 't-ann', s2: 't-bob', s3: 't-bob' });
+    });
+
+    it('only uses tutors of the student group when distributing by group', () => {
+      const result = distributeSubmissions(
+        [
+          submission('s1', { courseGroupId: 'g2' }),
+          submission('s2', { courseGroupId: 'g3' }),
+          submission('s3')
+        ],
+        tutors,
+        'byGroup'
+      );
+      expect(result.assignments).to.deep.equal({ s1: 't-bob' });
+      expect(result.unassignable).to.deep.equal(['s2', 's3']);
+    });
+
+    it('drops assignments to people who are no longer tutors', () => {
+      const result = distributeSubmissions([submission('s1')], tutors, 'roundRobin', { s1: 't-gone' });
+      expect(result.assignments).to.deep.equal({ s1: 't-ann' });
+    });
+  });
+
+  describe('summarizeWorkload', () => {
+    it('counts pending per assignee and graded per grader', () => {
+      const summary = summarizeWorkload(
+        [
+          submission('s1'),
+          submission('s2'),
+          submission('s3', { pending: false, graded: true, graderUserId: 't-bob' }),
+          submission('s4', { pending: false, graded: true, graderName: 'Ann Tutor' }),
+          submission('s5', { pending: false, graded: true, graderUserId: 'lecturer' })
+        ],
+        tutors,
+        { s1: 't-bob' }
+      );
+      expect(summary.tutors).to.deep.equal([
+        { userId: 't-ann', name: 'Ann Tutor', pending: 0, graded: 1 },
+        { userId: 't-bob', name: 'Bob Tutor', pending: 1, graded: 1 }
+      ]);
+      expect(summary.unassignedPending).to.equal(1);
+      expect(summary.gradedByOthers).to.equal(1);
+    });
+  });
+
+  describe('group properties', () => {
+    it('writes one content without touching other keys', () => {
+      const properties = { color: 'red', tutor_assignments: { c1: { s1: 't-ann' } } };
+      const updated = writeTutorAssignments(properties, 'c2', { s2: 't-bob' });
+      expect(updated).to.deep.equal({
+        color: 'red',
+        tutor_assignments: { c1: { s1: 't-ann' }, c2: { s2: 't-bob' } }
+      });
+      expect(properties.tutor_assignments).to.not.have.property('c2');
+      expect(writeTutorAssignments(updated, 'c1', {})).to.deep.equal({
+        color: 'red',
+        tutor_assignments: { c2: { s2: 't-bob' } }
+      });
+    });
+
+    it('ignores malformed entries when reading', () => {
+      expect(readTutorAssignments(null, 'c1')).to.deep.equal({});
+      expect(readTutorAssignments({ tutor_assignments: { c1: { s1: 't-ann', s2: 3 } } }, 'c1')).to.deep.equal({ s1: 't-ann' });
+    });
+
+    it('collects the queue of one tutor across groups', () => {
+      const groups = [
+        { tutor_assignments: { c1: { s1: 't-ann', s2: 't-bob' }, c2: { s3: 't-ann' } } },
+        { tutor_assignments: { c1: { s4: 't-ann' } } },
+        undefined
+      ];
+      expect([...collectAssignedMemberIds(groups, 't-ann')]).to.have.members(['s1', 's3', 's4']);
+      expect([...collectAssignedMemberIds(groups, 't-ann', 'c1')]).to.have.members(['s1', 's4']);
+    });
+
+    it('stores students in their own group and ungrouped ones in the group holding them', () => {
+      const stored: StoredGroupAssignments[] = [
+        { groupId: 'g1', assignments: { s1: 't-ann', s9: 't-ann' } },
+        { groupId: 'g2', assignments: {} }
+      ];
+      const { writes, unstorable } = planAssignmentWrites(stored, [
+        { courseMemberId: 's1', courseGroupId: 'g2', tutorUserId: 't-bob' },
+        { courseMemberId: 's9', courseGroupId: null, tutorUserId: 't-bob' },
+        { courseMemberId: 's5', courseGroupId: null, tutorUserId: 't-ann' }
+      ], 'g2');
+      expect(Object.fromEntries(writes)).to.deep.equal({
+        g1: { s9: 't-bob' },
+        g2: { s1: 't-bob', s5: 't-ann' }
+      });
+      expect(unstorable).to.deep.equal([]);
+    });
+
+    it('reports ungrouped students when the course has no group', () => {
+      const { writes, unstorable } = planAssignmentWrites([], [{ courseMemberId: 's1', courseGroupId: null, tutorUserId: 't-ann' }]);
+      expect(writes.size).to.equal(0);
+      expect(unstorable).to.deep.equal(['s1']);
+    });
+  });
+});
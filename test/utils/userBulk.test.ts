@@ -0,0 +1,71 @@
+import { expect } from 'chai';
+import type { UserList } from '../../src/types/generated/users';
+import { BulkUserRow, bulkUserReportToCsv, readBulkUserRows, summarizeBulkOutcome } from '../../src/utils/userBulk';
+
+describe('userBulk', () => {
+  describe('readBulkUserRows', () => {
+    const existing: UserList[] = [{ id: 'u1', email: 'taken@example.org', username: 'taken', is_service: false }];
+
+    it('reads known columns and defaults the username to the email local part', () => {
+      const rows = readBulkUserRows({
+        headers: ['E-Mail', 'First Name', 'Last Name', 'Roles'],
+        rows: [['ann@example.org', 'Ann', 'Lee', '_admin; _user_manager']]
+      });
+      expect(rows[0]).to.deep.include({
+        line: 1,
+        username: 'ann',
+        email: 'ann@example.org',
+        given_name: 'Ann',
+        family_name: 'Lee',
+        roles: ['_admin', '_user_manager'],
+        status: 'ready'
+      });
+    });
+
+    it('marks invalid, duplicate and existing rows', () => {
+      const rows = readBulkUserRows({
+        headers: ['username', 'email', 'roles'],
+        rows: [
+          ['a', 'not-an-email', ''],
+          ['b', 'b@example.org', ''],
+          ['b', 'other@example.org', ''],
+          ['c', 'TAKEN@example.org', ''],
+          ['d', 'd@example.org', '_unknown']
+        ]
+      }, existing, new Set(['_admin']));
+      expect(rows.map(row => row.status)).to.deep.equal(['invalid', 'ready', 'invalid', 'exists', 'invalid']);
+      expect(rows[4]!.message).to.equal('Unknown role "_unknown".');
+    });
+
+    it('requires an email column', () => {
+      expect(() => readBulkUserRows({ headers: ['username'], rows: [['a']] })).to.throw('email');
+    });
+  });
+
+  it('writes every row to the report with quoting', () => {
+    const row: BulkUserRow = {
+      line: 2,
+      username: 'ann',
+      email: 'ann@example.org',
+      given_name: 'Ann',
+      family_name: 'Lee, Jr.',
+      roles: ['_admin'],
+      status: 'created',
+      userId: 'u2'
+    };
+    const lines = bulkUserReportToCsv([row]).replace('\ufeff', '').trim().split('\r\n');
+    expect(lines).to.deep.equal([
+      'row,username,email,given_name,family_name,roles,status,user_id,message',
+      '2,ann,ann@example.org,Ann,"Lee, Jr.",_admin,created,u2,'
+    ]);
+  });
+
+  it('summarizes bulk outcomes', () => {
+    expect(summarizeBulkOutcome('Archived', 1, [])).to.deep.equal({ message: 'Archived 1 user.' });
+    const failures = [{ label: 'a', error: 'x' }, { label: 'b', error: 'y' }];
+    expect(summarizeBulkOutcome('Archived', 5, failures, 1)).to.deep.equal({
+      message: 'Archived 3 of 5 users.',
+      detail: 'a: x\n… and 1 more'
+    });
+  });
+});
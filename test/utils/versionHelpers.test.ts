@@ -0,0 +1,41 @@
+import { expect } from 'chai';
+import { compareSemVer, satisfiesVersionConstraint } from '../../src/utils/versionHelpers';
+
+describe('versionHelpers', () => {
+  it('compares versions part by part', () => {
+    expect(compareSemVer('1.10.0', '1.9.9')).to.be.greaterThan(0);
+    expect(compareSemVer('v2.0.0', '2.0')).to.equal(0);
+    expect(compareSemVer('0.1.0', '0.1.1')).to.be.lessThan(0);
+  });
+
+  describe('satisfiesVersionConstraint', () => {
+    it('accepts everything without a constraint', () => {
+      expect(satisfiesVersionConstraint('0.0.1', undefined)).to.be.true;
+      expect(satisfiesVersionConstraint('3.0.0', '')).to.be.true;
+    });
+
+    it('handles comparison operators and exact versions', () => {
+      expect(satisfiesVersionConstraint('1.2.0', '>=1.2.0')).to.be.true;
+      expect(satisfiesVersionConstraint('1.1.9', '>=1.2.0')).to.be.false;
+      expect(satisfiesVersionConstraint('1.5.0', '>=1.0.0, <2.0.0')).to.be.true;
+      expect(satisfiesVersionConstraint('2.0.0', '>=1.0.0 <2.0.0')).to.be.false;
+      expect(satisfiesVersionConstraint('1.0.0', '1.0.0')).to.be.true;
+      expect(satisfiesVersionConstraint('1.0.1', '==1.0.0')).to.be.false;
+    });
+
+    it('accepts a space between operator and version', () => {
+      expect(satisfiesVersionConstraint('1.5.0', '>= 1.0.0')).to.be.true;
+      expect(satisfiesVersionConstraint('0.9.0', '>= 1.0.0')).to.be.false;
+      expect(satisfiesVersionConstraint('v1.5', '>= 1.0.0, < 2.0.0')).to.be.true;
+    });
+
+    it('handles caret and tilde ranges', () => {
+      expect(satisfiesVersionConstraint('2.4.0', '^2.1.0')).to.be.true;
+      expect(satisfiesVersionConstraint('3.0.0', '^2.1.0')).to.be.false;
+      expect(satisfiesVersionConstraint('0.2.5', '^0.2.1')).to.be.true;
+      expect(satisfiesVersionConstraint('0.3.0', '^0.2.1')).to.be.false;
+      expect(satisfiesVersionConstraint('1.2.9', '~1.2.0')).to.be.true;
+      expect(satisfiesVersionConstraint('1.3.0', '~1.2.0')).to.be.false;
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import { expect } from 'chai';
+import type { TutorSubmissionGroupList } from '../../src/types/generated';
+import { countSubmittedAgainstVersion, diffStudentFiles, studentFacingFiles } from '../../src/utils/versionUpgradeImpact';
+
+describe('versionUpgradeImpact', () => {
+  const metaYaml = 'properties:\n  additionalFiles:\n    - data/\n    - ./input.txt\n  testFiles:\n    - test.py\n';
+
+  it('keeps the files that end up in student repositories', () => {
+    const files = {
+      'studentTemplates/main.py': '',
+      'data/values.csv': '',
+      'input.txt': '',
+      'test.py': '',
+      'solution.py': ''
+    };
+    expect(studentFacingFiles({ files, meta_yaml: metaYaml })).to.deep.equal(['data/values.csv', 'input.txt', 'studentTemplates/main.py']);
+  });
+
+  it('diffs student files between two versions', () => {
+    const current = { files: { 'studentTemplates/main.py': 'a', 'studentTemplates/old.py': '', 'input.txt': 'x', 'solution.py': '1' }, meta_yaml: metaYaml };
+    const next = { files: { 'studentTemplates/main.py': 'b', 'studentTemplates/new.py': '', 'input.txt': 'x', 'solution.py': '2' }, meta_yaml: metaYaml };
+    expect(diffStudentFiles(current, next)).to.deep.equal({
+      added: ['studentTemplates/new.py'],
+      modified: ['studentTemplates/main.py'],
+      removed: ['studentTemplates/old.py']
+    });
+  });
+
+  it('counts groups that submitted since the deployment', () => {
+    const group = (overrides: Partial<TutorSubmissionGroupList>): TutorSubmissionGroupList => ({
+      id: 'g', course_id: 'c', course_content_id: 'cc', display_name: 'G', max_group_size: 2,
+      created_at: '', updated_at: '', submission_count: 1, member_count: 1, ...overrides
+    });
+    const groups = [
+      group({ latest_submission_at: '2026-03-02T10:00:00Z', member_count: 2 }),
+      group({ latest_submission_at: '2026-02-01T10:00:00Z' }),
+      group({ submission_count: 0 })
+    ];
+    expect(countSubmittedAgainstVersion(groups, '2026-03-01T00:00:00Z')).to.deep.equal({ groups: 1, students: 2 });
+    expect(countSubmittedAgainstVersion(groups, null)).to.deep.equal({ groups: 2, students: 3 });
+  });
+});
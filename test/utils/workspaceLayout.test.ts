@@ -0,0 +1,53 @@
+import { expect } from 'chai';
+import * as path from 'path';
+import { resolveLayoutPath, resolveWorkspaceLayout, selectWorkspaceRoot } from '../../src/utils/workspaceLayout';
+
+const root = path.resolve('/ws');
+const home = path.resolve('/home/me');
+
+describe('workspaceLayout', () => {
+  describe('resolveLayoutPath', () => {
+    it('resolves relative, absolute and home paths', () => {
+      expect(resolveLayoutPath(root, 'student', home)).to.equal(path.join(root, 'student'));
+      expect(resolveLayoutPath(root, path.resolve('/scratch/review'), home)).to.equal(path.resolve('/scratch/review'));
+      expect(resolveLayoutPath(root, '~/courses', home)).to.equal(path.join(home, 'courses'));
+    });
+  });
+
+  describe('resolveWorkspaceLayout', () => {
+    it('uses the default layout without settings', () => {
+      const layout = resolveWorkspaceLayout(root, undefined, home);
+      expect(layout.student).to.equal(path.join(root, 'student'));
+      expect(layout.exampleVersions).to.equal(path.join(root, 'example_versions'));
+    });
+
+    it('applies course overrides over global ones', () => {
+      const settings = {
+        review: path.resolve('/scratch/review'),
+        student: '  ',
+        courses: { c1: { review: 'course-review' } }
+      };
+      expect(resolveWorkspaceLayout(root, settings, home).review).to.equal(path.resolve('/scratch/review'));
+      expect(resolveWorkspaceLayout(root, settings, home, 'c1').review).to.equal(path.join(root, 'course-review'));
+      expect(resolveWorkspaceLayout(root, settings, home, 'c2').review).to.equal(path.resolve('/scratch/review'));
+      expect(resolveWorkspaceLayout(root, settings, home, 'c1').student).to.equal(path.join(root, 'student'));
+    });
+  });
+
+  describe('selectWorkspaceRoot', () => {
+    const folders = [
+      { name: 'notes', fsPath: path.resolve('/notes') },
+      { name: 'computor', fsPath: path.resolve('/computor') }
+    ];
+
+    it('prefers the configured folder', () => {
+      expect(selectWorkspaceRoot(folders, 'notes', () => true)).to.equal(path.resolve('/notes'));
+    });
+
+    it('falls back to the folder with a marker, then the first folder', () => {
+      expect(selectWorkspaceRoot(folders, '', dir => dir === path.resolve('/computor'))).to.equal(path.resolve('/computor'));
+      expect(selectWorkspaceRoot(folders, undefined, () => false)).to.equal(path.resolve('/notes'));
+      expect(selectWorkspaceRoot([], undefined, () => false)).to.be.undefined;
+    });
+  });
+});
@@ -0,0 +1,45 @@
+import { expect } from 'chai';
+import { existingYamlKeys, indexYamlLocations, locateYamlPath, resolveYamlCursor } from '../../src/utils/yamlLocator';
+
+const doc = [
+  'slug: demo',
+  'description: |',
+  '  title: not a key',
+  'authors:',
+  '  - name: Ada',
+  '    email: ada@example.org',
+  'properties:',
+  '  testFiles:',
+  '  - test.py  # comment',
+  '  - "other.py"',
+  '  studentTemplates: [a.py, "b.py"]',
+  ''
+].join('\n');
+
+describe('yamlLocator', () => {
+  it('locates keys, sequence items and flow items', () => {
+    const locations = indexYamlLocations(doc);
+    expect(locations.get('slug')?.value).to.deep.equal({ line: 0, start: 6, end: 10 });
+    expect(locations.has('title')).to.be.false;
+    expect(locations.get('authors/0/email')?.key).to.deep.equal({ line: 5, start: 4, end: 9 });
+    expect(locations.get('properties/testFiles/0')).to.deep.include({ text: 'test.py', value: { line: 8, start: 4, end: 11 } });
+    expect(locations.get('properties/testFiles/1')?.text).to.equal('other.py');
+    expect(locations.get('properties/studentTemplates/1')).to.deep.include({ text: 'b.py', value: { line: 10, start: 27, end: 33 } });
+  });
+
+  it('falls back to the closest located ancestor', () => {
+    const locations = indexYamlLocations(doc);
+    expect(locateYamlPath(locations, ['authors', 0, 'affiliation'])).to.deep.equal({ line: 4, start: 2, end: 3 });
+    expect(existingYamlKeys(locations, ['properties'])).to.deep.equal(new Set(['testFiles', 'studentTemplates']));
+  });
+
+  it('resolves what the cursor is on', () => {
+    const lines = doc.split('\n');
+    const withLine = (line: string, at: number) => [...lines.slice(0, at), line, ...lines.slice(at)].join('\n');
+    expect(resolveYamlCursor(withLine('  add', 10), 10, 5)).to.deep.equal({ kind: 'key', path: ['properties'], prefix: 'add' });
+    expect(resolveYamlCursor(withLine('  - te', 10), 10, 6)).to.deep.equal({ kind: 'item', path: ['properties', 'testFiles'], prefix: 'te' });
+    expect(resolveYamlCursor(doc, 0, 8)).to.deep.equal({ kind: 'value', path: ['slug'], prefix: 'de' });
+    expect(resolveYamlCursor(withLine('  - email: a', 6), 6, 12)).to.deep.equal({ kind: 'value', path: ['authors', 1, 'email'], prefix: 'a' });
+    expect(resolveYamlCursor(withLine('  additionalFiles: [x.py, y', 11), 11, 27)).to.deep.equal({ kind: 'item', path: ['properties', 'additionalFiles'], prefix: 'y' });
+  });
+});
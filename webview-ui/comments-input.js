@@ -7,6 +7,7 @@
     title: undefined,
     editingComment: undefined,
     loading: false,
+    templatesEnabled: false,
     draft: ''
   };
 
@@ -111,6 +112,9 @@
 
     textarea.addEventListener('input', (e) => {
       state.draft = e.target.value;
+      if (!state.editingComment) {
+        vscode.postMessage({ command: 'draftChanged', data: state.draft });
+      }
     });
 
     textarea.addEventListener('keydown', (e) => {
@@ -162,6 +166,16 @@
       }
     }
 
+    if (state.templatesEnabled && !state.editingComment) {
+      const templateBtn = createElement('button', {
+        className: 'vscode-button vscode-button--secondary',
+        textContent: '📋 Template',
+        attributes: { type: 'button', title: 'Insert a response template' }
+      });
+      templateBtn.addEventListener('click', () => vscode.postMessage({ command: 'insertTemplate' }));
+      actions.appendChild(templateBtn);
+    }
+
     const hint = createElement('span', {
       className: 'comments-input-hint',
       textContent: 'Ctrl/Cmd+Enter to submit'
@@ -188,9 +202,30 @@
           title: message.data?.title,
           editingComment: message.data?.editingComment,
           loading: Boolean(message.data?.loading),
-          draft: message.data?.editingComment ? state.draft : ''
+          templatesEnabled: Boolean(message.data?.templatesEnabled),
+          draft: message.data?.editingComment ? state.draft : (message.data?.draft || '')
         });
         break;
+      case 'insertText': {
+        const text = message.data?.text || '';
+        const textarea = document.querySelector('.comments-input-textarea');
+        const current = textarea ? textarea.value : state.draft;
+        const start = textarea ? textarea.selectionStart : current.length;
+        const end = textarea ? textarea.selectionEnd : current.length;
+        const next = current.slice(0, start) + text + current.slice(end);
+        if (state.editingComment) {
+          state.editingComment = { ...state.editingComment, message: next };
+        } else {
+          state.draft = next;
+          vscode.postMessage({ command: 'draftChanged', data: next });
+        }
+        render();
+        const updated = document.querySelector('.comments-input-textarea');
+        if (updated) {
+          updated.setSelectionRange(start + text.length, start + text.length);
+        }
+        break;
+      }
       case 'setLoading':
         setState({ loading: Boolean(message.data?.loading) });
         break;
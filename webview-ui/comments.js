@@ -6,6 +6,7 @@
     courseMemberId: undefined,
     title: 'Comments',
     comments: [],
+    pending: [], // outbox items for this member, see OutboxService
     loading: false,
     error: undefined,
     ...(window.__INITIAL_STATE__ || {})
@@ -72,6 +73,43 @@
     return el;
   }
 
+  // Comments queued in the outbox; they are not on the server yet.
+  function renderPendingComment(item) {
+    const isConflict = item.status === 'conflict';
+    const card = createElement('article', {
+      className: `comment-card comment-pending ${isConflict ? 'comment-pending-conflict' : ''}`
+    });
+    card.appendChild(
+      createElement('div', {
+        className: 'comment-meta',
+        children: [
+          createElement('span', {
+            className: 'comment-pending-status',
+            textContent: isConflict ? `⚠ Not sent: ${item.conflict || ''}` : '⏳ Pending'
+          }),
+          createElement('span', { textContent: formatDate(item.createdAt) })
+        ]
+      })
+    );
+    card.appendChild(
+      createElement('div', {
+        className: 'comment-body markdown-body',
+        innerHTML: renderMarkdown(item.message)
+      })
+    );
+
+    const discardBtn = createElement('button', {
+      className: 'vscode-button vscode-button--tertiary vscode-button--sm',
+      textContent: 'Discard',
+      attributes: { type: 'button' }
+    });
+    discardBtn.addEventListener('click', () => {
+      vscode.postMessage({ command: 'discardPending', data: { id: item.id } });
+    });
+    card.appendChild(createElement('div', { className: 'comment-actions', children: [discardBtn] }));
+    return card;
+  }
+
   function renderComments(container) {
     container.innerHTML = '';
 
@@ -95,7 +133,8 @@
       return;
     }
 
-    if (!state.comments || state.comments.length === 0) {
+    const pending = state.pending || [];
+    if ((!state.comments || state.comments.length === 0) && pending.length === 0) {
       container.appendChild(
         createElement('div', {
           className: 'empty-state',
@@ -105,7 +144,7 @@
       return;
     }
 
-    state.comments
+    (state.comments || [])
       .slice()
       .sort((a, b) => {
         const aTime = a.updated_at || a.created_at || '';
@@ -171,6 +210,10 @@
 
         container.appendChild(card);
       });
+
+    pending.forEach((item) => {
+      container.appendChild(renderPendingComment(item));
+    });
   }
 
   function render() {
@@ -225,6 +268,9 @@
       case 'setError':
         setState({ error: message.data, loading: false });
         break;
+      case 'updatePending':
+        setState({ pending: message.data || [] });
+        break;
       case 'updateState':
       case 'update':
         setState(message.data || {});
@@ -11,6 +11,14 @@
   let sortColumn = null;
   let sortDirection = 'asc';
   let workflowPollingIntervals = {};
+  // Column mapping step for CSV/XLSX files; null while the member table is shown
+  let columnMapping = null;
+  let canEditMapping = false;
+  // Sync mode also lists course students missing from the import file
+  let canSync = false;
+  let syncMode = false;
+  let absentAction = 'changeRole';
+  let absentRoleId = null;
 
   function init() {
     if (!state.members || !state.availableRoles) {
@@ -38,15 +46,22 @@
       return;
     }
 
+    if (columnMapping) {
+      app.innerHTML = renderColumnMapping();
+      return;
+    }
+
     // Preserve scroll position
     const tableBody = document.querySelector('.import-table-body');
     const scrollTop = tableBody ? tableBody.scrollTop : 0;
 
-    const selectedCount = members.filter(m => m.isSelected).length;
+    const selectedCount = members.filter(m => m.isSelected && m.status !== 'absent').length;
+    const selectedAbsentCount = members.filter(m => m.isSelected && m.status === 'absent').length;
     const statusCounts = {
       missing: members.filter(m => m.status === 'missing').length,
       existing: members.filter(m => m.status === 'existing').length,
-      modified: members.filter(m => m.status === 'modified').length
+      modified: members.filter(m => m.status === 'modified').length,
+      absent: members.filter(m => m.status === 'absent').length
     };
 
     // Calculate header checkbox state based on visible members
@@ -78,12 +93,20 @@
           <button class="filter-button ${currentFilter === 'modified' ? 'active' : ''}" data-filter="modified">
             Modified <span class="badge">${statusCounts.modified}</span>
           </button>
+          ${syncMode ? `
+          <button class="filter-button ${currentFilter === 'absent' ? 'active' : ''}" data-filter="absent">
+            Absent <span class="badge">${statusCounts.absent}</span>
+          </button>` : ''}
         </div>
 
         <div class="action-bar">
           <button class="btn btn-secondary" id="loadFileBtn" ${isImporting ? 'disabled' : ''}>
             📁 Load Import File
           </button>
+          ${canEditMapping ? `
+          <button class="btn btn-secondary" id="editMappingBtn" ${isImporting ? 'disabled' : ''}>
+            🔀 Map Columns
+          </button>` : ''}
           <button class="btn btn-secondary" id="addMemberBtn" ${isImporting ? 'disabled' : ''}>
             ➕ Add New Member
           </button>
@@ -107,7 +130,30 @@
             <input type="checkbox" id="updateExistingCheckbox" ${isImporting ? 'disabled' : ''} checked>
             <span>Update existing members</span>
           </label>
+          ${canSync ? `
+          <label class="option-checkbox">
+            <input type="checkbox" id="syncModeCheckbox" ${isImporting ? 'disabled' : ''} ${syncMode ? 'checked' : ''}>
+            <span>Sync mode: list students missing from the file</span>
+          </label>` : ''}
         </div>
+
+        ${syncMode ? `
+        <div class="options-bar sync-bar">
+          <span class="filter-label">Absent students:</span>
+          <select class="role-select sync-action-select" id="absentActionSelect" ${isImporting ? 'disabled' : ''}>
+            <option value="changeRole" ${absentAction === 'changeRole' ? 'selected' : ''}>Change role to</option>
+            <option value="removeFromGroup" ${absentAction === 'removeFromGroup' ? 'selected' : ''}>Remove from group</option>
+          </select>
+          <select class="role-select sync-action-select" id="absentRoleSelect" ${isImporting || absentAction !== 'changeRole' ? 'disabled' : ''}>
+            ${renderRoleOptions(absentRoleId)}
+          </select>
+          <button class="btn btn-secondary" id="syncAbsentBtn" ${selectedAbsentCount === 0 || isImporting ? 'disabled' : ''}>
+            Review Changes (${selectedAbsentCount})
+          </button>
+          <button class="btn btn-secondary" id="undoSyncBtn" ${isImporting ? 'disabled' : ''}>
+            ↶ Undo a Sync
+          </button>
+        </div>` : ''}
       </div>
 
       <div class="import-table-wrapper">
@@ -167,6 +213,181 @@
     }
   }
 
+  function normalizeHeader(header) {
+    return String(header || '').toLowerCase().trim();
+  }
+
+  function defaultTransform(target) {
+    return target === 'full_name' ? 'splitFirstLast' : 'none';
+  }
+
+  function transformOptionsFor(target) {
+    if (target === 'full_name') {
+      return ['splitLastFirst', 'splitFirstLast'];
+    }
+    return target === 'ignore' ? ['none'] : ['none', 'lowercase'];
+  }
+
+  // Same matching as applyPreset in CourseMemberColumnMapping.ts
+  function columnsFromPreset(preset) {
+    const byHeader = new Map(preset.columns.map(column => [normalizeHeader(column.header), column]));
+    return columnMapping.headers.map(header => {
+      const column = byHeader.get(normalizeHeader(header));
+      return { header, target: column ? column.target : 'ignore', transform: column ? column.transform : 'none' };
+    });
+  }
+
+  function renderColumnMapping() {
+    const mapping = columnMapping;
+    const targetOptions = Object.entries(mapping.targetLabels);
+    const rows = mapping.columns.map((column, index) => {
+      const samples = mapping.samples
+        .map(row => row[index])
+        .filter(value => value !== undefined && String(value).trim() !== '')
+        .map(value => escapeHtml(String(value)))
+        .join('<br>');
+      const targetSelect = targetOptions.map(([value, label]) =>
+        `<option value="${value}" ${column.target === value ? 'selected' : ''}>${escapeHtml(label)}</option>`
+      ).join('');
+      const transformSelect = transformOptionsFor(column.target).map(value =>
+        `<option value="${value}" ${column.transform === value ? 'selected' : ''}>${escapeHtml(mapping.transformLabels[value])}</option>`
+      ).join('');
+      return `
+        <tr class="${column.target === 'ignore' ? 'mapping-ignored' : ''}">
+          <td class="mapping-header">${escapeHtml(column.header || `Column ${index + 1}`)}</td>
+          <td class="mapping-samples">${samples || '<em>empty</em>'}</td>
+          <td><select class="role-select mapping-target" data-column="${index}">${targetSelect}</select></td>
+          <td><select class="role-select mapping-transform" data-column="${index}" ${column.target === 'ignore' ? 'disabled' : ''}>${transformSelect}</select></td>
+        </tr>`;
+    }).join('');
+    const presetOptions = mapping.presets.map(preset =>
+      `<option value="${escapeAttribute(preset.name)}" ${mapping.presetName === preset.name ? 'selected' : ''}>${escapeHtml(preset.name)}</option>`
+    ).join('');
+    const hasEmail = mapping.columns.some(column => column.target === 'email');
+
+    return `
+      <div class="header">
+        <h1>Map Columns</h1>
+        <p>${escapeHtml(mapping.fileName)} · ${mapping.rowCount} row(s)</p>
+      </div>
+
+      ${mapping.issues.length > 0 ? `
+      <div class="mapping-issues">
+        <p>Check which field each column holds:</p>
+        <ul>${mapping.issues.map(issue => `<li>${escapeHtml(issue)}</li>`).join('')}</ul>
+      </div>` : ''}
+
+      <div class="controls">
+        <div class="action-bar">
+          <label class="option-checkbox">
+            <span>Preset:</span>
+            <select class="role-select mapping-preset-select" id="mappingPresetSelect">
+              <option value="">Without preset</option>
+              ${presetOptions}
+            </select>
+          </label>
+          <button class="btn btn-secondary" id="deletePresetBtn" ${mapping.presetName ? '' : 'disabled'}>
+            Delete Preset
+          </button>
+        </div>
+      </div>
+
+      <div class="import-table-wrapper">
+        <table class="import-table mapping-table">
+          <thead>
+            <tr>
+              <th>Column</th>
+              <th>Sample Values</th>
+              <th>Field</th>
+              <th>Transform</th>
+            </tr>
+          </thead>
+          <tbody>${rows}</tbody>
+        </table>
+      </div>
+
+      <div class="controls">
+        <div class="action-bar">
+          <input type="text" class="mapping-preset-name" id="presetNameInput" placeholder="Save as preset (optional)" value="${escapeAttribute(mapping.presetName || '')}">
+          <button class="btn btn-primary" id="applyMappingBtn" ${hasEmail ? '' : 'disabled'}>
+            Apply Mapping
+          </button>
+          <button class="btn btn-secondary" id="cancelMappingBtn">
+            Cancel
+          </button>
+        </div>
+      </div>
+    `;
+  }
+
+  function attachMappingListeners() {
+    document.querySelectorAll('.mapping-target').forEach(select => {
+      select.addEventListener('change', (e) => {
+        const column = columnMapping.columns[parseInt(e.target.dataset.column)];
+        if (column) {
+          column.target = e.target.value;
+          column.transform = defaultTransform(column.target);
+          render();
+          attachEventListeners();
+        }
+      });
+    });
+
+    document.querySelectorAll('.mapping-transform').forEach(select => {
+      select.addEventListener('change', (e) => {
+        const column = columnMapping.columns[parseInt(e.target.dataset.column)];
+        if (column) {
+          column.transform = e.target.value;
+        }
+      });
+    });
+
+    const presetSelect = document.getElementById('mappingPresetSelect');
+    if (presetSelect) {
+      presetSelect.addEventListener('change', (e) => {
+        const preset = columnMapping.presets.find(candidate => candidate.name === e.target.value);
+        columnMapping.presetName = preset ? preset.name : '';
+        columnMapping.columns = preset
+          ? columnsFromPreset(preset)
+          : columnMapping.detected.map(column => ({ ...column }));
+        render();
+        attachEventListeners();
+      });
+    }
+
+    const deletePresetBtn = document.getElementById('deletePresetBtn');
+    if (deletePresetBtn) {
+      deletePresetBtn.addEventListener('click', () => {
+        if (columnMapping.presetName) {
+          vscode.postMessage({ command: 'deleteMappingPreset', data: { name: columnMapping.presetName } });
+        }
+      });
+    }
+
+    const applyMappingBtn = document.getElementById('applyMappingBtn');
+    if (applyMappingBtn) {
+      applyMappingBtn.addEventListener('click', () => {
+        const presetNameInput = document.getElementById('presetNameInput');
+        vscode.postMessage({
+          command: 'applyColumnMapping',
+          data: {
+            columns: columnMapping.columns,
+            presetName: presetNameInput ? presetNameInput.value.trim() : ''
+          }
+        });
+      });
+    }
+
+    const cancelMappingBtn = document.getElementById('cancelMappingBtn');
+    if (cancelMappingBtn) {
+      cancelMappingBtn.addEventListener('click', () => {
+        columnMapping = null;
+        render();
+        attachEventListeners();
+      });
+    }
+  }
+
   function renderSortIcon(column) {
     if (sortColumn !== column) {
       return '<span class="sort-icon">⇅</span>';
@@ -241,13 +462,20 @@
   }
 
   function updateSelectionUI(changedRowNumber) {
-    const selectedCount = members.filter(m => m.isSelected).length;
+    const selectedCount = members.filter(m => m.isSelected && m.status !== 'absent').length;
     const importBtn = document.getElementById('importBtn');
     if (importBtn) {
       importBtn.innerHTML = `${isImporting ? '<span class="spinner"></span>' : ''} Import Selected (${selectedCount})`;
       importBtn.disabled = selectedCount === 0 || isImporting;
     }
 
+    const selectedAbsentCount = members.filter(m => m.isSelected && m.status === 'absent').length;
+    const syncAbsentBtn = document.getElementById('syncAbsentBtn');
+    if (syncAbsentBtn) {
+      syncAbsentBtn.textContent = `Review Changes (${selectedAbsentCount})`;
+      syncAbsentBtn.disabled = selectedAbsentCount === 0 || isImporting;
+    }
+
     const visibleMembers = members.filter(m => currentFilter === 'all' || m.status === currentFilter);
     const allVisibleSelected = visibleMembers.length > 0 && visibleMembers.every(m => m.isSelected);
     const headerCheckbox = document.getElementById('headerCheckbox');
@@ -260,8 +488,9 @@
       if (member) {
         const roleSelect = document.querySelector(`.role-select[data-row="${changedRowNumber}"]`);
         const groupSelect = document.querySelector(`.group-select[data-row="${changedRowNumber}"]`);
-        if (roleSelect) { roleSelect.disabled = !member.isSelected || isImporting; }
-        if (groupSelect) { groupSelect.disabled = !member.isSelected || isImporting; }
+        const locked = !member.isSelected || isImporting || member.status === 'absent';
+        if (roleSelect) { roleSelect.disabled = locked; }
+        if (groupSelect) { groupSelect.disabled = locked; }
       }
     }
   }
@@ -290,7 +519,8 @@
       const statusLabel = {
         missing: 'New',
         existing: 'Exists',
-        modified: 'Modified'
+        modified: 'Modified',
+        absent: 'Absent'
       }[member.status] || member.status;
 
       const resultHtml = renderResultCell(member);
@@ -323,7 +553,7 @@
             <select
               class="group-select"
               data-row="${member.rowNumber}"
-              ${!member.isSelected || isImporting ? 'disabled' : ''}
+              ${!member.isSelected || isImporting || member.status === 'absent' ? 'disabled' : ''}
             >
               ${renderGroupOptionsWithCustom(member.course_group_title)}
             </select>
@@ -332,7 +562,7 @@
             <select
               class="role-select"
               data-row="${member.rowNumber}"
-              ${!member.isSelected || isImporting ? 'disabled' : ''}
+              ${!member.isSelected || isImporting || member.status === 'absent' ? 'disabled' : ''}
             >
               ${renderRoleOptions(member.selectedRoleId)}
             </select>
@@ -390,6 +620,11 @@
       app.addEventListener('drop', handleDrop);
     }
 
+    if (columnMapping) {
+      attachMappingListeners();
+      return;
+    }
+
     // Sortable column headers
     document.querySelectorAll('.sortable').forEach(header => {
       header.addEventListener('click', () => {
@@ -498,6 +733,49 @@
       });
     }
 
+    const syncModeCheckbox = document.getElementById('syncModeCheckbox');
+    if (syncModeCheckbox) {
+      syncModeCheckbox.addEventListener('change', (e) => {
+        vscode.postMessage({ command: 'syncModeChanged', data: { enabled: e.target.checked } });
+      });
+    }
+
+    const absentActionSelect = document.getElementById('absentActionSelect');
+    const absentRoleSelect = document.getElementById('absentRoleSelect');
+    if (absentActionSelect && absentRoleSelect) {
+      absentActionSelect.addEventListener('change', (e) => {
+        absentAction = e.target.value;
+        absentRoleSelect.disabled = absentAction !== 'changeRole';
+      });
+      absentRoleSelect.addEventListener('change', (e) => {
+        absentRoleId = e.target.value;
+      });
+    }
+
+    const syncAbsentBtn = document.getElementById('syncAbsentBtn');
+    if (syncAbsentBtn && absentActionSelect && absentRoleSelect) {
+      syncAbsentBtn.addEventListener('click', () => {
+        const action = absentAction === 'changeRole'
+          ? { kind: 'changeRole', roleId: absentRoleSelect.value }
+          : { kind: 'removeFromGroup' };
+        vscode.postMessage({ command: 'syncAbsentMembers', data: { action } });
+      });
+    }
+
+    const undoSyncBtn = document.getElementById('undoSyncBtn');
+    if (undoSyncBtn) {
+      undoSyncBtn.addEventListener('click', () => {
+        vscode.postMessage({ command: 'undoRosterSync' });
+      });
+    }
+
+    const editMappingBtn = document.getElementById('editMappingBtn');
+    if (editMappingBtn) {
+      editMappingBtn.addEventListener('click', () => {
+        vscode.postMessage({ command: 'editColumnMapping' });
+      });
+    }
+
     // Add member button
     const addMemberBtn = document.getElementById('addMemberBtn');
     if (addMemberBtn) {
@@ -643,7 +921,8 @@
   function handleImport() {
     if (isImporting) return;
 
-    const selectedMembers = members.filter(m => m.isSelected);
+    // Absent rows are handled by the sync bar, not imported
+    const selectedMembers = members.filter(m => m.isSelected && m.status !== 'absent');
     if (selectedMembers.length === 0) {
       return;
     }
@@ -849,6 +1128,10 @@
     return div.innerHTML;
   }
 
+  function escapeAttribute(text) {
+    return escapeHtml(text).replace(/"/g, '&quot;');
+  }
+
   // Context menu for rows
   function showContextMenu(event, rowNumber) {
     event.preventDefault();
@@ -903,8 +1186,36 @@
     const message = event.data;
 
     switch (message.command) {
+      case 'showColumnMapping':
+        columnMapping = {
+          ...message.data,
+          detected: message.data.columns.map(column => ({ ...column })),
+          presetName: ''
+        };
+        render();
+        attachEventListeners();
+        break;
+
+      case 'mappingPresetsUpdated':
+        if (columnMapping) {
+          columnMapping.presets = message.data.presets || [];
+          if (!columnMapping.presets.some(preset => preset.name === columnMapping.presetName)) {
+            columnMapping.presetName = '';
+          }
+          render();
+          attachEventListeners();
+        }
+        break;
+
       case 'updateMembers':
         // Update members with new data from import file
+        columnMapping = null;
+        canEditMapping = Boolean(message.data.canEditMapping);
+        canSync = Boolean(message.data.canSync);
+        syncMode = Boolean(message.data.syncMode);
+        if (!syncMode && currentFilter === 'absent') {
+          currentFilter = 'all';
+        }
         if (message.data.members) {
           members = message.data.members.map(m => ({
             ...m,
@@ -91,7 +91,10 @@
           <h1 class="course-progress-header__title">${escapeHtml(course.title || course.path)}</h1>
           <p class="course-progress-header__subtitle">Student Progress Overview</p>
         </div>
-        <button type="button" class="button button-secondary" id="refreshBtn" title="Refresh data">Refresh</button>
+        <div class="course-progress-header__actions">
+          <button type="button" class="button button-secondary" id="exportBtn" title="Export grades as CSV or XLSX">Export…</button>
+          <button type="button" class="button button-secondary" id="refreshBtn" title="Refresh data">Refresh</button>
+        </div>
       </header>
     `;
   }
@@ -103,6 +106,12 @@
         vscode.postMessage({ command: 'refresh' });
       });
     }
+    const exportBtn = document.getElementById('exportBtn');
+    if (exportBtn) {
+      exportBtn.addEventListener('click', function() {
+        vscode.postMessage({ command: 'exportGradebook' });
+      });
+    }
   }
 
   function renderStatCards() {
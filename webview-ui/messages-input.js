@@ -7,7 +7,7 @@
     replyTo: undefined,
     editingMessage: undefined,
     loading: false,
-    activeTab: 'write', // 'write' or 'preview'
+    activeTab: 'write', // 'write', 'split' (live preview) or 'preview'
     messageContent: '',
     typingUsers: [] // { userId, userName }
   };
@@ -380,14 +380,66 @@
       }
     });
 
+    const splitTab = createElement('button', {
+      className: `editor-tab ${state.activeTab === 'split' ? 'active' : ''}`,
+      textContent: 'Live',
+      attributes: { title: 'Write with a live preview' }
+    });
+    splitTab.addEventListener('click', () => {
+      if (state.activeTab !== 'split') {
+        const textarea = document.getElementById('message-body');
+        if (textarea) {
+          state.messageContent = textarea.value;
+        }
+        setState({ activeTab: 'split' });
+      }
+    });
+
+    const attachButton = createElement('button', {
+      className: 'editor-tab editor-attach',
+      textContent: '📎 Attach file',
+      attributes: { type: 'button', title: 'Quote a text file as a code block' }
+    });
+    if (state.loading) {
+      attachButton.disabled = true;
+    }
+    attachButton.addEventListener('click', () => {
+      vscode.postMessage({ command: 'attachFile' });
+    });
+
     tabBar.appendChild(writeTab);
+    tabBar.appendChild(splitTab);
     tabBar.appendChild(previewTab);
+    tabBar.appendChild(attachButton);
+
+    if (state.target && state.target.templateContext) {
+      const templateButton = createElement('button', {
+        className: 'editor-tab',
+        textContent: '📋 Template',
+        attributes: { type: 'button', title: 'Insert a response template' }
+      });
+      if (state.loading) {
+        templateButton.disabled = true;
+      }
+      templateButton.addEventListener('click', () => {
+        vscode.postMessage({ command: 'insertTemplate' });
+      });
+      tabBar.appendChild(templateButton);
+    }
     editorContainer.appendChild(tabBar);
 
     // Content area (textarea or preview)
     const contentArea = createElement('div', { className: 'editor-content' });
 
-    if (state.activeTab === 'write') {
+    const contentToPreview = () => state.messageContent || (state.editingMessage ? state.editingMessage.content || '' : '');
+    const fillPreview = (preview) => {
+      const text = contentToPreview();
+      preview.innerHTML = text.trim()
+        ? `<div class="markdown-body">${renderMarkdown(text)}</div>`
+        : '<p class="preview-empty">Nothing to preview</p>';
+    };
+
+    if (state.activeTab === 'write' || state.activeTab === 'split') {
       const textarea = createElement('textarea', {
         className: 'vscode-input chat-textarea',
         attributes: {
@@ -403,21 +455,29 @@
         textarea.disabled = true;
       }
       // Save content on input and notify typing
+      const livePreview = state.activeTab === 'split'
+        ? createElement('div', { className: 'markdown-preview live-preview' })
+        : null;
       textarea.addEventListener('input', (e) => {
         state.messageContent = e.target.value;
         // Send typing indicator
         vscode.postMessage({ command: 'typing' });
+        if (!state.editingMessage) {
+          vscode.postMessage({ command: 'draftChanged', data: state.messageContent });
+        }
+        if (livePreview) {
+          fillPreview(livePreview);
+        }
       });
       contentArea.appendChild(textarea);
+      if (livePreview) {
+        fillPreview(livePreview);
+        contentArea.appendChild(livePreview);
+      }
     } else {
       // Preview mode
       const preview = createElement('div', { className: 'markdown-preview' });
-      const contentToPreview = state.messageContent || (state.editingMessage ? state.editingMessage.content || '' : '');
-      if (contentToPreview.trim()) {
-        preview.innerHTML = `<div class="markdown-body">${renderMarkdown(contentToPreview)}</div>`;
-      } else {
-        preview.innerHTML = '<p class="preview-empty">Nothing to preview</p>';
-      }
+      fillPreview(preview);
       contentArea.appendChild(preview);
     }
 
@@ -453,11 +513,16 @@
         // Full reset: clear all transient state, then apply incoming data
         state.replyTo = undefined;
         state.editingMessage = undefined;
-        state.messageContent = message.data?.editingMessage?.content || '';
+        state.messageContent = message.data?.editingMessage?.content || message.data?.draft || '';
         state.activeTab = 'write';
         state.typingUsers = [];
         setState(message.data || {});
         break;
+      case 'setDraft':
+        if (!state.editingMessage) {
+          setState({ messageContent: message.data?.draft || '' });
+        }
+        break;
       case 'setLoading':
         setState({ loading: Boolean(message.data?.loading) });
         break;
@@ -18,6 +18,7 @@
       tags_match_all: false
     },
     typingUsers: [], // { userId, userName }
+    pending: [], // outbox items of this thread, see OutboxService
     _scrollToBottom: false,
     ...(window.__INITIAL_STATE__ || {})
   };
@@ -100,6 +101,29 @@
     return escapeHtml(text).replace(/\n/g, '<br/>');
   }
 
+  // Matches the references written by "Ask About This Selection", e.g. src/main.py#L3-L10
+  const SNIPPET_REFERENCE = /^([^\s`#][^\s`]*)#L(\d+)(?:-L(\d+))?$/;
+
+  function linkSnippetReferences(body) {
+    body.querySelectorAll('code').forEach((code) => {
+      if (code.closest('pre')) {
+        return;
+      }
+      const match = SNIPPET_REFERENCE.exec(code.textContent.trim());
+      if (!match) {
+        return;
+      }
+      const startLine = Number(match[2]);
+      const endLine = match[3] ? Number(match[3]) : startLine;
+      code.classList.add('snippet-link');
+      code.setAttribute('title', 'Open file at these lines');
+      code.setAttribute('role', 'link');
+      code.addEventListener('click', () => {
+        vscode.postMessage({ command: 'openSnippet', data: { path: match[1], startLine, endLine } });
+      });
+    });
+  }
+
   function getAuthorDisplay(message) {
     const author = message.author || {};
     const authorNameFromParts = [author.given_name, author.family_name]
@@ -334,6 +358,7 @@
       className: 'message-body markdown-body',
       innerHTML: renderMarkdown(message.content)
     });
+    linkSnippetReferences(body);
 
     const actions = createElement('div', { className: 'message-actions' });
 
@@ -390,6 +415,83 @@
     return card;
   }
 
+  // Messages queued in the outbox; they are not on the server yet.
+  function renderPendingNode(item) {
+    const isConflict = item.status === 'conflict';
+    const card = createElement('article', {
+      className: `message-card message-pending ${isConflict ? 'message-pending-conflict' : ''}`,
+      attributes: { 'data-pending-id': item.id }
+    });
+
+    const meta = createElement('div', { className: 'message-meta' });
+    meta.appendChild(
+      createElement('div', {
+        className: 'message-meta-left',
+        children: [
+          createElement('span', {
+            className: 'message-pending-status',
+            textContent: isConflict ? '⚠ Not sent' : '⏳ Pending',
+            attributes: { title: isConflict ? item.conflict || '' : 'Will be sent when the connection is back' }
+          })
+        ]
+      })
+    );
+    meta.appendChild(
+      createElement('div', {
+        className: 'message-meta-right',
+        children: [createElement('span', { textContent: formatDate(item.createdAt), className: 'message-meta-date' })]
+      })
+    );
+    card.appendChild(meta);
+
+    if (item.parent_id) {
+      const parentMsg = state.messages.find((m) => m.id === item.parent_id);
+      const parentAuthor = parentMsg ? getAuthorDisplay(parentMsg) : null;
+      card.appendChild(
+        createElement('div', {
+          className: 'reply-context-line',
+          innerHTML: `&#8627; ${escapeHtml(parentAuthor ? 'replying to ' + parentAuthor : 'reply')}`
+        })
+      );
+    }
+    if (isConflict && item.conflict) {
+      card.appendChild(createElement('div', { className: 'message-pending-reason', textContent: item.conflict }));
+    }
+    if (item.title) {
+      card.appendChild(createElement('h3', { className: 'message-title', textContent: item.title }));
+    }
+    card.appendChild(
+      createElement('div', {
+        className: 'message-body markdown-body',
+        innerHTML: renderMarkdown(item.content)
+      })
+    );
+
+    if (createButton) {
+      const actions = createElement('div', { className: 'message-actions' });
+      if (isConflict && item.parent_id) {
+        actions.appendChild(
+          createButton({
+            text: 'Send as New Message',
+            size: 'sm',
+            variant: 'secondary',
+            onClick: () => vscode.postMessage({ command: 'sendPendingAsNew', data: { id: item.id } })
+          }).render()
+        );
+      }
+      actions.appendChild(
+        createButton({
+          text: 'Discard',
+          size: 'sm',
+          variant: 'tertiary',
+          onClick: () => vscode.postMessage({ command: 'discardPending', data: { id: item.id } })
+        }).render()
+      );
+      card.appendChild(actions);
+    }
+    return card;
+  }
+
   function renderMessagesSection(container, prevScroll) {
     container.innerHTML = '';
 
@@ -413,7 +515,8 @@
       return;
     }
 
-    if (!state.messages || state.messages.length === 0) {
+    const pending = state.pending || [];
+    if ((!state.messages || state.messages.length === 0) && pending.length === 0) {
       container.appendChild(
         createElement('div', {
           className: 'empty-state',
@@ -423,11 +526,14 @@
       return;
     }
 
-    const threads = buildThreads(state.messages);
+    const threads = buildThreads(state.messages || []);
     const flat = flattenThreads(threads);
     flat.forEach((msg) => {
       container.appendChild(renderMessageNode(msg, msg.level ?? 0));
     });
+    pending.forEach((item) => {
+      container.appendChild(renderPendingNode(item));
+    });
 
     // Render typing indicator if someone is typing
     if (state.typingUsers && state.typingUsers.length > 0) {
@@ -731,6 +837,9 @@
       case 'setError':
         setState({ error: message.data, loading: false });
         break;
+      case 'updatePending':
+        setState({ pending: message.data || [], _scrollToBottom: true });
+        break;
       case 'updateState':
         setState(message.data || {});
         break;
@@ -769,8 +878,8 @@
       emptyState.remove();
     }
 
-    // Flat layout: all messages are siblings in the container
-    const typingEl = container.querySelector('.typing-indicator');
+    // Flat layout: all messages are siblings in the container, pending ones last
+    const typingEl = container.querySelector('.message-pending, .typing-indicator');
     let level = 0;
     if (data.parent_id) {
       // Find parent's level from state and go one deeper
@@ -60,6 +60,11 @@
       m.properties.testDependencies = meta.properties.testDependencies;
     }
 
+    // Preserve gradingRubric if it exists
+    if (meta.properties && meta.properties.gradingRubric) {
+      m.properties.gradingRubric = meta.properties.gradingRubric;
+    }
+
     return m;
   }
 
@@ -0,0 +1,125 @@
+(function () {
+  const vscode = window.vscodeApi || acquireVsCodeApi();
+
+  let state = window.__INITIAL_STATE__ || null;
+
+  const sectionLabels = {
+    system: 'System roles',
+    organization: 'Organization',
+    course_family: 'Course Family',
+    course: 'Course'
+  };
+
+  function escapeHtml(value) {
+    if (value === undefined || value === null) { return ''; }
+    return String(value)
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+
+  function post(command, data) {
+    vscode.postMessage({ command, data });
+  }
+
+  function checkHtml(check) {
+    return `
+      <li class="check ${check.allowed ? 'check-allowed' : 'check-denied'}">
+        <span class="check-icon">${check.allowed ? '✔' : '✖'}</span>
+        <div>
+          <div class="check-action">${escapeHtml(check.action)}</div>
+          <div class="check-reason">${escapeHtml(check.reason)}</div>
+        </div>
+      </li>
+    `;
+  }
+
+  function sectionHtml(section) {
+    const roles = section.roles.length > 0
+      ? section.roles.map(role => `<span class="role-tag">${escapeHtml(role)}</span>`).join('')
+      : '<span class="empty-value">No system roles</span>';
+    return `
+      <section class="inspector-section" data-kind="${escapeHtml(section.kind)}">
+        <div class="section-header">
+          <span class="section-kind">${escapeHtml(sectionLabels[section.kind] || section.kind)}</span>
+          ${section.kind === 'system' ? '' : `<h2>${escapeHtml(section.title)}</h2>`}
+          <div class="section-roles">${roles}</div>
+        </div>
+        <ul class="checks">${section.checks.map(checkHtml).join('')}</ul>
+      </section>
+    `;
+  }
+
+  function render() {
+    const root = document.getElementById('app');
+    if (!root) { return; }
+
+    if (!state) {
+      root.innerHTML = '<p>Loading…</p>';
+      return;
+    }
+
+    const { user, permissions } = state;
+    const scopeSections = permissions.sections.filter(section => section.kind !== 'system');
+    const badges = [
+      permissions.isAdmin ? '<span class="badge badge-admin">Administrator</span>' : '',
+      user.archived ? '<span class="badge badge-archived">Archived</span>' : '',
+      user.isService ? '<span class="badge">Service account</span>' : ''
+    ].join('');
+
+    root.innerHTML = `
+      <header class="inspector-header">
+        <div>
+          <h1>${escapeHtml(user.displayName)} ${badges}</h1>
+          <p class="inspector-subtitle">${escapeHtml([user.email, user.username && `@${user.username}`].filter(Boolean).join(' · '))}</p>
+        </div>
+        <div class="inspector-actions">
+          <button type="button" id="open-user-btn" class="vscode-button vscode-button--secondary">User Details</button>
+          <button type="button" id="refresh-btn" class="vscode-button vscode-button--secondary">Refresh</button>
+        </div>
+      </header>
+
+      ${permissions.blockedReason ? `<div class="inspector-banner">${escapeHtml(permissions.blockedReason)}</div>` : ''}
+
+      ${permissions.sections.filter(section => section.kind === 'system').map(sectionHtml).join('')}
+      ${scopeSections.length > 0
+        ? scopeSections.map(sectionHtml).join('')
+        : '<p class="empty-value">Not a member of any organization, course family or course.</p>'}
+
+      <p class="inspector-footnote">
+        Only scopes the user is a member of are listed. Without a membership, a scope is only reachable through
+        administrator rights or a system role shown above. The backend has the final say on every request.
+      </p>
+    `;
+
+    attachListeners();
+  }
+
+  function attachListeners() {
+    const refreshBtn = document.getElementById('refresh-btn');
+    if (refreshBtn) {
+      refreshBtn.addEventListener('click', () => post('refresh'));
+    }
+    const openUserBtn = document.getElementById('open-user-btn');
+    if (openUserBtn) {
+      openUserBtn.addEventListener('click', () => post('openUserDetails'));
+    }
+  }
+
+  window.addEventListener('message', (event) => {
+    const message = event.data;
+    if (!message) { return; }
+    switch (message.command) {
+      case 'updateState':
+        state = message.data || state;
+        render();
+        break;
+      default:
+        break;
+    }
+  });
+
+  render();
+})();
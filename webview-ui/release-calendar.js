@@ -0,0 +1,167 @@
+(function () {
+  const vscode = window.vscodeApi || acquireVsCodeApi();
+
+  let state = window.__INITIAL_STATE__ || null;
+  const weekdays = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+  const maxMonths = 6;
+
+  function escapeHtml(value) {
+    if (value === undefined || value === null) { return ''; }
+    return String(value)
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+
+  function post(command, data) {
+    vscode.postMessage({ command, data });
+  }
+
+  function dayKey(date) {
+    return `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+  }
+
+  function entriesByDay() {
+    const map = new Map();
+    state.entries.forEach((entry) => {
+      const key = dayKey(new Date(entry.releaseAt));
+      if (!map.has(key)) { map.set(key, []); }
+      map.get(key).push(entry);
+    });
+    return map;
+  }
+
+  /** Months from the current one up to the last planned release (capped). */
+  function visibleMonths() {
+    const now = new Date(state.now);
+    const first = new Date(now.getFullYear(), now.getMonth(), 1);
+    let last = first;
+    state.entries.forEach((entry) => {
+      const date = new Date(entry.releaseAt);
+      const month = new Date(date.getFullYear(), date.getMonth(), 1);
+      if (month > last) { last = month; }
+    });
+    const months = [];
+    const cursor = new Date(first);
+    while (cursor <= last && months.length < maxMonths) {
+      months.push(new Date(cursor));
+      cursor.setMonth(cursor.getMonth() + 1);
+    }
+    return months;
+  }
+
+  function monthHtml(month, byDay) {
+    const today = dayKey(new Date(state.now));
+    const offset = (month.getDay() + 6) % 7;
+    const daysInMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate();
+    const cells = [];
+    for (let i = 0; i < offset; i++) {
+      cells.push('<div class="calendar-day calendar-day--empty"></div>');
+    }
+    for (let day = 1; day <= daysInMonth; day++) {
+      const date = new Date(month.getFullYear(), month.getMonth(), day);
+      const key = dayKey(date);
+      const entries = byDay.get(key) || [];
+      const classes = ['calendar-day'];
+      if (key === today) { classes.push('calendar-day--today'); }
+      if (entries.length > 0) { classes.push('calendar-day--planned'); }
+      cells.push(`
+        <div class="${classes.join(' ')}">
+          <span class="calendar-day__number">${day}</span>
+          ${entries.map(entry => `
+            <span class="calendar-chip${entry.overdue ? ' calendar-chip--overdue' : ''}" title="${escapeHtml(entry.displayDate)} · ${escapeHtml(entry.courseTitle)}">${escapeHtml(entry.contentTitle)}</span>
+          `).join('')}
+        </div>
+      `);
+    }
+    const title = month.toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+    return `
+      <section class="calendar-month">
+        <h2>${escapeHtml(title)}</h2>
+        <div class="calendar-grid">
+          ${weekdays.map(day => `<div class="calendar-weekday">${day}</div>`).join('')}
+          ${cells.join('')}
+        </div>
+      </section>
+    `;
+  }
+
+  function listHtml() {
+    if (state.entries.length === 0) {
+      return '<p class="release-calendar-empty">No releases planned. Right-click a unit or assignment → <strong>Set Release Date…</strong></p>';
+    }
+    const showCourse = !state.courseId;
+    return `
+      <table class="release-list">
+        <thead>
+          <tr>
+            <th>Date</th>
+            ${showCourse ? '<th>Course</th>' : ''}
+            <th>Content</th>
+            <th>When</th>
+            <th></th>
+          </tr>
+        </thead>
+        <tbody>
+          ${state.entries.map(entry => `
+            <tr class="${entry.overdue ? 'release-row--overdue' : ''}">
+              <td class="release-date">${escapeHtml(entry.displayDate)}</td>
+              ${showCourse ? `<td>${escapeHtml(entry.courseTitle)}</td>` : ''}
+              <td>${escapeHtml(entry.contentTitle)}<div class="release-path">${escapeHtml(entry.contentPath)}</div></td>
+              <td>${escapeHtml(entry.countdown)}${entry.triggeredAt ? ' · triggered' : ''}</td>
+              <td class="release-actions">
+                <button type="button" class="vscode-button vscode-button--primary vscode-button--sm" data-action="releaseNow" data-id="${escapeHtml(entry.contentId)}">Release now</button>
+                <button type="button" class="vscode-button vscode-button--secondary vscode-button--sm" data-action="reschedule" data-id="${escapeHtml(entry.contentId)}">Reschedule</button>
+                <button type="button" class="vscode-button vscode-button--tertiary vscode-button--sm" data-action="remove" data-id="${escapeHtml(entry.contentId)}">Remove</button>
+              </td>
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+    `;
+  }
+
+  function render() {
+    const app = document.getElementById('app');
+    if (!app) { return; }
+    if (!state) {
+      app.innerHTML = '<p>No schedule data.</p>';
+      return;
+    }
+    const byDay = entriesByDay();
+    app.innerHTML = `
+      <header class="release-calendar-header">
+        <div>
+          <h1>Release Calendar</h1>
+          <p class="release-calendar-subtitle">${escapeHtml(state.title)} · ${state.entries.length} planned</p>
+        </div>
+      </header>
+      <section class="release-calendar-section">
+        <h2>Planned releases</h2>
+        ${listHtml()}
+      </section>
+      <div class="calendar-months">
+        ${visibleMonths().map(month => monthHtml(month, byDay)).join('')}
+      </div>
+    `;
+
+    document.querySelectorAll('[data-action]').forEach((el) => {
+      el.addEventListener('click', () => {
+        post(el.getAttribute('data-action'), { contentId: el.getAttribute('data-id') });
+      });
+    });
+  }
+
+  window.addEventListener('message', (event) => {
+    const message = event.data;
+    if (!message) { return; }
+    if (message.command === 'update') {
+      state = message.data;
+      render();
+    }
+  });
+
+  render();
+})();
@@ -94,6 +94,7 @@
                           : `<span class="role-tag">${escapeHtml(roleLabel(member.role_id, availableRoles))}</span>`}
                       </td>
                       <td class="member-actions">
+                        <button type="button" class="secondary" data-inspect-user="${escapeHtml(member.user_id)}" title="Show the roles and permissions of this user">Permissions</button>
                         ${canManage
                           ? `<button type="button" class="danger" data-remove-member="${escapeHtml(member.id)}">Remove</button>`
                           : ''}
@@ -179,6 +180,17 @@
       });
     });
 
+    document.querySelectorAll('[data-inspect-user]').forEach((el) => {
+      el.addEventListener('click', (event) => {
+        event.preventDefault();
+        const target = event.currentTarget;
+        if (!(target instanceof HTMLElement)) { return; }
+        const userId = target.getAttribute('data-inspect-user');
+        if (!userId) { return; }
+        post('inspectPermissions', { user_id: userId });
+      });
+    });
+
     document.querySelectorAll('[data-remove-member]').forEach((el) => {
       el.addEventListener('click', (event) => {
         event.preventDefault();
@@ -0,0 +1,174 @@
+(function () {
+  const vscode = window.vscodeApi || acquireVsCodeApi();
+
+  const state = window.__INITIAL_STATE__ || null;
+  const saved = vscode.getState() || {};
+  const localState = {
+    threshold: typeof saved.threshold === 'number' ? saved.threshold : (state ? state.defaultThreshold : 0.5),
+    expanded: new Set(saved.expanded || [])
+  };
+
+  function escapeHtml(value) {
+    if (value === undefined || value === null) { return ''; }
+    return String(value)
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+
+  function post(command, data) {
+    vscode.postMessage({ command, data });
+  }
+
+  function persist() {
+    vscode.setState({ threshold: localState.threshold, expanded: Array.from(localState.expanded) });
+  }
+
+  function percent(score) {
+    return `${Math.round(score * 100)}%`;
+  }
+
+  function scoreClass(score) {
+    if (score >= 0.8) { return 'score-high'; }
+    if (score >= 0.6) { return 'score-medium'; }
+    return 'score-low';
+  }
+
+  function pairKey(pair) {
+    return `${pair.a}|${pair.b}`;
+  }
+
+  function label(id) {
+    return (state.submissions && state.submissions[id]) || id;
+  }
+
+  function filesHtml(pair) {
+    if (pair.files.length === 0) {
+      return '<p class="similarity-hint">No individual files match.</p>';
+    }
+    return `
+      <table class="similarity-files">
+        <thead>
+          <tr>
+            <th>${escapeHtml(label(pair.a))}</th>
+            <th>${escapeHtml(label(pair.b))}</th>
+            <th class="score-col">Match</th>
+            <th></th>
+          </tr>
+        </thead>
+        <tbody>
+          ${pair.files.map((file, index) => `
+            <tr>
+              <td><code>${escapeHtml(file.pathA)}</code></td>
+              <td><code>${escapeHtml(file.pathB)}</code></td>
+              <td class="score-col"><span class="similarity-score ${scoreClass(file.score)}">${percent(file.score)}</span></td>
+              <td class="action-col">
+                <button type="button" class="vscode-button vscode-button--secondary vscode-button--sm" data-compare="${escapeHtml(pairKey(pair))}" data-file="${index}">Compare</button>
+              </td>
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+    `;
+  }
+
+  function pairsHtml(pairs) {
+    if (pairs.length === 0) {
+      return `<p class="similarity-empty">No pairs at or above ${percent(localState.threshold)}.</p>`;
+    }
+    return pairs.map((pair) => {
+      const key = pairKey(pair);
+      const expanded = localState.expanded.has(key);
+      return `
+        <section class="similarity-pair${expanded ? ' expanded' : ''}">
+          <button type="button" class="similarity-pair-header" data-toggle="${escapeHtml(key)}" aria-expanded="${expanded}">
+            <span class="similarity-chevron">${expanded ? '▾' : '▸'}</span>
+            <span class="similarity-names">${escapeHtml(label(pair.a))} ↔ ${escapeHtml(label(pair.b))}</span>
+            <span class="similarity-score ${scoreClass(pair.score)}">${percent(pair.score)}</span>
+          </button>
+          ${expanded ? filesHtml(pair) : ''}
+        </section>
+      `;
+    }).join('');
+  }
+
+  function render() {
+    const app = document.getElementById('app');
+    if (!app) { return; }
+    if (!state) {
+      app.innerHTML = '<p>No report data.</p>';
+      return;
+    }
+
+    const visible = state.pairs.filter(pair => pair.score >= localState.threshold);
+    const generated = new Date(state.generatedAt).toLocaleString();
+    const notes = [];
+    notes.push(`${state.submissionCount} submissions compared on ${escapeHtml(generated)}`);
+    notes.push(state.templateIgnored ? 'student template excluded' : 'student template not available locally');
+    const skipped = state.skipped.length > 0
+      ? `<p class="similarity-hint">Skipped (not downloadable or no source files): ${state.skipped.map(escapeHtml).join(', ')}</p>`
+      : '';
+
+    app.innerHTML = `
+      <header class="similarity-header">
+        <h1>Similarity: ${escapeHtml(state.target.contentTitle)}</h1>
+        <p class="similarity-subtitle">${notes.join(' · ')}</p>
+        ${skipped}
+      </header>
+      <div class="similarity-toolbar">
+        <label for="threshold">Minimum similarity</label>
+        <input id="threshold" type="range" min="${Math.round(state.minScore * 100)}" max="100" step="5" value="${Math.round(localState.threshold * 100)}">
+        <span class="similarity-threshold-value">${percent(localState.threshold)}</span>
+        <span class="similarity-count">${visible.length} of ${state.pairs.length} pairs</span>
+        <button type="button" id="refresh-btn" class="vscode-button vscode-button--secondary vscode-button--sm">Refresh</button>
+      </div>
+      <div class="similarity-pairs">${pairsHtml(visible)}</div>
+    `;
+
+    bindEvents();
+  }
+
+  function bindEvents() {
+    const threshold = document.getElementById('threshold');
+    if (threshold) {
+      threshold.addEventListener('change', (event) => {
+        localState.threshold = Number(event.target.value) / 100;
+        persist();
+        render();
+      });
+    }
+
+    const refreshBtn = document.getElementById('refresh-btn');
+    if (refreshBtn) {
+      refreshBtn.addEventListener('click', () => post('refresh'));
+    }
+
+    document.querySelectorAll('[data-toggle]').forEach((el) => {
+      el.addEventListener('click', () => {
+        const key = el.getAttribute('data-toggle');
+        if (localState.expanded.has(key)) {
+          localState.expanded.delete(key);
+        } else {
+          localState.expanded.add(key);
+        }
+        persist();
+        render();
+      });
+    });
+
+    document.querySelectorAll('[data-compare]').forEach((el) => {
+      el.addEventListener('click', () => {
+        const key = el.getAttribute('data-compare');
+        const pair = state.pairs.find(p => pairKey(p) === key);
+        const file = pair ? pair.files[Number(el.getAttribute('data-file'))] : undefined;
+        if (pair && file) {
+          post('compare', { a: pair.a, b: pair.b, pathA: file.pathA, pathB: file.pathB });
+        }
+      });
+    });
+  }
+
+  render();
+})();
@@ -0,0 +1,330 @@
+(function () {
+  const vscode = window.vscodeApi || acquireVsCodeApi();
+
+  const state = window.__INITIAL_STATE__ || null;
+  const localState = {
+    busy: false,
+    notice: null,
+    draft: initialDraft()
+  };
+  let draftTimer = null;
+
+  function initialDraft() {
+    const draft = (state && state.draft) || {};
+    const target = state ? state.target : null;
+    const scores = {};
+    if (target && target.rubric) {
+      target.rubric.criteria.forEach((criterion) => {
+        const existing = draft.scores ? draft.scores[criterion.id] : undefined;
+        scores[criterion.id] = {
+          points: existing && typeof existing.points === 'number' ? existing.points : 0,
+          comment: existing && existing.comment ? existing.comment : ''
+        };
+      });
+    }
+    let status = typeof draft.status === 'number' ? draft.status : undefined;
+    if (status === undefined && target && target.previousStatus && state.statusOptions) {
+      const match = state.statusOptions.find(o => o.label === target.previousStatus);
+      if (match) { status = match.value; }
+    }
+    let grade = typeof draft.grade === 'number' ? draft.grade : undefined;
+    if (grade === undefined && target && typeof target.previousGrade === 'number') {
+      grade = target.previousGrade;
+    }
+    return {
+      scores,
+      generalFeedback: draft.generalFeedback || '',
+      status,
+      grade
+    };
+  }
+
+  function escapeHtml(value) {
+    if (value === undefined || value === null) { return ''; }
+    return String(value)
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+
+  function post(command, data) {
+    vscode.postMessage({ command, data });
+  }
+
+  function formatPoints(value) {
+    return Number.isInteger(value) ? String(value) : value.toFixed(2).replace(/0+$/, '').replace(/\.$/, '');
+  }
+
+  function clampPoints(criterion, value) {
+    const n = Number(value);
+    if (!isFinite(n)) { return 0; }
+    return Math.max(0, Math.min(criterion.maxPoints, n));
+  }
+
+  function computeTotals() {
+    const rubric = state.target.rubric;
+    if (!rubric) { return null; }
+    let achieved = 0;
+    let max = 0;
+    rubric.criteria.forEach((criterion) => {
+      max += criterion.maxPoints;
+      const score = localState.draft.scores[criterion.id];
+      achieved += clampPoints(criterion, score ? score.points : 0);
+    });
+    const grade = max > 0 ? Math.round(Math.max(0, Math.min(1, achieved / max)) * 100) / 100 : 0;
+    return { achieved, max, grade };
+  }
+
+  function scheduleDraftSave() {
+    if (draftTimer) { clearTimeout(draftTimer); }
+    draftTimer = setTimeout(() => {
+      draftTimer = null;
+      post('saveDraft', localState.draft);
+    }, 500);
+  }
+
+  function noticeHtml() {
+    if (!localState.notice) { return ''; }
+    const { type, message } = localState.notice;
+    return `<div class="grading-notice grading-notice-${escapeHtml(type)}">${escapeHtml(message)}</div>`;
+  }
+
+  function previousHtml(target) {
+    const parts = [];
+    if (typeof target.previousGrade === 'number') {
+      parts.push(`Previous grade: <strong>${escapeHtml(target.previousGrade.toFixed(2))}</strong>`);
+    }
+    if (target.previousStatus) {
+      parts.push(`Status: <strong>${escapeHtml(target.previousStatus)}</strong>`);
+    }
+    if (!target.artifactId) {
+      parts.push('<em>No submitted artifact — the grade is not tied to a submission.</em>');
+    }
+    return parts.length > 0 ? `<p class="grading-previous">${parts.join(' · ')}</p>` : '';
+  }
+
+  function rubricHtml(rubric) {
+    return `
+      <section class="grading-section">
+        <div class="grading-section-header">
+          <h2>Rubric</h2>
+          <span class="grading-total" id="grading-total"></span>
+        </div>
+        <table class="grading-rubric">
+          <thead>
+            <tr>
+              <th>Criterion</th>
+              <th class="points-col">Points</th>
+              <th>Comment</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${rubric.criteria.map((criterion) => {
+              const score = localState.draft.scores[criterion.id] || { points: 0, comment: '' };
+              return `
+                <tr>
+                  <td>
+                    <div class="criterion-title">${escapeHtml(criterion.title)}</div>
+                    ${criterion.description ? `<div class="criterion-description">${escapeHtml(criterion.description)}</div>` : ''}
+                  </td>
+                  <td class="points-col">
+                    <input type="number" min="0" max="${escapeHtml(criterion.maxPoints)}" step="0.5"
+                      data-points="${escapeHtml(criterion.id)}" value="${escapeHtml(score.points)}" />
+                    <span class="points-max">/ ${escapeHtml(formatPoints(criterion.maxPoints))}</span>
+                    <button type="button" class="link-button" data-full="${escapeHtml(criterion.id)}" title="Award full points">max</button>
+                  </td>
+                  <td>
+                    <textarea rows="2" data-comment="${escapeHtml(criterion.id)}" placeholder="Optional comment">${escapeHtml(score.comment)}</textarea>
+                  </td>
+                </tr>
+              `;
+            }).join('')}
+          </tbody>
+        </table>
+      </section>
+    `;
+  }
+
+  function manualGradeHtml() {
+    const grade = localState.draft.grade;
+    return `
+      <section class="grading-section">
+        <div class="grading-section-header">
+          <h2>Grade</h2>
+        </div>
+        <p class="grading-hint">No rubric is defined for this assignment (<code>properties.gradingRubric</code> in meta.yaml). Enter the grade directly.</p>
+        <div class="form-field">
+          <label for="manual-grade">Grade (0.00 – 1.00)</label>
+          <input id="manual-grade" type="number" min="0" max="1" step="0.01" value="${grade === undefined ? '' : escapeHtml(grade.toFixed(2))}" />
+        </div>
+      </section>
+    `;
+  }
+
+  function renderRoot() {
+    const root = document.getElementById('app');
+    if (!root) { return; }
+
+    if (!state) {
+      root.innerHTML = '<p>Loading…</p>';
+      return;
+    }
+
+    const { target, statusOptions } = state;
+    const subtitle = [target.memberLabel, target.contentPath].filter(Boolean).join(' · ');
+
+    root.innerHTML = `
+      <header class="grading-header">
+        <h1>${escapeHtml(target.contentTitle)}</h1>
+        ${subtitle ? `<p class="grading-subtitle">${escapeHtml(subtitle)}</p>` : ''}
+        ${previousHtml(target)}
+      </header>
+
+      ${noticeHtml()}
+
+      ${target.rubric ? rubricHtml(target.rubric) : manualGradeHtml()}
+
+      <section class="grading-section">
+        <div class="form-field">
+          <label for="grading-status">Status</label>
+          <select id="grading-status">
+            <option value="" disabled${localState.draft.status === undefined ? ' selected' : ''}>Choose status…</option>
+            ${statusOptions.map(o => `<option value="${escapeHtml(o.value)}"${o.value === localState.draft.status ? ' selected' : ''}>${escapeHtml(o.description)}</option>`).join('')}
+          </select>
+        </div>
+        <div class="form-field">
+          <label for="general-feedback">Feedback for the student</label>
+          <textarea id="general-feedback" rows="5" placeholder="General remarks (Markdown)">${escapeHtml(localState.draft.generalFeedback)}</textarea>
+        </div>
+      </section>
+
+      <div class="grading-actions">
+        <button type="button" id="cancel-btn" class="secondary">Cancel</button>
+        <button type="button" id="submit-btn" class="primary"${localState.busy ? ' disabled' : ''}>${localState.busy ? 'Submitting…' : 'Submit Grade'}</button>
+      </div>
+    `;
+
+    attachListeners();
+    updateTotals();
+  }
+
+  function updateTotals() {
+    const totalEl = document.getElementById('grading-total');
+    const totals = computeTotals();
+    if (!totalEl || !totals) { return; }
+    totalEl.textContent = `${formatPoints(totals.achieved)} / ${formatPoints(totals.max)} points · grade ${totals.grade.toFixed(2)}`;
+  }
+
+  function attachListeners() {
+    document.querySelectorAll('[data-points]').forEach((el) => {
+      el.addEventListener('input', (event) => {
+        const input = event.currentTarget;
+        if (!(input instanceof HTMLInputElement)) { return; }
+        const id = input.getAttribute('data-points');
+        if (!id || !localState.draft.scores[id]) { return; }
+        localState.draft.scores[id].points = Number(input.value);
+        updateTotals();
+        scheduleDraftSave();
+      });
+    });
+
+    document.querySelectorAll('[data-full]').forEach((el) => {
+      el.addEventListener('click', (event) => {
+        const button = event.currentTarget;
+        if (!(button instanceof HTMLElement)) { return; }
+        const id = button.getAttribute('data-full');
+        const criterion = state.target.rubric.criteria.find(c => c.id === id);
+        if (!criterion) { return; }
+        localState.draft.scores[id].points = criterion.maxPoints;
+        const input = document.querySelector(`[data-points="${CSS.escape(id)}"]`);
+        if (input instanceof HTMLInputElement) { input.value = String(criterion.maxPoints); }
+        updateTotals();
+        scheduleDraftSave();
+      });
+    });
+
+    document.querySelectorAll('[data-comment]').forEach((el) => {
+      el.addEventListener('input', (event) => {
+        const textarea = event.currentTarget;
+        if (!(textarea instanceof HTMLTextAreaElement)) { return; }
+        const id = textarea.getAttribute('data-comment');
+        if (!id || !localState.draft.scores[id]) { return; }
+        localState.draft.scores[id].comment = textarea.value;
+        scheduleDraftSave();
+      });
+    });
+
+    const manualGrade = document.getElementById('manual-grade');
+    if (manualGrade instanceof HTMLInputElement) {
+      manualGrade.addEventListener('input', () => {
+        const value = manualGrade.value.trim();
+        localState.draft.grade = value === '' ? undefined : Number(value);
+        scheduleDraftSave();
+      });
+    }
+
+    const statusSelect = document.getElementById('grading-status');
+    if (statusSelect instanceof HTMLSelectElement) {
+      statusSelect.addEventListener('change', () => {
+        localState.draft.status = Number(statusSelect.value);
+        scheduleDraftSave();
+      });
+    }
+
+    const feedback = document.getElementById('general-feedback');
+    if (feedback instanceof HTMLTextAreaElement) {
+      feedback.addEventListener('input', () => {
+        localState.draft.generalFeedback = feedback.value;
+        scheduleDraftSave();
+      });
+    }
+
+    const cancelBtn = document.getElementById('cancel-btn');
+    if (cancelBtn) {
+      cancelBtn.addEventListener('click', () => post('cancel'));
+    }
+
+    const submitBtn = document.getElementById('submit-btn');
+    if (submitBtn) {
+      submitBtn.addEventListener('click', () => {
+        if (localState.draft.status === undefined) {
+          showNotice('warning', 'Choose a status before submitting.');
+          return;
+        }
+        if (!state.target.rubric) {
+          const grade = localState.draft.grade;
+          if (grade === undefined || !isFinite(grade) || grade < 0 || grade > 1) {
+            showNotice('warning', 'Enter a grade between 0.00 and 1.00.');
+            return;
+          }
+        }
+        post('submit', localState.draft);
+      });
+    }
+  }
+
+  function showNotice(type, message) {
+    localState.notice = { type, message };
+    renderRoot();
+  }
+
+  window.addEventListener('message', (event) => {
+    const message = event.data;
+    if (!message) { return; }
+    switch (message.command) {
+      case 'notice':
+        if (message.notice) { showNotice(message.notice.type, message.notice.message); }
+        break;
+      case 'setBusy':
+        localState.busy = !!(message.data && message.data.busy);
+        renderRoot();
+        break;
+      default:
+        break;
+    }
+  });
+
+  renderRoot();
+})();
@@ -0,0 +1,185 @@
+(function () {
+  const vscode = window.vscodeApi || acquireVsCodeApi();
+
+  let state = window.__INITIAL_STATE__ || null;
+  let strategy = 'loadBalanced';
+  let reassign = false;
+  let busy = false;
+
+  const strategies = [
+    { id: 'loadBalanced', label: 'Load-balanced', hint: 'Each submission goes to the tutor with the fewest pending ones.' },
+    { id: 'roundRobin', label: 'Round-robin', hint: 'Submissions are handed out in name order, one tutor after the other.' },
+    { id: 'byGroup', label: 'By course group', hint: 'Only tutors of the student\'s own course group are considered.' }
+  ];
+
+  function escapeHtml(value) {
+    if (value === undefined || value === null) { return ''; }
+    return String(value)
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+
+  function post(command, data) {
+    vscode.postMessage({ command, data });
+  }
+
+  function tutorRowsHtml() {
+    const { summary } = state;
+    if (summary.tutors.length === 0) {
+      return '<tr><td colspan="3" class="empty">This course has no tutors.</td></tr>';
+    }
+    const rows = summary.tutors.map(row => `
+      <tr>
+        <td>${escapeHtml(row.name)}</td>
+        <td class="col-count">${row.pending}</td>
+        <td class="col-count">${row.graded}</td>
+      </tr>
+    `);
+    rows.push(`
+      <tr class="row-muted">
+        <td>Unassigned</td>
+        <td class="col-count">${summary.unassignedPending}</td>
+        <td class="col-count">${summary.gradedByOthers > 0 ? `${summary.gradedByOthers} by others` : ''}</td>
+      </tr>
+    `);
+    return rows.join('');
+  }
+
+  function tutorOptionsHtml(submission) {
+    const options = ['<option value="">Unassigned</option>'].concat(state.tutors.map(tutor => `
+      <option value="${escapeHtml(tutor.userId)}" ${tutor.userId === submission.tutorUserId ? 'selected' : ''}>${escapeHtml(tutor.name)}</option>
+    `));
+    return options.join('');
+  }
+
+  function submissionRowsHtml() {
+    if (state.submissions.length === 0) {
+      return '<tr><td colspan="4" class="empty">No submissions yet.</td></tr>';
+    }
+    return state.submissions.map(submission => `
+      <tr>
+        <td>${escapeHtml(submission.name)}</td>
+        <td>${submission.groupTitle ? escapeHtml(submission.groupTitle) : '<span class="muted">No group</span>'}</td>
+        <td>
+          ${submission.pending ? '<span class="status-chip status-pending">Pending</span>' : ''}
+          ${submission.graded ? `<span class="status-chip status-graded">Graded${submission.graderLabel ? ` by ${escapeHtml(submission.graderLabel)}` : ''}</span>` : ''}
+        </td>
+        <td>
+          <select class="vscode-select tutor-select" data-member-id="${escapeHtml(submission.courseMemberId)}" ${busy ? 'disabled' : ''}>${tutorOptionsHtml(submission)}</select>
+        </td>
+      </tr>
+    `).join('');
+  }
+
+  function render() {
+    const root = document.getElementById('app');
+    if (!root) { return; }
+
+    if (!state) {
+      root.innerHTML = '<p>Loading…</p>';
+      return;
+    }
+
+    const { target } = state;
+    const selected = strategies.find(s => s.id === strategy) || strategies[0];
+
+    root.innerHTML = `
+      <header class="workload-header">
+        <div>
+          <h1>Tutor Workload</h1>
+          <p class="workload-subtitle">${escapeHtml(target.contentTitle)} · ${escapeHtml(target.courseTitle)}</p>
+        </div>
+        <button type="button" id="refresh-btn" class="vscode-button vscode-button--secondary" ${busy ? 'disabled' : ''}>Refresh</button>
+      </header>
+
+      <section class="workload-section">
+        <table class="workload-table">
+          <thead><tr><th>Tutor</th><th class="col-count">Pending</th><th class="col-count">Graded</th></tr></thead>
+          <tbody>${tutorRowsHtml()}</tbody>
+        </table>
+      </section>
+
+      <section class="workload-section distribute">
+        <label for="strategy-select">Distribute ungraded submissions</label>
+        <div class="distribute-controls">
+          <select id="strategy-select" class="vscode-select" ${busy ? 'disabled' : ''}>
+            ${strategies.map(s => `<option value="${s.id}" ${s.id === strategy ? 'selected' : ''}>${escapeHtml(s.label)}</option>`).join('')}
+          </select>
+          <label class="reassign-option">
+            <input type="checkbox" id="reassign-input" ${reassign ? 'checked' : ''} ${busy ? 'disabled' : ''}>
+            Reassign submissions that already have a tutor
+          </label>
+          <button type="button" id="distribute-btn" class="vscode-button vscode-button--primary" ${busy ? 'disabled' : ''}>Distribute</button>
+        </div>
+        <p class="hint">${escapeHtml(selected.hint)}</p>
+      </section>
+
+      <section class="workload-section">
+        <table class="workload-table">
+          <thead><tr><th>Student</th><th>Group</th><th>Status</th><th>Tutor</th></tr></thead>
+          <tbody>${submissionRowsHtml()}</tbody>
+        </table>
+      </section>
+    `;
+
+    attachListeners();
+  }
+
+  function attachListeners() {
+    const refreshBtn = document.getElementById('refresh-btn');
+    if (refreshBtn) {
+      refreshBtn.addEventListener('click', () => {
+        busy = true;
+        render();
+        post('refresh');
+      });
+    }
+    const strategySelect = document.getElementById('strategy-select');
+    if (strategySelect) {
+      strategySelect.addEventListener('change', () => {
+        strategy = strategySelect.value;
+        render();
+      });
+    }
+    const reassignInput = document.getElementById('reassign-input');
+    if (reassignInput) {
+      reassignInput.addEventListener('change', () => {
+        reassign = reassignInput.checked;
+      });
+    }
+    const distributeBtn = document.getElementById('distribute-btn');
+    if (distributeBtn) {
+      distributeBtn.addEventListener('click', () => {
+        busy = true;
+        render();
+        post('distribute', { strategy, reassign });
+      });
+    }
+    document.querySelectorAll('.tutor-select').forEach(select => {
+      select.addEventListener('change', () => {
+        busy = true;
+        post('assign', { courseMemberId: select.dataset.memberId, tutorUserId: select.value });
+        render();
+      });
+    });
+  }
+
+  window.addEventListener('message', (event) => {
+    const message = event.data;
+    if (!message) { return; }
+    switch (message.command) {
+      case 'updateState':
+        state = message.data || state;
+        busy = false;
+        render();
+        break;
+      default:
+        break;
+    }
+  });
+
+  render();
+})();
@@ -0,0 +1,131 @@
+(function () {
+  const vscode = window.vscodeApi || acquireVsCodeApi();
+
+  let state = {
+    fileName: '',
+    rows: [],
+    creating: false,
+    ...(window.__INITIAL_STATE__ || {})
+  };
+
+  const statusLabels = {
+    ready: 'Ready',
+    invalid: 'Invalid',
+    exists: 'Already exists',
+    created: 'Created',
+    failed: 'Failed'
+  };
+
+  function escapeHtml(value) {
+    if (value === undefined || value === null) {
+      return '';
+    }
+    return String(value)
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+
+  function post(command, data) {
+    vscode.postMessage({ command, data });
+  }
+
+  function countByStatus() {
+    const counts = {};
+    state.rows.forEach(function (row) {
+      counts[row.status] = (counts[row.status] || 0) + 1;
+    });
+    return counts;
+  }
+
+  function render() {
+    const root = document.getElementById('app');
+    if (!root) {
+      return;
+    }
+
+    const counts = countByStatus();
+    const ready = counts.ready || 0;
+    const summary = Object.keys(statusLabels)
+      .filter(function (status) { return counts[status]; })
+      .map(function (status) {
+        return '<span class="status-chip status-' + status + '">' + escapeHtml(statusLabels[status]) + ': ' + counts[status] + '</span>';
+      })
+      .join('');
+
+    const rowsHtml = state.rows.map(function (row) {
+      const name = [row.given_name, row.family_name].filter(Boolean).join(' ');
+      return '<tr class="row-' + escapeHtml(row.status) + '">'
+        + '<td class="col-line">' + row.line + '</td>'
+        + '<td>' + escapeHtml(row.username) + '</td>'
+        + '<td>' + escapeHtml(row.email) + '</td>'
+        + '<td>' + escapeHtml(name) + '</td>'
+        + '<td>' + escapeHtml((row.roles || []).join(', ')) + '</td>'
+        + '<td><span class="status-chip status-' + escapeHtml(row.status) + '">' + escapeHtml(statusLabels[row.status] || row.status) + '</span></td>'
+        + '<td class="col-message">' + escapeHtml(row.message) + '</td>'
+        + '</tr>';
+    }).join('');
+
+    root.innerHTML = `
+      <div class="bulk-container">
+        <div class="header">
+          <h1>Bulk Create Users</h1>
+          <p>${escapeHtml(state.fileName)} · ${state.rows.length} row${state.rows.length === 1 ? '' : 's'}</p>
+          <p class="hint">Columns: <code>email</code> (required), <code>username</code> (defaults to the part of the email before @), <code>given_name</code>, <code>family_name</code>, <code>roles</code> (separated by <code>;</code>).</p>
+        </div>
+        <div class="toolbar">
+          <button id="createBtn" class="vscode-button vscode-button--primary" ${ready === 0 || state.creating ? 'disabled' : ''}>
+            ${state.creating ? 'Creating…' : `Create ${ready} User${ready === 1 ? '' : 's'}`}
+          </button>
+          <button id="reportBtn" class="vscode-button vscode-button--secondary" ${state.rows.length === 0 ? 'disabled' : ''}>Download Report</button>
+          <button id="reloadBtn" class="vscode-button vscode-button--secondary" ${state.creating ? 'disabled' : ''}>Reload File</button>
+          <button id="pickBtn" class="vscode-button vscode-button--secondary" ${state.creating ? 'disabled' : ''}>Choose Another File</button>
+          <div class="summary">${summary}</div>
+        </div>
+        <div class="table-wrapper">
+          <table class="rows-table">
+            <thead>
+              <tr><th>Row</th><th>Username</th><th>Email</th><th>Name</th><th>Roles</th><th>Status</th><th>Result</th></tr>
+            </thead>
+            <tbody>${rowsHtml || '<tr><td colspan="7" class="empty">The file has no data rows.</td></tr>'}</tbody>
+          </table>
+        </div>
+      </div>
+    `;
+
+    attachEventListeners();
+  }
+
+  function attachEventListeners() {
+    const createBtn = document.getElementById('createBtn');
+    if (createBtn) {
+      createBtn.addEventListener('click', function () { post('createUsers'); });
+    }
+    const reportBtn = document.getElementById('reportBtn');
+    if (reportBtn) {
+      reportBtn.addEventListener('click', function () { post('downloadReport'); });
+    }
+    const reloadBtn = document.getElementById('reloadBtn');
+    if (reloadBtn) {
+      reloadBtn.addEventListener('click', function () { post('reloadFile'); });
+    }
+    const pickBtn = document.getElementById('pickBtn');
+    if (pickBtn) {
+      pickBtn.addEventListener('click', function () { post('pickFile'); });
+    }
+  }
+
+  window.addEventListener('message', function (event) {
+    const message = event.data;
+    switch (message.command) {
+      case 'updateState':
+        state = { ...state, ...(message.data || {}) };
+        render();
+        break;
+    }
+  });
+
+  render();
+})();
@@ -191,6 +191,9 @@
           </div>
         </form>
         ` : '<p class="field-hint">All available roles are already assigned.</p>'}
+        <div class="form-actions">
+          <button type="button" id="inspect-permissions-btn">Inspect Effective Permissions</button>
+        </div>
       </section>
 
       <section class="user-section" aria-labelledby="section-profile">
@@ -306,6 +309,11 @@
       passwordResetForm.addEventListener('submit', handlePasswordReset);
     }
 
+    const inspectBtn = document.getElementById('inspect-permissions-btn');
+    if (inspectBtn) {
+      inspectBtn.addEventListener('click', () => post('inspectPermissions'));
+    }
+
     const archiveBtn = document.getElementById('archive-toggle-btn');
     if (archiveBtn) {
       archiveBtn.addEventListener('click', () => {
@@ -0,0 +1,223 @@
+(function () {
+  const vscode = window.vscodeApi || acquireVsCodeApi();
+
+  let state = window.__INITIAL_STATE__ || null;
+  const saved = vscode.getState() || {};
+  const localState = {
+    deselected: new Set(saved.deselected || []),
+    expanded: new Set(saved.expanded || [])
+  };
+
+  function escapeHtml(value) {
+    if (value === undefined || value === null) { return ''; }
+    return String(value)
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+
+  function post(command, data) {
+    vscode.postMessage({ command, data });
+  }
+
+  function persist() {
+    vscode.setState({ deselected: Array.from(localState.deselected), expanded: Array.from(localState.expanded) });
+  }
+
+  function pendingRows() {
+    return state.rows.filter(row => !row.result);
+  }
+
+  function selectedIds() {
+    return pendingRows()
+      .map(row => row.courseContentId)
+      .filter(id => !localState.deselected.has(id));
+  }
+
+  function fileCount(files) {
+    return files ? files.added.length + files.modified.length + files.removed.length : 0;
+  }
+
+  function filesSummary(row) {
+    if (!row.studentFiles) {
+      return '<span class="upgrade-muted">not available</span>';
+    }
+    const total = fileCount(row.studentFiles);
+    if (total === 0) {
+      return '<span class="upgrade-muted">unchanged</span>';
+    }
+    const parts = [];
+    if (row.studentFiles.added.length) { parts.push(`<span class="upgrade-added">+${row.studentFiles.added.length}</span>`); }
+    if (row.studentFiles.modified.length) { parts.push(`<span class="upgrade-modified">~${row.studentFiles.modified.length}</span>`); }
+    if (row.studentFiles.removed.length) { parts.push(`<span class="upgrade-removed">−${row.studentFiles.removed.length}</span>`); }
+    return `<button type="button" class="upgrade-link" data-toggle="${escapeHtml(row.courseContentId)}">${total} file${total === 1 ? '' : 's'}</button> ${parts.join(' ')}`;
+  }
+
+  function filesDetail(row) {
+    const files = row.studentFiles;
+    const entries = [
+      ...files.added.map(file => ['added', file]),
+      ...files.modified.map(file => ['modified', file]),
+      ...files.removed.map(file => ['removed', file])
+    ];
+    return `
+      <tr class="upgrade-files-row">
+        <td></td>
+        <td colspan="4">
+          <ul class="upgrade-files">
+            ${entries.map(([kind, file]) => `<li><span class="upgrade-${kind}">${kind}</span> <code>${escapeHtml(file)}</code></li>`).join('')}
+          </ul>
+        </td>
+      </tr>
+    `;
+  }
+
+  function statusCell(row) {
+    if (!row.result) {
+      return '';
+    }
+    return row.result.success
+      ? '<span class="upgrade-status upgrade-status--ok">upgraded</span>'
+      : `<span class="upgrade-status upgrade-status--failed" title="${escapeHtml(row.result.error || '')}">failed</span>`;
+  }
+
+  function rowsHtml() {
+    return state.rows.map(row => {
+      const id = row.courseContentId;
+      const done = !!row.result;
+      const checked = !done && !localState.deselected.has(id);
+      const submitted = !row.submitted
+        ? '<span class="upgrade-muted" title="Submissions could not be loaded">unknown</span>'
+        : row.submitted.students > 0
+          ? `<span class="upgrade-warning">${row.submitted.students} student${row.submitted.students === 1 ? '' : 's'}</span>`
+          : '<span class="upgrade-muted">none</span>';
+      const expanded = localState.expanded.has(id) && fileCount(row.studentFiles) > 0;
+      return `
+        <tr class="${done ? 'upgrade-done' : ''}">
+          <td class="check-col"><input type="checkbox" data-select="${escapeHtml(id)}" ${checked ? 'checked' : ''} ${done || state.running ? 'disabled' : ''}></td>
+          <td>
+            <div class="upgrade-title">${escapeHtml(row.title)}</div>
+            <div class="upgrade-muted">${escapeHtml(row.exampleIdentifier || row.path)}</div>
+          </td>
+          <td class="upgrade-version"><code>${escapeHtml(row.fromTag || '?')}</code> → <code>${escapeHtml(row.toTag || 'latest')}</code></td>
+          <td>${filesSummary(row)}</td>
+          <td>${submitted} ${statusCell(row)}</td>
+        </tr>
+        ${expanded ? filesDetail(row) : ''}
+      `;
+    }).join('');
+  }
+
+  function render() {
+    const app = document.getElementById('app');
+    if (!app) { return; }
+    if (!state) {
+      app.innerHTML = '<p>No preview data.</p>';
+      return;
+    }
+
+    const selected = selectedIds();
+    const submittedStudents = state.rows
+      .filter(row => selected.includes(row.courseContentId))
+      .reduce((sum, row) => sum + (row.submitted ? row.submitted.students : 0), 0);
+    const pending = pendingRows();
+
+    app.innerHTML = `
+      <header class="upgrade-header">
+        <h1>Upgrade example versions${state.scopeLabel ? ` — ${escapeHtml(state.scopeLabel)}` : ''}</h1>
+        <p class="upgrade-subtitle">
+          Student files are the files in <code>studentTemplates</code> and those listed as <code>studentTemplates</code> or <code>additionalFiles</code> in meta.yaml.
+          Submissions count when they were made after the current version was deployed.
+        </p>
+        ${state.summary ? `<p class="upgrade-summary">${escapeHtml(state.summary)}</p>` : ''}
+      </header>
+      <table class="upgrade-table">
+        <thead>
+          <tr>
+            <th class="check-col"><input type="checkbox" id="select-all" ${pending.length > 0 && selected.length === pending.length ? 'checked' : ''} ${pending.length === 0 || state.running ? 'disabled' : ''}></th>
+            <th>Assignment</th>
+            <th>Version</th>
+            <th>Student files</th>
+            <th>Submitted</th>
+          </tr>
+        </thead>
+        <tbody>${rowsHtml()}</tbody>
+      </table>
+      <div class="upgrade-actions">
+        <span class="upgrade-muted">${selected.length} of ${pending.length} selected${submittedStudents > 0 ? ` · ${submittedStudents} student(s) already submitted against the current version` : ''}</span>
+        <button type="button" id="close-btn" class="vscode-button vscode-button--secondary">Close</button>
+        <button type="button" id="upgrade-btn" class="vscode-button vscode-button--primary" ${selected.length === 0 || state.running ? 'disabled' : ''}>
+          ${state.running ? 'Upgrading…' : `Upgrade ${selected.length} assignment${selected.length === 1 ? '' : 's'}`}
+        </button>
+      </div>
+    `;
+
+    bindEvents();
+  }
+
+  function bindEvents() {
+    document.querySelectorAll('[data-select]').forEach((el) => {
+      el.addEventListener('change', () => {
+        const id = el.getAttribute('data-select');
+        if (el.checked) {
+          localState.deselected.delete(id);
+        } else {
+          localState.deselected.add(id);
+        }
+        persist();
+        render();
+      });
+    });
+
+    const selectAll = document.getElementById('select-all');
+    if (selectAll) {
+      selectAll.addEventListener('change', () => {
+        pendingRows().forEach(row => {
+          if (selectAll.checked) {
+            localState.deselected.delete(row.courseContentId);
+          } else {
+            localState.deselected.add(row.courseContentId);
+          }
+        });
+        persist();
+        render();
+      });
+    }
+
+    document.querySelectorAll('[data-toggle]').forEach((el) => {
+      el.addEventListener('click', () => {
+        const id = el.getAttribute('data-toggle');
+        if (localState.expanded.has(id)) {
+          localState.expanded.delete(id);
+        } else {
+          localState.expanded.add(id);
+        }
+        persist();
+        render();
+      });
+    });
+
+    const upgradeBtn = document.getElementById('upgrade-btn');
+    if (upgradeBtn) {
+      upgradeBtn.addEventListener('click', () => post('upgrade', { courseContentIds: selectedIds() }));
+    }
+
+    const closeBtn = document.getElementById('close-btn');
+    if (closeBtn) {
+      closeBtn.addEventListener('click', () => post('close'));
+    }
+  }
+
+  window.addEventListener('message', (event) => {
+    const message = event.data;
+    if (!message) { return; }
+    if (message.command === 'update') {
+      state = message.data;
+      render();
+    }
+  });
+
+  render();
+})();